@@ -19,10 +19,16 @@ module.exports = {
 
   // These are the URLs of the OneDrive API endpoints. You would not need to change anything here if you are using OneDrive International
   // or E5 Subscription OneDrive for Business. You may need to change these if you are using OneDrive 世纪互联.
+  // To serve a SharePoint document library or any other drive, point driveApi at it with one of:
+  // - https://graph.microsoft.com/v1.0/drives/{drive-id}
+  // - https://graph.microsoft.com/v1.0/sites/{site-id}/drive (the default library of the site)
+  // - https://graph.microsoft.com/v1.0/sites/{site-id}/drives/{drive-id}
+  // The drive can also be picked after signing in, in step 3 of the OAuth process.
   authApi: 'https://login.microsoftonline.com/common/oauth2/v2.0/token',
   driveApi: 'https://graph.microsoft.com/v1.0/me/drive',
 
   // The scope we require are listed here, in most cases you would not need to change this as well.
+  // Add 'sites.read.all' if you want to serve a SharePoint site document library.
   scope: 'user.read files.read.all offline_access',
 
   // Cache-Control header, check Vercel documentation for more details. The default settings imply:
@@ -31,4 +37,10 @@ module.exports = {
   // - stale-while-revalidate: allow serving stale content while revalidating on the edge
   // https://vercel.com/docs/concepts/edge-network/caching
   cacheControlHeader: 'max-age=0, s-maxage=60, stale-while-revalidate',
+
+  // Raw links with '&proxy=true' stream files through this site instead of redirecting to the OneDrive download host,
+  // forwarding Range requests so that videos can be seeked and downloads resumed. Files larger than this size (in
+  // bytes) are still redirected. Vercel limits responses of serverless functions to 4.5MB, so only raise it (or set it
+  // to 0 for no limit) when running on your own server.
+  proxyMaxFileSize: 4194304,
 }
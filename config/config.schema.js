@@ -0,0 +1,266 @@
+/**
+ * This file describes what site.config.js and api.config.js may contain. It is checked when the site is built and
+ * started, and by /api/health, so that mistakes show up as clear messages rather than failing requests later on.
+ * You do not need to change anything here.
+ */
+const dayjs = require('dayjs')
+
+/**
+ * @typedef {{ path: string, message: string, level: 'error' | 'warning' }} ConfigProblem
+ * @typedef {(value: unknown, path: string) => ConfigProblem[]} Validator
+ */
+
+const error = (path, message) => [{ path, message, level: 'error' }]
+const warning = (path, message) => [{ path, message, level: 'warning' }]
+
+/** @returns {Validator} */
+const string =
+  ({ nonEmpty = false, pattern = null, hint = '' } = {}) =>
+  (value, path) => {
+    if (typeof value !== 'string') return error(path, `must be a string, got ${typeOf(value)}`)
+    if (nonEmpty && value.trim() === '') return error(path, 'must not be empty')
+    if (pattern && !pattern.test(value)) return error(path, hint || `must match ${pattern}`)
+    return []
+  }
+
+/** @returns {Validator} */
+const boolean = () => (value, path) =>
+  typeof value === 'boolean' ? [] : error(path, `must be true or false, got ${typeOf(value)}`)
+
+/** @returns {Validator} */
+const integer =
+  ({ min = -Infinity, max = Infinity } = {}) =>
+  (value, path) =>
+    Number.isInteger(value) && value >= min && value <= max
+      ? []
+      : error(path, `must be a whole number from ${min} to ${max}, got ${JSON.stringify(value)}`)
+
+/** @returns {Validator} */
+const oneOf = values => (value, path) =>
+  values.includes(value)
+    ? []
+    : error(path, `must be one of ${values.map(v => `'${v}'`).join(', ')}, got ${JSON.stringify(value)}`)
+
+/** @returns {Validator} */
+const arrayOf = item => (value, path) =>
+  Array.isArray(value)
+    ? value.flatMap((v, i) => item(v, `${path}[${i}]`))
+    : error(path, `must be an array, got ${typeOf(value)}`)
+
+/**
+ * @param {Record<string, Validator>} fields Validators of the fields, fields not listed are allowed
+ * @param {string[]} optional Fields that may be left out
+ * @returns {Validator}
+ */
+const object =
+  (fields, optional = []) =>
+  (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return error(path, `must be an object, got ${typeOf(value)}`)
+    }
+    return Object.entries(fields).flatMap(([key, validate]) => {
+      const fieldPath = path ? `${path}.${key}` : key
+      if (value[key] === undefined) return optional.includes(key) ? [] : error(fieldPath, 'is missing')
+      return validate(value[key], fieldPath)
+    })
+  }
+
+const typeOf = value => (value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value)
+
+const url = string({ pattern: /^https?:\/\/\S+$/, hint: 'must be an http(s) URL' })
+const absolutePath = string({ pattern: /^\//, hint: "must start with '/', e.g. '/Public'" })
+const accessPolicy = { users: arrayOf(string()), roles: arrayOf(string()), sso: boolean() }
+
+const siteConfigSchema = object(
+  {
+    userPrincipalName: string({ pattern: /^[^@\s]+@[^@\s]+$/, hint: 'must be the email address of your account' }),
+    icon: string(),
+    kvPrefix: string(),
+    kvStore: oneOf(['redis', 'http', 'file', 'memory']),
+    title: string({ nonEmpty: true }),
+    baseDirectory: absolutePath,
+    drives: arrayOf(
+      object(
+        {
+          id: string({ pattern: /^[^/\\]+$/, hint: 'must be a folder name, without slashes' }),
+          driveApi: url,
+          baseDirectory: absolutePath,
+          userPrincipalName: string(),
+        },
+        ['driveApi', 'baseDirectory', 'userPrincipalName']
+      )
+    ),
+    maxItems: integer({ min: 1, max: 200 }),
+    googleFontSans: string(),
+    googleFontMono: string(),
+    googleFontLinks: arrayOf(url),
+    footer: string(),
+    protectedRoutes: arrayOf(string({ nonEmpty: true })),
+    discoverProtectedRoutes: boolean(),
+    ssoRoutes: arrayOf(string({ nonEmpty: true })),
+    oidc: object({
+      issuer: string(),
+      clientId: string(),
+      allowedDomains: arrayOf(string()),
+      allowedGroups: arrayOf(string()),
+      trustedTenants: arrayOf(string({ nonEmpty: true })),
+    }),
+    hiddenPatterns: arrayOf(string()),
+    uploadRoutes: arrayOf(
+      object(
+        {
+          route: string({ nonEmpty: true }),
+          ...accessPolicy,
+          maxSize: integer({ min: 0 }),
+          extensions: arrayOf(string()),
+        },
+        ['users', 'roles', 'sso', 'maxSize', 'extensions']
+      )
+    ),
+    webdav: object({ enabled: boolean(), readWrite: boolean() }),
+    driveIndex: object({ enabled: boolean(), store: oneOf(['kv', 'file']), maxAge: integer({ min: 10 }) }),
+    email: string(),
+    links: arrayOf(object({ name: string({ nonEmpty: true }), link: string({ nonEmpty: true }) })),
+    datetimeFormat: string({ nonEmpty: true }),
+  },
+  ['drives', 'discoverProtectedRoutes', 'ssoRoutes', 'oidc', 'hiddenPatterns', 'uploadRoutes', 'webdav', 'driveIndex']
+)
+
+const apiConfigSchema = object(
+  {
+    clientId: string({ nonEmpty: true }),
+    obfuscatedClientSecret: string({ nonEmpty: true }),
+    redirectUri: url,
+    authApi: url,
+    driveApi: url,
+    scope: string({
+      pattern: /\boffline_access\b/,
+      hint: "must include 'offline_access', or tokens cannot be refreshed",
+    }),
+    cacheControlHeader: string(),
+    proxyMaxFileSize: integer({ min: 0 }),
+  },
+  ['proxyMaxFileSize']
+)
+
+// Sign-in endpoints of the national clouds, and the Graph API hosts that go with them. OneDrive operated by 21Vianet
+// (世纪互联) signs in at login.chinacloudapi.cn, and only works with microsoftgraph.chinacloudapi.cn.
+const GRAPH_HOSTS = {
+  'login.microsoftonline.com': ['graph.microsoft.com'],
+  'login.chinacloudapi.cn': ['microsoftgraph.chinacloudapi.cn'],
+  'login.microsoftonline.us': ['graph.microsoft.us', 'dod-graph.microsoft.us'],
+}
+
+const hostOf = value => {
+  try {
+    return new URL(value).host
+  } catch (e) {
+    return ''
+  }
+}
+
+/**
+ * Checks the schemas cannot express, which involve several settings or how they are used. Paths of the problems
+ * start with the file they are in.
+ *
+ * @returns {ConfigProblem[]}
+ */
+function checkConsistency(siteConfig, apiConfig) {
+  const problems = []
+
+  if (siteConfig.userPrincipalName === 'mint@zgdtx.onmicrosoft.com') {
+    problems.push(
+      ...warning(
+        'site.config.js: userPrincipalName',
+        'is still the example account, set it (or NEXT_PUBLIC_USER_PRINCIPLE_NAME) to the email address you sign in with'
+      )
+    )
+  }
+
+  if (typeof siteConfig.datetimeFormat === 'string' && siteConfig.datetimeFormat.trim() !== '') {
+    // A format without any day.js token prints itself for every date
+    const date = new Date(2001, 1, 3, 4, 5, 6)
+    if (dayjs(date).format(siteConfig.datetimeFormat) === siteConfig.datetimeFormat) {
+      problems.push(
+        ...error('site.config.js: datetimeFormat', "contains no day.js format tokens, e.g. 'YYYY-MM-DD HH:mm:ss'")
+      )
+    }
+  }
+
+  const graphHosts = GRAPH_HOSTS[hostOf(apiConfig.authApi)]
+  const driveApis = [
+    { path: 'api.config.js: driveApi', value: apiConfig.driveApi },
+    ...(Array.isArray(siteConfig.drives) ? siteConfig.drives : []).map((d, i) => ({
+      path: `site.config.js: drives[${i}].driveApi`,
+      value: d && d.driveApi,
+    })),
+  ]
+  for (const { path, value } of driveApis) {
+    if (typeof value !== 'string') continue
+    if (graphHosts && !graphHosts.includes(hostOf(value))) {
+      problems.push(
+        ...error(path, `is on ${hostOf(value)}, but authApi signs in to the cloud served by ${graphHosts.join(' or ')}`)
+      )
+    }
+    if (!/\/v1\.0\/(me\/drive|drives\/[^/?#]+|sites\/[^/?#]+\/drive|sites\/[^/?#]+\/drives\/[^/?#]+)$/.test(value)) {
+      problems.push(
+        ...error(path, 'must end with /v1.0/me/drive, /drives/{drive-id} or /sites/{site-id}/drive(s/{drive-id})')
+      )
+    }
+  }
+
+  if (Array.isArray(siteConfig.drives)) {
+    const ids = siteConfig.drives.map(d => d && typeof d.id === 'string' && d.id.toLowerCase())
+    ids.forEach((id, i) => {
+      if (id && ids.indexOf(id) !== i)
+        problems.push(...error(`site.config.js: drives[${i}].id`, 'is used by another drive'))
+    })
+  }
+
+  return problems
+}
+
+/**
+ * Check the site and API configuration
+ *
+ * @returns {ConfigProblem[]} Problems found, errors break the site while warnings are likely mistakes
+ */
+function validateConfig(siteConfig, apiConfig) {
+  const prefix = (file, problems) => problems.map(p => ({ ...p, path: `${file}: ${p.path}` }))
+  return [
+    ...prefix('site.config.js', siteConfigSchema(siteConfig, '')),
+    ...prefix('api.config.js', apiConfigSchema(apiConfig, '')),
+    ...checkConsistency(siteConfig, apiConfig),
+  ]
+}
+
+/**
+ * Check the secrets the server needs from its environment. These are only known at runtime, so they are reported when
+ * the site starts and by /api/health, but do not stop a build.
+ *
+ * @returns {ConfigProblem[]}
+ */
+function checkEnvironment() {
+  const problems = []
+  // Tokens are only stored encrypted, see src/utils/tokenEncryption.ts
+  if (!(process.env.TOKEN_ENCRYPTION_KEY ?? '').trim()) {
+    problems.push(
+      ...error(
+        'env: TOKEN_ENCRYPTION_KEY',
+        'is not set, set it to a long random string (e.g. openssl rand -hex 32) so that tokens can be stored encrypted'
+      )
+    )
+  }
+  return problems
+}
+
+/**
+ * Format configuration problems for the console, one per line
+ *
+ * @param {ConfigProblem[]} problems
+ */
+function formatConfigProblems(problems) {
+  return problems.map(p => `${p.level === 'error' ? 'Error' : 'Warning'} in ${p.path} ${p.message}`).join('\n')
+}
+
+module.exports = { validateConfig, checkEnvironment, formatConfigProblems }
@@ -1,6 +1,9 @@
 /**
  * This file contains the configuration used for customising the website, such as the folder to share,
  * the title, used Google fonts, site icons, contact info, etc.
+ *
+ * The title, footer, email, links, protectedRoutes and maxItems below are only defaults: admins can change them
+ * from the settings form of the /admin page without a redeploy, and go back to these values from there.
  */
 module.exports = {
   // This is what we use to identify who you are when you are initialising the website for the first time.
@@ -16,12 +19,32 @@ module.exports = {
   // Prefix for KV Storage
   kvPrefix: process.env.KV_PREFIX || '',
 
+  // Backend of the KV Storage that keeps your tokens. One of:
+  // - 'redis': Redis connected with the env variable 'REDIS_URL' (default, e.g. Upstash)
+  // - 'http': Upstash REST API or Vercel KV, using 'KV_REST_API_URL' and 'KV_REST_API_TOKEN'
+  // - 'file': a local JSON file at 'KV_FILE_PATH' (defaults to .kv-store.json), for self-hosting on a plain server
+  // - 'memory': nothing is persisted, only useful for local development and tests
+  // Tokens are encrypted at rest with the secret in the env variable 'TOKEN_ENCRYPTION_KEY', which is required: without
+  // it, no token is stored. To rotate it, put the new secret first followed by the old ones, separated by commas:
+  // stored tokens are re-encrypted on next use.
+  kvStore: process.env.KV_STORE || 'redis',
+
   // The name of your website. Present alongside your icon.
   title: "Sunrakux's OneDrive",
 
   // The folder that you are to share publicly with onedrive-vercel-index. Use '/' if you want to share your root folder.
   baseDirectory: '/Public',
 
+  // [OPTIONAL] Mount several OneDrive accounts or SharePoint document libraries in one site. Each drive shows up as a
+  // top-level folder named after its 'id', is authorised separately and keeps its own tokens. 'driveApi',
+  // 'baseDirectory' and 'userPrincipalName' default to the single-drive settings when left out, for example:
+  // drives: [
+  //   { id: 'Personal', userPrincipalName: 'me@outlook.com', baseDirectory: '/Public' },
+  //   { id: 'Team', driveApi: 'https://graph.microsoft.com/v1.0/sites/{site-id}/drive', baseDirectory: '/' },
+  // ],
+  // Leave this empty to serve the single drive configured above. Protected routes then start with the drive id.
+  drives: [],
+
   // [OPTIONAL] This represents the maximum number of items that one directory lists, pagination supported.
   // Do note that this is limited up to 200 items by the upstream OneDrive API.
   maxItems: 100,
@@ -42,8 +65,91 @@ module.exports = {
 
   // [OPTIONAL] This is where you specify the folders that are password protected. It is an array of paths pointing to all
   // the directories in which you have .password set. Check the documentation for details.
+  // Routes may be glob patterns: '*' matches part of a folder name, '**' any number of folders, and a leading '!'
+  // excludes matching folders. For example, '/Clients/*/Invoices' protects the Invoices folder of every client with
+  // the .password inside it, and '**/private' every folder named private. When routes are nested, the most specific
+  // one wins, so a subfolder can be protected with its own password or excluded with '!/Clients/Acme/Invoices/Public'.
+  // Entering the password gives visitors a token for the route that expires after a week. Tokens are signed with the
+  // secret in the env variable 'AUTH_SECRET', which is required: without it, passwords of protected routes, share
+  // links and file requests are refused with an error. Tokens can be revoked for a whole route with /api/auth/revoke
+  // by an admin, e.g. after changing its password.
+  // The .password files are cached in the KV store and revalidated with OneDrive every 5 minutes, a changed password
+  // can be applied right away by an admin with /api/auth/invalidate (revoking the tokens of the route does it too).
+  // Protected routes can also be opened by signing in with a user account granted access to them. User accounts and
+  // their roles and per-path allow/deny rules are stored in the KV store, and managed with /api/auth/users and
+  // /api/auth/roles by an admin. Set the env variables ADMIN_PASSWORD (and optionally ADMIN_USERNAME, 'admin' by
+  // default) to enable the built-in admin account. Routes without a .password file then require signing in.
   protectedRoutes: ['/🌞 Private folder/u-need-a-password', '/🥟 Some test files/Protected route'],
 
+  // [OPTIONAL] Besides the protectedRoutes above, folders are protected as soon as they (or a folder above them)
+  // contain a .password file, so that protection follows the files in your OneDrive without a redeploy. A folder
+  // can also hold a .access.json file, opening it only for the listed users, roles, or anyone signed in with single
+  // sign-on, e.g. { "users": ["alice"], "roles": ["staff"], "sso": true }
+  // Files found are cached for 5 minutes, use /api/auth/invalidate as an admin to apply changes right away. Turning
+  // this off saves two OneDrive requests per folder level on cache misses, but then only protectedRoutes apply.
+  // Folders excluded in protectedRoutes with '!' stay public even when a folder above them holds such files.
+  discoverProtectedRoutes: true,
+
+  // [OPTIONAL] Folders that require single sign-on with OpenID Connect (e.g. Microsoft Entra ID or Google Workspace)
+  // instead of a password. Anyone signed in through the identity provider below may open them, unless denied by
+  // the access rules of a user account with the same name as their email address and linked to single sign-on
+  // ('linkSso' set with /api/auth/users). Glob patterns work as above.
+  ssoRoutes: [],
+
+  // [OPTIONAL] The OpenID Connect identity provider used for single sign-on. 'issuer' and 'clientId' come from the app
+  // registered with the provider, set its client secret in the env variable 'OIDC_CLIENT_SECRET', and register
+  // https://<your-site>/api/auth/oidc/callback/ as redirect URI. Sign-ins are restricted to email addresses of the
+  // 'allowedDomains', and to members of one of the 'allowedGroups' (read from the 'groups' claim), if not empty. The
+  // provider must send a verified email address, in the 'email' claim with 'email_verified' (or 'xms_edov', the
+  // optional claim of Microsoft Entra ID telling the domain of the address is verified). Entra ID usually sends
+  // neither: list the ids of your tenants in 'trustedTenants' to trust the 'email' or 'preferred_username' claims
+  // of their accounts (from the 'tid' claim), as only the admins of a tenant can set the addresses of its users.
+  oidc: {
+    issuer: process.env.OIDC_ISSUER || '',
+    clientId: process.env.OIDC_CLIENT_ID || '',
+    allowedDomains: [],
+    allowedGroups: [],
+    trustedTenants: [],
+  },
+
+  // [OPTIONAL] Files and folders that are neither listed, searchable, downloaded with folders, nor served, written as
+  // gitignore-style patterns relative to the site root: '*.tmp' hides matching names in any folder, '/Drafts/' only the
+  // Drafts folder at the root, and '!keep.tmp' shows an item hidden by an earlier pattern again. Folders can hold
+  // their own patterns in a .odignore file, applying to the items inside them (cached for 5 minutes, see
+  // /api/auth/invalidate).
+  hiddenPatterns: ['.odignore'],
+
+  // [OPTIONAL] Folders signed in users can upload files into, by dragging them onto the file list. Each entry opens
+  // the folders matched by a route pattern (see protectedRoutes) to the listed users, users with one of the listed
+  // roles, and users signed in with single sign-on if sso is set (admins can always upload there). Entries can limit
+  // the size of files in bytes (maxSize) and their extensions, and the most specific entry applies to a folder.
+  // Uploads require the 'files.readwrite.all' scope in api.config.js (sign in to OneDrive again after changing it).
+  // For example: { route: '/Clients/*/Deliverables', roles: ['client'], maxSize: 1073741824, extensions: ['pdf'] }
+  uploadRoutes: [],
+
+  // [OPTIONAL] Serve the drive over WebDAV at /dav/, e.g. to mount it in a file manager. Clients sign in with HTTP
+  // Basic authentication, using the name and password of a user account, or any user name and the password of a
+  // protected route. Set readWrite to let admins upload, delete, move and create folders, and other signed in users
+  // upload files and create folders where uploadRoutes allow them, which requires the 'files.readwrite.all' scope in
+  // api.config.js (sign in to OneDrive again from the OAuth page after changing it).
+  webdav: {
+    enabled: false,
+    readWrite: false,
+  },
+
+  // [OPTIONAL] Keep an index of the files in each drive, updated with OneDrive delta queries, and serve folder
+  // listings and search from it rather than asking OneDrive every time. Folders not indexed yet are listed by OneDrive
+  // as usual. The index is synced with the changes in the drive before it is used once it is older than maxAge
+  // seconds, or after changes made through this site, and the first request waits for the whole drive to be indexed.
+  // It is kept in:
+  // - 'kv': the KV Storage above, as one entry per drive (large drives may not fit hosted Redis size limits)
+  // - 'file': a JSON file per drive in the folder at the env variable 'DRIVE_INDEX_DIR' (defaults to .drive-index)
+  driveIndex: {
+    enabled: false,
+    store: 'kv',
+    maxAge: 300,
+  },
+
   // [OPTIONAL] Use "" here if you want to remove this email address from the nav bar.
   email: 'mailto:spencer.wushangbo@gmail.com',
 
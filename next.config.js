@@ -1,8 +1,34 @@
+const { PHASE_PRODUCTION_BUILD } = require('next/constants')
 const { i18n } = require('./next-i18next.config')
+const { validateConfig, checkEnvironment, formatConfigProblems } = require('./config/config.schema')
+const siteConfig = require('./config/site.config')
+const apiConfig = require('./config/api.config')
 
-module.exports = {
-  i18n,
-  reactStrictMode: true,
-  // Required by Next i18n with API routes, otherwise API routes 404 when fetching without trailing slash
-  trailingSlash: true
+module.exports = phase => {
+  // Report mistakes in site.config.js and api.config.js when starting, and refuse to build a site that cannot work
+  const problems = validateConfig(siteConfig, apiConfig)
+  if (problems.length > 0) {
+    console.warn(formatConfigProblems(problems))
+  }
+  if (phase === PHASE_PRODUCTION_BUILD && problems.some(p => p.level === 'error')) {
+    throw new Error('Invalid configuration, see the errors above.')
+  }
+  // Secrets may only be set where the site runs, so they are checked without failing the build
+  if (phase !== PHASE_PRODUCTION_BUILD && checkEnvironment().length > 0) {
+    console.warn(formatConfigProblems(checkEnvironment()))
+  }
+
+  return {
+    i18n,
+    reactStrictMode: true,
+    // Required by Next i18n with API routes, otherwise API routes 404 when fetching without trailing slash
+    trailingSlash: true,
+    // WebDAV clients expect to be served at /dav/ rather than under /api/
+    async rewrites() {
+      return [
+        { source: '/dav', destination: '/api/dav' },
+        { source: '/dav/:path*', destination: '/api/dav/:path*' },
+      ]
+    },
+  }
 }
@@ -0,0 +1,48 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+
+import * as health from '../../pages/api/health'
+import { getKVStore } from '../../utils/kvStore'
+import { createSession } from '../../utils/userStore'
+import { MockDrive, startMockDrive } from '../helpers/mockDrive'
+
+describe('/api/health', () => {
+  let drive: MockDrive
+
+  beforeAll(async () => {
+    drive = await startMockDrive({ 'report.txt': '' }, { '/api/health': health })
+  })
+
+  afterAll(() => drive.close())
+
+  it('runs the checks at most once a minute for visitors, and every time for admins', async () => {
+    // The KV store check writes a key on each run
+    const set = vi.spyOn(getKVStore(), 'set')
+    const countChecks = () => set.mock.calls.filter(([key]) => key === 'health_check').length
+
+    const first = await drive.get('/api/health/')
+    expect(first).toEqual({
+      status: 200,
+      body: { ok: true, config: { ok: true }, kv: { ok: true }, drives: [{ id: '', ok: true }] },
+    })
+    expect((await drive.get('/api/health/')).body).toEqual(first.body)
+    expect(countChecks()).toBe(1)
+
+    const admin = await createSession('admin')
+    const { body } = await drive.get('/api/health/', {}, admin)
+    expect(body.kv.latency).toEqual(expect.any(Number))
+    expect(body.drives[0].problems).toEqual([])
+    expect(countChecks()).toBe(2)
+  })
+
+  it('reports a missing token encryption key as a configuration error', async () => {
+    const key = process.env.TOKEN_ENCRYPTION_KEY
+    delete process.env.TOKEN_ENCRYPTION_KEY
+    try {
+      const { status, body } = await drive.get('/api/health/', {}, await createSession('admin'))
+      expect(status).toBe(503)
+      expect(body.config.problems).toContainEqual(expect.objectContaining({ path: 'env: TOKEN_ENCRYPTION_KEY' }))
+    } finally {
+      process.env.TOKEN_ENCRYPTION_KEY = key
+    }
+  })
+})
@@ -0,0 +1,34 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+import * as index from '../../pages/api'
+import { getSiteSettings, saveSiteSettings } from '../../utils/siteSettings'
+import { MockDrive, startMockDrive } from '../helpers/mockDrive'
+
+describe('/api', () => {
+  let drive: MockDrive
+
+  beforeAll(async () => {
+    drive = await startMockDrive(
+      {
+        'a/.password': 'letmein',
+        'a/report.txt': '',
+        'a/public/report.txt': '',
+        'a/public/locked/.password': 'letmein',
+        'a/public/locked/report.txt': '',
+      },
+      { '/api': index }
+    )
+    await saveSiteSettings({ ...(await getSiteSettings()), protectedRoutes: ['!/a/public/**'] })
+  })
+
+  afterAll(() => drive.close())
+
+  it('keeps folders excluded from protected routes public, even below a folder with a .password', async () => {
+    expect((await drive.get('/api/', { path: '/a' })).status).toBe(401)
+    expect((await drive.get('/api/', { path: '/a/public' })).status).toBe(200)
+  })
+
+  it('protects folders with a .password inside an excluded folder', async () => {
+    expect((await drive.get('/api/', { path: '/a/public/locked' })).status).toBe(401)
+  })
+})
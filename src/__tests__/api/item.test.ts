@@ -0,0 +1,65 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+import * as item from '../../pages/api/item'
+import { createFileRequest } from '../../utils/fileRequests'
+import { createSession, saveUser } from '../../utils/userStore'
+import { MockDrive, startMockDrive } from '../helpers/mockDrive'
+
+describe('/api/item', () => {
+  let drive: MockDrive
+
+  beforeAll(async () => {
+    drive = await startMockDrive(
+      {
+        'report.txt': '',
+        'Docs/report.txt': '',
+        'Docs/.odignore': 'secret*',
+        'Docs/secret report.txt': '',
+        'Locked/.password': 'letmein',
+        'Locked/report.txt': '',
+        'Team/.access.json': JSON.stringify({ users: ['alice'] }),
+        'Staff/report.txt': '',
+        'Drop/report.txt': '',
+      },
+      { '/api/item': item }
+    )
+    await createFileRequest({ path: '/Drop', name: 'Drop', note: '', createdBy: 'alice' }, { expiresIn: 3600 })
+  })
+
+  afterAll(() => drive.close())
+
+  const getItem = (path: string, session?: string) => drive.get('/api/item/', { id: drive.idOf(path) }, session)
+
+  it('tells the path of items anyone may list', async () => {
+    expect((await getItem('Docs/report.txt')).body.path).toBe('/Docs/report.txt')
+    expect((await getItem('report.txt')).body.path).toBe('/report.txt')
+  })
+
+  it('does not find the files configuring protection and hidden items', async () => {
+    for (const path of ['Locked/.password', 'Team/.access.json', 'Docs/.odignore', 'Docs/secret report.txt']) {
+      expect((await getItem(path)).status).toBe(404)
+    }
+  })
+
+  it('refuses items in protected folders and drop boxes to anonymous visitors', async () => {
+    expect((await getItem('Locked/report.txt')).status).toBe(401)
+    expect((await getItem('Drop/report.txt')).status).toBe(401)
+  })
+
+  it('follows the access rules and drop boxes of signed in users', async () => {
+    await saveUser({
+      name: 'alice',
+      password: 'alice-password',
+      roles: [],
+      rules: [{ path: '/Staff', access: 'deny' }],
+    })
+    const alice = await createSession('alice')
+    await saveUser({ name: 'bob', password: 'bob-password', roles: [], rules: [] })
+    const bob = await createSession('bob')
+
+    expect((await getItem('Drop/report.txt', alice)).body.path).toBe('/Drop/report.txt')
+    expect((await getItem('Drop/report.txt', bob)).status).toBe(401)
+    expect((await getItem('Staff/report.txt', alice)).status).toBe(401)
+    expect((await getItem('Staff/report.txt', bob)).body.path).toBe('/Staff/report.txt')
+  })
+})
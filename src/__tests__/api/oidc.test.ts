@@ -0,0 +1,84 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+import siteConfig from '../../../config/site.config'
+import * as callback from '../../pages/api/auth/oidc/callback'
+import * as login from '../../pages/api/auth/oidc/login'
+import { getSessionUser, saveUser, SESSION_COOKIE } from '../../utils/userStore'
+import { ApiServer, startApiServer } from '../helpers/apiServer'
+import * as mockIssuer from '../helpers/mockIssuer'
+
+describe('single sign-on', () => {
+  let server: ApiServer
+
+  beforeAll(async () => {
+    server = await startApiServer({
+      '/api/auth/oidc/login': login,
+      '/api/auth/oidc/callback': callback,
+      '/api/auth/oidc/mock/[...endpoint]': mockIssuer,
+    })
+    siteConfig.oidc.issuer = `${server.origin}/api/auth/oidc/mock`
+    siteConfig.oidc.clientId = 'test-client'
+  })
+
+  afterAll(() => server.close())
+
+  // Follow a sign-in through the mock identity provider as a browser would, signing in as the given email
+  async function signIn(email: string, redirect: string) {
+    const fetchManual = (url: string) => fetch(url, { redirect: 'manual' })
+
+    const authorize = new URL(
+      (await fetchManual(`${server.origin}/api/auth/oidc/login/?redirect=${redirect}`)).headers.get('location')!
+    )
+    authorize.searchParams.set('login_hint', email)
+    const back = (await fetchManual(authorize.toString())).headers.get('location')!
+    const response = await fetchManual(back)
+
+    const session = response.headers.get('set-cookie')?.match(new RegExp(`${SESSION_COOKIE}=([^;]+)`))?.[1]
+    return { status: response.status, location: response.headers.get('location'), session }
+  }
+
+  it('signs in with the verified email and returns to the page signed in from', async () => {
+    const { status, location, session } = await signIn('carol@example.com', encodeURIComponent('/Team/a b'))
+    expect(status).toBe(307)
+    expect(location).toBe('/Team/a%20b')
+    expect(await getSessionUser(session!)).toEqual({ name: 'carol@example.com', roles: [], rules: [], sso: true })
+  })
+
+  it('only returns to paths on the site', async () => {
+    for (const redirect of ['//evil.example', '/\\evil.example', '/.//evil.example', 'https://evil.example']) {
+      expect((await signIn('carol@example.com', encodeURIComponent(redirect))).location).toBe('/')
+    }
+  })
+
+  it('only uses accounts named after the email when they are linked to single sign-on', async () => {
+    await saveUser({ name: 'dave@example.com', password: 'dave-password', roles: ['staff'], rules: [] })
+    expect(await signIn('dave@example.com', '/')).toMatchObject({ status: 403, session: undefined })
+
+    await saveUser({ name: 'dave@example.com', roles: ['staff'], rules: [], linkSso: true })
+    const { session } = await signIn('dave@example.com', '/')
+    expect(await getSessionUser(session!)).toEqual({ name: 'dave@example.com', roles: ['staff'], rules: [], sso: true })
+  })
+
+  it('only trusts email addresses without email_verified from the trusted tenants', async () => {
+    try {
+      process.env.OIDC_MOCK_CLAIMS = JSON.stringify({ email_verified: null, tid: 'contoso' })
+      expect(await signIn('erin@example.com', '/')).toMatchObject({ status: 401, session: undefined })
+
+      Object.assign(siteConfig.oidc, { trustedTenants: ['contoso'] })
+      const { session } = await signIn('erin@example.com', '/')
+      expect(await getSessionUser(session!)).toMatchObject({ name: 'erin@example.com', sso: true })
+
+      // Entra ID tells a verified domain with xms_edov
+      siteConfig.oidc.trustedTenants = []
+      process.env.OIDC_MOCK_CLAIMS = JSON.stringify({ email_verified: null, xms_edov: true })
+      expect((await signIn('erin@example.com', '/')).status).toBe(307)
+    } finally {
+      delete process.env.OIDC_MOCK_CLAIMS
+      siteConfig.oidc.trustedTenants = []
+    }
+  })
+
+  it('never signs in as the built-in admin', async () => {
+    expect((await signIn('admin', '/')).status).toBe(403)
+  })
+})
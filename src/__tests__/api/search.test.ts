@@ -0,0 +1,103 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+
+import * as search from '../../pages/api/search'
+import { createFileRequest } from '../../utils/fileRequests'
+import { issueRouteToken, revokeRouteToken, ROUTE_TOKEN_MAX_AGE } from '../../utils/routeToken'
+import { createSession, saveUser } from '../../utils/userStore'
+import { MockDrive, startMockDrive } from '../helpers/mockDrive'
+
+describe('/api/search', () => {
+  let drive: MockDrive
+
+  beforeAll(async () => {
+    drive = await startMockDrive(
+      {
+        'Docs/report.txt': '',
+        'Docs/.odignore': 'secret*',
+        'Docs/secret report.txt': '',
+        'Locked/.password': 'letmein',
+        'Locked/report.txt': '',
+        'Vault/.password': 'open sesame',
+        'Vault/report.txt': '',
+        'Team/.access.json': JSON.stringify({ users: ['alice'] }),
+        'Team/report.txt': '',
+        'Staff/report.txt': '',
+        'Drop/report.txt': '',
+        'report.odignore.txt': '',
+      },
+      { '/api/search': search }
+    )
+    await createFileRequest({ path: '/Drop', name: 'Drop', note: '', createdBy: 'alice' }, { expiresIn: 3600 })
+  })
+
+  afterAll(() => drive.close())
+
+  const paths = (body: any) => body.value.map((r: { path: string }) => decodeURIComponent(r.path)).sort()
+
+  it('only finds what anonymous visitors may list', async () => {
+    const { status, body } = await drive.get('/api/search/', { q: 'report' })
+    expect(status).toBe(200)
+    // Hidden by .odignore, behind a password, opened for some users, or a drop box of someone else
+    expect(paths(body)).toEqual(['/Docs/report.txt', '/Staff/report.txt', '/report.odignore.txt'])
+  })
+
+  it('never finds the files configuring protection and hidden items', async () => {
+    for (const q of ['password', 'access', 'odignore']) {
+      const { body } = await drive.get('/api/search/', { q })
+      expect(paths(body)).not.toContainEqual(expect.stringMatching(/\/\.(password|access\.json|odignore)$/))
+    }
+  })
+
+  it('refuses to search protected and hidden folders', async () => {
+    expect((await drive.get('/api/search/', { q: 'report', path: '/Locked' })).status).toBe(401)
+    expect((await drive.get('/api/search/', { q: 'report', path: '/Drop' })).status).toBe(401)
+    expect((await drive.get('/api/search/', { q: 'report', path: '/Docs/secret report.txt' })).status).toBe(404)
+  })
+
+  it('follows the access rules and drop boxes of signed in users', async () => {
+    await saveUser({
+      name: 'alice',
+      password: 'alice-password',
+      roles: [],
+      rules: [{ path: '/Staff', access: 'deny' }],
+    })
+    const session = await createSession('alice')
+
+    const { status, body } = await drive.get('/api/search/', { q: 'report' }, session)
+    expect(status).toBe(200)
+    expect(paths(body)).toEqual(['/Docs/report.txt', '/Drop/report.txt', '/Team/report.txt', '/report.odignore.txt'])
+    expect((await drive.get('/api/search/', { q: 'report', path: '/Staff' }, session)).status).toBe(401)
+  })
+
+  describe('with the tokens of protected routes', () => {
+    const search = (tokens: string[]) =>
+      drive.get('/api/search/', { q: 'report' }, undefined, { 'od-protected-token': tokens.join(',') })
+
+    it('finds the items of the routes the tokens open', async () => {
+      const locked = issueRouteToken('/locked/')
+      expect(paths((await search([locked])).body)).toContain('/Locked/report.txt')
+      expect(paths((await search([locked])).body)).not.toContain('/Vault/report.txt')
+
+      const { body } = await search([locked, issueRouteToken('/vault/')])
+      expect(paths(body)).toEqual(expect.arrayContaining(['/Locked/report.txt', '/Vault/report.txt']))
+    })
+
+    it('ignores tokens of other routes', async () => {
+      const { status, body } = await search([issueRouteToken('/vault/')])
+      expect(status).toBe(200)
+      expect(paths(body)).not.toContain('/Locked/report.txt')
+    })
+
+    it('ignores expired and revoked tokens', async () => {
+      const now = Date.now()
+      vi.spyOn(Date, 'now').mockReturnValue(now - (ROUTE_TOKEN_MAX_AGE + 60) * 1000)
+      const expired = issueRouteToken('/locked/')
+      vi.restoreAllMocks()
+      expect(paths((await search([expired])).body)).not.toContain('/Locked/report.txt')
+
+      const revoked = issueRouteToken('/locked/')
+      await revokeRouteToken(revoked)
+      expect(paths((await search([revoked])).body)).not.toContain('/Locked/report.txt')
+    })
+  })
+})
@@ -0,0 +1,45 @@
+import { createServer } from 'http'
+import type { AddressInfo } from 'net'
+
+import type { NextApiHandler } from 'next'
+import { apiResolver } from 'next/dist/server/api-utils/node'
+
+// An API route module, as Next.js loads it
+export type ApiRoute = { default: NextApiHandler; config?: object }
+
+export type ApiServer = { origin: string; close: () => Promise<void> }
+
+/**
+ * Serve API routes over HTTP on a random port. Requests go through the API resolver of Next.js, so that handlers see
+ * the same requests and responses as on a server.
+ *
+ * @param routes API routes by path, named as their files, e.g. { '/api/search': search } or
+ * { '/api/mock/graph/[...endpoint]': mockGraph } for a catch-all route
+ */
+export async function startApiServer(routes: Record<string, ApiRoute>): Promise<ApiServer> {
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '', 'http://localhost')
+    const path = url.pathname.replace(/\/$/, '')
+    const query: Record<string, string | string[]> = Object.fromEntries(url.searchParams)
+
+    // Catch-all routes get the rest of the path as their parameter, as Next.js does
+    let route = routes[path]
+    for (const [pattern, module] of Object.entries(routes)) {
+      const [prefix, param] = pattern.split(/\/\[\.\.\.(\w+)\]$/)
+      if (route || !param || !path.startsWith(`${prefix}/`)) continue
+      route = module
+      query[param] = path
+        .substring(prefix.length + 1)
+        .split('/')
+        .map(decodeURIComponent)
+    }
+    const context = { previewModeId: '', previewModeEncryptionKey: '', previewModeSigningKey: '' }
+    apiResolver(req, res, query, route, context, false)
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+
+  return {
+    origin: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  }
+}
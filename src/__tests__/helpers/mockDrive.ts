@@ -0,0 +1,64 @@
+import { promises as fs } from 'fs'
+import { tmpdir } from 'os'
+import { dirname, join, posix } from 'path'
+
+import siteConfig from '../../../config/site.config'
+import { storeOdAuthTokens, storeOdDriveApi } from '../../utils/odAuthTokenStore'
+import { SESSION_COOKIE } from '../../utils/userStore'
+import { ApiRoute, startApiServer } from './apiServer'
+import * as mockGraph from './mockGraph'
+
+export type MockDrive = {
+  // Send a GET request to an API route, e.g. get('/api/search', { q: 'report' }), signed in with a session if given
+  // and with extra headers, e.g. { 'od-protected-token': token }
+  get: (
+    path: string,
+    query?: Record<string, string>,
+    session?: string,
+    headers?: Record<string, string>
+  ) => Promise<{ status: number; body: any }>
+  // Id of an item given by its path in the base directory, as the mock Graph API identifies items by their path
+  idOf: (path: string) => string
+  close: () => Promise<void>
+}
+
+/**
+ * Serve a temporary folder as the default drive through the mock Graph API (see mockGraph), along with the API
+ * routes under test (see startApiServer).
+ *
+ * @param files Content of the files in the base directory of the drive by path, e.g. { 'Docs/.odignore': 'secret*' }
+ * @param routes API routes by path, e.g. { '/api/search': search }
+ */
+export async function startMockDrive(
+  files: Record<string, string>,
+  routes: Record<string, ApiRoute>
+): Promise<MockDrive> {
+  const root = await fs.mkdtemp(join(tmpdir(), 'od-test-'))
+  for (const [path, content] of Object.entries(files)) {
+    const local = join(root, siteConfig.baseDirectory, path)
+    await fs.mkdir(dirname(local), { recursive: true })
+    await fs.writeFile(local, content)
+  }
+  process.env.GRAPH_MOCK_ROOT = root
+
+  const server = await startApiServer({ ...routes, '/api/mock/graph/[...endpoint]': mockGraph })
+  const { origin } = server
+
+  // Every token is accepted by the mock Graph API
+  await storeOdDriveApi(`${origin}/api/mock/graph/me/drive`)
+  await storeOdAuthTokens({ accessToken: 'mock', accessTokenExpiry: 3600, refreshToken: 'mock' })
+
+  return {
+    get: async (path, query = {}, session, headers = {}) => {
+      const response = await fetch(`${origin}${path}?${new URLSearchParams(query)}`, {
+        headers: session ? { ...headers, cookie: `${SESSION_COOKIE}=${session}` } : headers,
+      })
+      return { status: response.status, body: await response.json() }
+    },
+    idOf: path => Buffer.from(posix.join(siteConfig.baseDirectory, path)).toString('base64url'),
+    close: async () => {
+      await server.close()
+      await fs.rm(root, { recursive: true, force: true })
+    },
+  }
+}
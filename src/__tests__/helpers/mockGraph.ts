@@ -0,0 +1,481 @@
+import { randomBytes } from 'crypto'
+import { createReadStream, createWriteStream, promises as fs, Stats } from 'fs'
+import { tmpdir } from 'os'
+import { join as joinLocal, posix as pathPosix, resolve as resolveLocal, sep } from 'path'
+import { pipeline } from 'stream/promises'
+
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+/**
+ * A minimal stand-in for the drive endpoints of Microsoft Graph for tests, serving the local folder in the env
+ * variable 'GRAPH_MOCK_ROOT'. It is mounted as an API route at /api/mock/graph by startMockDrive, which points the
+ * driveApi of the default drive at /api/mock/graph/me/drive and stores an access token for it, as every token is
+ * accepted. Supports getting the drive, getting items by path or id, listing children (sorted and paged), delta
+ * queries of the root, searching names (paged), downloading (with Range requests), uploading (small files and upload
+ * sessions), deleting, creating folders, moving and copying items (with a monitor URL that reports the copy in
+ * progress once before completing it), which is what the API routes of the site and the drive index use.
+ */
+
+// Uploads are written to disk as they are
+export const config = { api: { bodyParser: false } }
+
+const MIME_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  html: 'text/html',
+  json: 'application/json',
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  mp4: 'video/mp4',
+  mp3: 'audio/mpeg',
+  zip: 'application/zip',
+}
+
+// Upload sessions in progress: the file being uploaded, and the bytes received so far in a temporary file
+type MockUpload = { path: string; received: number; tmp: string; conflictBehavior: string }
+
+// Copies are made right away, their monitor URLs count the times they were polled
+type MockCopy = { path: string; polls: number }
+
+// State of the mock is kept on globalThis, as the dev server may reload this module between the chunks of an upload
+// or the polls of a copy
+declare global {
+  var __odGraphMockUploads: Map<string, MockUpload> | undefined
+  var __odGraphMockCopies: Map<string, MockCopy> | undefined
+  var __odGraphMockDeltas: Map<string, Map<string, string>> | undefined
+}
+
+const getUploads = () => (globalThis.__odGraphMockUploads ??= new Map())
+const getCopies = () => (globalThis.__odGraphMockCopies ??= new Map())
+
+// Delta queries report the changes since the state of the served folder kept for their token, as the eTag of each
+// item by id. Only the last few states are kept, older tokens have to list the whole folder again.
+const getDeltas = () => (globalThis.__odGraphMockDeltas ??= new Map())
+const MAX_DELTAS = 20
+
+// Items are identified by their path inside the served folder
+const toId = (path: string) => Buffer.from(path).toString('base64url')
+const fromId = (id: string) => Buffer.from(id, 'base64url').toString()
+
+const graphError = (res: NextApiResponse, status: number, code: string, message: string) =>
+  res.status(status).json({ error: { code, message } })
+
+async function readJson(req: NextApiRequest): Promise<any> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) chunks.push(chunk)
+  return JSON.parse(Buffer.concat(chunks).toString() || '{}')
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const root = process.env.GRAPH_MOCK_ROOT
+  if (!root) {
+    res.status(404).json({ error: 'Mock Graph API is not enabled.' })
+    return
+  }
+  res.setHeader('Cache-Control', 'no-cache')
+
+  const rootDir = resolveLocal(root)
+  // Map a path inside the drive to the local file system, refusing paths escaping the served folder
+  const toLocal = (path: string) => {
+    const local = resolveLocal(rootDir, `.${pathPosix.resolve('/', path)}`)
+    return local === rootDir || local.startsWith(rootDir + sep) ? local : null
+  }
+  // OneDrive ignores case, so look up the actual names of the components of a path. Components that do not exist
+  // (e.g. a file being uploaded) are kept as they are.
+  const findPath = async (path: string) => {
+    let found = '/'
+    for (const segment of path.split('/').filter(Boolean)) {
+      const local = toLocal(found)
+      const names = local ? await fs.readdir(local).catch(() => [] as string[]) : []
+      found = pathPosix.join(found, names.find(n => n.toLowerCase() === segment.toLowerCase()) ?? segment)
+    }
+    return found
+  }
+
+  const origin = `http://${req.headers.host}/api/mock/graph`
+  const toItem = (path: string, stats: Stats, childCount: number): Record<string, any> => {
+    const name = pathPosix.basename(path)
+    const extension = pathPosix.extname(name).slice(1).toLowerCase()
+    const parent = pathPosix.dirname(path)
+    return {
+      id: toId(path),
+      name: path === '/' ? 'root' : name,
+      size: stats.isDirectory() ? 0 : stats.size,
+      createdDateTime: stats.birthtime.toISOString(),
+      lastModifiedDateTime: stats.mtime.toISOString(),
+      eTag: `"${toId(path)}.${stats.mtimeMs}.${stats.size}"`,
+      parentReference: { id: toId(parent), path: `/drive/root:${parent === '/' ? '' : parent}` },
+      ...(stats.isDirectory()
+        ? { folder: { childCount, view: { sortBy: 'name', sortOrder: 'ascending', viewType: 'thumbnails' } } }
+        : {
+            file: { mimeType: MIME_TYPES[extension] ?? 'application/octet-stream', hashes: {} },
+            '@microsoft.graph.downloadUrl': `${origin}/content/${toId(path)}`,
+          }),
+    }
+  }
+  const getItem = async (path: string) => {
+    const local = toLocal(path)
+    const stats = local ? await fs.stat(local).catch(() => null) : null
+    if (!local || !stats) return null
+    return toItem(path, stats, stats.isDirectory() ? (await fs.readdir(local)).length : 0)
+  }
+
+  // Addresses are either /me/drive, /me/drive/root[:/path:][/children|/content|/createUploadSession|/delta],
+  // /me/drive/root[:/path:]/search(q='{query}'), /me/drive/items/{id}[/children|/content|/copy], /content/{id} for
+  // download URLs, /upload/{id} for upload URLs, or /monitor/{id} for copy monitors. Paths are URL encoded as a whole,
+  // so the raw URL is parsed.
+  const { pathname } = new URL(req.url ?? '', 'http://localhost')
+  const address = pathname.replace(/^\/api\/mock\/graph\/?/, '').replace(/\/$/, '')
+
+  // An item and every item inside it, folders before their contents
+  const listTree = async (top: Record<string, any>) => {
+    const items = [top]
+    for (let i = 0; i < items.length; i++) {
+      if (!items[i].folder) continue
+      const folder = fromId(items[i].id)
+      const names = (await fs.readdir(toLocal(folder) ?? '')).sort()
+      const children = await Promise.all(names.map(n => getItem(pathPosix.join(folder, n))))
+      items.push(...children.filter((c): c is NonNullable<typeof c> => c !== null))
+    }
+    return items
+  }
+
+  const uploadMatch = address.match(/^upload\/([^/]+)$/)
+  if (uploadMatch) {
+    await handleUploadUrl(req, res, uploadMatch[1], getItem, findPath, toLocal)
+    return
+  }
+
+  const monitorMatch = address.match(/^monitor\/([^/]+)$/)
+  if (monitorMatch) {
+    const copy = getCopies().get(monitorMatch[1])
+    if (!copy) return graphError(res, 404, 'itemNotFound', 'The copy does not exist.')
+    if (copy.polls++ === 0) {
+      res.status(202).json({ status: 'inProgress', percentageComplete: 50 })
+      return
+    }
+    res.status(200).json({ status: 'completed', percentageComplete: 100, resourceId: toId(copy.path) })
+    return
+  }
+
+  // The drive itself, as shown on the admin dashboard
+  if (address === 'me/drive' && req.method === 'GET') {
+    res.status(200).json({
+      id: 'mock',
+      driveType: 'personal',
+      owner: { user: { displayName: 'Mock user', email: 'mock@example.com' } },
+      quota: { used: 0, total: 5 * 1024 ** 3 },
+    })
+    return
+  }
+
+  const match =
+    address.match(
+      /^me\/drive\/root(?::([^:]*):?)?(?:\/(children|content|createUploadSession|delta|search\(q=.*\)))?$/
+    ) ?? address.match(/^me\/drive\/items\/([^/]+)(?:\/(children|content|copy))?$/)
+  const download = address.match(/^content\/([^/]+)$/)
+
+  let path: string
+  let action: string | undefined
+  if (download) {
+    path = fromId(download[1])
+    action = 'download'
+  } else if (match) {
+    const [, target, child] = match
+    path = address.startsWith('me/drive/items/')
+      ? fromId(target)
+      : pathPosix.resolve('/', decodeURIComponent(target ?? '/'))
+    // Searches carry their query in the address, e.g. search(q='word')
+    action = child?.startsWith('search(') ? 'search' : child
+  } else {
+    graphError(res, 400, 'invalidRequest', `Unsupported endpoint: ${address}`)
+    return
+  }
+  path = await findPath(pathPosix.resolve('/', path))
+  const local = toLocal(path)
+  if (!local) {
+    graphError(res, 400, 'invalidRequest', 'Invalid path.')
+    return
+  }
+
+  if (!download && !/^Bearer\s+\S+/.test(req.headers.authorization ?? '')) {
+    graphError(res, 401, 'unauthenticated', 'Access token required.')
+    return
+  }
+
+  try {
+    const item = await getItem(path)
+
+    switch (`${req.method} ${action ?? ''}`.trim()) {
+      case 'GET':
+        if (!item) return graphError(res, 404, 'itemNotFound', 'The resource could not be found.')
+        if (req.headers['if-none-match'] === item.eTag) {
+          res.status(304).end()
+          return
+        }
+        res.status(200).json(item)
+        return
+
+      case 'GET children': {
+        if (!item?.folder) return graphError(res, 404, 'itemNotFound', 'The resource could not be found.')
+        const names = (await fs.readdir(local)).sort()
+        const items = await Promise.all(names.map(n => getItem(pathPosix.join(path, n))))
+        const value = items.filter((i): i is NonNullable<typeof i> => i !== null)
+
+        // $orderby on one field, and paging with $top, where the skip token is the offset of the next page
+        const [field, order] = String(req.query.$orderby ?? '').split(' ')
+        if (field) {
+          const sign = order === 'desc' ? -1 : 1
+          value.sort((a, b) => (a[field] < b[field] ? -sign : a[field] > b[field] ? sign : 0))
+        }
+        const top = Number(req.query.$top) || value.length
+        const skip = Number(req.query.$skipToken ?? req.query.$skiptoken) || 0
+        const nextLink =
+          skip + top < value.length ? `${origin}/${address}?$top=${top}&$skiptoken=${skip + top}` : undefined
+        res
+          .status(200)
+          .json({ value: value.slice(skip, skip + top), ...(nextLink ? { '@odata.nextLink': nextLink } : {}) })
+        return
+      }
+
+      case 'GET search': {
+        if (!item?.folder) return graphError(res, 404, 'itemNotFound', 'The resource could not be found.')
+        // Every word has to be in the name, as file contents are not searched
+        const query = decodeURIComponent(match![2].slice('search(q='.length, -')'.length))
+          .replace(/^'|'$/g, '')
+          .replace(/''/g, "'")
+        const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+        const value = (await listTree(item)).slice(1).filter(i => words.every(w => i.name.toLowerCase().includes(w)))
+        const top = Number(req.query.top ?? req.query.$top) || value.length
+        const skip = Number(req.query.$skipToken ?? req.query.$skiptoken) || 0
+        const nextLink =
+          skip + top < value.length ? `${origin}/${address}?$top=${top}&$skiptoken=${skip + top}` : undefined
+        res
+          .status(200)
+          .json({ value: value.slice(skip, skip + top), ...(nextLink ? { '@odata.nextLink': nextLink } : {}) })
+        return
+      }
+
+      case 'GET delta': {
+        if (path !== '/') return graphError(res, 400, 'invalidRequest', 'Delta queries are only supported on the root.')
+        const { token } = req.query
+        const previous = typeof token === 'string' ? getDeltas().get(token) : new Map<string, string>()
+        if (!previous) return graphError(res, 410, 'resyncRequired', 'The delta token has expired.')
+
+        // Every item of the served folder, the root included
+        const items = await listTree({ ...item, root: {} })
+
+        const current = new Map(items.map(i => [i.id, i.eTag]))
+        const deleted = Array.from(previous.keys())
+          .filter(id => !current.has(id))
+          .map(id => ({ id, deleted: { state: 'deleted' } }))
+        const nextToken = randomBytes(8).toString('hex')
+        getDeltas().set(nextToken, current)
+        for (const old of Array.from(getDeltas().keys()).slice(0, -MAX_DELTAS)) getDeltas().delete(old)
+
+        res.status(200).json({
+          value: [...items.filter(i => previous.get(i.id) !== i.eTag), ...deleted],
+          '@odata.deltaLink': `${origin}/me/drive/root/delta?token=${nextToken}`,
+        })
+        return
+      }
+
+      case 'GET content':
+      case 'GET download':
+      case 'HEAD download': {
+        if (!item || item.folder) return graphError(res, 404, 'itemNotFound', 'The resource could not be found.')
+        res.setHeader('Accept-Ranges', 'bytes')
+        res.setHeader('ETag', item.eTag)
+        res.setHeader('Content-Type', item.file.mimeType)
+        if (req.headers['if-none-match'] === item.eTag) {
+          res.status(304).end()
+          return
+        }
+
+        // Single byte ranges, like the download host: 'bytes=start-end', 'bytes=start-' or 'bytes=-suffix'
+        const size: number = item.size
+        const rangeMatch = req.headers.range?.match(/^bytes=(\d*)-(\d*)$/)
+        const range = rangeMatch && (rangeMatch[1] || rangeMatch[2]) ? rangeMatch : null
+        let [start, end] = [0, size - 1]
+        if (range) {
+          ;[start, end] = range[1]
+            ? [Number(range[1]), range[2] ? Math.min(Number(range[2]), size - 1) : size - 1]
+            : [Math.max(size - Number(range[2]), 0), size - 1]
+          if (start > end) {
+            res.setHeader('Content-Range', `bytes */${size}`)
+            res.status(416).end()
+            return
+          }
+          res.setHeader('Content-Range', `bytes ${start}-${end}/${size}`)
+        }
+        res.setHeader('Content-Length', Math.max(end - start + 1, 0))
+        res.status(range ? 206 : 200)
+        if (req.method === 'HEAD' || size === 0) {
+          res.end()
+          return
+        }
+        createReadStream(local, { start, end }).pipe(res)
+        return
+      }
+
+      case 'PUT content': {
+        const parent = await getItem(pathPosix.dirname(path))
+        if (!parent?.folder) return graphError(res, 409, 'nameAlreadyExists', 'The parent folder does not exist.')
+        await pipeline(req, createWriteStream(local))
+        res.status(item ? 200 : 201).json(await getItem(path))
+        return
+      }
+
+      case 'POST createUploadSession': {
+        const parent = await getItem(pathPosix.dirname(path))
+        if (!parent?.folder) return graphError(res, 409, 'nameAlreadyExists', 'The parent folder does not exist.')
+        const conflictBehavior = (await readJson(req)).item?.['@microsoft.graph.conflictBehavior'] ?? 'replace'
+        if (item && conflictBehavior === 'fail') {
+          return graphError(res, 409, 'nameAlreadyExists', 'The name already exists.')
+        }
+        const id = randomBytes(8).toString('hex')
+        const tmp = joinLocal(tmpdir(), `od-graph-mock-upload-${id}`)
+        await fs.writeFile(tmp, '')
+        getUploads().set(id, { path, received: 0, tmp, conflictBehavior })
+        res.status(200).json({
+          uploadUrl: `${origin}/upload/${id}`,
+          expirationDateTime: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+          nextExpectedRanges: ['0-'],
+        })
+        return
+      }
+
+      case 'POST children': {
+        if (!item?.folder) return graphError(res, 404, 'itemNotFound', 'The resource could not be found.')
+        const { name } = await readJson(req)
+        const childPath = pathPosix.join(path, String(name ?? ''))
+        const childLocal = toLocal(childPath)
+        if (!name || !childLocal || pathPosix.dirname(childPath) !== path) {
+          return graphError(res, 400, 'invalidRequest', 'Invalid name.')
+        }
+        if (await getItem(childPath)) return graphError(res, 409, 'nameAlreadyExists', 'The name already exists.')
+        await fs.mkdir(childLocal)
+        res.status(201).json(await getItem(childPath))
+        return
+      }
+
+      case 'PATCH': {
+        if (!item || path === '/') return graphError(res, 404, 'itemNotFound', 'The resource could not be found.')
+        const { name, parentReference } = await readJson(req)
+        const parentPath = parentReference?.id
+          ? pathPosix.resolve('/', fromId(parentReference.id))
+          : pathPosix.dirname(path)
+        const targetPath = pathPosix.join(parentPath, String(name ?? pathPosix.basename(path)))
+        const targetLocal = toLocal(targetPath)
+        if (!targetLocal || targetPath === '/') return graphError(res, 400, 'invalidRequest', 'Invalid target.')
+        if (await getItem(targetPath)) return graphError(res, 409, 'nameAlreadyExists', 'The name already exists.')
+        await fs.rename(local, targetLocal)
+        res.status(200).json(await getItem(targetPath))
+        return
+      }
+
+      case 'POST copy': {
+        if (!item || path === '/') return graphError(res, 404, 'itemNotFound', 'The resource could not be found.')
+        const { name, parentReference } = await readJson(req)
+        const parent = parentReference?.id ? await getItem(pathPosix.resolve('/', fromId(parentReference.id))) : null
+        if (!parent?.folder) return graphError(res, 400, 'invalidRequest', 'Invalid target.')
+        const parentPath = pathPosix.resolve('/', fromId(parentReference.id))
+
+        // Rename the copy like OneDrive does, e.g. 'report 1.pdf'
+        const { name: base, ext } = pathPosix.parse(String(name ?? pathPosix.basename(path)))
+        let targetPath = pathPosix.join(parentPath, `${base}${ext}`)
+        for (let i = 1; await getItem(targetPath); i++) targetPath = pathPosix.join(parentPath, `${base} ${i}${ext}`)
+        const targetLocal = toLocal(targetPath)
+        if (!targetLocal || `${targetPath}/`.startsWith(`${path}/`)) {
+          return graphError(res, 400, 'invalidRequest', 'Invalid target.')
+        }
+        await fs.cp(local, targetLocal, { recursive: true })
+
+        const monitorId = randomBytes(12).toString('base64url')
+        getCopies().set(monitorId, { path: targetPath, polls: 0 })
+        // With a trailing slash, as monitor URLs are requested without following redirects
+        res.setHeader('Location', `${origin}/monitor/${monitorId}/`)
+        res.status(202).end()
+        return
+      }
+
+      case 'DELETE':
+        if (!item || path === '/') return graphError(res, 404, 'itemNotFound', 'The resource could not be found.')
+        await fs.rm(local, { recursive: true })
+        res.status(204).end()
+        return
+
+      default:
+        graphError(res, 405, 'invalidRequest', 'Method not allowed.')
+    }
+  } catch (error) {
+    console.error(error)
+    graphError(res, 500, 'generalException', 'Internal server error.')
+  }
+}
+
+/**
+ * Answer requests to the upload URL of an upload session: GET reports the progress, PUT appends a chunk sent in order
+ * with a Content-Range header, and DELETE cancels the upload. The file is created with the last chunk, replacing an item
+ * of the same name or renamed, following the conflict behaviour of the session.
+ */
+async function handleUploadUrl(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  id: string,
+  getItem: (path: string) => Promise<Record<string, any> | null>,
+  findPath: (path: string) => Promise<string>,
+  toLocal: (path: string) => string | null
+) {
+  const upload = getUploads().get(id)
+  if (!upload) return graphError(res, 404, 'itemNotFound', 'The upload session does not exist.')
+
+  switch (req.method) {
+    case 'GET':
+      res.status(200).json({ nextExpectedRanges: [`${upload.received}-`] })
+      return
+
+    case 'DELETE':
+      getUploads().delete(id)
+      await fs.rm(upload.tmp, { force: true })
+      res.status(204).end()
+      return
+
+    case 'PUT': {
+      const range = req.headers['content-range']?.match(/^bytes (\d+)-(\d+)\/(\d+)$/)
+      const chunks: Buffer[] = []
+      for await (const chunk of req) chunks.push(chunk)
+      const body = Buffer.concat(chunks)
+      const [start, end, total] = range ? range.slice(1).map(Number) : []
+      if (!range || start !== upload.received || end - start + 1 !== body.length || end >= total) {
+        return graphError(res, 416, 'invalidRange', 'The uploaded fragment overlaps with data that has been received.')
+      }
+      await fs.appendFile(upload.tmp, body)
+      upload.received = end + 1
+      if (upload.received < total) {
+        res.status(202).json({ nextExpectedRanges: [`${upload.received}-`] })
+        return
+      }
+
+      // Rename the file like OneDrive does, e.g. 'report 1.pdf'
+      const { dir, name, ext } = pathPosix.parse(await findPath(upload.path))
+      let path = pathPosix.join(dir, `${name}${ext}`)
+      if (upload.conflictBehavior === 'rename') {
+        for (let i = 1; await getItem(path); i++) path = pathPosix.join(dir, `${name} ${i}${ext}`)
+      }
+      const local = toLocal(path)
+      if (!local) return graphError(res, 400, 'invalidRequest', 'Invalid path.')
+      await fs.copyFile(upload.tmp, local)
+      await fs.rm(upload.tmp, { force: true })
+      getUploads().delete(id)
+      res.status(201).json(await getItem(path))
+      return
+    }
+
+    default:
+      graphError(res, 405, 'invalidRequest', 'Method not allowed.')
+  }
+}
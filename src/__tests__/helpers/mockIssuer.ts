@@ -0,0 +1,112 @@
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'crypto'
+
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+import siteConfig from '../../../config/site.config'
+
+/**
+ * A minimal OpenID Connect identity provider for tests, to mount as an API route (see startApiServer) and point
+ * siteConfig.oidc.issuer at, e.g. http://<host>/api/auth/oidc/mock. Every sign-in succeeds right away as the email
+ * passed in the 'login_hint' query parameter, or 'OIDC_MOCK_EMAIL', member of the comma separated groups in
+ * 'OIDC_MOCK_GROUPS'. 'OIDC_MOCK_CLAIMS' holds claims overriding the ones of the ID tokens as JSON, null standing for
+ * a missing claim, e.g. '{ "email_verified": null, "tid": "contoso" }'.
+ */
+
+const kid = 'mock'
+
+// Signing key of the ID tokens
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+
+// Authorization codes waiting to be redeemed
+const codes = new Map<string, { clientId: string; nonce: string; codeChallenge: string; email: string }>()
+
+const base64Url = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url')
+
+function signIdToken(claims: object): string {
+  const input = `${base64Url({ alg: 'RS256', typ: 'JWT', kid })}.${base64Url(claims)}`
+  return `${input}.${sign('sha256', Buffer.from(input), privateKey).toString('base64url')}`
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  res.setHeader('Cache-Control', 'no-cache')
+
+  const issuer = siteConfig.oidc.issuer.replace(/\/$/, '')
+  const endpoint = ([] as string[]).concat(req.query.endpoint ?? []).join('/')
+
+  switch (endpoint) {
+    case '.well-known/openid-configuration':
+      res.status(200).json({
+        issuer,
+        authorization_endpoint: `${issuer}/authorize/`,
+        token_endpoint: `${issuer}/token/`,
+        jwks_uri: `${issuer}/jwks/`,
+        response_types_supported: ['code'],
+        id_token_signing_alg_values_supported: ['RS256'],
+      })
+      return
+
+    case 'jwks':
+      res.status(200).json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' }] })
+      return
+
+    case 'authorize': {
+      const { client_id, redirect_uri, state, nonce, code_challenge, login_hint } = req.query
+      if (typeof client_id !== 'string' || typeof redirect_uri !== 'string' || typeof state !== 'string') {
+        res.status(400).json({ error: 'invalid_request' })
+        return
+      }
+      const code = randomBytes(16).toString('base64url')
+      codes.set(code, {
+        clientId: client_id,
+        nonce: typeof nonce === 'string' ? nonce : '',
+        codeChallenge: typeof code_challenge === 'string' ? code_challenge : '',
+        email: typeof login_hint === 'string' ? login_hint : process.env.OIDC_MOCK_EMAIL || 'user@example.com',
+      })
+
+      const url = new URL(redirect_uri)
+      url.searchParams.set('code', code)
+      url.searchParams.set('state', state)
+      res.redirect(url.toString())
+      return
+    }
+
+    case 'token': {
+      const { code, client_id, code_verifier } = req.body ?? {}
+      const grant = codes.get(code)
+      codes.delete(code)
+      if (
+        !grant ||
+        grant.clientId !== client_id ||
+        (grant.codeChallenge &&
+          createHash('sha256').update(`${code_verifier}`).digest('base64url') !== grant.codeChallenge)
+      ) {
+        res.status(400).json({ error: 'invalid_grant' })
+        return
+      }
+
+      const now = Math.floor(Date.now() / 1000)
+      const groups = (process.env.OIDC_MOCK_GROUPS ?? '').split(',').filter(g => g !== '')
+      res.status(200).json({
+        token_type: 'Bearer',
+        access_token: randomBytes(16).toString('base64url'),
+        expires_in: 3600,
+        id_token: signIdToken({
+          iss: issuer,
+          aud: grant.clientId,
+          sub: grant.email,
+          email: grant.email,
+          email_verified: true,
+          groups,
+          nonce: grant.nonce,
+          iat: now,
+          exp: now + 3600,
+          ...JSON.parse(process.env.OIDC_MOCK_CLAIMS || '{}'),
+        }),
+      })
+      return
+    }
+
+    default:
+      res.status(404).json({ error: 'Not found.' })
+  }
+}
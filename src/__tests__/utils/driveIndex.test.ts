@@ -0,0 +1,61 @@
+import { promises as fs } from 'fs'
+import { join } from 'path'
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+import siteConfig from '../../../config/site.config'
+import * as api from '../../pages/api'
+import { getDrive } from '../../utils/drives'
+import { findIndexedItem, getDriveIndex, invalidateDriveIndex } from '../../utils/driveIndex'
+import { getSiteSettings, saveSiteSettings } from '../../utils/siteSettings'
+import { MockDrive, startMockDrive } from '../helpers/mockDrive'
+
+describe('getDriveIndex', () => {
+  let drive: MockDrive
+
+  beforeAll(async () => {
+    siteConfig.driveIndex.enabled = true
+    drive = await startMockDrive({ 'Docs/a.txt': '', 'Docs/b.txt': '', 'Docs/c.txt': '' }, { '/api': api })
+  })
+
+  afterAll(() => drive.close())
+
+  it('indexes the drive and syncs the changes made through the site before serving the index', async () => {
+    const config = await api.loadDrive(getDrive()!)
+    const aPath = join(siteConfig.baseDirectory, 'Docs/a.txt')
+    const draftPath = join(siteConfig.baseDirectory, 'Docs/draft.txt')
+
+    const indexed = await getDriveIndex(config, 'mock')
+    expect(findIndexedItem(indexed!, aPath)).not.toBeNull()
+    expect(await getDriveIndex(config, 'mock')).toBe(indexed)
+
+    await fs.writeFile(join(process.env.GRAPH_MOCK_ROOT!, draftPath), '')
+    await invalidateDriveIndex(config.id)
+    expect(findIndexedItem((await getDriveIndex(config, 'mock'))!, draftPath)).not.toBeNull()
+    await fs.rm(join(process.env.GRAPH_MOCK_ROOT!, draftPath))
+    await invalidateDriveIndex(config.id)
+  })
+
+  it('keeps paging folder listings with the source they started with', async () => {
+    await saveSiteSettings({ ...(await getSiteSettings()), maxItems: 2 })
+    const names = (body: any) => body.folder.value.map((c: { name: string }) => c.name)
+
+    try {
+      // A listing started on OneDrive goes on there once the folder is indexed
+      siteConfig.driveIndex.enabled = false
+      const first = await drive.get('/api/', { path: '/Docs', sort: 'name' })
+      siteConfig.driveIndex.enabled = true
+      const second = await drive.get('/api/', { path: '/Docs', sort: 'name', next: first.body.next })
+      expect([...names(first.body), ...names(second.body)]).toEqual(['a.txt', 'b.txt', 'c.txt'])
+
+      // Pages of the index cannot be continued on OneDrive
+      const indexed = await drive.get('/api/', { path: '/Docs', sort: 'name' })
+      expect(indexed.body.next).toMatch(/^index-/)
+      siteConfig.driveIndex.enabled = false
+      expect((await drive.get('/api/', { path: '/Docs', sort: 'name', next: indexed.body.next })).status).toBe(400)
+    } finally {
+      siteConfig.driveIndex.enabled = true
+      await saveSiteSettings(null)
+    }
+  })
+})
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest'
+
+import { createFileRequest, findFileRequestFolder } from '../../utils/fileRequests'
+
+describe('createFileRequest', () => {
+  it('creates a single request when several are created for the same folder at the same time', async () => {
+    const request = { path: '/Uploads', name: 'Uploads', note: '', createdBy: 'alice' }
+    const created = await Promise.all(Array.from({ length: 5 }, () => createFileRequest(request, { expiresIn: 3600 })))
+
+    const opened = created.filter(r => r !== null)
+    expect(opened).toHaveLength(1)
+    expect((await findFileRequestFolder('/Uploads/report.pdf'))?.id).toBe(opened[0]?.id)
+  })
+})
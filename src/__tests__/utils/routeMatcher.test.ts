@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+
+import { matchRoute, matchRouteOrExclusion } from '../../utils/routeMatcher'
+
+describe('matchRoute', () => {
+  it('covers the matched folder and everything inside it', () => {
+    expect(matchRoute('/Private', ['/Private'])).toBe('/private/')
+    expect(matchRoute('/Private/a/b.txt', ['/Private'])).toBe('/private/')
+    expect(matchRoute('/Privateer', ['/Private'])).toBe('')
+    expect(matchRoute('/Public', ['/Private'])).toBe('')
+  })
+
+  it('ignores case and trailing slashes', () => {
+    expect(matchRoute('/PRIVATE/File.txt', ['/private/'])).toBe('/private/')
+  })
+
+  it('matches wildcards inside one component', () => {
+    expect(matchRoute('/Clients/Acme/Invoices/1.pdf', ['/Clients/*/Invoices'])).toBe('/clients/acme/invoices/')
+    expect(matchRoute('/Clients/Acme/Reports', ['/Clients/*/Invoices'])).toBe('')
+    expect(matchRoute('/Photos/2023', ['/Photos/20*'])).toBe('/photos/2023/')
+    expect(matchRoute('/Photos/1999', ['/Photos/20*'])).toBe('')
+    expect(matchRoute('/Photos/a1', ['/Photos/a?'])).toBe('/photos/a1/')
+    expect(matchRoute('/Photos/a12', ['/Photos/a?'])).toBe('')
+  })
+
+  it('treats other regular expression characters literally', () => {
+    expect(matchRoute('/a.b (1)', ['/a.b (*)'])).toBe('/a.b (1)/')
+    expect(matchRoute('/axb (1)', ['/a.b (*)'])).toBe('')
+  })
+
+  it('matches any number of components with **, ending at the first matching folder', () => {
+    expect(matchRoute('/private', ['**/private'])).toBe('/private/')
+    expect(matchRoute('/a/b/private/c/private/d', ['**/private'])).toBe('/a/b/private/')
+    expect(matchRoute('/a/b', ['**/private'])).toBe('')
+  })
+
+  it('prefers the pattern matching the deepest folder, then the one with the most literal components', () => {
+    expect(matchRoute('/Clients/Acme/x', ['/Clients', '/Clients/*'])).toBe('/clients/acme/')
+    expect(matchRoute('/Clients/Acme/x', ['/Clients/*', '/Clients/Acme'])).toBe('/clients/acme/')
+  })
+
+  it('leaves out paths an exclusion wins for', () => {
+    expect(matchRoute('/Private/Public/x', ['/Private', '!/Private/Public'])).toBe('')
+    expect(matchRoute('/Private/Other', ['/Private', '!/Private/Public'])).toBe('/private/')
+    // An exclusion wins over a route of the same specificity, but not over a more specific one
+    expect(matchRoute('/Private', ['/Private', '!/Private'])).toBe('')
+    expect(matchRoute('/Private/Public/Secret', ['!/Private/Public', '/Private/Public/Secret'])).toBe(
+      '/private/public/secret/'
+    )
+  })
+
+  it('skips invalid patterns', () => {
+    expect(matchRoute('/a', ['', '!', 42 as unknown as string])).toBe('')
+    expect(matchRoute('/a', undefined as unknown as string[])).toBe('')
+    expect(matchRoute('/', ['/'])).toBe('/')
+  })
+})
+
+describe('matchRouteOrExclusion', () => {
+  it('tells the folder an exclusion wins for', () => {
+    expect(matchRouteOrExclusion('/A/Public/x', ['/a', '!/a/public/**'])).toEqual({ route: '', excluded: '/a/public/' })
+    expect(matchRouteOrExclusion('/A/Other', ['/a', '!/a/public/**'])).toEqual({ route: '/a/', excluded: '' })
+    expect(matchRouteOrExclusion('/B', ['/a', '!/a/public/**'])).toEqual({ route: '', excluded: '' })
+  })
+})
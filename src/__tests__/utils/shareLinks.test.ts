@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+
+import { createShareLink, getShareLink, recordShareLinkDownload } from '../../utils/shareLinks'
+
+const creator = { name: 'alice', sso: false, unlockedRoute: null }
+const item = { path: '/Docs/report.pdf', name: 'report.pdf', isFolder: false }
+
+describe('recordShareLinkDownload', () => {
+  it('allows no more downloads than the limit, even when they happen at the same time', async () => {
+    const link = await createShareLink(item, creator, { expiresIn: 3600, maxDownloads: 3 })
+
+    const allowed = await Promise.all(Array.from({ length: 10 }, () => recordShareLinkDownload(link.id)))
+    expect(allowed.filter(Boolean)).toHaveLength(3)
+    expect((await getShareLink(link.id))?.downloads).toBe(3)
+    expect(await recordShareLinkDownload(link.id)).toBe(false)
+  })
+
+  it('counts downloads of links without a limit', async () => {
+    const link = await createShareLink(item, creator, { expiresIn: 3600 })
+
+    const allowed = await Promise.all([recordShareLinkDownload(link.id), recordShareLinkDownload(link.id)])
+    expect(allowed).toEqual([true, true])
+    expect((await getShareLink(link.id))?.downloads).toBe(2)
+  })
+})
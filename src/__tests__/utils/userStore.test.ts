@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+
+import type { OdUserInfo } from '../../types'
+import { ADMIN_ROLE, evaluateUserAccess, saveRole } from '../../utils/userStore'
+
+const user = (changes: Partial<OdUserInfo> = {}): OdUserInfo => ({ name: 'alice', roles: [], rules: [], ...changes })
+
+describe('evaluateUserAccess', () => {
+  it('allows admins everywhere, whatever their rules', async () => {
+    const admin = user({ roles: [ADMIN_ROLE], rules: [{ path: '/', access: 'deny' }] })
+    expect(await evaluateUserAccess(admin, '/Private')).toBe('allow')
+  })
+
+  it('returns null when no rule covers the path', async () => {
+    expect(await evaluateUserAccess(user(), '/Private')).toBeNull()
+    expect(await evaluateUserAccess(user({ rules: [{ path: '/Other', access: 'deny' }] }), '/Private')).toBeNull()
+  })
+
+  it('applies the rule with the longest path, comparing whole components and ignoring case', async () => {
+    const alice = user({
+      rules: [
+        { path: '/Clients', access: 'deny' },
+        { path: '/Clients/Acme/', access: 'allow' },
+      ],
+    })
+    expect(await evaluateUserAccess(alice, '/clients/acme/invoice.pdf')).toBe('allow')
+    expect(await evaluateUserAccess(alice, '/Clients/Acmeco')).toBe('deny')
+    expect(await evaluateUserAccess(alice, '/Clients')).toBe('deny')
+  })
+
+  it('prefers deny over allow for rules on the same path', async () => {
+    const alice = user({
+      rules: [
+        { path: '/Shared', access: 'allow' },
+        { path: '/Shared/', access: 'deny' },
+      ],
+    })
+    expect(await evaluateUserAccess(alice, '/Shared/x')).toBe('deny')
+  })
+
+  it('combines the rules of the user with those of its roles', async () => {
+    await saveRole({ name: 'Staff', rules: [{ path: '/Staff', access: 'allow' }] })
+    await saveRole({ name: 'Contractors', rules: [{ path: '/Staff/HR', access: 'deny' }] })
+
+    const alice = user({
+      roles: ['staff', 'contractors', 'missing'],
+      rules: [{ path: '/Staff/HR/Alice', access: 'allow' }],
+    })
+    expect(await evaluateUserAccess(alice, '/Staff/Wiki')).toBe('allow')
+    expect(await evaluateUserAccess(alice, '/Staff/HR/Bob')).toBe('deny')
+    expect(await evaluateUserAccess(alice, '/Staff/HR/Alice/payslip.pdf')).toBe('allow')
+  })
+})
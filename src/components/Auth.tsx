@@ -1,3 +1,4 @@
+import axios from 'axios'
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
 
 import Image from 'next/image'
@@ -7,55 +8,95 @@ import { useTranslation } from 'next-i18next'
 
 import { matchProtectedRoute } from '../utils/protectedRouteHandler'
 import useLocalStorage from '../utils/useLocalStorage'
+import useSession from '../utils/useSession'
+import useSiteSettings from '../utils/useSiteSettings'
+import LoginForm, { SsoLoginButton } from './LoginForm'
 
-const Auth: FC<{ redirect: string }> = ({ redirect }) => {
-  const authTokenPath = matchProtectedRoute(redirect)
+const Auth: FC<{ redirect: string; route?: string; password?: boolean }> = ({
+  redirect,
+  route,
+  password: hasPassword,
+}) => {
+  // The server tells which route rejected the request, as routes are also discovered from .password files
+  const { settings } = useSiteSettings()
+  const authTokenPath = route ?? matchProtectedRoute(redirect, settings.protectedRoutes)
 
   const router = useRouter()
-  const [token, setToken] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState('')
   const [_, setPersistedToken] = useLocalStorage(authTokenPath, '')
+  const { user, accountsEnabled, ssoEnabled } = useSession()
 
   const { t } = useTranslation()
 
+  // Exchange the password for a token of the protected route, the password itself is not kept
+  const submitPassword = async () => {
+    setError('')
+    try {
+      const { data } = await axios.post('/api/auth/login', { path: decodeURIComponent(redirect), password })
+      setPersistedToken(data.token)
+      router.reload()
+    } catch (err: any) {
+      setError(err?.response?.status === 401 ? t('Wrong password.') : t('Failed to check the password.'))
+    }
+  }
+
   return (
     <div className="mx-auto flex max-w-sm flex-col space-y-4 md:my-10">
       <div className="mx-auto w-3/4 md:w-5/6">
         <Image src={'/images/fabulous-wapmire-weekdays.png'} alt="authenticate" width={912} height={912} priority />
       </div>
-      <div className="text-lg font-bold text-gray-900 dark:text-gray-100">{t('Enter Password')}</div>
-
-      <p className="text-sm font-medium text-gray-500">
-        {t('This route (the folder itself and the files inside) is password protected. ') +
-          t('If you know the password, please enter it below.')}
-      </p>
-
-      <div className="flex items-center space-x-2">
-        <input
-          className="flex-1 rounded border border-gray-600/10 p-2 font-mono focus:outline-none focus:ring focus:ring-blue-300 dark:bg-gray-600 dark:text-white dark:focus:ring-blue-700"
-          autoFocus
-          type="password"
-          placeholder="************"
-          value={token}
-          onChange={e => {
-            setToken(e.target.value)
-          }}
-          onKeyPress={e => {
-            if (e.key === 'Enter' || e.key === 'NumpadEnter') {
-              setPersistedToken(token)
-              router.reload()
-            }
-          }}
-        />
-        <button
-          className="rounded bg-blue-600 px-4 py-2 text-white hover:bg-blue-500 focus:outline-none focus:ring focus:ring-blue-400"
-          onClick={() => {
-            setPersistedToken(token)
-            router.reload()
-          }}
-        >
-          <FontAwesomeIcon icon="arrow-right" />
-        </button>
-      </div>
+
+      {(accountsEnabled || ssoEnabled) && (
+        <>
+          <div className="text-lg font-bold text-gray-900 dark:text-gray-100">{t('Sign in')}</div>
+          <p className="text-sm font-medium text-gray-500">
+            {user
+              ? t('You are signed in as {{name}}, but this account has no access to this route. ', {
+                  name: user.name,
+                }) + t('Sign in with another account to continue.')
+              : t('This route (the folder itself and the files inside) requires signing in with your account.')}
+          </p>
+          {ssoEnabled && <SsoLoginButton redirect={router.asPath} />}
+          {accountsEnabled && <LoginForm onLogin={() => router.reload()} />}
+        </>
+      )}
+
+      {authTokenPath && (hasPassword ?? true) && (
+        <>
+          <div className="text-lg font-bold text-gray-900 dark:text-gray-100">{t('Enter Password')}</div>
+
+          <p className="text-sm font-medium text-gray-500">
+            {t('This route (the folder itself and the files inside) is password protected. ') +
+              t('If you know the password, please enter it below.')}
+          </p>
+
+          <div className="flex items-center space-x-2">
+            <input
+              className="flex-1 rounded border border-gray-600/10 p-2 font-mono focus:outline-none focus:ring focus:ring-blue-300 dark:bg-gray-600 dark:text-white dark:focus:ring-blue-700"
+              autoFocus
+              type="password"
+              placeholder="************"
+              value={password}
+              onChange={e => {
+                setPassword(e.target.value)
+              }}
+              onKeyPress={e => {
+                if (e.key === 'Enter' || e.key === 'NumpadEnter') {
+                  submitPassword()
+                }
+              }}
+            />
+            <button
+              className="rounded bg-blue-600 px-4 py-2 text-white hover:bg-blue-500 focus:outline-none focus:ring focus:ring-blue-400"
+              onClick={() => submitPassword()}
+            >
+              <FontAwesomeIcon icon="arrow-right" />
+            </button>
+          </div>
+          {error && <p className="text-sm text-red-500">{error}</p>}
+        </>
+      )}
     </div>
   )
 }
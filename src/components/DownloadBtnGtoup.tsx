@@ -10,7 +10,9 @@ import { useRouter } from 'next/router'
 
 import { getBaseUrl } from '../utils/getBaseUrl'
 import { getStoredToken } from '../utils/protectedRouteHandler'
+import useSession from '../utils/useSession'
 import CustomEmbedLinkMenu from './CustomEmbedLinkMenu'
+import ShareLinkMenu from './ShareLinkMenu'
 
 const btnStyleMap = (btnColor?: string) => {
   const colorMap = {
@@ -68,12 +70,15 @@ const DownloadButtonGroup = () => {
 
   const clipboard = useClipboard()
   const [menuOpen, setMenuOpen] = useState(false)
+  const [shareMenuOpen, setShareMenuOpen] = useState(false)
+  const { user } = useSession()
 
   const { t } = useTranslation()
 
   return (
     <>
       <CustomEmbedLinkMenu menuOpen={menuOpen} setMenuOpen={setMenuOpen} path={asPath} />
+      <ShareLinkMenu menuOpen={shareMenuOpen} setMenuOpen={setShareMenuOpen} path={asPath} />
       <div className="flex flex-wrap justify-center gap-2">
         <DownloadButton
           onClickCallback={() => window.open(`/api/raw/?path=${asPath}${hashedToken ? `&odpt=${hashedToken}` : ''}`)}
@@ -98,6 +103,15 @@ const DownloadButtonGroup = () => {
           btnText={t('Customise link')}
           btnIcon="pen"
         />
+        {user && (
+          <DownloadButton
+            onClickCallback={() => setShareMenuOpen(true)}
+            btnColor="green"
+            btnText={t('Share link')}
+            btnIcon="link"
+            btnTitle={t('Create an expiring link to share the file')}
+          />
+        )}
       </div>
     </>
   )
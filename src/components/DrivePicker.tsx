@@ -0,0 +1,149 @@
+import axios from 'axios'
+import { useState } from 'react'
+import { useAsync } from 'react-async-hook'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { useTranslation } from 'next-i18next'
+
+import { getGraphApi } from '../utils/drives'
+import { LoadingIcon } from './Loading'
+
+type DriveOption = { driveApi: string; name: string; description: string }
+
+const DriveOptionList = ({
+  options,
+  driveApi,
+  setDriveApi,
+}: {
+  options: DriveOption[]
+  driveApi: string
+  setDriveApi: (driveApi: string) => void
+}) => (
+  <>
+    {options.map(o => (
+      <label
+        key={o.driveApi}
+        className="flex cursor-pointer items-center space-x-3 border-b border-gray-400/20 px-3 py-2 hover:bg-gray-50 dark:hover:bg-gray-850"
+      >
+        <input
+          type="radio"
+          name="drive-api"
+          checked={o.driveApi === driveApi}
+          onChange={() => setDriveApi(o.driveApi)}
+        />
+        <div className="overflow-hidden">
+          <div className="text-sm font-medium">{o.name}</div>
+          <div className="truncate font-mono text-xs opacity-60">{o.description}</div>
+        </div>
+      </label>
+    ))}
+  </>
+)
+
+/**
+ * Lets the admin pick the drive to serve after signing in: the configured drive, another drive of the account,
+ * or a document library of a SharePoint site. Drives are listed straight from the Graph API with the acquired token.
+ *
+ * @param props
+ * @param props.accessToken Access token acquired in OAuth step 3
+ * @param props.defaultDriveApi Drive API configured for this drive
+ * @param props.driveApi Currently picked drive API
+ * @param props.setDriveApi Callback to pick a drive API
+ */
+export default function DrivePicker({
+  accessToken,
+  defaultDriveApi,
+  driveApi,
+  setDriveApi,
+}: {
+  accessToken: string
+  defaultDriveApi: string
+  driveApi: string
+  setDriveApi: (driveApi: string) => void
+}) {
+  const { t } = useTranslation()
+
+  const graphApi = getGraphApi(defaultDriveApi)
+  const headers = { Authorization: `Bearer ${accessToken}` }
+
+  const [siteQuery, setSiteQuery] = useState('')
+  const [searchedSiteQuery, setSearchedSiteQuery] = useState('')
+
+  // Drives of the signed in account, for OneDrive for Business this also includes drives shared with the account
+  const accountDrives = useAsync(async () => {
+    const { data } = await axios.get(`${graphApi}/me/drives`, { headers })
+    return data.value.map(d => ({
+      driveApi: `${graphApi}/drives/${d.id}`,
+      name: d.name,
+      description: `${d.driveType} · ${d.webUrl ?? d.id}`,
+    })) as DriveOption[]
+  }, [accessToken])
+
+  // Document libraries of the SharePoint sites matching the search, requires the Sites.Read.All scope
+  const siteDrives = useAsync(async () => {
+    if (searchedSiteQuery === '') return []
+    const { data: sites } = await axios.get(`${graphApi}/sites`, { headers, params: { search: searchedSiteQuery } })
+    const drives = await Promise.all(
+      sites.value.slice(0, 10).map(async site => {
+        const { data } = await axios.get(`${graphApi}/sites/${site.id}/drives`, { headers })
+        return data.value.map(d => ({
+          driveApi: `${graphApi}/sites/${site.id}/drives/${d.id}`,
+          name: `${site.displayName} / ${d.name}`,
+          description: d.webUrl ?? site.webUrl,
+        }))
+      })
+    )
+    return [].concat(...drives) as DriveOption[]
+  }, [searchedSiteQuery])
+
+  return (
+    <div className="my-4 overflow-hidden rounded border border-gray-400/30">
+      <DriveOptionList
+        options={[{ driveApi: defaultDriveApi, name: t('Configured drive'), description: defaultDriveApi }]}
+        driveApi={driveApi}
+        setDriveApi={setDriveApi}
+      />
+
+      {accountDrives.loading && (
+        <div className="px-3 py-2 text-sm">
+          <LoadingIcon className="svg-inline--fa mr-2 inline-block h-4 w-4 animate-spin" />
+          <span>{t('Loading ...')}</span>
+        </div>
+      )}
+      {accountDrives.result && (
+        <DriveOptionList
+          options={accountDrives.result.filter(o => o.driveApi !== defaultDriveApi)}
+          driveApi={driveApi}
+          setDriveApi={setDriveApi}
+        />
+      )}
+
+      <div className="flex items-center space-x-2 bg-gray-50 px-3 py-2 dark:bg-gray-800">
+        <FontAwesomeIcon icon="search" className="h-4 w-4" />
+        <input
+          className="w-full bg-transparent text-sm focus:outline-none focus-visible:outline-none"
+          type="text"
+          placeholder={t('Search SharePoint sites ...')}
+          value={siteQuery}
+          onChange={e => setSiteQuery(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter' || e.key === 'NumpadEnter') setSearchedSiteQuery(siteQuery.trim())
+          }}
+        />
+      </div>
+      {siteDrives.loading && (
+        <div className="px-3 py-2 text-sm">
+          <LoadingIcon className="svg-inline--fa mr-2 inline-block h-4 w-4 animate-spin" />
+          <span>{t('Loading ...')}</span>
+        </div>
+      )}
+      {siteDrives.error && (
+        <div className="px-3 py-2 text-sm text-red-500">
+          {t('Error: {{message}}', { message: siteDrives.error.message })}
+        </div>
+      )}
+      {siteDrives.result && (
+        <DriveOptionList options={siteDrives.result} driveApi={driveApi} setDriveApi={setDriveApi} />
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 import type { OdFileObject, OdFolderChildren, OdFolderObject } from '../types'
 import { ParsedUrlQuery } from 'querystring'
-import { FC, MouseEventHandler, SetStateAction, useEffect, useRef, useState } from 'react'
+import { FC, MouseEvent, MouseEventHandler, SetStateAction, useEffect, useRef, useState } from 'react'
+import { useSWRConfig } from 'swr'
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
 import toast, { Toaster } from 'react-hot-toast'
 import emojiRegex from 'emoji-regex'
@@ -11,9 +12,17 @@ import { useTranslation } from 'next-i18next'
 
 import useLocalStorage from '../utils/useLocalStorage'
 import { getPreviewType, preview } from '../utils/getPreviewType'
-import { useProtectedSWRInfinite } from '../utils/fetchWithSWR'
+import { invalidateFolderCaches, useProtectedSWRInfinite } from '../utils/fetchWithSWR'
+import {
+  groupFoldersFirst,
+  ListingOptions,
+  parseListingOptions,
+  toApiQuery,
+  toListingQuery,
+} from '../utils/listingOptions'
 import { getExtension, getRawExtension, getFileIcon } from '../utils/getFileIcon'
 import { getStoredToken } from '../utils/protectedRouteHandler'
+import useSession from '../utils/useSession'
 import {
   DownloadingToast,
   downloadMultipleFiles,
@@ -29,6 +38,8 @@ import Auth from './Auth'
 import { PreviewContainer } from './previews/Containers'
 import FolderListLayout from './FolderListLayout'
 import FolderGridLayout from './FolderGridLayout'
+import FileManager, { ManageContextMenu } from './FileManager'
+import ListingFilters from './ListingFilters'
 
 // ====== Dynamic Preview Imports ======
 const TextPreview = dynamic(() => import('./previews/TextPreview'), { ssr: false })
@@ -128,28 +139,125 @@ export const Downloading: FC<{ title: string; style: string }> = ({ title, style
   </span>
 )
 
+// Selection and scroll position of the folders visited, brought back when going back to them
+const visitedFolders = new Map<
+  string,
+  { selected: { [key: string]: boolean }; totalSelected: 0 | 1 | 2; scrollY: number }
+>()
+
 // ====== FileListing Component ======
 const FileListing: FC<{ query?: ParsedUrlQuery }> = ({ query }) => {
   const [selected, setSelected] = useState<{ [key: string]: boolean }>({})
   const [totalSelected, setTotalSelected] = useState<0 | 1 | 2>(0)
   const [totalGenerating, setTotalGenerating] = useState(false)
   const [folderGenerating, setFolderGenerating] = useState<{ [key: string]: boolean }>({})
+  const [contextMenu, setContextMenu] = useState<ManageContextMenu | null>(null)
 
   const router = useRouter()
   const hashedToken = getStoredToken(router.asPath)
   const [layout] = useLocalStorage('preferredLayout', layouts[0])
   const { t } = useTranslation()
   const path = queryToPath(query)
-  const { data, error, size, setSize } = useProtectedSWRInfinite(path)
+
+  // The sort order and filters are remembered, and put in the address bar so that the view can be shared. Options in
+  // the address bar win over the remembered ones, except the name filter which is never remembered.
+  const [preferredListing, setPreferredListing] = useLocalStorage<Omit<ListingOptions, 'q'>>('preferredListing', {
+    sort: null,
+    foldersFirst: false,
+    type: null,
+  })
+  const listing = parseListingOptions(router.query, preferredListing)
+  const listingQuery = toListingQuery(listing)
+  const replaceListingQuery = (listingQuery: Record<string, string>) => {
+    const { sort, folders, type, q, ...rest } = router.query
+    router.replace({ pathname: router.pathname, query: { ...rest, ...listingQuery } }, undefined, { shallow: true })
+  }
+  const setListing = (changes: Partial<ListingOptions>) => {
+    const { q, ...preferred } = { ...listing, ...changes }
+    setPreferredListing(preferred)
+    replaceListingQuery(toListingQuery({ ...preferred, q }))
+  }
+
+  const { data, error, size, setSize, mutate } = useProtectedSWRInfinite(path, toApiQuery(listing))
+  const { cache } = useSWRConfig()
+
+  // Admins manage files in admin mode, which is remembered across pages
+  const { isAdmin } = useSession()
+  const [adminMode, setAdminMode] = useLocalStorage('adminMode', false)
+  const manageMode = isAdmin && adminMode
+
+  // Folders opened with remembered options get them in the address bar too
+  const isFolder = Boolean(data?.[0] && 'folder' in data[0])
+  useEffect(() => {
+    if (isFolder && Object.entries(listingQuery).some(([key, value]) => router.query[key] !== value)) {
+      replaceListingQuery(listingQuery)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isFolder, JSON.stringify(listingQuery)])
+
+  // Large folders are rendered as they are scrolled (see useVirtualRows), and the next page is fetched before the end
+  // of the folder comes into view
+  const isEmpty = data?.[0]?.length === 0
+  const isReachingEnd = isEmpty || (data && typeof data[data.length - 1]?.next === 'undefined')
+  const isLoadingMore = data && typeof data[size - 1] === 'undefined'
+  const [loadMoreElement, setLoadMoreElement] = useState<HTMLDivElement | null>(null)
+  const [nearEnd, setNearEnd] = useState(false)
+  useEffect(() => {
+    if (!loadMoreElement) return
+    const observer = new IntersectionObserver(([entry]) => setNearEnd(entry.isIntersecting), {
+      rootMargin: '1000px 0px',
+    })
+    observer.observe(loadMoreElement)
+    return () => {
+      observer.disconnect()
+      setNearEnd(false)
+    }
+  }, [loadMoreElement])
+  useEffect(() => {
+    if (data && nearEnd && !isLoadingMore && !isReachingEnd) setSize(size + 1)
+  }, [data, nearEnd, isLoadingMore, isReachingEnd, size, setSize])
+
+  // The selection and scroll position are kept when leaving a folder, and brought back with the browser's back and
+  // forward buttons. Other links open folders at the top, with their selection.
+  const currentSelection = useRef({ selected, totalSelected })
+  currentSelection.current = { selected, totalSelected }
+  const historyNavigation = useRef(false)
+  useEffect(() => {
+    const visited = visitedFolders.get(path)
+    setSelected(visited?.selected ?? {})
+    setTotalSelected(visited?.totalSelected ?? 0)
+
+    const save = () => visitedFolders.set(path, { ...currentSelection.current, scrollY: window.scrollY })
+    router.events.on('routeChangeStart', save)
+    return () => router.events.off('routeChangeStart', save)
+  }, [path, router.events])
+  useEffect(() => {
+    const onPopState = () => (historyNavigation.current = true)
+    window.addEventListener('popstate', onPopState)
+    return () => window.removeEventListener('popstate', onPopState)
+  }, [])
+  const loaded = Boolean(data)
+  useEffect(() => {
+    if (!loaded || !historyNavigation.current) return
+    historyNavigation.current = false
+    const scrollY = visitedFolders.get(path)?.scrollY
+    if (scrollY) window.scrollTo(0, scrollY)
+  }, [path, loaded])
 
   if (error) {
     if (error.status === 403) {
-      router.push('/onedrive-vercel-index-oauth/step-1')
+      // With multiple drives, only the drive of the current path needs to be authorised
+      const drive = error.message?.drive
+      router.push({ pathname: '/onedrive-vercel-index-oauth/step-1', query: drive ? { drive } : {} })
       return null
     }
     return (
       <PreviewContainer>
-        {error.status === 401 ? <Auth redirect={path} /> : <FourOhFour errorMsg={JSON.stringify(error.message)} />}
+        {error.status === 401 ? (
+          <Auth redirect={path} route={error.message?.route} password={error.message?.password} />
+        ) : (
+          <FourOhFour errorMsg={JSON.stringify(error.message)} />
+        )}
       </PreviewContainer>
     )
   }
@@ -165,12 +273,16 @@ const FileListing: FC<{ query?: ParsedUrlQuery }> = ({ query }) => {
   const responses: any[] = data ? [].concat(...data) : []
 
   if ('folder' in responses[0]) {
-    const folderChildren = [].concat(...responses.map(r => r.folder.value)) as OdFolderObject['value']
+    const loadedChildren = [].concat(...responses.map(r => r.folder.value)) as OdFolderObject['value']
+    // OneDrive sorts each page, folders are grouped over all pages loaded
+    const folderChildren = listing.foldersFirst ? groupFoldersFirst(loadedChildren) : loadedChildren
     const readmeFile = folderChildren.find(c => c.name.toLowerCase() === 'readme.md')
     const getFiles = () => folderChildren.filter(c => !c.folder && c.name !== '.password')
+    // In admin mode, folders and configuration files can be selected as well
+    const getSelectable = () => (manageMode ? folderChildren : getFiles())
 
     const genTotalSelected = (selected: { [key: string]: boolean }) => {
-      const selectInfo = getFiles().map(c => Boolean(selected[c.id]))
+      const selectInfo = getSelectable().map(c => Boolean(selected[c.id]))
       const [hasT, hasF] = [selectInfo.some(i => i), selectInfo.some(i => !i)]
       return hasT && hasF ? 1 : !hasF ? 2 : 0
     }
@@ -192,11 +304,35 @@ const FileListing: FC<{ query?: ParsedUrlQuery }> = ({ query }) => {
         setSelected({})
         setTotalSelected(0)
       } else {
-        setSelected(Object.fromEntries(getFiles().map(c => [c.id, true])))
+        setSelected(Object.fromEntries(getSelectable().map(c => [c.id, true])))
         setTotalSelected(2)
       }
     }
 
+    const setManageMode = (manageMode: boolean) => {
+      setAdminMode(manageMode)
+      setSelected({})
+      setTotalSelected(0)
+    }
+
+    const handleContextMenu = (e: MouseEvent, c: OdFolderChildren) => {
+      if (!manageMode) return
+      e.preventDefault()
+      setContextMenu({ x: e.clientX, y: e.clientY, item: c })
+    }
+
+    // Refresh the listing after a change, and drop the listings of the other folders changed so they are fetched again
+    const handleManaged = (folders: string[], trees: string[]) => {
+      invalidateFolderCaches(
+        cache,
+        folders.filter(f => f !== path),
+        trees
+      )
+      setSelected({})
+      setTotalSelected(0)
+      mutate()
+    }
+
     const handleSelectedDownload = () => {
       const folderName = path.substring(path.lastIndexOf('/') + 1)
       const folder = folderName ? decodeURIComponent(folderName) : undefined
@@ -234,9 +370,7 @@ const FileListing: FC<{ query?: ParsedUrlQuery }> = ({ query }) => {
         .filter(c => selected[c.id])
         .map(
           c =>
-            `${baseUrl}/api/raw/?path=${path}/${encodeURIComponent(c.name)}${
-              hashedToken ? `&odpt=${hashedToken}` : ''
-            }`
+            `${baseUrl}/api/raw/?path=${path}/${encodeURIComponent(c.name)}${hashedToken ? `&odpt=${hashedToken}` : ''}`
         )
         .join('\n')
 
@@ -290,18 +424,34 @@ const FileListing: FC<{ query?: ParsedUrlQuery }> = ({ query }) => {
       folderGenerating,
       handleSelectedPermalink,
       handleFolderDownload,
+      handleUploaded: () => mutate(),
+      manageMode,
+      handleContextMenu,
+      sort: listing.sort,
+      setSort: (sort: ListingOptions['sort']) => setListing({ sort }),
     }
 
-    const isEmpty = data?.[0]?.length === 0
-    const isReachingEnd = isEmpty || (data && typeof data[data.length - 1]?.next === 'undefined')
     const onlyOnePage = data && typeof data[0].next === 'undefined'
 
     return (
       <>
         <Toaster />
+        {isAdmin && (
+          <FileManager
+            path={path}
+            folderChildren={folderChildren}
+            selected={selected}
+            manageMode={manageMode}
+            setManageMode={setManageMode}
+            contextMenu={contextMenu}
+            setContextMenu={setContextMenu}
+            onChanged={handleManaged}
+          />
+        )}
+        <ListingFilters listing={listing} setListing={setListing} />
         {layout.name === 'Grid' ? <FolderGridLayout {...folderProps} /> : <FolderListLayout {...folderProps} />}
         {!onlyOnePage && (
-          <div className="rounded-b bg-white dark:bg-gray-900 dark:text-gray-100">
+          <div className="rounded-b bg-white dark:bg-gray-900 dark:text-gray-100" ref={setLoadMoreElement}>
             <div className="border-b border-gray-200 p-3 text-center font-mono text-sm text-gray-400 dark:border-gray-700">
               {t('- showing {{count}} page(s) ', {
                 count: size,
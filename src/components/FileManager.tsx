@@ -0,0 +1,404 @@
+import axios from 'axios'
+import toast from 'react-hot-toast'
+import { Fragment, useState } from 'react'
+import { useTranslation } from 'next-i18next'
+import { Dialog, Transition } from '@headlessui/react'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { IconProp } from '@fortawesome/fontawesome-svg-core'
+
+import type { OdCopyProgress, OdFolderChildren, OdManageResult } from '../types'
+
+// File management operations, see /api/manage
+type ManageAction = 'createFolder' | 'rename' | 'move' | 'copy' | 'delete'
+
+// The item right clicked in admin mode, and where the menu opens
+export type ManageContextMenu = { x: number; y: number; item: OdFolderChildren }
+
+// Copies are polled every two seconds until OneDrive finishes them
+const COPY_POLL_INTERVAL = 2000
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Encode a path the way listings are addressed, e.g. '/a b/c' to '/a%20b/c'
+const encodePath = (path: string) => path.split('/').map(encodeURIComponent).join('/')
+
+/**
+ * Wait for a copy started through /api/manage to finish
+ *
+ * @param id Id of the copy monitor
+ * @param onProgress Called with the percentage copied so far
+ * @returns Whether the copy completed
+ */
+async function waitForCopy(id: string, onProgress: (percentage: number) => void): Promise<boolean> {
+  for (;;) {
+    const { data } = await axios.get<OdCopyProgress>(`/api/manage/copy/${id}/`)
+    if (data.status !== 'inProgress') return data.status === 'completed'
+    onProgress(data.percentage)
+    await sleep(COPY_POLL_INTERVAL)
+  }
+}
+
+const ToolbarButton = ({
+  icon,
+  title,
+  disabled,
+  onClick,
+}: {
+  icon: IconProp
+  title: string
+  disabled?: boolean
+  onClick: () => void
+}) => (
+  <button
+    title={title}
+    className="flex items-center space-x-1.5 rounded px-2 py-1 hover:bg-gray-300 disabled:cursor-not-allowed disabled:text-gray-400 disabled:hover:bg-transparent dark:hover:bg-gray-600 disabled:dark:text-gray-600"
+    disabled={disabled}
+    onClick={onClick}
+  >
+    <FontAwesomeIcon icon={icon} />
+    <span className="hidden md:inline">{title}</span>
+  </button>
+)
+
+/**
+ * Admin mode of the file listing: a toolbar with bulk actions on the selected items, a context menu on the items, and
+ * the dialogs asking for new names and destinations. Changes are made through /api/manage.
+ *
+ * @param props
+ * @param props.path URL encoded path of the folder
+ * @param props.folderChildren Items of the folder
+ * @param props.selected Ids of the selected items
+ * @param props.manageMode Whether admin mode is on
+ * @param props.setManageMode Turn admin mode on or off
+ * @param props.contextMenu The item right clicked, if any
+ * @param props.setContextMenu Open or close the context menu
+ * @param props.onChanged Called after a change, with the URL encoded paths of the folders whose contents changed and
+ * of the folders renamed, moved or deleted
+ */
+const FileManager = ({
+  path,
+  folderChildren,
+  selected,
+  manageMode,
+  setManageMode,
+  contextMenu,
+  setContextMenu,
+  onChanged,
+}: {
+  path: string
+  folderChildren: OdFolderChildren[]
+  selected: { [key: string]: boolean }
+  manageMode: boolean
+  setManageMode: (manageMode: boolean) => void
+  contextMenu: ManageContextMenu | null
+  setContextMenu: (contextMenu: ManageContextMenu | null) => void
+  onChanged: (folders: string[], trees: string[]) => void
+}) => {
+  const { t } = useTranslation()
+
+  // The operation being confirmed in the dialog, and the items it applies to
+  const [action, setAction] = useState<ManageAction | null>(null)
+  const [items, setItems] = useState<OdFolderChildren[]>([])
+  const [value, setValue] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  const folder = decodeURIComponent(path)
+  const itemPath = (name: string) => `${folder === '/' ? '' : folder}/${name}`
+  const selectedItems = folderChildren.filter(c => selected[c.id])
+
+  const openDialog = (action: ManageAction, items: OdFolderChildren[]) => {
+    setContextMenu(null)
+    setAction(action)
+    setItems(items)
+    setValue(action === 'rename' ? items[0].name : action === 'move' || action === 'copy' ? folder : '')
+  }
+  const closeDialog = () => {
+    if (!busy) setAction(null)
+  }
+
+  // Report the outcome of an operation, naming the first item that failed
+  const report = (results: OdManageResult[], done: string) => {
+    const failed = results.filter(r => r.error)
+    if (failed.length === 0) {
+      toast.success(done)
+    } else {
+      toast.error(
+        t('Failed to change {{count}} item(s): {{path}}: {{error}}', {
+          count: failed.length,
+          path: failed[0].path,
+          error: failed[0].error,
+        })
+      )
+    }
+  }
+
+  const followCopies = async (results: OdManageResult[], destination: string) => {
+    const copies = results.filter(r => r.copy)
+    if (copies.length === 0) return
+
+    const toastId = toast.loading(t('Copying {{count}} item(s) ...', { count: copies.length }))
+    let completed = 0
+    for (const { copy } of copies) {
+      try {
+        const ok = await waitForCopy(copy!, percentage =>
+          toast.loading(
+            t('Copying {{count}} item(s) ({{progress}}%) ...', { count: copies.length, progress: percentage }),
+            {
+              id: toastId,
+            }
+          )
+        )
+        if (ok) completed++
+      } catch {
+        // Reported with the other failed copies below
+      }
+    }
+    onChanged([encodePath(destination)], [])
+    if (completed === copies.length) {
+      toast.success(t('Copied {{count}} item(s).', { count: completed }), { id: toastId })
+    } else {
+      toast.error(t('Failed to copy {{count}} item(s).', { count: copies.length - completed }), { id: toastId })
+    }
+  }
+
+  const submit = async () => {
+    if (!action) return
+    setBusy(true)
+    try {
+      const paths = items.map(c => itemPath(c.name))
+      const body =
+        action === 'createFolder' || action === 'rename'
+          ? { action, path: action === 'rename' ? paths[0] : folder, name: value.trim() }
+          : { action, paths, destination: value.trim() }
+      const { data } = await axios.post<{ results: OdManageResult[] }>('/api/manage/', body)
+      const { results } = data
+      const changedFolders = results.filter(r => !r.error && items.find(c => itemPath(c.name) === r.path)?.folder)
+
+      switch (action) {
+        case 'createFolder':
+          report(results, t('Created folder {{name}}.', { name: value.trim() }))
+          onChanged([path], [])
+          break
+        case 'rename':
+          report(results, t('Renamed {{name}}.', { name: items[0].name }))
+          onChanged(
+            [path],
+            changedFolders.map(r => encodePath(r.path))
+          )
+          break
+        case 'move':
+          report(results, t('Moved {{count}} item(s).', { count: results.length }))
+          onChanged(
+            [path, encodePath(value.trim())],
+            changedFolders.map(r => encodePath(r.path))
+          )
+          break
+        case 'copy':
+          followCopies(results, value.trim())
+          if (results.some(r => r.error)) report(results, '')
+          break
+        case 'delete':
+          report(results, t('Deleted {{count}} item(s).', { count: results.length }))
+          onChanged(
+            [path],
+            changedFolders.map(r => encodePath(r.path))
+          )
+          break
+      }
+      setAction(null)
+    } catch (error: any) {
+      const message = error?.response?.data?.error
+      toast.error(typeof message === 'string' ? message : t('Failed to change the files.'))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const titles: Record<ManageAction, string> = {
+    createFolder: t('New folder'),
+    rename: t('Rename'),
+    move: t('Move to'),
+    copy: t('Copy to'),
+    delete: t('Delete'),
+  }
+
+  const inputClassName =
+    'mb-2 w-full rounded border border-gray-600/10 p-2.5 font-mono focus:outline-none focus:ring focus:ring-blue-300 dark:bg-gray-600 dark:text-white dark:focus:ring-blue-700'
+
+  return (
+    <>
+      <div className="mb-2 flex flex-wrap items-center gap-1 rounded bg-white p-1.5 text-sm text-gray-700 shadow-sm dark:bg-gray-900 dark:text-gray-300">
+        <button
+          className={`flex items-center space-x-1.5 rounded px-2 py-1 ${
+            manageMode ? 'bg-blue-600 text-white hover:bg-blue-500' : 'hover:bg-gray-300 dark:hover:bg-gray-600'
+          }`}
+          onClick={() => setManageMode(!manageMode)}
+        >
+          <FontAwesomeIcon icon="pen" />
+          <span>{manageMode ? t('Done managing') : t('Manage files')}</span>
+        </button>
+        {manageMode && (
+          <>
+            <ToolbarButton icon="folder-plus" title={t('New folder')} onClick={() => openDialog('createFolder', [])} />
+            <ToolbarButton
+              icon="i-cursor"
+              title={t('Rename')}
+              disabled={selectedItems.length !== 1}
+              onClick={() => openDialog('rename', selectedItems)}
+            />
+            <ToolbarButton
+              icon="arrow-right"
+              title={t('Move to')}
+              disabled={selectedItems.length === 0}
+              onClick={() => openDialog('move', selectedItems)}
+            />
+            <ToolbarButton
+              icon={['far', 'copy']}
+              title={t('Copy to')}
+              disabled={selectedItems.length === 0}
+              onClick={() => openDialog('copy', selectedItems)}
+            />
+            <ToolbarButton
+              icon={['far', 'trash-alt']}
+              title={t('Delete')}
+              disabled={selectedItems.length === 0}
+              onClick={() => openDialog('delete', selectedItems)}
+            />
+            <span className="ml-auto px-2 text-xs text-gray-500">
+              {t('{{count}} selected', { count: selectedItems.length })}
+            </span>
+          </>
+        )}
+      </div>
+
+      {contextMenu && (
+        <div
+          className="fixed inset-0 z-20"
+          onClick={() => setContextMenu(null)}
+          onContextMenu={e => {
+            e.preventDefault()
+            setContextMenu(null)
+          }}
+        >
+          <div
+            className="fixed w-48 overflow-hidden rounded border border-gray-400/30 bg-white py-1 text-sm shadow-lg dark:bg-gray-900 dark:text-gray-100"
+            style={{ left: contextMenu.x, top: contextMenu.y }}
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="truncate px-3 py-1.5 text-xs font-bold text-gray-500">{contextMenu.item.name}</div>
+            {(
+              [
+                ['rename', 'i-cursor'],
+                ['move', 'arrow-right'],
+                ['copy', ['far', 'copy']],
+                ['delete', ['far', 'trash-alt']],
+              ] as [ManageAction, IconProp][]
+            ).map(([action, icon]) => (
+              <button
+                key={action}
+                className={`flex w-full items-center space-x-2 px-3 py-1.5 text-left hover:bg-gray-100 dark:hover:bg-gray-850 ${
+                  action === 'delete' ? 'text-red-500' : ''
+                }`}
+                onClick={() => openDialog(action, [contextMenu.item])}
+              >
+                <FontAwesomeIcon icon={icon} className="w-4" />
+                <span>{titles[action]}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <Transition appear show={action !== null} as={Fragment}>
+        <Dialog as="div" className="fixed inset-0 z-10 overflow-y-auto" onClose={closeDialog}>
+          <div className="min-h-screen px-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-100"
+              enterFrom="opacity-0"
+              enterTo="opacity-100"
+              leave="ease-in duration-100"
+              leaveFrom="opacity-100"
+              leaveTo="opacity-0"
+            >
+              <Dialog.Overlay className="fixed inset-0 bg-white/60 dark:bg-gray-800/60" />
+            </Transition.Child>
+
+            {/* This element is to trick the browser into centering the modal contents. */}
+            <span className="inline-block h-screen align-middle" aria-hidden="true">
+              &#8203;
+            </span>
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-100"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-100"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <div className="inline-block w-full max-w-xl transform overflow-hidden rounded border border-gray-400/30 bg-white p-4 text-left align-middle text-sm shadow-xl transition-all dark:bg-gray-900 dark:text-white">
+                <Dialog.Title as="h3" className="py-2 text-xl font-bold">
+                  {action && titles[action]}
+                </Dialog.Title>
+                <Dialog.Description as="div" className="py-2 opacity-80">
+                  {action === 'createFolder'
+                    ? t('Create a folder in {{path}}.', { path: folder })
+                    : action === 'delete'
+                    ? t('Delete {{count}} item(s)? Deleted items go to the recycle bin of OneDrive.', {
+                        count: items.length,
+                      })
+                    : items.map(c => c.name).join(', ')}
+                </Dialog.Description>
+
+                <form
+                  className="mt-2"
+                  onSubmit={e => {
+                    e.preventDefault()
+                    submit()
+                  }}
+                >
+                  {action !== 'delete' && (
+                    <>
+                      <h4 className="py-2 text-xs font-medium uppercase tracking-wider">
+                        {action === 'move' || action === 'copy' ? t('Destination folder') : t('Name')}
+                      </h4>
+                      <input
+                        className={inputClassName}
+                        autoFocus
+                        value={value}
+                        onChange={e => setValue(e.target.value)}
+                      />
+                    </>
+                  )}
+                  <div className="mt-2 flex justify-end space-x-2">
+                    <button
+                      type="button"
+                      className="rounded px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-850"
+                      onClick={closeDialog}
+                    >
+                      {t('Cancel')}
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={busy || (action !== 'delete' && value.trim() === '')}
+                      className={`rounded px-4 py-2 text-white focus:outline-none focus:ring disabled:cursor-not-allowed disabled:opacity-60 ${
+                        action === 'delete'
+                          ? 'bg-red-600 hover:bg-red-500 focus:ring-red-400'
+                          : 'bg-blue-600 hover:bg-blue-500 focus:ring-blue-400'
+                      }`}
+                    >
+                      {action && titles[action]}
+                    </button>
+                  </div>
+                </form>
+              </div>
+            </Transition.Child>
+          </div>
+        </Dialog>
+      </Transition>
+    </>
+  )
+}
+
+export default FileManager
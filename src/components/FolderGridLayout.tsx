@@ -1,7 +1,7 @@
 import type { OdFolderChildren } from '../types'
 
 import Link from 'next/link'
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
 import { useClipboard } from 'use-clipboard-copy'
 import { useTranslation } from 'next-i18next'
@@ -10,6 +10,9 @@ import { getBaseUrl } from '../utils/getBaseUrl'
 import { formatModifiedDateTime } from '../utils/fileDetails'
 import { Checkbox, ChildIcon, ChildName, Downloading } from './FileListing'
 import { getStoredToken } from '../utils/protectedRouteHandler'
+import useVirtualRows from '../utils/useVirtualRows'
+import UploadDropZone from './UploadDropZone'
+import { SortSelect } from './ListingFilters'
 
 const GridItem = ({ c, path }: { c: OdFolderChildren; path: string }) => {
   // We use the generated medium thumbnail for rendering preview images (excluding folders)
@@ -66,6 +69,11 @@ const FolderGridLayout = ({
   folderGenerating,
   handleSelectedPermalink,
   handleFolderDownload,
+  handleUploaded,
+  manageMode,
+  handleContextMenu,
+  sort,
+  setSort,
   toast,
 }) => {
   const clipboard = useClipboard()
@@ -73,127 +81,154 @@ const FolderGridLayout = ({
 
   const { t } = useTranslation()
 
+  // Items are laid out in rows of 2, or 4 on wider screens (the md breakpoint), and only the rows on screen are rendered
+  const [columns, setColumns] = useState(2)
+  useEffect(() => {
+    const query = window.matchMedia('(min-width: 768px)')
+    const update = () => setColumns(query.matches ? 4 : 2)
+    update()
+    query.addEventListener('change', update)
+    return () => query.removeEventListener('change', update)
+  }, [])
+  const rows: OdFolderChildren[][] = []
+  for (let i = 0; i < folderChildren.length; i += columns) rows.push(folderChildren.slice(i, i + columns))
+  const { containerRef, measureRef, start, end, paddingTop, paddingBottom } = useVirtualRows(rows.length, 200)
+
   // Get item path from item name
   const getItemPath = (name: string) => `${path === '/' ? '' : path}/${encodeURIComponent(name)}`
 
   return (
-    <div className="rounded bg-white shadow-sm dark:bg-gray-900 dark:text-gray-100">
-      <div className="flex items-center border-b border-gray-900/10 px-3 text-xs font-bold uppercase tracking-widest text-gray-600 dark:border-gray-500/30 dark:text-gray-400">
-        <div className="flex-1">{t('{{count}} item(s)', { count: folderChildren.length })}</div>
-        <div className="flex p-1.5 text-gray-700 dark:text-gray-400">
-          <Checkbox
-            checked={totalSelected}
-            onChange={toggleTotalSelected}
-            indeterminate={true}
-            title={t('Select all files')}
-          />
-          <button
-            title={t('Copy selected files permalink')}
-            className="cursor-pointer rounded p-1.5 hover:bg-gray-300 disabled:cursor-not-allowed disabled:text-gray-400 disabled:hover:bg-white dark:hover:bg-gray-600 disabled:dark:text-gray-600 disabled:hover:dark:bg-gray-900"
-            disabled={totalSelected === 0}
-            onClick={() => {
-              clipboard.copy(handleSelectedPermalink(getBaseUrl()))
-              toast.success(t('Copied selected files permalink.'))
-            }}
-          >
-            <FontAwesomeIcon icon={['far', 'copy']} size="lg" />
-          </button>
-          {totalGenerating ? (
-            <Downloading title={t('Downloading selected files, refresh page to cancel')} style="p-1.5" />
-          ) : (
+    <UploadDropZone path={path} onUploaded={handleUploaded}>
+      <div className="rounded bg-white shadow-sm dark:bg-gray-900 dark:text-gray-100">
+        <div className="flex items-center border-b border-gray-900/10 px-3 text-xs font-bold uppercase tracking-widest text-gray-600 dark:border-gray-500/30 dark:text-gray-400">
+          <div className="flex-1">{t('{{count}} item(s)', { count: folderChildren.length })}</div>
+          <SortSelect sort={sort} setSort={setSort} />
+          <div className="flex p-1.5 text-gray-700 dark:text-gray-400">
+            <Checkbox
+              checked={totalSelected}
+              onChange={toggleTotalSelected}
+              indeterminate={true}
+              title={t('Select all files')}
+            />
             <button
-              title={t('Download selected files')}
+              title={t('Copy selected files permalink')}
               className="cursor-pointer rounded p-1.5 hover:bg-gray-300 disabled:cursor-not-allowed disabled:text-gray-400 disabled:hover:bg-white dark:hover:bg-gray-600 disabled:dark:text-gray-600 disabled:hover:dark:bg-gray-900"
               disabled={totalSelected === 0}
-              onClick={handleSelectedDownload}
+              onClick={() => {
+                clipboard.copy(handleSelectedPermalink(getBaseUrl()))
+                toast.success(t('Copied selected files permalink.'))
+              }}
             >
-              <FontAwesomeIcon icon={['far', 'arrow-alt-circle-down']} size="lg" />
+              <FontAwesomeIcon icon={['far', 'copy']} size="lg" />
             </button>
-          )}
+            {totalGenerating ? (
+              <Downloading title={t('Downloading selected files, refresh page to cancel')} style="p-1.5" />
+            ) : (
+              <button
+                title={t('Download selected files')}
+                className="cursor-pointer rounded p-1.5 hover:bg-gray-300 disabled:cursor-not-allowed disabled:text-gray-400 disabled:hover:bg-white dark:hover:bg-gray-600 disabled:dark:text-gray-600 disabled:hover:dark:bg-gray-900"
+                disabled={totalSelected === 0}
+                onClick={handleSelectedDownload}
+              >
+                <FontAwesomeIcon icon={['far', 'arrow-alt-circle-down']} size="lg" />
+              </button>
+            )}
+          </div>
         </div>
-      </div>
 
-      <div className="grid grid-cols-2 gap-3 p-3 md:grid-cols-4">
-        {folderChildren.map((c: OdFolderChildren) => (
-          <div
-            key={c.id}
-            className="group relative overflow-hidden rounded transition-all duration-100 hover:bg-gray-100 dark:hover:bg-gray-850"
-          >
-            <div className="absolute top-0 right-0 z-10 m-1 rounded bg-white/50 py-0.5 opacity-0 transition-all duration-100 group-hover:opacity-100 dark:bg-gray-900/50">
-              {c.folder ? (
-                <div>
-                  <span
-                    title={t('Copy folder permalink')}
-                    className="cursor-pointer rounded px-1.5 py-1 hover:bg-gray-300 dark:hover:bg-gray-600"
-                    onClick={() => {
-                      clipboard.copy(`${getBaseUrl()}${getItemPath(c.name)}`)
-                      toast(t('Copied folder permalink.'), { icon: '👌' })
-                    }}
-                  >
-                    <FontAwesomeIcon icon={['far', 'copy']} />
-                  </span>
-                  {folderGenerating[c.id] ? (
-                    <Downloading title={t('Downloading folder, refresh page to cancel')} style="px-1.5 py-1" />
-                  ) : (
-                    <span
-                      title={t('Download folder')}
-                      className="cursor-pointer rounded px-1.5 py-1 hover:bg-gray-300 dark:hover:bg-gray-600"
-                      onClick={handleFolderDownload(getItemPath(c.name), c.id, c.name)}
-                    >
-                      <FontAwesomeIcon icon={['far', 'arrow-alt-circle-down']} />
-                    </span>
-                  )}
-                </div>
-              ) : (
-                <div>
-                  <span
-                    title={t('Copy raw file permalink')}
-                    className="cursor-pointer rounded px-1.5 py-1 hover:bg-gray-300 dark:hover:bg-gray-600"
-                    onClick={() => {
-                      clipboard.copy(
-                        `${getBaseUrl()}/api/raw/?path=${getItemPath(c.name)}${
-                          hashedToken ? `&odpt=${hashedToken}` : ''
-                        }`
-                      )
-                      toast.success(t('Copied raw file permalink.'))
-                    }}
+        <div className="px-3 pt-3">
+          <div ref={containerRef} style={{ paddingTop, paddingBottom }}>
+            {rows.slice(start, end).map((row, i) => (
+              <div
+                key={row[0].id}
+                ref={i === 0 ? measureRef : undefined}
+                className="grid grid-cols-2 gap-3 pb-3 md:grid-cols-4"
+              >
+                {row.map((c: OdFolderChildren) => (
+                  <div
+                    key={c.id}
+                    className="group relative overflow-hidden rounded transition-all duration-100 hover:bg-gray-100 dark:hover:bg-gray-850"
+                    onContextMenu={e => handleContextMenu(e, c)}
                   >
-                    <FontAwesomeIcon icon={['far', 'copy']} />
-                  </span>
-                  <a
-                    title={t('Download file')}
-                    className="cursor-pointer rounded px-1.5 py-1 hover:bg-gray-300 dark:hover:bg-gray-600"
-                    href={`${getBaseUrl()}/api/raw/?path=${getItemPath(c.name)}${
-                      hashedToken ? `&odpt=${hashedToken}` : ''
-                    }`}
-                  >
-                    <FontAwesomeIcon icon={['far', 'arrow-alt-circle-down']} />
-                  </a>
-                </div>
-              )}
-            </div>
+                    <div className="absolute top-0 right-0 z-10 m-1 rounded bg-white/50 py-0.5 opacity-0 transition-all duration-100 group-hover:opacity-100 dark:bg-gray-900/50">
+                      {c.folder ? (
+                        <div>
+                          <span
+                            title={t('Copy folder permalink')}
+                            className="cursor-pointer rounded px-1.5 py-1 hover:bg-gray-300 dark:hover:bg-gray-600"
+                            onClick={() => {
+                              clipboard.copy(`${getBaseUrl()}${getItemPath(c.name)}`)
+                              toast(t('Copied folder permalink.'), { icon: '👌' })
+                            }}
+                          >
+                            <FontAwesomeIcon icon={['far', 'copy']} />
+                          </span>
+                          {folderGenerating[c.id] ? (
+                            <Downloading title={t('Downloading folder, refresh page to cancel')} style="px-1.5 py-1" />
+                          ) : (
+                            <span
+                              title={t('Download folder')}
+                              className="cursor-pointer rounded px-1.5 py-1 hover:bg-gray-300 dark:hover:bg-gray-600"
+                              onClick={handleFolderDownload(getItemPath(c.name), c.id, c.name)}
+                            >
+                              <FontAwesomeIcon icon={['far', 'arrow-alt-circle-down']} />
+                            </span>
+                          )}
+                        </div>
+                      ) : (
+                        <div>
+                          <span
+                            title={t('Copy raw file permalink')}
+                            className="cursor-pointer rounded px-1.5 py-1 hover:bg-gray-300 dark:hover:bg-gray-600"
+                            onClick={() => {
+                              clipboard.copy(
+                                `${getBaseUrl()}/api/raw/?path=${getItemPath(c.name)}${
+                                  hashedToken ? `&odpt=${hashedToken}` : ''
+                                }`
+                              )
+                              toast.success(t('Copied raw file permalink.'))
+                            }}
+                          >
+                            <FontAwesomeIcon icon={['far', 'copy']} />
+                          </span>
+                          <a
+                            title={t('Download file')}
+                            className="cursor-pointer rounded px-1.5 py-1 hover:bg-gray-300 dark:hover:bg-gray-600"
+                            href={`${getBaseUrl()}/api/raw/?path=${getItemPath(c.name)}${
+                              hashedToken ? `&odpt=${hashedToken}` : ''
+                            }`}
+                          >
+                            <FontAwesomeIcon icon={['far', 'arrow-alt-circle-down']} />
+                          </a>
+                        </div>
+                      )}
+                    </div>
 
-            <div
-              className={`${
-                selected[c.id] ? 'opacity-100' : 'opacity-0'
-              } absolute top-0 left-0 z-10 m-1 rounded bg-white/50 py-0.5 group-hover:opacity-100 dark:bg-gray-900/50`}
-            >
-              {!c.folder && !(c.name === '.password') && (
-                <Checkbox
-                  checked={selected[c.id] ? 2 : 0}
-                  onChange={() => toggleItemSelected(c.id)}
-                  title={t('Select file')}
-                />
-              )}
-            </div>
+                    <div
+                      className={`${
+                        selected[c.id] ? 'opacity-100' : 'opacity-0'
+                      } absolute top-0 left-0 z-10 m-1 rounded bg-white/50 py-0.5 group-hover:opacity-100 dark:bg-gray-900/50`}
+                    >
+                      {(manageMode || (!c.folder && !(c.name === '.password'))) && (
+                        <Checkbox
+                          checked={selected[c.id] ? 2 : 0}
+                          onChange={() => toggleItemSelected(c.id)}
+                          title={t('Select file')}
+                        />
+                      )}
+                    </div>
 
-            <Link href={getItemPath(c.name)} passHref>
-              <GridItem c={c} path={getItemPath(c.name)} />
-            </Link>
+                    <Link href={getItemPath(c.name)} passHref>
+                      <GridItem c={c} path={getItemPath(c.name)} />
+                    </Link>
+                  </div>
+                ))}
+              </div>
+            ))}
           </div>
-        ))}
+        </div>
       </div>
-    </div>
+    </UploadDropZone>
   )
 }
 
@@ -1,16 +1,22 @@
 import type { OdFolderChildren } from '../types'
 
 import Link from 'next/link'
-import { FC } from 'react'
+import { FC, useState } from 'react'
 import { useClipboard } from 'use-clipboard-copy'
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
 import { useTranslation } from 'next-i18next'
 
 import { getBaseUrl } from '../utils/getBaseUrl'
 import { humanFileSize, formatModifiedDateTime } from '../utils/fileDetails'
+import type { Sort, SortField } from '../utils/listingOptions'
 
 import { Downloading, Checkbox, ChildIcon, ChildName } from './FileListing'
 import { getStoredToken } from '../utils/protectedRouteHandler'
+import useSession from '../utils/useSession'
+import useVirtualRows from '../utils/useVirtualRows'
+import ShareLinkMenu from './ShareLinkMenu'
+import FileRequestMenu from './FileRequestMenu'
+import UploadDropZone from './UploadDropZone'
 
 const FileListItem: FC<{ fileContent: OdFolderChildren }> = ({ fileContent: c }) => {
   return (
@@ -31,6 +37,31 @@ const FileListItem: FC<{ fileContent: OdFolderChildren }> = ({ fileContent: c })
   )
 }
 
+// Column header sorting the folder by its field, ascending first and then descending
+const SortHeader: FC<{ field: SortField; label: string; sort: Sort | null; setSort: (sort: Sort | null) => void }> = ({
+  field,
+  label,
+  sort,
+  setSort,
+}) => {
+  const { t } = useTranslation()
+  const order = sort?.field === field ? sort.order : null
+
+  return (
+    <button
+      className="flex items-center space-x-1.5 text-xs font-bold uppercase tracking-widest hover:text-gray-900 dark:hover:text-white"
+      title={t('Sort by {{column}}', { column: label })}
+      onClick={() => setSort({ field, order: order === 'asc' ? 'desc' : 'asc' })}
+    >
+      <span>{label}</span>
+      <FontAwesomeIcon
+        className={order ? '' : 'opacity-30'}
+        icon={order === 'asc' ? 'sort-up' : order === 'desc' ? 'sort-down' : 'sort'}
+      />
+    </button>
+  )
+}
+
 const FolderListLayout = ({
   path,
   folderChildren,
@@ -43,141 +74,180 @@ const FolderListLayout = ({
   folderGenerating,
   handleSelectedPermalink,
   handleFolderDownload,
+  handleUploaded,
+  manageMode,
+  handleContextMenu,
+  sort,
+  setSort,
   toast,
 }) => {
   const clipboard = useClipboard()
   const hashedToken = getStoredToken(path)
+  const { user } = useSession()
+  const [sharePath, setSharePath] = useState('')
+  const [requestPath, setRequestPath] = useState('')
 
   const { t } = useTranslation()
 
+  // Only the rows on screen are rendered
+  const { containerRef, measureRef, start, end, paddingTop, paddingBottom } = useVirtualRows(folderChildren.length, 45)
+
   // Get item path from item name
   const getItemPath = (name: string) => `${path === '/' ? '' : path}/${encodeURIComponent(name)}`
 
   return (
-    <div className="rounded bg-white shadow-sm dark:bg-gray-900 dark:text-gray-100">
-      <div className="grid grid-cols-12 items-center space-x-2 border-b border-gray-900/10 px-3 dark:border-gray-500/30">
-        <div className="col-span-12 py-2 text-xs font-bold uppercase tracking-widest text-gray-600 dark:text-gray-300 md:col-span-6">
-          {t('Name')}
-        </div>
-        <div className="col-span-3 hidden text-xs font-bold uppercase tracking-widest text-gray-600 dark:text-gray-300 md:block">
-          {t('Last Modified')}
-        </div>
-        <div className="hidden text-xs font-bold uppercase tracking-widest text-gray-600 dark:text-gray-300 md:block">
-          {t('Size')}
-        </div>
-        <div className="hidden text-xs font-bold uppercase tracking-widest text-gray-600 dark:text-gray-300 md:block">
-          {t('Actions')}
-        </div>
-        <div className="hidden text-xs font-bold uppercase tracking-widest text-gray-600 dark:text-gray-300 md:block">
-          <div className="hidden p-1.5 text-gray-700 dark:text-gray-400 md:flex">
-            <Checkbox
-              checked={totalSelected}
-              onChange={toggleTotalSelected}
-              indeterminate={true}
-              title={t('Select files')}
-            />
-            <button
-              title={t('Copy selected files permalink')}
-              className="cursor-pointer rounded p-1.5 hover:bg-gray-300 disabled:cursor-not-allowed disabled:text-gray-400 disabled:hover:bg-white dark:hover:bg-gray-600 disabled:dark:text-gray-600 disabled:hover:dark:bg-gray-900"
-              disabled={totalSelected === 0}
-              onClick={() => {
-                clipboard.copy(handleSelectedPermalink(getBaseUrl()))
-                toast.success(t('Copied selected files permalink.'))
-              }}
-            >
-              <FontAwesomeIcon icon={['far', 'copy']} size="lg" />
-            </button>
-            {totalGenerating ? (
-              <Downloading title={t('Downloading selected files, refresh page to cancel')} style="p-1.5" />
-            ) : (
+    <UploadDropZone path={path} onUploaded={handleUploaded}>
+      <div className="rounded bg-white shadow-sm dark:bg-gray-900 dark:text-gray-100">
+        <ShareLinkMenu path={sharePath} menuOpen={sharePath !== ''} setMenuOpen={() => setSharePath('')} />
+        <FileRequestMenu path={requestPath} menuOpen={requestPath !== ''} setMenuOpen={() => setRequestPath('')} />
+        <div className="grid grid-cols-12 items-center space-x-2 border-b border-gray-900/10 px-3 dark:border-gray-500/30">
+          <div className="col-span-12 py-2 text-xs font-bold uppercase tracking-widest text-gray-600 dark:text-gray-300 md:col-span-6">
+            <SortHeader field="name" label={t('Name')} sort={sort} setSort={setSort} />
+          </div>
+          <div className="col-span-3 hidden text-xs font-bold uppercase tracking-widest text-gray-600 dark:text-gray-300 md:block">
+            <SortHeader field="lastModifiedDateTime" label={t('Last Modified')} sort={sort} setSort={setSort} />
+          </div>
+          <div className="hidden text-xs font-bold uppercase tracking-widest text-gray-600 dark:text-gray-300 md:block">
+            <SortHeader field="size" label={t('Size')} sort={sort} setSort={setSort} />
+          </div>
+          <div className="hidden text-xs font-bold uppercase tracking-widest text-gray-600 dark:text-gray-300 md:block">
+            {t('Actions')}
+          </div>
+          <div className="hidden text-xs font-bold uppercase tracking-widest text-gray-600 dark:text-gray-300 md:block">
+            <div className="hidden p-1.5 text-gray-700 dark:text-gray-400 md:flex">
+              <Checkbox
+                checked={totalSelected}
+                onChange={toggleTotalSelected}
+                indeterminate={true}
+                title={t('Select files')}
+              />
               <button
-                title={t('Download selected files')}
+                title={t('Copy selected files permalink')}
                 className="cursor-pointer rounded p-1.5 hover:bg-gray-300 disabled:cursor-not-allowed disabled:text-gray-400 disabled:hover:bg-white dark:hover:bg-gray-600 disabled:dark:text-gray-600 disabled:hover:dark:bg-gray-900"
                 disabled={totalSelected === 0}
-                onClick={handleSelectedDownload}
-              >
-                <FontAwesomeIcon icon={['far', 'arrow-alt-circle-down']} size="lg" />
-              </button>
-            )}
-          </div>
-        </div>
-      </div>
-
-      {folderChildren.map((c: OdFolderChildren) => (
-        <div
-          className="grid grid-cols-12 transition-all duration-100 hover:bg-gray-100 dark:hover:bg-gray-850"
-          key={c.id}
-        >
-          <Link
-            href={`${path === '/' ? '' : path}/${encodeURIComponent(c.name)}`}
-            passHref
-            className="col-span-12 md:col-span-10"
-          >
-            <FileListItem fileContent={c} />
-          </Link>
-
-          {c.folder ? (
-            <div className="hidden p-1.5 text-gray-700 dark:text-gray-400 md:flex">
-              <span
-                title={t('Copy folder permalink')}
-                className="cursor-pointer rounded px-1.5 py-1 hover:bg-gray-300 dark:hover:bg-gray-600"
                 onClick={() => {
-                  clipboard.copy(`${getBaseUrl()}${`${path === '/' ? '' : path}/${encodeURIComponent(c.name)}`}`)
-                  toast(t('Copied folder permalink.'), { icon: '👌' })
+                  clipboard.copy(handleSelectedPermalink(getBaseUrl()))
+                  toast.success(t('Copied selected files permalink.'))
                 }}
               >
-                <FontAwesomeIcon icon={['far', 'copy']} />
-              </span>
-              {folderGenerating[c.id] ? (
-                <Downloading title={t('Downloading folder, refresh page to cancel')} style="px-1.5 py-1" />
+                <FontAwesomeIcon icon={['far', 'copy']} size="lg" />
+              </button>
+              {totalGenerating ? (
+                <Downloading title={t('Downloading selected files, refresh page to cancel')} style="p-1.5" />
               ) : (
-                <span
-                  title={t('Download folder')}
-                  className="cursor-pointer rounded px-1.5 py-1 hover:bg-gray-300 dark:hover:bg-gray-600"
-                  onClick={() => {
-                    const p = `${path === '/' ? '' : path}/${encodeURIComponent(c.name)}`
-                    handleFolderDownload(p, c.id, c.name)()
-                  }}
+                <button
+                  title={t('Download selected files')}
+                  className="cursor-pointer rounded p-1.5 hover:bg-gray-300 disabled:cursor-not-allowed disabled:text-gray-400 disabled:hover:bg-white dark:hover:bg-gray-600 disabled:dark:text-gray-600 disabled:hover:dark:bg-gray-900"
+                  disabled={totalSelected === 0}
+                  onClick={handleSelectedDownload}
                 >
-                  <FontAwesomeIcon icon={['far', 'arrow-alt-circle-down']} />
-                </span>
+                  <FontAwesomeIcon icon={['far', 'arrow-alt-circle-down']} size="lg" />
+                </button>
               )}
             </div>
-          ) : (
-            <div className="hidden p-1.5 text-gray-700 dark:text-gray-400 md:flex">
-              <span
-                title={t('Copy raw file permalink')}
-                className="cursor-pointer rounded px-1.5 py-1 hover:bg-gray-300 dark:hover:bg-gray-600"
-                onClick={() => {
-                  clipboard.copy(
-                    `${getBaseUrl()}/api/raw/?path=${getItemPath(c.name)}${hashedToken ? `&odpt=${hashedToken}` : ''}`
-                  )
-                  toast.success(t('Copied raw file permalink.'))
-                }}
-              >
-                <FontAwesomeIcon icon={['far', 'copy']} />
-              </span>
-              <a
-                title={t('Download file')}
-                className="cursor-pointer rounded px-1.5 py-1 hover:bg-gray-300 dark:hover:bg-gray-600"
-                href={`/api/raw/?path=${getItemPath(c.name)}${hashedToken ? `&odpt=${hashedToken}` : ''}`}
+          </div>
+        </div>
+
+        <div ref={containerRef} style={{ paddingTop, paddingBottom }}>
+          {folderChildren.slice(start, end).map((c: OdFolderChildren, i: number) => (
+            <div
+              className="grid grid-cols-12 transition-all duration-100 hover:bg-gray-100 dark:hover:bg-gray-850"
+              key={c.id}
+              ref={i === 0 ? measureRef : undefined}
+              onContextMenu={e => handleContextMenu(e, c)}
+            >
+              <Link
+                href={`${path === '/' ? '' : path}/${encodeURIComponent(c.name)}`}
+                passHref
+                className="col-span-12 md:col-span-10"
               >
-                <FontAwesomeIcon icon={['far', 'arrow-alt-circle-down']} />
-              </a>
+                <FileListItem fileContent={c} />
+              </Link>
+
+              {c.folder ? (
+                <div className="hidden p-1.5 text-gray-700 dark:text-gray-400 md:flex">
+                  <span
+                    title={t('Copy folder permalink')}
+                    className="cursor-pointer rounded px-1.5 py-1 hover:bg-gray-300 dark:hover:bg-gray-600"
+                    onClick={() => {
+                      clipboard.copy(`${getBaseUrl()}${`${path === '/' ? '' : path}/${encodeURIComponent(c.name)}`}`)
+                      toast(t('Copied folder permalink.'), { icon: '👌' })
+                    }}
+                  >
+                    <FontAwesomeIcon icon={['far', 'copy']} />
+                  </span>
+                  {user && (
+                    <span
+                      title={t('Create share link')}
+                      className="cursor-pointer rounded px-1.5 py-1 hover:bg-gray-300 dark:hover:bg-gray-600"
+                      onClick={() => setSharePath(getItemPath(c.name))}
+                    >
+                      <FontAwesomeIcon icon="link" />
+                    </span>
+                  )}
+                  {user && (
+                    <span
+                      title={t('Request files')}
+                      className="cursor-pointer rounded px-1.5 py-1 hover:bg-gray-300 dark:hover:bg-gray-600"
+                      onClick={() => setRequestPath(getItemPath(c.name))}
+                    >
+                      <FontAwesomeIcon icon="inbox" />
+                    </span>
+                  )}
+                  {folderGenerating[c.id] ? (
+                    <Downloading title={t('Downloading folder, refresh page to cancel')} style="px-1.5 py-1" />
+                  ) : (
+                    <span
+                      title={t('Download folder')}
+                      className="cursor-pointer rounded px-1.5 py-1 hover:bg-gray-300 dark:hover:bg-gray-600"
+                      onClick={() => {
+                        const p = `${path === '/' ? '' : path}/${encodeURIComponent(c.name)}`
+                        handleFolderDownload(p, c.id, c.name)()
+                      }}
+                    >
+                      <FontAwesomeIcon icon={['far', 'arrow-alt-circle-down']} />
+                    </span>
+                  )}
+                </div>
+              ) : (
+                <div className="hidden p-1.5 text-gray-700 dark:text-gray-400 md:flex">
+                  <span
+                    title={t('Copy raw file permalink')}
+                    className="cursor-pointer rounded px-1.5 py-1 hover:bg-gray-300 dark:hover:bg-gray-600"
+                    onClick={() => {
+                      clipboard.copy(
+                        `${getBaseUrl()}/api/raw/?path=${getItemPath(c.name)}${
+                          hashedToken ? `&odpt=${hashedToken}` : ''
+                        }`
+                      )
+                      toast.success(t('Copied raw file permalink.'))
+                    }}
+                  >
+                    <FontAwesomeIcon icon={['far', 'copy']} />
+                  </span>
+                  <a
+                    title={t('Download file')}
+                    className="cursor-pointer rounded px-1.5 py-1 hover:bg-gray-300 dark:hover:bg-gray-600"
+                    href={`/api/raw/?path=${getItemPath(c.name)}${hashedToken ? `&odpt=${hashedToken}` : ''}`}
+                  >
+                    <FontAwesomeIcon icon={['far', 'arrow-alt-circle-down']} />
+                  </a>
+                </div>
+              )}
+              <div className="hidden p-1.5 text-gray-700 dark:text-gray-400 md:flex">
+                {(manageMode || (!c.folder && !(c.name === '.password'))) && (
+                  <Checkbox
+                    checked={selected[c.id] ? 2 : 0}
+                    onChange={() => toggleItemSelected(c.id)}
+                    title={t('Select file')}
+                  />
+                )}
+              </div>
             </div>
-          )}
-          <div className="hidden p-1.5 text-gray-700 dark:text-gray-400 md:flex">
-            {!c.folder && !(c.name === '.password') && (
-              <Checkbox
-                checked={selected[c.id] ? 2 : 0}
-                onChange={() => toggleItemSelected(c.id)}
-                title={t('Select file')}
-              />
-            )}
-          </div>
+          ))}
         </div>
-      ))}
-    </div>
+      </div>
+    </UploadDropZone>
   )
 }
 
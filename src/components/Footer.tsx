@@ -1,16 +1,18 @@
-import config from '../../config/site.config'
+import useSiteSettings from '../utils/useSiteSettings'
 
-const createFooterMarkup = () => {
+const createFooterMarkup = (footer: string) => {
   return {
-    __html: config.footer,
+    __html: footer,
   }
 }
 
 const Footer = () => {
+  const { settings } = useSiteSettings()
+
   return (
     <div
       className="w-full border-t border-gray-900/10 p-4 text-center text-xs font-medium text-gray-400 dark:border-gray-500/30"
-      dangerouslySetInnerHTML={createFooterMarkup()}
+      dangerouslySetInnerHTML={createFooterMarkup(settings.footer)}
     ></div>
   )
 }
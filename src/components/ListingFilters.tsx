@@ -0,0 +1,120 @@
+import { FC, useEffect, useRef, useState } from 'react'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { useTranslation } from 'next-i18next'
+
+import { formatSort, ListingOptions, parseSort, parseTypeFilter, Sort, TYPE_FILTERS } from '../utils/listingOptions'
+
+const sortOptions: Array<{ value: string; label: string }> = [
+  { value: 'name asc', label: 'Name (A to Z)' },
+  { value: 'name desc', label: 'Name (Z to A)' },
+  { value: 'lastModifiedDateTime desc', label: 'Newest first' },
+  { value: 'lastModifiedDateTime asc', label: 'Oldest first' },
+  { value: 'size desc', label: 'Largest first' },
+  { value: 'size asc', label: 'Smallest first' },
+]
+
+const selectClassName =
+  'cursor-pointer rounded border border-gray-900/10 bg-white py-1 pl-2 pr-7 text-xs text-gray-600 focus:outline-none focus:ring focus:ring-blue-300 dark:border-gray-500/30 dark:bg-gray-900 dark:text-gray-300 dark:focus:ring-blue-700'
+
+/**
+ * Drop-down for the sort order of a folder, used where there are no column headers to click
+ */
+export const SortSelect: FC<{ sort: Sort | null; setSort: (sort: Sort | null) => void }> = ({ sort, setSort }) => {
+  const { t } = useTranslation()
+
+  return (
+    <select
+      className={`${selectClassName} normal-case tracking-normal`}
+      title={t('Sort by')}
+      value={sort ? formatSort(sort) : ''}
+      onChange={e => setSort(parseSort(e.target.value))}
+    >
+      <option value="">{t('Default order')}</option>
+      {sortOptions.map(o => (
+        <option key={o.value} value={o.value}>
+          {
+            // t('Name (A to Z)')
+            // t('Name (Z to A)')
+            // t('Newest first')
+            // t('Oldest first')
+            // t('Largest first')
+            // t('Smallest first')
+            t(o.label)
+          }
+        </option>
+      ))}
+    </select>
+  )
+}
+
+/**
+ * Bar above a folder listing to filter its items by name and file type, and to list folders first
+ */
+const ListingFilters: FC<{ listing: ListingOptions; setListing: (changes: Partial<ListingOptions>) => void }> = ({
+  listing,
+  setListing,
+}) => {
+  const { t } = useTranslation()
+
+  // The name filter is applied once typing pauses, rather than fetching the folder again on every key
+  const [q, setQ] = useState(listing.q)
+  // Name last applied, so that the box only follows the address bar when it changed elsewhere, e.g. going back
+  const applied = useRef(listing.q)
+  useEffect(() => {
+    if (listing.q !== applied.current) setQ(listing.q)
+    applied.current = listing.q
+  }, [listing.q])
+  useEffect(() => {
+    if (q === applied.current) return
+    const timeout = setTimeout(() => {
+      applied.current = q
+      setListing({ q })
+    }, 400)
+    return () => clearTimeout(timeout)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [q])
+
+  return (
+    <div className="mb-2 flex flex-wrap items-center gap-2 px-4 text-sm text-gray-600 dark:text-gray-300 sm:px-0">
+      <div className="relative flex-1">
+        <FontAwesomeIcon className="absolute left-2 top-1/2 h-3 w-3 -translate-y-1/2 text-gray-400" icon="filter" />
+        <input
+          className="w-full rounded border border-gray-900/10 bg-white py-1 pl-7 pr-2 text-xs focus:outline-none focus:ring focus:ring-blue-300 dark:border-gray-500/30 dark:bg-gray-900 dark:text-white dark:focus:ring-blue-700"
+          type="search"
+          placeholder={t('Filter by name')}
+          value={q}
+          onChange={e => setQ(e.target.value)}
+        />
+      </div>
+      <select
+        className={selectClassName}
+        title={t('File type')}
+        value={listing.type ?? ''}
+        onChange={e => setListing({ type: parseTypeFilter(e.target.value) })}
+      >
+        <option value="">{t('All files')}</option>
+        {TYPE_FILTERS.map(type => (
+          <option key={type} value={type}>
+            {
+              // t('Images')
+              // t('Videos')
+              // t('Documents')
+              t(type.charAt(0).toUpperCase() + type.slice(1))
+            }
+          </option>
+        ))}
+      </select>
+      <label className="flex cursor-pointer items-center space-x-1.5 text-xs">
+        <input
+          className="form-check-input cursor-pointer"
+          type="checkbox"
+          checked={listing.foldersFirst}
+          onChange={e => setListing({ foldersFirst: e.target.checked })}
+        />
+        <span>{t('Folders first')}</span>
+      </label>
+    </div>
+  )
+}
+
+export default ListingFilters
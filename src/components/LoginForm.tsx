@@ -0,0 +1,99 @@
+import axios from 'axios'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+
+import { FC, useState } from 'react'
+import { useTranslation } from 'next-i18next'
+
+import { LoadingIcon } from './Loading'
+
+/**
+ * Sign in with single sign-on, redirecting to the OpenID Connect identity provider
+ *
+ * @param props
+ * @param props.redirect Path on this site to return to after signing in
+ */
+export const SsoLoginButton: FC<{ redirect: string }> = ({ redirect }) => {
+  const { t } = useTranslation()
+
+  return (
+    <a
+      href={`/api/auth/oidc/login/?redirect=${encodeURIComponent(redirect)}`}
+      className="flex items-center justify-center space-x-2 rounded border border-blue-600 px-4 py-2 text-blue-600 hover:bg-blue-50 focus:outline-none focus:ring focus:ring-blue-400 dark:hover:bg-gray-800"
+    >
+      <FontAwesomeIcon icon="key" />
+      <span>{t('Sign in with single sign-on')}</span>
+    </a>
+  )
+}
+
+/**
+ * Sign in with a user account, the session is kept in an HttpOnly cookie set by /api/auth/login
+ *
+ * @param props
+ * @param props.onLogin Callback after signing in successfully
+ */
+const LoginForm: FC<{ onLogin: () => void }> = ({ onLogin }) => {
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const { t } = useTranslation()
+
+  const login = async () => {
+    setLoading(true)
+    setError('')
+    try {
+      await axios.post('/api/auth/login', { username, password })
+      onLogin()
+    } catch (err: any) {
+      setError(err?.response?.status === 401 ? t('Invalid username or password.') : t('Failed to sign in.'))
+    }
+    setLoading(false)
+  }
+
+  const inputClassName =
+    'w-full rounded border border-gray-600/10 p-2 focus:outline-none focus:ring focus:ring-blue-300 dark:bg-gray-600 dark:text-white dark:focus:ring-blue-700'
+
+  return (
+    <form
+      className="flex flex-col space-y-2"
+      onSubmit={e => {
+        e.preventDefault()
+        login()
+      }}
+    >
+      <input
+        className={inputClassName}
+        type="text"
+        autoComplete="username"
+        placeholder={t('Username')}
+        value={username}
+        onChange={e => setUsername(e.target.value)}
+      />
+      <input
+        className={`${inputClassName} font-mono`}
+        type="password"
+        autoComplete="current-password"
+        placeholder="************"
+        value={password}
+        onChange={e => setPassword(e.target.value)}
+      />
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      <button
+        type="submit"
+        className="flex items-center justify-center space-x-2 rounded bg-blue-600 px-4 py-2 text-white hover:bg-blue-500 focus:outline-none focus:ring focus:ring-blue-400 disabled:cursor-not-allowed disabled:opacity-50"
+        disabled={loading || !username || !password}
+      >
+        {loading ? (
+          <LoadingIcon className="inline-block h-4 w-4 animate-spin" />
+        ) : (
+          <FontAwesomeIcon icon="sign-in-alt" />
+        )}
+        <span>{t('Sign in')}</span>
+      </button>
+    </form>
+  )
+}
+
+export default LoginForm
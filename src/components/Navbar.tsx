@@ -2,6 +2,7 @@ import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
 import { IconName } from '@fortawesome/fontawesome-svg-core'
 import { Dialog, Transition } from '@headlessui/react'
 import toast, { Toaster } from 'react-hot-toast'
+import axios from 'axios'
 import { useHotkeys } from 'react-hotkeys-hook'
 
 import Link from 'next/link'
@@ -14,6 +15,9 @@ import siteConfig from '../../config/site.config'
 import SearchModal from './SearchModal'
 import SwitchLang from './SwitchLang'
 import useDeviceOS from '../utils/useDeviceOS'
+import { getStoredTokenRoutes } from '../utils/protectedRouteHandler'
+import useSession from '../utils/useSession'
+import useSiteSettings from '../utils/useSiteSettings'
 
 const Navbar = () => {
   const router = useRouter()
@@ -21,6 +25,8 @@ const Navbar = () => {
 
   const [tokenPresent, setTokenPresent] = useState(false)
   const [isOpen, setIsOpen] = useState(false)
+  const { user, isAdmin, accountsEnabled, ssoEnabled } = useSession()
+  const { settings } = useSiteSettings()
 
   const [searchOpen, setSearchOpen] = useState(false)
   const openSearchBox = () => setSearchOpen(true)
@@ -31,23 +37,24 @@ const Navbar = () => {
   })
 
   useEffect(() => {
-    const storedToken = () => {
-      for (const r of siteConfig.protectedRoutes) {
-        if (localStorage.hasOwnProperty(r)) {
-          return true
-        }
-      }
-      return false
-    }
-    setTokenPresent(storedToken())
+    setTokenPresent(getStoredTokenRoutes().length > 0)
   }, [])
 
   const { t } = useTranslation()
 
-  const clearTokens = () => {
+  const clearTokens = async () => {
     setIsOpen(false)
 
-    siteConfig.protectedRoutes.forEach(r => {
+    // Revoke the tokens on the server too, so that copies of them (e.g. in shared raw links) stop working
+    const routes = getStoredTokenRoutes()
+    const tokens = routes.map(r => JSON.parse(localStorage.getItem(r) as string)).filter(t => t)
+    try {
+      await axios.post('/api/auth/revoke', { tokens })
+    } catch (error) {
+      toast.error(t('Failed to revoke tokens on the server.'))
+    }
+
+    routes.forEach(r => {
       localStorage.removeItem(r)
     })
 
@@ -57,6 +64,15 @@ const Navbar = () => {
     }, 1000)
   }
 
+  const signOut = async () => {
+    try {
+      await axios.post('/api/auth/logout')
+      router.reload()
+    } catch (error) {
+      toast.error(t('Failed to sign out.'))
+    }
+  }
+
   return (
     <div className="sticky top-0 z-[100] border-b border-gray-900/10 bg-white bg-opacity-80 backdrop-blur-md dark:border-gray-500/30 dark:bg-gray-900">
       <Toaster />
@@ -66,7 +82,7 @@ const Navbar = () => {
       <div className="mx-auto flex w-full items-center justify-between space-x-4 px-4 py-1">
         <Link href="/" passHref className="flex items-center space-x-2 py-2 hover:opacity-80 dark:text-white md:p-2">
           <Image src={siteConfig.icon} alt="icon" width="25" height="25" priority />
-          <span className="hidden font-bold sm:block">{siteConfig.title}</span>
+          <span className="hidden font-bold sm:block">{settings.title}</span>
         </Link>
 
         <div className="flex flex-1 items-center space-x-4 text-gray-700 md:flex-initial">
@@ -89,8 +105,8 @@ const Navbar = () => {
 
           <SwitchLang />
 
-          {siteConfig.links.length !== 0 &&
-            siteConfig.links.map((l: { name: string; link: string }) => (
+          {settings.links.length !== 0 &&
+            settings.links.map((l: { name: string; link: string }) => (
               <a
                 key={l.name}
                 href={l.link}
@@ -109,13 +125,41 @@ const Navbar = () => {
               </a>
             ))}
 
-          {siteConfig.email && (
-            <a href={siteConfig.email} className="flex items-center space-x-2 hover:opacity-80 dark:text-white">
+          {settings.email && (
+            <a href={settings.email} className="flex items-center space-x-2 hover:opacity-80 dark:text-white">
               <FontAwesomeIcon icon={['far', 'envelope']} />
               <span className="hidden text-sm font-medium md:inline-block">{t('Email')}</span>
             </a>
           )}
 
+          {isAdmin && (
+            <Link href="/admin" className="flex items-center space-x-2 hover:opacity-80 dark:text-white">
+              <FontAwesomeIcon icon="cog" />
+              <span className="hidden text-sm font-medium md:inline-block">{t('Admin')}</span>
+            </Link>
+          )}
+
+          {user ? (
+            <button
+              className="flex items-center space-x-2 hover:opacity-80 dark:text-white"
+              title={t('Sign out')}
+              onClick={signOut}
+            >
+              <FontAwesomeIcon icon={['far', 'user']} />
+              <span className="hidden text-sm font-medium md:inline-block">{user.name}</span>
+            </button>
+          ) : (
+            (accountsEnabled || ssoEnabled) && (
+              <Link
+                href={{ pathname: '/login', query: { redirect: router.asPath } }}
+                className="flex items-center space-x-2 hover:opacity-80 dark:text-white"
+              >
+                <span className="hidden text-sm font-medium md:inline-block">{t('Sign in')}</span>
+                <FontAwesomeIcon icon="sign-in-alt" />
+              </Link>
+            )
+          )}
+
           {tokenPresent && (
             <button
               className="flex items-center space-x-2 hover:opacity-80 dark:text-white"
@@ -168,7 +212,7 @@ const Navbar = () => {
                 </div>
 
                 <div className="mt-4 max-h-32 overflow-y-scroll font-mono text-sm dark:text-gray-100">
-                  {siteConfig.protectedRoutes.map((r, i) => (
+                  {settings.protectedRoutes.map((r, i) => (
                     <div key={i} className="flex items-center space-x-1">
                       <FontAwesomeIcon icon="key" />
                       <span className="truncate">{r}</span>
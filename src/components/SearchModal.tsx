@@ -1,5 +1,4 @@
 import axios from 'axios'
-import useSWR, { SWRResponse } from 'swr'
 import { Dispatch, Fragment, SetStateAction, useState } from 'react'
 import AwesomeDebouncePromise from 'awesome-debounce-promise'
 import { useAsync } from 'react-async-hook'
@@ -7,169 +6,58 @@ import useConstant from 'use-constant'
 import { useTranslation } from 'next-i18next'
 
 import Link from 'next/link'
+import { useRouter } from 'next/router'
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
 import { Dialog, Transition } from '@headlessui/react'
 
-import type { OdDriveItem, OdSearchResult } from '../types'
+import type { OdSearchResponse } from '../types'
 import { LoadingIcon } from './Loading'
+import SearchResultItem from './SearchResultItem'
 
-import { getFileIcon } from '../utils/getFileIcon'
-import { fetcher } from '../utils/fetchWithSWR'
-import siteConfig from '../../config/site.config'
+import { getStoredTokens } from '../utils/protectedRouteHandler'
+import { DEFAULT_SEARCH_OPTIONS, toSearchQuery } from '../utils/searchOptions'
 
 /**
- * Extract the searched item's path in field 'parentReference' and convert it to the
- * absolute path represented in onedrive-vercel-index
- *
- * @param path Path returned from the parentReference field of the driveItem
- * @returns The absolute path of the driveItem in the search result
- */
-function mapAbsolutePath(path: string): string {
-  // path is in the format of '/drive/root:/path/to/file', if baseDirectory is '/' then we split on 'root:',
-  // otherwise we split on the user defined 'baseDirectory'
-  const absolutePath = path.split(siteConfig.baseDirectory === '/' ? 'root:' : siteConfig.baseDirectory)
-  // path returned by the API may contain #, by doing a decodeURIComponent and then encodeURIComponent we can
-  // replace URL sensitive characters such as the # with %23
-  return absolutePath.length > 1 // solve https://github.com/spencerwooo/onedrive-vercel-index/issues/539
-    ? absolutePath[1]
-        .split('/')
-        .map(p => encodeURIComponent(decodeURIComponent(p)))
-        .join('/')
-    : ''
-}
-
-/**
- * Implements a debounced search function that returns a promise that resolves to an array of
+ * Implements a debounced search function that returns a promise that resolves to the first page of
  * search results.
  *
+ * @param folder Folder the search can be limited to, '/' to always search everywhere
  * @returns A react hook for a debounced async search of the drive
  */
-function useDriveItemSearch() {
+function useDriveItemSearch(folder: string) {
   const [query, setQuery] = useState('')
-  const searchDriveItem = async (q: string) => {
-    const { data } = await axios.get<OdSearchResult>(`/api/search/?q=${q}`)
-
-    // Map parentReference to the absolute path of the search result
-    data.map(item => {
-      item['path'] =
-        'path' in item.parentReference
-          ? // OneDrive International have the path returned in the parentReference field
-            `${mapAbsolutePath(item.parentReference.path)}/${encodeURIComponent(item.name)}`
-          : // OneDrive for Business/Education does not, so we need extra steps here
-            ''
-    })
-
+  const [inFolder, setInFolder] = useState(false)
+  const path = inFolder ? folder : '/'
+
+  const searchDriveItem = async (q: string, path: string) => {
+    // Tokens of the protected routes opened are sent so that their items are found too
+    const tokens = getStoredTokens().join(',')
+    const { data } = await axios.get<OdSearchResponse>(
+      `/api/search/?${new URLSearchParams(toSearchQuery({ ...DEFAULT_SEARCH_OPTIONS, q, path }))}`,
+      tokens ? { headers: { 'od-protected-token': tokens } } : {}
+    )
     return data
   }
 
   const debouncedDriveItemSearch = useConstant(() => AwesomeDebouncePromise(searchDriveItem, 1000))
   const results = useAsync(async () => {
     if (query.length === 0) {
-      return []
+      return null
     } else {
-      return debouncedDriveItemSearch(query)
+      return debouncedDriveItemSearch(query, path)
     }
-  }, [query])
+  }, [query, path])
 
   return {
     query,
     setQuery,
+    inFolder,
+    setInFolder,
+    path,
     results,
   }
 }
 
-function SearchResultItemTemplate({
-  driveItem,
-  driveItemPath,
-  itemDescription,
-  disabled,
-}: {
-  driveItem: OdSearchResult[number]
-  driveItemPath: string
-  itemDescription: string
-  disabled: boolean
-}) {
-  return (
-    <Link
-      href={driveItemPath}
-      passHref
-      className={`flex items-center space-x-4 border-b border-gray-400/30 px-4 py-1.5 hover:bg-gray-50 dark:hover:bg-gray-850 ${
-        disabled ? 'pointer-events-none cursor-not-allowed' : 'cursor-pointer'
-      }`}
-    >
-      <FontAwesomeIcon icon={driveItem.file ? getFileIcon(driveItem.name) : ['far', 'folder']} />
-      <div>
-        <div className="text-sm font-medium leading-8">{driveItem.name}</div>
-        <div
-          className={`overflow-hidden truncate font-mono text-xs opacity-60 ${
-            itemDescription === 'Loading ...' && 'animate-pulse'
-          }`}
-        >
-          {itemDescription}
-        </div>
-      </div>
-    </Link>
-  )
-}
-
-function SearchResultItemLoadRemote({ result }: { result: OdSearchResult[number] }) {
-  const { data, error }: SWRResponse<OdDriveItem, { status: number; message: any }> = useSWR(
-    [`/api/item/?id=${result.id}`],
-    fetcher
-  )
-
-  const { t } = useTranslation()
-
-  if (error) {
-    return (
-      <SearchResultItemTemplate
-        driveItem={result}
-        driveItemPath={''}
-        itemDescription={typeof error.message?.error === 'string' ? error.message.error : JSON.stringify(error.message)}
-        disabled={true}
-      />
-    )
-  }
-  if (!data) {
-    return (
-      <SearchResultItemTemplate
-        driveItem={result}
-        driveItemPath={''}
-        itemDescription={t('Loading ...')}
-        disabled={true}
-      />
-    )
-  }
-
-  const driveItemPath = `${mapAbsolutePath(data.parentReference.path)}/${encodeURIComponent(data.name)}`
-  return (
-    <SearchResultItemTemplate
-      driveItem={result}
-      driveItemPath={driveItemPath}
-      itemDescription={decodeURIComponent(driveItemPath)}
-      disabled={false}
-    />
-  )
-}
-
-function SearchResultItem({ result }: { result: OdSearchResult[number] }) {
-  if (result.path === '') {
-    // path is empty, which means we need to fetch the parentReference to get the path
-    return <SearchResultItemLoadRemote result={result} />
-  } else {
-    // path is not an empty string in the search result, such that we can directly render the component as is
-    const driveItemPath = decodeURIComponent(result.path)
-    return (
-      <SearchResultItemTemplate
-        driveItem={result}
-        driveItemPath={result.path}
-        itemDescription={driveItemPath}
-        disabled={false}
-      />
-    )
-  }
-}
-
 export default function SearchModal({
   searchOpen,
   setSearchOpen,
@@ -177,9 +65,12 @@ export default function SearchModal({
   searchOpen: boolean
   setSearchOpen: Dispatch<SetStateAction<boolean>>
 }) {
-  const { query, setQuery, results } = useDriveItemSearch()
-
   const { t } = useTranslation()
+  const { asPath, pathname } = useRouter()
+
+  // Folders and files are opened at their path, other pages are searched from the root
+  const folder = pathname === '/[...path]' ? decodeURIComponent(asPath.split(/[?#]/)[0]).replace(/\/$/, '') || '/' : '/'
+  const { query, setQuery, inFolder, setInFolder, path, results } = useDriveItemSearch(folder)
 
   const closeSearchBox = () => {
     setSearchOpen(false)
@@ -227,6 +118,27 @@ export default function SearchModal({
                 />
                 <div className="rounded-lg bg-gray-200 px-2 py-1 text-xs font-medium dark:bg-gray-700">ESC</div>
               </Dialog.Title>
+              <div className="flex items-center space-x-4 border-b border-gray-400/30 bg-white px-4 py-2 text-xs text-gray-600 dark:bg-gray-900 dark:text-gray-300">
+                {folder !== '/' && (
+                  <label className="flex min-w-0 cursor-pointer items-center space-x-1.5">
+                    <input
+                      className="form-check-input cursor-pointer"
+                      type="checkbox"
+                      checked={inFolder}
+                      onChange={e => setInFolder(e.target.checked)}
+                    />
+                    <span className="truncate">{t('Only in {{folder}}', { folder })}</span>
+                  </label>
+                )}
+                <Link
+                  href={{ pathname: '/search', query: toSearchQuery({ ...DEFAULT_SEARCH_OPTIONS, q: query, path }) }}
+                  className="ml-auto flex-shrink-0 hover:underline"
+                  onClick={closeSearchBox}
+                >
+                  <FontAwesomeIcon icon="filter" className="mr-1" />
+                  {t('Filters and all results')}
+                </Link>
+              </div>
               <div
                 className="max-h-[80vh] overflow-x-hidden overflow-y-scroll bg-white dark:bg-gray-900 dark:text-white"
                 onClick={closeSearchBox}
@@ -244,10 +156,21 @@ export default function SearchModal({
                 )}
                 {results.result && (
                   <>
-                    {results.result.length === 0 ? (
+                    {results.result.value.length === 0 ? (
                       <div className="px-4 py-12 text-center text-sm font-medium">{t('Nothing here.')}</div>
                     ) : (
-                      results.result.map(result => <SearchResultItem key={result.id} result={result} />)
+                      results.result.value.map(result => <SearchResultItem key={result.id} result={result} q={query} />)
+                    )}
+                    {results.result.next && (
+                      <Link
+                        href={{
+                          pathname: '/search',
+                          query: toSearchQuery({ ...DEFAULT_SEARCH_OPTIONS, q: query, path }),
+                        }}
+                        className="block px-4 py-3 text-center text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-850"
+                      >
+                        {t('Show more results')}
+                      </Link>
                     )}
                   </>
                 )}
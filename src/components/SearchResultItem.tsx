@@ -0,0 +1,58 @@
+import type { OdSearchResult } from '../types'
+import { FC } from 'react'
+import Link from 'next/link'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+
+import { getFileIcon } from '../utils/getFileIcon'
+import { formatModifiedDateTime, humanFileSize } from '../utils/fileDetails'
+import { splitSearchMatches } from '../utils/searchOptions'
+
+/**
+ * Name of a search result, with the words searched for highlighted
+ */
+export const HighlightedName: FC<{ name: string; q: string }> = ({ name, q }) => {
+  return (
+    <>
+      {splitSearchMatches(name, q).map((part, i) =>
+        part.match ? (
+          <mark key={i} className="rounded-sm bg-yellow-200 text-current dark:bg-yellow-600/60">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={i}>{part.text}</span>
+        )
+      )}
+    </>
+  )
+}
+
+/**
+ * A search result linking to the item, with where it is and its size and modification date
+ */
+const SearchResultItem: FC<{ result: OdSearchResult[number]; q: string }> = ({ result, q }) => {
+  return (
+    <Link
+      href={result.path}
+      passHref
+      className="flex cursor-pointer items-center space-x-4 border-b border-gray-400/30 px-4 py-1.5 hover:bg-gray-50 dark:hover:bg-gray-850"
+    >
+      <FontAwesomeIcon
+        icon={result.file ? getFileIcon(result.name, { video: Boolean(result.video) }) : ['far', 'folder']}
+      />
+      <div className="min-w-0 flex-1">
+        <div className="truncate text-sm font-medium leading-8">
+          <HighlightedName name={result.name} q={q} />
+        </div>
+        <div className="flex space-x-4 font-mono text-xs opacity-60">
+          <span className="flex-1 truncate">{decodeURIComponent(result.path)}</span>
+          <span className="hidden flex-shrink-0 md:block">
+            {result.folder ? '' : `${humanFileSize(result.size)} · `}
+            {formatModifiedDateTime(result.lastModifiedDateTime)}
+          </span>
+        </div>
+      </div>
+    </Link>
+  )
+}
+
+export default SearchResultItem
@@ -0,0 +1,173 @@
+import axios from 'axios'
+import Link from 'next/link'
+import { Dispatch, Fragment, SetStateAction, useState } from 'react'
+import { useTranslation } from 'next-i18next'
+import { Dialog, Transition } from '@headlessui/react'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+
+import type { OdShareLink } from '../types'
+import { getBaseUrl } from '../utils/getBaseUrl'
+import { getStoredToken } from '../utils/protectedRouteHandler'
+import { LinkContainer } from './CustomEmbedLinkMenu'
+
+// Lifetimes offered for new share links, in seconds
+const expiryOptions = [
+  { label: '1 hour', value: 60 * 60 },
+  { label: '1 day', value: 24 * 60 * 60 },
+  { label: '7 days', value: 7 * 24 * 60 * 60 },
+  { label: '30 days', value: 30 * 24 * 60 * 60 },
+]
+
+/**
+ * Create an expiring share link for a file or folder, with an optional download limit and password
+ *
+ * @param props
+ * @param props.path URL encoded path of the file or folder
+ */
+export default function ShareLinkMenu({
+  path,
+  menuOpen,
+  setMenuOpen,
+}: {
+  path: string
+  menuOpen: boolean
+  setMenuOpen: Dispatch<SetStateAction<boolean>>
+}) {
+  const { t } = useTranslation()
+
+  const [expiresIn, setExpiresIn] = useState(expiryOptions[1].value)
+  const [maxDownloads, setMaxDownloads] = useState('')
+  const [password, setPassword] = useState('')
+  const [link, setLink] = useState<OdShareLink | null>(null)
+  const [error, setError] = useState('')
+
+  const closeMenu = () => {
+    setMenuOpen(false)
+    setLink(null)
+    setError('')
+  }
+
+  const createLink = async () => {
+    setError('')
+    try {
+      const hashedToken = getStoredToken(path)
+      const { data } = await axios.post(
+        '/api/share',
+        {
+          path: decodeURIComponent(path),
+          expiresIn,
+          maxDownloads: maxDownloads ? parseInt(maxDownloads) : null,
+          password,
+        },
+        hashedToken ? { headers: { 'od-protected-token': hashedToken } } : {}
+      )
+      setLink(data.link)
+    } catch (err: any) {
+      setError(err?.response?.data?.error ?? t('Failed to create share link.'))
+    }
+  }
+
+  const inputClassName =
+    'mb-2 w-full rounded border border-gray-600/10 p-2.5 focus:outline-none focus:ring focus:ring-blue-300 dark:bg-gray-600 dark:text-white dark:focus:ring-blue-700'
+
+  return (
+    <Transition appear show={menuOpen} as={Fragment}>
+      <Dialog as="div" className="fixed inset-0 z-10 overflow-y-auto" onClose={closeMenu}>
+        <div className="min-h-screen px-4 text-center">
+          <Transition.Child
+            as={Fragment}
+            enter="ease-out duration-100"
+            enterFrom="opacity-0"
+            enterTo="opacity-100"
+            leave="ease-in duration-100"
+            leaveFrom="opacity-100"
+            leaveTo="opacity-0"
+          >
+            <Dialog.Overlay className="fixed inset-0 bg-white/60 dark:bg-gray-800/60" />
+          </Transition.Child>
+
+          {/* This element is to trick the browser into centering the modal contents. */}
+          <span className="inline-block h-screen align-middle" aria-hidden="true">
+            &#8203;
+          </span>
+          <Transition.Child
+            as={Fragment}
+            enter="ease-out duration-100"
+            enterFrom="opacity-0 scale-95"
+            enterTo="opacity-100 scale-100"
+            leave="ease-in duration-100"
+            leaveFrom="opacity-100 scale-100"
+            leaveTo="opacity-0 scale-95"
+          >
+            <div className="inline-block max-h-[80vh] w-full max-w-3xl transform overflow-hidden overflow-y-scroll rounded border border-gray-400/30 bg-white p-4 text-left align-middle text-sm shadow-xl transition-all dark:bg-gray-900 dark:text-white">
+              <Dialog.Title as="h3" className="py-2 text-xl font-bold">
+                {t('Create share link')}
+              </Dialog.Title>
+              <Dialog.Description as="p" className="py-2 opacity-80">
+                {t('Anyone with the link can open {{path}} until the link expires.', {
+                  path: decodeURIComponent(path),
+                })}
+              </Dialog.Description>
+
+              {link ? (
+                <div className="mt-4">
+                  <LinkContainer title={t('Share link')} value={`${getBaseUrl()}/s/${link.id}`} />
+                  <Link href="/shares" className="text-blue-400 underline">
+                    {t('Manage share links')}
+                  </Link>
+                </div>
+              ) : (
+                <div className="mt-4">
+                  <h4 className="py-2 text-xs font-medium uppercase tracking-wider">{t('Expires after')}</h4>
+                  <select
+                    className={inputClassName}
+                    value={expiresIn}
+                    onChange={e => setExpiresIn(parseInt(e.target.value))}
+                  >
+                    {expiryOptions.map(o => (
+                      <option key={o.value} value={o.value}>
+                        {
+                          // t('1 hour') t('1 day') t('7 days') t('30 days')
+                          t(o.label)
+                        }
+                      </option>
+                    ))}
+                  </select>
+
+                  <h4 className="py-2 text-xs font-medium uppercase tracking-wider">{t('Download limit')}</h4>
+                  <input
+                    className={inputClassName}
+                    type="number"
+                    min={1}
+                    placeholder={t('Unlimited')}
+                    value={maxDownloads}
+                    onChange={e => setMaxDownloads(e.target.value)}
+                  />
+
+                  <h4 className="py-2 text-xs font-medium uppercase tracking-wider">{t('Password')}</h4>
+                  <input
+                    className={`${inputClassName} font-mono`}
+                    type="password"
+                    autoComplete="new-password"
+                    placeholder={t('No password')}
+                    value={password}
+                    onChange={e => setPassword(e.target.value)}
+                  />
+
+                  {error && <p className="py-2 text-red-500">{error}</p>}
+                  <button
+                    className="mt-2 flex items-center space-x-2 rounded bg-blue-600 px-4 py-2 text-white hover:bg-blue-500 focus:outline-none focus:ring focus:ring-blue-400"
+                    onClick={createLink}
+                  >
+                    <FontAwesomeIcon icon="link" />
+                    <span>{t('Create share link')}</span>
+                  </button>
+                </div>
+              )}
+            </div>
+          </Transition.Child>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
@@ -0,0 +1,166 @@
+import axios from 'axios'
+import toast from 'react-hot-toast'
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'next-i18next'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+
+import type { OdSiteSettings } from '../types'
+import useSiteSettings from '../utils/useSiteSettings'
+
+/**
+ * Form for admins to change the site settings without a redeploy. The server validates the settings, and the form
+ * shows the first problem it finds.
+ */
+export default function SiteSettingsForm() {
+  const { t } = useTranslation()
+  const { settings, loaded, mutate } = useSiteSettings()
+
+  const [form, setForm] = useState<OdSiteSettings>(settings)
+  // Protected routes are edited one per line, and the number of items as typed
+  const [protectedRoutes, setProtectedRoutes] = useState(settings.protectedRoutes.join('\n'))
+  const [maxItems, setMaxItems] = useState(String(settings.maxItems))
+  const [error, setError] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const reset = (s: OdSiteSettings) => {
+    setForm(s)
+    setProtectedRoutes(s.protectedRoutes.join('\n'))
+    setMaxItems(String(s.maxItems))
+  }
+
+  // Start from the saved settings once they are loaded, rather than the defaults of site.config.js
+  useEffect(() => {
+    if (loaded) reset(settings)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loaded])
+
+  const update = (changes: Partial<OdSiteSettings>) => setForm({ ...form, ...changes })
+  const updateLink = (index: number, changes: Partial<OdSiteSettings['links'][number]>) =>
+    update({ links: form.links.map((l, i) => (i === index ? { ...l, ...changes } : l)) })
+
+  const submit = async (request: () => Promise<{ data: OdSiteSettings }>, message: string) => {
+    setError('')
+    setSaving(true)
+    try {
+      const { data } = await request()
+      await mutate(data, { revalidate: false })
+      reset(data)
+      toast.success(message)
+    } catch (err: any) {
+      setError(err?.response?.data?.error ?? t('Failed to save the settings.'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const save = () =>
+    submit(
+      () =>
+        axios.put('/api/settings/', {
+          ...form,
+          protectedRoutes: protectedRoutes.split('\n').filter(r => r.trim() !== ''),
+          maxItems: Number(maxItems),
+        }),
+      t('Settings saved.')
+    )
+
+  const restoreDefaults = () => {
+    if (!window.confirm(t('Go back to the settings of site.config.js?'))) return
+    submit(() => axios.delete('/api/settings/'), t('Settings restored.'))
+  }
+
+  const inputClassName =
+    'mb-3 w-full rounded border border-gray-600/10 p-2 text-sm focus:outline-none focus:ring focus:ring-blue-300 dark:bg-gray-600 dark:text-white dark:focus:ring-blue-700'
+  const labelClassName = 'block pb-1 text-xs font-medium uppercase tracking-wider'
+
+  return (
+    <div className="p-3 text-sm">
+      <label className={labelClassName}>{t('Title')}</label>
+      <input className={inputClassName} value={form.title} onChange={e => update({ title: e.target.value })} />
+
+      <label className={labelClassName}>{t('Footer (HTML)')}</label>
+      <textarea
+        className={`${inputClassName} font-mono`}
+        rows={3}
+        value={form.footer}
+        onChange={e => update({ footer: e.target.value })}
+      />
+
+      <label className={labelClassName}>{t('Email')}</label>
+      <input
+        className={inputClassName}
+        placeholder="mailto:"
+        value={form.email}
+        onChange={e => update({ email: e.target.value })}
+      />
+
+      <label className={labelClassName}>{t('Links')}</label>
+      {form.links.map((link, i) => (
+        <div key={i} className="flex items-start space-x-2">
+          <input
+            className={`${inputClassName} w-1/3`}
+            placeholder={t('Name')}
+            value={link.name}
+            onChange={e => updateLink(i, { name: e.target.value })}
+          />
+          <input
+            className={inputClassName}
+            placeholder="https://"
+            value={link.link}
+            onChange={e => updateLink(i, { link: e.target.value })}
+          />
+          <button
+            className="rounded-lg px-2 py-2 text-red-500 hover:bg-red-500/10"
+            title={t('Remove')}
+            onClick={() => update({ links: form.links.filter((_, j) => j !== i) })}
+          >
+            <FontAwesomeIcon icon={['far', 'trash-alt']} />
+          </button>
+        </div>
+      ))}
+      <button
+        className="mb-3 rounded-lg px-2 py-1 text-blue-500 hover:bg-blue-500/10"
+        onClick={() => update({ links: [...form.links, { name: '', link: '' }] })}
+      >
+        <FontAwesomeIcon icon="plus" /> {t('Add link')}
+      </button>
+
+      <label className={labelClassName}>{t('Protected routes, one per line')}</label>
+      <textarea
+        className={`${inputClassName} font-mono`}
+        rows={4}
+        value={protectedRoutes}
+        onChange={e => setProtectedRoutes(e.target.value)}
+      />
+
+      <label className={labelClassName}>{t('Items per page')}</label>
+      <input
+        className={`${inputClassName} w-32`}
+        type="number"
+        min={1}
+        max={200}
+        value={maxItems}
+        onChange={e => setMaxItems(e.target.value)}
+      />
+
+      {error && <p className="mb-3 text-red-500">{error}</p>}
+
+      <div className="flex items-center space-x-2">
+        <button
+          className="rounded-lg bg-blue-500 px-3 py-1.5 font-medium text-white hover:bg-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
+          disabled={saving}
+          onClick={save}
+        >
+          {t('Save settings')}
+        </button>
+        <button
+          className="rounded-lg px-3 py-1.5 font-medium text-red-500 hover:bg-red-500/10 disabled:cursor-not-allowed disabled:opacity-50"
+          disabled={saving}
+          onClick={restoreDefaults}
+        >
+          {t('Restore defaults')}
+        </button>
+      </div>
+    </div>
+  )
+}
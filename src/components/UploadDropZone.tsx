@@ -0,0 +1,128 @@
+import axios from 'axios'
+import useSWR from 'swr'
+import toast from 'react-hot-toast'
+import { DragEvent, FC, ReactNode, useRef, useState } from 'react'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { useTranslation } from 'next-i18next'
+
+import type { OdUploadLimits, OdUploadProgress } from '../types'
+import { fetcher } from '../utils/fetchWithSWR'
+import { humanFileSize } from '../utils/fileDetails'
+import { getStoredToken } from '../utils/protectedRouteHandler'
+import { uploadFile } from '../utils/uploadFile'
+import useSession from '../utils/useSession'
+
+/**
+ * Let signed in users upload files into a folder by dropping them onto its file list, if the folder is open for
+ * uploads (see siteConfig.uploadRoutes)
+ *
+ * @param props
+ * @param props.path URL encoded path of the folder
+ * @param props.onUploaded Called after each uploaded file, to refresh the file list
+ */
+const UploadDropZone: FC<{ path: string; onUploaded: () => void; children: ReactNode }> = ({
+  path,
+  onUploaded,
+  children,
+}) => {
+  const { t } = useTranslation()
+  const { user } = useSession()
+  const hashedToken = getStoredToken(path)
+  const { data: limits } = useSWR<OdUploadLimits>(user ? [`/api/upload/?path=${path}`, hashedToken] : null, fetcher, {
+    revalidateOnFocus: false,
+    shouldRetryOnError: false,
+  })
+
+  const [dragging, setDragging] = useState(false)
+  // Drag events fire for every element inside the drop zone, so count them to know when the drag leaves it
+  const dragDepth = useRef(0)
+
+  if (!limits) return <>{children}</>
+
+  const hasFiles = (e: DragEvent) => e.dataTransfer.types.includes('Files')
+
+  const uploadFiles = async (files: File[]) => {
+    const folder = decodeURIComponent(path)
+    for (const file of files) {
+      const toastId = toast.loading(t('Uploading {{name}} ...', { name: file.name }))
+      try {
+        const startUpload = async () => {
+          const { data } = await axios.post(
+            '/api/upload/',
+            { path: folder, name: file.name, size: file.size },
+            { headers: hashedToken ? { 'od-protected-token': hashedToken } : {} }
+          )
+          return data as OdUploadProgress
+        }
+        await uploadFile(file, `${folder}/${file.name}`, startUpload, uploaded =>
+          toast.loading(
+            t('Uploading {{name}} ({{progress}}%) ...', {
+              name: file.name,
+              progress: file.size ? Math.floor((uploaded / file.size) * 100) : 100,
+            }),
+            { id: toastId }
+          )
+        )
+        toast.success(t('Uploaded {{name}}.', { name: file.name }), { id: toastId })
+        onUploaded()
+      } catch (error: any) {
+        const message = error?.response?.data?.error
+        const reason = typeof message === 'string' ? message : t('Network error.')
+        toast.error(t('Failed to upload {{name}}: {{error}}', { name: file.name, error: reason }), { id: toastId })
+      }
+    }
+  }
+
+  return (
+    <div
+      className="relative"
+      onDragEnter={e => {
+        if (!hasFiles(e)) return
+        e.preventDefault()
+        dragDepth.current += 1
+        setDragging(true)
+      }}
+      onDragOver={e => {
+        if (!hasFiles(e)) return
+        e.preventDefault()
+        e.dataTransfer.dropEffect = 'copy'
+      }}
+      onDragLeave={() => {
+        dragDepth.current = Math.max(dragDepth.current - 1, 0)
+        if (dragDepth.current === 0) setDragging(false)
+      }}
+      onDrop={e => {
+        if (!hasFiles(e)) return
+        e.preventDefault()
+        dragDepth.current = 0
+        setDragging(false)
+        // Folders cannot be uploaded, only the files dropped
+        const files = Array.from(e.dataTransfer.items)
+          .filter(i => i.kind === 'file' && !i.webkitGetAsEntry()?.isDirectory)
+          .map(i => i.getAsFile())
+          .filter((f): f is File => f !== null)
+        uploadFiles(files)
+      }}
+    >
+      {children}
+      {dragging && (
+        <div className="pointer-events-none absolute inset-0 z-10 flex flex-col items-center justify-center space-y-2 rounded border-2 border-dashed border-blue-500 bg-white/90 text-blue-600 dark:bg-gray-900/90 dark:text-blue-400">
+          <FontAwesomeIcon icon="cloud-upload-alt" size="2x" />
+          <span className="font-medium">{t('Drop files to upload')}</span>
+          {(limits.maxSize !== null || limits.extensions !== null) && (
+            <span className="text-sm text-gray-600 dark:text-gray-400">
+              {[
+                limits.maxSize !== null ? t('Up to {{size}}', { size: humanFileSize(limits.maxSize) }) : '',
+                limits.extensions !== null ? limits.extensions.map(e => `.${e}`).join(', ') : '',
+              ]
+                .filter(Boolean)
+                .join(' · ')}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default UploadDropZone
@@ -2,7 +2,6 @@ import Head from 'next/head'
 import { useRouter } from 'next/router'
 import { serverSideTranslations } from 'next-i18next/serverSideTranslations'
 
-import siteConfig from '../../config/site.config'
 import Navbar from '../components/Navbar'
 import dynamic from 'next/dynamic'
 
@@ -13,14 +12,16 @@ const FileListing = dynamic(
 import Footer from '../components/Footer'
 import Breadcrumb from '../components/Breadcrumb'
 import SwitchLayout from '../components/SwitchLayout'
+import useSiteSettings from '../utils/useSiteSettings'
 
 export default function Folders() {
+  const { settings } = useSiteSettings()
   const { query } = useRouter()
 
   return (
     <div className="flex min-h-screen flex-col items-center justify-center bg-white dark:bg-gray-900">
       <Head>
-        <title>{siteConfig.title}</title>
+        <title>{settings.title}</title>
       </Head>
 
       <main className="flex w-full flex-1 flex-col bg-gray-50 dark:bg-gray-800">
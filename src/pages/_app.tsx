@@ -28,6 +28,7 @@ import {
   faEnvelope,
   faFlag,
   faCheckCircle,
+  faUser,
 } from '@fortawesome/free-regular-svg-icons'
 import {
   faSearch,
@@ -46,6 +47,7 @@ import {
   faBook,
   faKey,
   faSignOutAlt,
+  faSignInAlt,
   faCloud,
   faChevronCircleDown,
   faChevronDown,
@@ -58,6 +60,17 @@ import {
   faThList,
   faHome,
   faLanguage,
+  faCloudUploadAlt,
+  faInbox,
+  faFolderPlus,
+  faICursor,
+  faCog,
+  faSort,
+  faSortUp,
+  faSortDown,
+  faFilter,
+  faSync,
+  faDatabase,
 } from '@fortawesome/free-solid-svg-icons'
 import * as Icons from '@fortawesome/free-brands-svg-icons'
 
@@ -101,6 +114,8 @@ library.add(
   faKey,
   faTrashAlt,
   faSignOutAlt,
+  faSignInAlt,
+  faUser,
   faEnvelope,
   faCloud,
   faChevronCircleDown,
@@ -117,6 +132,17 @@ library.add(
   faThList,
   faLanguage,
   faPen,
+  faCloudUploadAlt,
+  faInbox,
+  faFolderPlus,
+  faICursor,
+  faCog,
+  faSort,
+  faSortUp,
+  faSortDown,
+  faFilter,
+  faSync,
+  faDatabase,
   ...iconList
 )
 
@@ -0,0 +1,263 @@
+import type { OdAdminStatus } from '../types'
+
+import axios from 'axios'
+import useSWR from 'swr'
+import Head from 'next/head'
+import Link from 'next/link'
+import toast, { Toaster } from 'react-hot-toast'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { serverSideTranslations } from 'next-i18next/serverSideTranslations'
+import { useTranslation } from 'next-i18next'
+
+import Navbar from '../components/Navbar'
+import Footer from '../components/Footer'
+import Loading from '../components/Loading'
+import SiteSettingsForm from '../components/SiteSettingsForm'
+import { fetcher } from '../utils/fetchWithSWR'
+import { formatModifiedDateTime, humanFileSize } from '../utils/fileDetails'
+import useSession from '../utils/useSession'
+import useSiteSettings from '../utils/useSiteSettings'
+
+const Section = ({ title, children }: { title: string; children: JSX.Element | JSX.Element[] }) => (
+  <div className="mb-4 rounded bg-white shadow-sm dark:bg-gray-900 dark:text-gray-100">
+    <div className="border-b border-gray-900/10 px-3 py-2 font-bold dark:border-gray-500/30">{title}</div>
+    {children}
+  </div>
+)
+
+const AdminDashboard = () => {
+  const { t } = useTranslation()
+  const { data, error, mutate } = useSWR<OdAdminStatus>(['/api/admin/'], fetcher)
+
+  const clearTokens = async (drive: string) => {
+    if (!window.confirm(t('Clear the tokens of this drive? It stays offline until it is authorised again.'))) return
+    try {
+      await axios.post('/api/admin/', { action: 'clearTokens', drive })
+      await mutate()
+      toast.success(t('Tokens cleared.'))
+    } catch (err: any) {
+      toast.error(t('Failed to clear the tokens.'))
+    }
+  }
+
+  const syncIndex = async (drive: string, rebuild: boolean) => {
+    if (rebuild && !window.confirm(t('Index the whole drive again? This may take a while for large drives.'))) return
+    const toastId = toast.loading(t('Syncing the index...'))
+    try {
+      const { data: result } = await axios.post('/api/admin/', {
+        action: rebuild ? 'rebuildIndex' : 'syncIndex',
+        drive,
+      })
+      await mutate()
+      toast.success(t('{{items}} items indexed.', { items: result.items }), { id: toastId })
+    } catch (err: any) {
+      toast.error(err?.response?.data?.error ?? t('Failed to sync the index.'), { id: toastId })
+    }
+  }
+
+  const purge = async () => {
+    try {
+      const { data: result } = await axios.post('/api/admin/', { action: 'purgeCaches' })
+      await mutate()
+      toast.success(t('{{purged}} cache entries purged.', { purged: result.purged }))
+    } catch (err: any) {
+      toast.error(t('Failed to purge the caches.'))
+    }
+  }
+
+  if (error) {
+    return <p className="p-3 text-sm text-red-500">{JSON.stringify(error.message)}</p>
+  }
+  if (!data) {
+    return <Loading loadingText={t('Loading ...')} />
+  }
+
+  // Labels of the caches returned by /api/admin/, see utils/siteCaches
+  const cacheLabels = {
+    dotPassword: t('.password files'),
+    folderProtection: t('Folder protection'),
+    odignore: t('.odignore files'),
+  }
+
+  return (
+    <>
+      <Section title={t('Drives')}>
+        <div className="divide-y divide-gray-900/10 dark:divide-gray-500/30">
+          {data.drives.map(drive => (
+            <div key={drive.id} className="flex items-center space-x-4 px-3 py-2.5">
+              <div className="w-5 flex-shrink-0 text-center">
+                <FontAwesomeIcon icon="cloud" />
+              </div>
+              <div className="flex-1 truncate">
+                <div className="truncate font-medium">
+                  {drive.id ? `/${drive.id}` : '/'}
+                  {drive.account && ` · ${drive.account.displayName || drive.account.email}`}
+                </div>
+                <div className="truncate text-xs text-gray-500">
+                  {drive.account
+                    ? `${drive.account.email} · ${drive.account.driveType} · ${t('{{used}} of {{total}} used', {
+                        used: humanFileSize(drive.account.quota.used),
+                        total: humanFileSize(drive.account.quota.total),
+                      })}`
+                    : t('Not connected')}
+                </div>
+                <div className="truncate text-xs text-gray-500">
+                  {drive.accessTokenTtl > 0
+                    ? t('Access token expires in {{minutes}} minutes', {
+                        minutes: Math.ceil(drive.accessTokenTtl / 60),
+                      })
+                    : t('No access token')}
+                  {' · '}
+                  {drive.hasRefreshToken ? t('Refresh token stored') : t('No refresh token')}
+                  {drive.tokensStoredAt !== null &&
+                    ` · ${t('Last refreshed {{date}}', {
+                      date: formatModifiedDateTime(new Date(drive.tokensStoredAt).toISOString()),
+                    })}`}
+                </div>
+                {data.caches.driveIndex && (
+                  <div className="truncate text-xs text-gray-500">
+                    {drive.index
+                      ? t('{{items}} items indexed, synced {{date}}', {
+                          items: drive.index.items,
+                          date: formatModifiedDateTime(new Date(drive.index.syncedAt).toISOString()),
+                        })
+                      : t('Not indexed yet')}
+                  </div>
+                )}
+              </div>
+              {data.caches.driveIndex && (
+                <>
+                  <button
+                    className="rounded-lg px-2 py-1 text-sm text-blue-500 hover:bg-blue-500/10"
+                    title={t('Sync index')}
+                    onClick={() => syncIndex(drive.id, false)}
+                  >
+                    <FontAwesomeIcon icon="sync" />
+                  </button>
+                  <button
+                    className="rounded-lg px-2 py-1 text-sm text-blue-500 hover:bg-blue-500/10"
+                    title={t('Rebuild index')}
+                    onClick={() => syncIndex(drive.id, true)}
+                  >
+                    <FontAwesomeIcon icon="database" />
+                  </button>
+                </>
+              )}
+              <Link
+                href={{ pathname: '/onedrive-vercel-index-oauth/step-1', query: drive.id ? { drive: drive.id } : {} }}
+                className="rounded-lg px-2 py-1 text-sm text-blue-500 hover:bg-blue-500/10"
+                title={t('Re-authorise')}
+              >
+                <FontAwesomeIcon icon="key" />
+              </Link>
+              <button
+                className="rounded-lg px-2 py-1 text-sm text-red-500 hover:bg-red-500/10"
+                title={t('Clear tokens')}
+                onClick={() => clearTokens(drive.id)}
+              >
+                <FontAwesomeIcon icon={['far', 'trash-alt']} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </Section>
+
+      <Section title={t('Protected routes')}>
+        {data.protectedRoutes.length === 0 ? (
+          <p className="p-3 text-sm text-gray-500">{t('No protected routes in the site settings.')}</p>
+        ) : (
+          <div className="divide-y divide-gray-900/10 dark:divide-gray-500/30">
+            {data.protectedRoutes.map(({ route, dotPassword }) => (
+              <div key={route} className="flex items-center space-x-4 px-3 py-2.5 text-sm">
+                <div className="flex-1 truncate font-mono">{route}</div>
+                {dotPassword === null ? (
+                  <span className="text-gray-500">{t('Not checked')}</span>
+                ) : dotPassword ? (
+                  <span className="text-green-600">
+                    <FontAwesomeIcon icon={['far', 'check-circle']} /> {t('.password found')}
+                  </span>
+                ) : (
+                  <span className="text-red-500">
+                    <FontAwesomeIcon icon="exclamation-triangle" /> {t('.password missing')}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </Section>
+
+      <Section title={t('Caches')}>
+        <div className="space-y-1 p-3 text-sm">
+          <div>
+            {t('KV store')}: <code className="font-mono">{data.caches.kvStore}</code>
+          </div>
+          <div>
+            {t('Cache-Control header')}: <code className="font-mono">{data.caches.cacheControlHeader}</code>
+          </div>
+          <div>
+            {t('Drive index')}: <code className="font-mono">{data.caches.driveIndex ?? t('disabled')}</code>
+          </div>
+          {Object.entries(data.caches.entries).map(([name, count]) => (
+            <div key={name}>
+              {cacheLabels[name] ?? name}: {t('{{entries}} entries', { entries: count })}
+            </div>
+          ))}
+          <button
+            className="mt-2 rounded-lg bg-red-500 px-3 py-1.5 text-sm font-medium text-white hover:bg-red-600"
+            onClick={purge}
+          >
+            {t('Purge caches')}
+          </button>
+        </div>
+      </Section>
+
+      <Section title={t('Site settings')}>
+        <SiteSettingsForm />
+      </Section>
+    </>
+  )
+}
+
+export default function Admin() {
+  const { t } = useTranslation()
+  const { settings } = useSiteSettings()
+  const { isAdmin, loaded } = useSession()
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-white dark:bg-gray-900">
+      <Head>
+        <title>{t('Admin - {{title}}', { title: settings.title })}</title>
+      </Head>
+
+      <main className="flex w-full flex-1 flex-col bg-gray-50 dark:bg-gray-800">
+        <Toaster />
+        <Navbar />
+        <div className="mx-auto w-full max-w-5xl py-4 sm:p-4">
+          {!loaded ? (
+            <Loading loadingText={t('Loading ...')} />
+          ) : isAdmin ? (
+            <AdminDashboard />
+          ) : (
+            <p className="rounded bg-white p-3 text-sm text-gray-500 shadow-sm dark:bg-gray-900">
+              <Link href={{ pathname: '/login', query: { redirect: '/admin' } }} className="underline">
+                {t('Sign in')}
+              </Link>{' '}
+              {t('as an admin to see the state of this site.')}
+            </p>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  )
+}
+
+export async function getServerSideProps({ locale }) {
+  return {
+    props: {
+      ...(await serverSideTranslations(locale, ['common'])),
+    },
+  }
+}
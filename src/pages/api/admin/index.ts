@@ -0,0 +1,134 @@
+import axios from 'axios'
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+import type { OdAdminStatus } from '../../../types'
+import apiConfig from '../../../../config/api.config'
+import siteConfig from '../../../../config/site.config'
+import { getAccessToken, hasDotPasswordFile, loadDrive } from '..'
+import { getDrive, getDrives, OdDriveConfig } from '../../../utils/drives'
+import { clearOdAuthTokens, getOdAuthTokenStatus } from '../../../utils/odAuthTokenStore'
+import { getCacheStatus, purgeCaches } from '../../../utils/siteCaches'
+import { clearDriveIndex, getDriveIndexStatus, isDriveIndexEnabled, syncDriveIndex } from '../../../utils/driveIndex'
+import { getSiteSettings } from '../../../utils/siteSettings'
+import { ADMIN_ROLE, getRequestUser } from '../../../utils/userStore'
+
+// The account a drive is authorised with, null if it is not authorised or OneDrive cannot be reached
+async function getDriveAccount(drive: OdDriveConfig): Promise<OdAdminStatus['drives'][number]['account']> {
+  const accessToken = await getAccessToken(drive.id).catch(() => '')
+  if (!accessToken) return null
+
+  try {
+    const { data } = await axios.get(drive.driveApi, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+      params: { select: 'owner,quota,driveType' },
+    })
+    return {
+      displayName: data.owner?.user?.displayName ?? data.owner?.group?.displayName ?? '',
+      email: data.owner?.user?.email ?? drive.userPrincipalName,
+      driveType: data.driveType ?? '',
+      quota: { used: data.quota?.used ?? 0, total: data.quota?.total ?? 0 },
+    }
+  } catch (error) {
+    return null
+  }
+}
+
+async function getAdminStatus(): Promise<OdAdminStatus> {
+  const drives = await Promise.all(
+    getDrives().map(async configDrive => {
+      const drive = await loadDrive(configDrive)
+      // The account is read first, as it refreshes the access token when it has expired
+      const account = await getDriveAccount(drive)
+      const { accessTokenTtl, hasRefreshToken, storedAt } = await getOdAuthTokenStatus(drive.id)
+      const index = await getDriveIndexStatus(drive.id)
+      return { id: drive.id, account, accessTokenTtl, hasRefreshToken, tokensStoredAt: storedAt, index }
+    })
+  )
+  const protectedRoutes = await Promise.all(
+    (
+      await getSiteSettings()
+    ).protectedRoutes.map(async route => ({
+      route,
+      dotPassword: await hasDotPasswordFile(route),
+    }))
+  )
+  return {
+    drives,
+    protectedRoutes,
+    caches: {
+      kvStore: siteConfig.kvStore,
+      cacheControlHeader: apiConfig.cacheControlHeader,
+      entries: await getCacheStatus(),
+      driveIndex: isDriveIndexEnabled() ? siteConfig.driveIndex.store : null,
+    },
+  }
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Status of the deployment for the admin dashboard: the account, tokens and index of each drive, protected routes
+  // and caches. Admins may also clear the tokens of a drive, which then has to be authorised again, sync or rebuild
+  // the index of a drive, and purge the caches.
+  res.setHeader('Cache-Control', 'no-cache')
+
+  const user = await getRequestUser(req)
+  if (!user) {
+    res.status(401).json({ error: 'Sign in required.' })
+    return
+  }
+  if (!user.roles.includes(ADMIN_ROLE)) {
+    res.status(403).json({ error: 'Admins only.' })
+    return
+  }
+
+  switch (req.method) {
+    case 'GET':
+      try {
+        res.status(200).json(await getAdminStatus())
+      } catch (error: any) {
+        res.status(500).json({ error: error?.message ?? 'Internal server error.' })
+      }
+      return
+
+    case 'POST': {
+      const { action, drive } = req.body ?? {}
+      if (action === 'clearTokens') {
+        if (typeof drive !== 'string' || !getDrive(drive)) {
+          res.status(404).json({ error: 'Drive not found.' })
+          return
+        }
+        await clearOdAuthTokens(drive)
+        await clearDriveIndex(drive)
+        res.status(200).json({})
+      } else if (action === 'syncIndex' || action === 'rebuildIndex') {
+        const configDrive = typeof drive === 'string' ? getDrive(drive) : undefined
+        if (!configDrive) {
+          res.status(404).json({ error: 'Drive not found.' })
+          return
+        }
+        if (!isDriveIndexEnabled()) {
+          res.status(400).json({ error: 'The drive index is not enabled in site.config.js.' })
+          return
+        }
+        const accessToken = await getAccessToken(configDrive.id)
+        if (!accessToken) {
+          res.status(403).json({ error: 'No access token.' })
+          return
+        }
+        try {
+          const index = await syncDriveIndex(await loadDrive(configDrive), accessToken, action === 'rebuildIndex')
+          res.status(200).json({ items: index.items.length })
+        } catch (error: any) {
+          res.status(502).json({ error: error?.response?.data?.error?.message ?? 'Failed to sync the index.' })
+        }
+      } else if (action === 'purgeCaches') {
+        res.status(200).json({ purged: await purgeCaches() })
+      } else {
+        res.status(400).json({ error: 'Action invalid.' })
+      }
+      return
+    }
+
+    default:
+      res.status(405).json({ error: 'Method not allowed.' })
+  }
+}
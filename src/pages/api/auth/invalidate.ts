@@ -0,0 +1,52 @@
+import { posix as pathPosix } from 'path'
+
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+import { getAuthTokenPath } from '..'
+import { invalidateCachedDotPassword } from '../../../utils/dotPasswordCache'
+import { getAncestorFolders, invalidateCachedFolderProtection } from '../../../utils/folderProtection'
+import { invalidateCachedOdignore } from '../../../utils/hiddenItems'
+import { ADMIN_ROLE, getRequestUser } from '../../../utils/userStore'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Drop the cached .password file of a protected route, so that a changed password applies immediately instead of
+  // after the cache entry is revalidated, along with the protection and .odignore files found in the path. Only
+  // available to admins.
+  res.setHeader('Cache-Control', 'no-cache')
+
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed.' })
+    return
+  }
+
+  const user = await getRequestUser(req)
+  if (!user) {
+    res.status(401).json({ error: 'Sign in required.' })
+    return
+  }
+  if (!user.roles.includes(ADMIN_ROLE)) {
+    res.status(403).json({ error: 'Admin role required.' })
+    return
+  }
+
+  const { path } = req.body ?? {}
+  if (typeof path !== 'string') {
+    res.status(400).json({ error: 'Path required.' })
+    return
+  }
+
+  // Protection and .odignore files are looked up again too, so that new files apply right away
+  const cleanPath = pathPosix.resolve('/', pathPosix.normalize(path))
+  await Promise.all([
+    invalidateCachedFolderProtection(cleanPath),
+    invalidateCachedOdignore(getAncestorFolders(cleanPath)),
+  ])
+  const authTokenPath = await getAuthTokenPath(cleanPath)
+  // The path may no longer be protected, e.g. after removing its .password file
+  if (authTokenPath === '') {
+    res.status(200).json({ route: null })
+    return
+  }
+  await invalidateCachedDotPassword(authTokenPath)
+  res.status(200).json({ route: authTokenPath.replace(/\.password$/, '') })
+}
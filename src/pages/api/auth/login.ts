@@ -0,0 +1,59 @@
+import { posix as pathPosix } from 'path'
+
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+import { verifyRoutePassword } from '..'
+import {
+  isRouteTokenSigningEnabled,
+  issueRouteToken,
+  ROUTE_TOKEN_MAX_AGE,
+  ROUTE_TOKEN_SECRET_MISSING,
+} from '../../../utils/routeToken'
+import { authenticateUser, createSession, serializeSessionCookie } from '../../../utils/userStore'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Sign in with the username and password of a user account, and start a session stored in a cookie.
+  // Alternatively, enter the password of the protected route a path belongs to, and get a token for the route.
+  res.setHeader('Cache-Control', 'no-cache')
+
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed.' })
+    return
+  }
+
+  const { username, password, path } = req.body ?? {}
+
+  if (typeof path === 'string') {
+    if (typeof password !== 'string' || !password) {
+      res.status(400).json({ error: 'Password required.' })
+      return
+    }
+    if (!isRouteTokenSigningEnabled()) {
+      res.status(500).json({ error: ROUTE_TOKEN_SECRET_MISSING })
+      return
+    }
+    const cleanPath = pathPosix.resolve('/', pathPosix.normalize(path))
+    const { code, message, route } = await verifyRoutePassword(cleanPath, password)
+    if (code !== 200 || !route) {
+      res.status(code).json({ error: message })
+      return
+    }
+    res.status(200).json({ token: issueRouteToken(route), route, expiresIn: ROUTE_TOKEN_MAX_AGE })
+    return
+  }
+
+  if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+    res.status(400).json({ error: 'Username and password required.' })
+    return
+  }
+
+  const user = await authenticateUser(username.trim(), password)
+  if (!user) {
+    res.status(401).json({ error: 'Invalid username or password.' })
+    return
+  }
+
+  const sessionId = await createSession(user.name)
+  res.setHeader('Set-Cookie', serializeSessionCookie(sessionId))
+  res.status(200).json({ user })
+}
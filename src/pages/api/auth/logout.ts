@@ -0,0 +1,20 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+import { deleteSession, serializeSessionCookie, SESSION_COOKIE } from '../../../utils/userStore'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // End the session of the request, and clear the session cookie
+  res.setHeader('Cache-Control', 'no-cache')
+
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed.' })
+    return
+  }
+
+  const sessionId = req.cookies[SESSION_COOKIE]
+  if (sessionId) {
+    await deleteSession(sessionId)
+  }
+  res.setHeader('Set-Cookie', serializeSessionCookie(''))
+  res.status(200).json({ user: null })
+}
@@ -0,0 +1,15 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+import { isOidcEnabled } from '../../../utils/oidc'
+import { getRequestUser, isUserAccountsEnabled } from '../../../utils/userStore'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Return the signed in user, and whether user accounts or single sign-on are used at all to show the sign in button
+  res.setHeader('Cache-Control', 'no-cache')
+
+  res.status(200).json({
+    user: await getRequestUser(req),
+    accountsEnabled: await isUserAccountsEnabled(),
+    ssoEnabled: isOidcEnabled(),
+  })
+}
@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+import { handleCallback, isOidcEnabled } from '../../../../utils/oidc'
+import { createSession, resolveUser, serializeSessionCookie } from '../../../../utils/userStore'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // The identity provider redirects here after signing in, with an authorization code or an error
+  res.setHeader('Cache-Control', 'no-cache')
+
+  if (!isOidcEnabled()) {
+    res.status(404).json({ error: 'Single sign-on is not configured.' })
+    return
+  }
+
+  const { code, state, error, error_description } = req.query
+  if (typeof error === 'string') {
+    res.status(401).json({ error: error_description ?? error })
+    return
+  }
+  if (typeof code !== 'string' || typeof state !== 'string') {
+    res.status(400).json({ error: 'Invalid callback.' })
+    return
+  }
+
+  const result = await handleCallback(req, code, state)
+  if (result.code !== 200) {
+    res.status(result.code).json({ error: result.message })
+    return
+  }
+
+  if (!(await resolveUser(result.identity.email, true))) {
+    res.status(403).json({ error: 'A user account of this name exists and is not linked to single sign-on.' })
+    return
+  }
+  const sessionId = await createSession(result.identity.email, true)
+  res.setHeader('Set-Cookie', serializeSessionCookie(sessionId))
+  res.redirect(result.redirect)
+}
@@ -0,0 +1,24 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+import { getRedirectPath } from '../../../../utils/getRedirectPath'
+import { getAuthorizationUrl, isOidcEnabled } from '../../../../utils/oidc'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Redirect to the identity provider to sign in with single sign-on
+  res.setHeader('Cache-Control', 'no-cache')
+
+  if (!isOidcEnabled()) {
+    res.status(404).json({ error: 'Single sign-on is not configured.' })
+    return
+  }
+
+  // Only redirect back to paths on this site after signing in
+  const redirectPath = getRedirectPath(req.query.redirect)
+
+  try {
+    res.redirect(await getAuthorizationUrl(req, redirectPath))
+  } catch (error: any) {
+    console.error('OIDC discovery failed:', error?.response?.data ?? error)
+    res.status(500).json({ error: 'Failed to reach the identity provider.' })
+  }
+}
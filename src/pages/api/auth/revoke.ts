@@ -0,0 +1,52 @@
+import { posix as pathPosix } from 'path'
+
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+import { getAuthTokenPath } from '..'
+import { invalidateCachedDotPassword } from '../../../utils/dotPasswordCache'
+import { revokeAllRouteTokens, revokeRouteToken } from '../../../utils/routeToken'
+import { ADMIN_ROLE, getRequestUser } from '../../../utils/userStore'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Revoke protected route tokens: either the tokens sent along when clearing them from the browser, or all
+  // tokens issued for a protected route (e.g. after changing its password), which is only available to admins
+  res.setHeader('Cache-Control', 'no-cache')
+
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed.' })
+    return
+  }
+
+  const { tokens, path } = req.body ?? {}
+
+  if (Array.isArray(tokens)) {
+    await Promise.all(tokens.filter(t => typeof t === 'string').map(revokeRouteToken))
+    res.status(200).json({ revoked: tokens.length })
+    return
+  }
+
+  if (typeof path !== 'string') {
+    res.status(400).json({ error: 'Tokens or path required.' })
+    return
+  }
+
+  const user = await getRequestUser(req)
+  if (!user) {
+    res.status(401).json({ error: 'Sign in required.' })
+    return
+  }
+  if (!user.roles.includes(ADMIN_ROLE)) {
+    res.status(403).json({ error: 'Admin role required.' })
+    return
+  }
+
+  const authTokenPath = await getAuthTokenPath(pathPosix.resolve('/', pathPosix.normalize(path)))
+  if (authTokenPath === '') {
+    res.status(400).json({ error: 'Route is not protected.' })
+    return
+  }
+  const route = authTokenPath.replace(/\.password$/, '')
+  // Tokens are usually revoked after changing the password, which should not wait for the cache to be revalidated
+  await Promise.all([revokeAllRouteTokens(route), invalidateCachedDotPassword(authTokenPath)])
+  res.status(200).json({ route })
+}
@@ -0,0 +1,55 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+import { isValidAccessRules } from '../../../utils/accessControl'
+import { ADMIN_ROLE, deleteRole, getRequestUser, listRoles, saveRole } from '../../../utils/userStore'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Manage roles and their access rules, only available to admins
+  res.setHeader('Cache-Control', 'no-cache')
+
+  const user = await getRequestUser(req)
+  if (!user) {
+    res.status(401).json({ error: 'Sign in required.' })
+    return
+  }
+  if (!user.roles.includes(ADMIN_ROLE)) {
+    res.status(403).json({ error: 'Admin role required.' })
+    return
+  }
+
+  switch (req.method) {
+    case 'GET':
+      res.status(200).json({ roles: await listRoles() })
+      return
+
+    case 'POST': {
+      const { name, rules = [] } = req.body ?? {}
+      // The admin role is built in, it grants access to everything and has no rules
+      if (typeof name !== 'string' || !/^[\w.-]{1,64}$/.test(name) || name.toLowerCase() === ADMIN_ROLE) {
+        res.status(400).json({ error: 'Invalid role name.' })
+        return
+      }
+      if (!isValidAccessRules(rules)) {
+        res.status(400).json({ error: 'Invalid rules.' })
+        return
+      }
+      await saveRole({ name, rules })
+      res.status(200).json({ role: { name, rules } })
+      return
+    }
+
+    case 'DELETE': {
+      const { name } = req.query
+      if (typeof name !== 'string') {
+        res.status(400).json({ error: 'Invalid role name.' })
+        return
+      }
+      await deleteRole(name)
+      res.status(200).json({ name })
+      return
+    }
+
+    default:
+      res.status(405).json({ error: 'Method not allowed.' })
+  }
+}
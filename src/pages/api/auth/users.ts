@@ -0,0 +1,75 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+import { isValidAccessRules } from '../../../utils/accessControl'
+import { ADMIN_ROLE, deleteUser, getRequestUser, isBuiltinAdmin, listUsers, saveUser } from '../../../utils/userStore'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Manage user accounts, only available to admins
+  res.setHeader('Cache-Control', 'no-cache')
+
+  const user = await getRequestUser(req)
+  if (!user) {
+    res.status(401).json({ error: 'Sign in required.' })
+    return
+  }
+  if (!user.roles.includes(ADMIN_ROLE)) {
+    res.status(403).json({ error: 'Admin role required.' })
+    return
+  }
+
+  switch (req.method) {
+    case 'GET':
+      res.status(200).json({ users: await listUsers() })
+      return
+
+    // Create or update an account, the password is only required for new accounts
+    case 'POST': {
+      const { name, password, roles = [], rules = [], disabled = false, linkSso = false } = req.body ?? {}
+      if (typeof name !== 'string' || !/^[\w.@-]{1,64}$/.test(name)) {
+        res.status(400).json({ error: 'Invalid username.' })
+        return
+      }
+      if (isBuiltinAdmin(name)) {
+        res.status(400).json({ error: 'The built-in admin account cannot be changed.' })
+        return
+      }
+      if (password !== undefined && (typeof password !== 'string' || password.length < 8)) {
+        res.status(400).json({ error: 'Password must be at least 8 characters.' })
+        return
+      }
+      if (!Array.isArray(roles) || !roles.every(r => typeof r === 'string') || !isValidAccessRules(rules)) {
+        res.status(400).json({ error: 'Invalid roles or rules.' })
+        return
+      }
+
+      const saved = await saveUser({
+        name,
+        password,
+        roles,
+        rules,
+        disabled: disabled === true,
+        linkSso: linkSso === true,
+      })
+      if (!saved) {
+        res.status(400).json({ error: 'Password required for new accounts.' })
+        return
+      }
+      res.status(200).json({ user: saved })
+      return
+    }
+
+    case 'DELETE': {
+      const { name } = req.query
+      if (typeof name !== 'string' || isBuiltinAdmin(name)) {
+        res.status(400).json({ error: 'Invalid username.' })
+        return
+      }
+      await deleteUser(name)
+      res.status(200).json({ name })
+      return
+    }
+
+    default:
+      res.status(405).json({ error: 'Method not allowed.' })
+  }
+}
@@ -0,0 +1,439 @@
+import { posix as pathPosix } from 'path'
+
+import axios from 'axios'
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+import type { OdUserInfo } from '../../../types'
+import {
+  AuthContext,
+  checkAuthRoute,
+  createHiddenItemFilter,
+  encodePath,
+  getAccessToken,
+  invalidateConfigCaches,
+  listDrives,
+  resolveDrive,
+  verifyRoutePassword,
+} from '..'
+import { sendRawFile } from '../raw'
+import siteConfig from '../../../../config/site.config'
+import { isMultiDrive } from '../../../utils/drives'
+import { invalidateDriveIndex } from '../../../utils/driveIndex'
+import { isConfigFile, isProtectionFile } from '../../../utils/folderProtection'
+import { isRouteTokenSigningEnabled, issueRouteToken } from '../../../utils/routeToken'
+import { getSiteSettings } from '../../../utils/siteSettings'
+import {
+  checkUploadLimits,
+  checkUploadName,
+  findUploadRoute,
+  getUploadLimits,
+  UPLOAD_CHUNK_MAX_SIZE,
+} from '../../../utils/uploads'
+import { ADMIN_ROLE, authenticateUser, getRequestUser, isUserAccountsEnabled } from '../../../utils/userStore'
+import { buildMultistatus, DavItem, parseBasicAuth, parseDavDestination } from '../../../utils/webdav'
+
+// Uploads are streamed to OneDrive as they are
+export const config = { api: { bodyParser: false } }
+
+const READ_METHODS = ['OPTIONS', 'PROPFIND', 'GET', 'HEAD']
+const WRITE_METHODS = ['PUT', 'DELETE', 'MKCOL', 'MOVE']
+// Writes creating new items, which users other than admins may send into the folders they may upload into
+const CREATE_METHODS = ['PUT', 'MKCOL']
+
+const ITEM_SELECT = 'name,size,id,lastModifiedDateTime,createdDateTime,eTag,folder,file'
+
+/**
+ * Check the credentials of a WebDAV request for a path. Basic authentication carries the username and password of a
+ * user account, or the password of the protected route of the path (with any username), which is exchanged for a
+ * route token here as clients cannot go through /api/auth/login. Without a secret to sign tokens, route passwords are
+ * not accepted.
+ *
+ * @param cleanPath Sanitised path
+ * @param user User signed in with Basic authentication or a session cookie
+ * @param password Password sent with Basic authentication
+ */
+async function authorise(cleanPath: string, user: OdUserInfo | null, password: string | undefined) {
+  const auth: AuthContext = { odTokenHeader: '', user }
+  const result = await checkAuthRoute(cleanPath, auth)
+  if (result.code !== 401 || !result.password || !password || !isRouteTokenSigningEnabled()) return result
+
+  const { code, route } = await verifyRoutePassword(cleanPath, password)
+  return code === 200 && route ? checkAuthRoute(cleanPath, { ...auth, odTokenHeader: issueRouteToken(route) }) : result
+}
+
+/**
+ * Fetch all children of a folder, following pagination as WebDAV clients expect complete listings
+ */
+async function listChildren(url: string, accessToken: string): Promise<DavItem[]> {
+  const children: DavItem[] = []
+  let next: string | undefined = url
+  while (next) {
+    const { data } = await axios.get(next, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+      params: next === url ? { select: ITEM_SELECT, $top: 1000 } : {},
+    })
+    children.push(...data.value)
+    next = data['@odata.nextLink']
+  }
+  return children
+}
+
+/**
+ * Send the body of a PUT request to a Graph upload session, chunk by chunk, as simple uploads are limited to 4MB. The
+ * session is cancelled if the upload fails.
+ *
+ * @param uploadUrl Pre-authenticated URL of the upload session
+ * @param size Length of the body, from the Content-Length header
+ * @returns Whether the body had the announced length
+ */
+async function uploadBody(req: NextApiRequest, uploadUrl: string, size: number): Promise<boolean> {
+  let offset = 0
+  let pending = Buffer.alloc(0)
+  const send = async (chunk: Buffer) => {
+    // Upload URLs are pre-authenticated, they must not be sent the access token
+    await axios.put(uploadUrl, chunk, {
+      headers: { 'Content-Range': `bytes ${offset}-${offset + chunk.length - 1}/${size}` },
+      maxBodyLength: Infinity,
+    })
+    offset += chunk.length
+  }
+
+  try {
+    for await (const data of req) {
+      pending = Buffer.concat([pending, data])
+      if (offset + pending.length > size) break
+      // The last chunk is kept until the body ends, whatever its size
+      while (pending.length > UPLOAD_CHUNK_MAX_SIZE) {
+        await send(pending.subarray(0, UPLOAD_CHUNK_MAX_SIZE))
+        pending = pending.subarray(UPLOAD_CHUNK_MAX_SIZE)
+      }
+    }
+    if (offset + pending.length !== size) {
+      await axios.delete(uploadUrl)
+      return false
+    }
+    await send(pending)
+    return true
+  } catch (error) {
+    await axios.delete(uploadUrl).catch(() => {})
+    throw error
+  }
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!siteConfig.webdav?.enabled) {
+    res.status(404).json({ error: 'WebDAV is not enabled.' })
+    return
+  }
+  // Responses depend on the credentials of the request, and clients expect fresh listings
+  res.setHeader('Cache-Control', 'no-cache')
+  res.setHeader('DAV', '1')
+
+  const readWrite = !!siteConfig.webdav.readWrite
+  const allowed = [...READ_METHODS, ...(readWrite ? WRITE_METHODS : [])]
+  res.setHeader('Allow', allowed.join(', '))
+
+  const method = req.method ?? 'GET'
+  if (method === 'OPTIONS') {
+    res.status(200).end()
+    return
+  }
+  if (!allowed.includes(method)) {
+    res.status(405).end()
+    return
+  }
+
+  const segments = ([] as string[]).concat(req.query.path ?? [])
+  const cleanPath = pathPosix.resolve('/', pathPosix.normalize(segments.join('/'))).replace(/\/$/, '')
+  const isWrite = WRITE_METHODS.includes(method)
+
+  // Sign in with Basic authentication, or with the session cookie of the browser
+  const credentials = parseBasicAuth(req.headers.authorization)
+  const user =
+    (credentials && (await isUserAccountsEnabled())
+      ? await authenticateUser(credentials.username, credentials.password)
+      : null) ?? (await getRequestUser(req))
+
+  const { title } = await getSiteSettings()
+  const challenge = () => {
+    res.setHeader('WWW-Authenticate', `Basic realm="${title.replace(/"/g, '')}", charset="UTF-8"`)
+    res.status(401).end()
+  }
+
+  // Writes need a user account. Like /api/upload, admins may change anything, other users only create files and
+  // folders in the folders they may upload into, and configuration files can only be changed by admins.
+  if (isWrite && !user) {
+    challenge()
+    return
+  }
+  const isAdmin = !!user?.roles.includes(ADMIN_ROLE)
+  const uploadRoute = isWrite && user && !isAdmin ? findUploadRoute(pathPosix.dirname(cleanPath), user) : null
+  if (isWrite && !isAdmin && (!uploadRoute || !CREATE_METHODS.includes(method))) {
+    res.status(403).end()
+    return
+  }
+  if (isWrite && isConfigFile(cleanPath) && !isAdmin) {
+    res.status(403).end()
+    return
+  }
+
+  const { code } = await authorise(cleanPath, user, credentials?.password)
+  if (code === 401) {
+    challenge()
+    return
+  }
+  if (code !== 200) {
+    res.status(code).end()
+    return
+  }
+
+  // Hidden items and protection files do not exist as far as WebDAV clients are concerned
+  const isHidden = createHiddenItemFilter()
+  const isServed = async (path: string, isFolder: boolean) =>
+    !isProtectionFile(path) && !(await isHidden(path, isFolder))
+
+  // With multiple drives, the site root lists the mounted drives as folders
+  if (isMultiDrive() && cleanPath === '') {
+    if (method !== 'PROPFIND') {
+      res.status(method === 'GET' || method === 'HEAD' ? 200 : 403).end()
+      return
+    }
+    const root: DavItem = { name: '', size: 0, lastModifiedDateTime: new Date(0).toISOString(), folder: {} }
+    const drives = req.headers.depth === '0' ? [] : (await listDrives()).value
+    res.setHeader('Content-Type', 'application/xml; charset=utf-8')
+    res
+      .status(207)
+      .send(buildMultistatus([{ path: '', item: root }, ...drives.map(d => ({ path: `/${d.name}`, item: d }))]))
+    return
+  }
+
+  const resolved = await resolveDrive(cleanPath)
+  if (!resolved) {
+    res.status(404).end()
+    return
+  }
+  const { drive } = resolved
+  const accessToken = await getAccessToken(drive.id)
+  if (!accessToken) {
+    res.status(503).end()
+    return
+  }
+
+  const headers = { Authorization: `Bearer ${accessToken}` }
+  const requestPath = encodePath(resolved.path, drive)
+  const requestUrl = `${drive.driveApi}/root${requestPath}`
+  const isRoot = requestPath === ''
+  // The root of a drive (which may be a folder inside OneDrive) cannot be written to
+  const isDriveRoot = pathPosix.resolve('/', resolved.path) === '/'
+
+  // Get the driveItem of a path inside the drive, or null if it does not exist
+  const getItem = async (url: string): Promise<(DavItem & { id: string }) | null> => {
+    try {
+      return (await axios.get(url, { headers, params: { select: ITEM_SELECT } })).data
+    } catch (error: any) {
+      if (error?.response?.status === 404) return null
+      throw error
+    }
+  }
+
+  // Drop the caches of what changed over WebDAV, the drive index and configuration files, so that the changes apply
+  // right away
+  const invalidateChanged = async (path: string) => {
+    await invalidateDriveIndex(drive.id)
+    if (isConfigFile(path)) await invalidateConfigCaches(pathPosix.dirname(path))
+  }
+
+  try {
+    switch (method) {
+      case 'PROPFIND': {
+        const item = await getItem(requestUrl)
+        if (!item || !(await isServed(cleanPath, !!item.folder))) {
+          res.status(404).end()
+          return
+        }
+
+        const resources: { path: string; item: DavItem }[] = [{ path: cleanPath, item }]
+        // Depth: infinity is answered like Depth: 1, which clients handle by walking down the tree
+        if (item.folder && req.headers.depth !== '0') {
+          const children = await listChildren(`${requestUrl}${isRoot ? '' : ':'}/children`, accessToken)
+          const served = await Promise.all(children.map(c => isServed(`${cleanPath}/${c.name}`, !!c.folder)))
+          resources.push(
+            ...children.filter((_, i) => served[i]).map(c => ({ path: `${cleanPath}/${c.name}`, item: c }))
+          )
+        }
+        res.setHeader('Content-Type', 'application/xml; charset=utf-8')
+        res.status(207).send(buildMultistatus(resources))
+        return
+      }
+
+      case 'GET':
+      case 'HEAD': {
+        const item = await getItem(requestUrl)
+        if (!item || !(await isServed(cleanPath, !!item.folder))) {
+          res.status(404).end()
+          return
+        }
+        // Folders are shown in the browser UI
+        if (item.folder) {
+          res.redirect(cleanPath === '' ? '/' : cleanPath.split('/').map(encodeURIComponent).join('/'))
+          return
+        }
+        if (method === 'HEAD') {
+          res.setHeader('Content-Length', item.size ?? 0)
+          res.setHeader('Content-Type', item.file?.mimeType ?? 'application/octet-stream')
+          res.setHeader('Last-Modified', new Date(item.lastModifiedDateTime).toUTCString())
+          if (item.eTag) res.setHeader('ETag', item.eTag)
+          res.status(200).end()
+          return
+        }
+        await sendRawFile(req, res, { drive, path: resolved.path, accessToken, proxy: false })
+        return
+      }
+
+      case 'PUT': {
+        if (isDriveRoot) {
+          res.status(405).end()
+          return
+        }
+        const name = pathPosix.basename(cleanPath)
+        if (!(await isServed(cleanPath, false)) || (uploadRoute && checkUploadName(name))) {
+          res.status(403).end()
+          return
+        }
+        // Chunks are sent as the body arrives, which needs its length up front. The Finder of macOS sends bodies in
+        // chunks too, announcing their length in X-Expected-Entity-Length.
+        const length = req.headers['content-length'] ?? req.headers['x-expected-entity-length']
+        const size = parseInt(typeof length === 'string' ? length : '', 10)
+        if (!Number.isInteger(size) || size < 0) {
+          res.status(411).end()
+          return
+        }
+        if (uploadRoute && checkUploadLimits(getUploadLimits(uploadRoute), name, size)) {
+          res.status(413).end()
+          return
+        }
+        // Other users than admins cannot replace existing files
+        const existing = await getItem(requestUrl)
+        if (existing?.folder || (existing && !isAdmin)) {
+          res.status(existing.folder ? 405 : 403).end()
+          return
+        }
+
+        // Upload sessions cannot take empty files, which are created right away
+        if (size === 0) {
+          await axios.put(`${requestUrl}:/content`, '', { headers })
+        } else {
+          const { data } = await axios.post(
+            `${requestUrl}:/createUploadSession`,
+            { item: { '@microsoft.graph.conflictBehavior': existing ? 'replace' : 'fail' } },
+            { headers }
+          )
+          if (!(await uploadBody(req, data.uploadUrl, size))) {
+            res.status(400).end()
+            return
+          }
+        }
+        await invalidateChanged(cleanPath)
+        res.status(existing ? 204 : 201).end()
+        return
+      }
+
+      case 'DELETE': {
+        if (isDriveRoot) {
+          res.status(403).end()
+          return
+        }
+        await axios.delete(requestUrl, { headers })
+        await invalidateChanged(cleanPath)
+        res.status(204).end()
+        return
+      }
+
+      case 'MKCOL': {
+        if (isDriveRoot || (await getItem(requestUrl))) {
+          res.status(405).end()
+          return
+        }
+        if (!(await isServed(cleanPath, true))) {
+          res.status(403).end()
+          return
+        }
+        const parentPath = encodePath(pathPosix.dirname(resolved.path), drive)
+        const parent = await getItem(`${drive.driveApi}/root${parentPath}`)
+        if (!parent?.folder) {
+          res.status(409).end()
+          return
+        }
+        await axios.post(
+          `${drive.driveApi}/root${parentPath}${parentPath === '' ? '' : ':'}/children`,
+          { name: pathPosix.basename(resolved.path), folder: {}, '@microsoft.graph.conflictBehavior': 'fail' },
+          { headers }
+        )
+        await invalidateChanged(cleanPath)
+        res.status(201).end()
+        return
+      }
+
+      case 'MOVE': {
+        const destination = parseDavDestination(req.headers.destination as string | undefined)
+        if (destination === null) {
+          res.status(400).end()
+          return
+        }
+        const resolvedDestination = await resolveDrive(destination)
+        if (!resolvedDestination || isDriveRoot || pathPosix.resolve('/', resolvedDestination.path) === '/') {
+          res.status(403).end()
+          return
+        }
+        // Items can only be moved inside a drive
+        if (resolvedDestination.drive.id !== drive.id) {
+          res.status(502).end()
+          return
+        }
+        const { code: destinationCode } = await authorise(destination, user, credentials?.password)
+        if (destinationCode !== 200) {
+          res.status(403).end()
+          return
+        }
+
+        const item = await getItem(requestUrl)
+        if (!item || !(await isServed(cleanPath, !!item.folder))) {
+          res.status(404).end()
+          return
+        }
+        if (!(await isServed(destination, !!item.folder))) {
+          res.status(403).end()
+          return
+        }
+        const destinationUrl = `${drive.driveApi}/root${encodePath(resolvedDestination.path, drive)}`
+        const existing = await getItem(destinationUrl)
+        if (existing && req.headers.overwrite === 'F') {
+          res.status(412).end()
+          return
+        }
+        const parent = await getItem(
+          `${drive.driveApi}/root${encodePath(pathPosix.dirname(resolvedDestination.path), drive)}`
+        )
+        if (!parent?.folder) {
+          res.status(409).end()
+          return
+        }
+
+        if (existing) {
+          await axios.delete(destinationUrl, { headers })
+        }
+        await axios.patch(
+          `${drive.driveApi}/items/${item.id}`,
+          { parentReference: { id: parent.id }, name: pathPosix.basename(resolvedDestination.path) },
+          { headers }
+        )
+        await invalidateChanged(destination)
+        res.status(existing ? 204 : 201).end()
+        return
+      }
+    }
+  } catch (error: any) {
+    console.error('WebDAV request failed:', error?.response?.data ?? error)
+    res.status(error?.response?.status ?? 500).end()
+  }
+}
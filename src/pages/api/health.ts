@@ -0,0 +1,142 @@
+import { randomBytes } from 'crypto'
+
+import axios from 'axios'
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+import type { OdHealthStatus } from '../../types'
+import { encodePath, getAccessToken, loadDrive } from '.'
+import apiConfig from '../../../config/api.config'
+import siteConfig from '../../../config/site.config'
+import { checkEnvironment, validateConfig } from '../../../config/config.schema'
+import { getDrives, getGraphApi, OdDriveConfig } from '../../utils/drives'
+import { getKVStore } from '../../utils/kvStore'
+import { getOdAuthTokenStatus } from '../../utils/odAuthTokenStore'
+import { ADMIN_ROLE, getRequestUser } from '../../utils/userStore'
+
+const healthCheckKey = `${siteConfig.kvPrefix}health_check`
+
+// Write, read back and delete a key, which is what serving the site needs from the KV store
+async function checkKVStore(): Promise<OdHealthStatus['kv']> {
+  const start = Date.now()
+  try {
+    const kv = getKVStore()
+    const value = randomBytes(8).toString('hex')
+    await kv.set(healthCheckKey, value, 60)
+    const read = await kv.get(healthCheckKey)
+    await kv.del(healthCheckKey)
+    if (read !== value) {
+      return { ok: false, error: 'The KV store did not return the value written.' }
+    }
+    return { ok: true, latency: Date.now() - start }
+  } catch (error: any) {
+    return { ok: false, error: error?.message ?? 'The KV store cannot be reached.' }
+  }
+}
+
+// Get the base directory of a drive with its access token, refreshing the token if needed
+async function checkDrive(configDrive: OdDriveConfig): Promise<OdHealthStatus['drives'][number]> {
+  const drive = await loadDrive(configDrive)
+  const problems: string[] = []
+
+  let accessToken = ''
+  try {
+    accessToken = await getAccessToken(drive.id)
+  } catch (error: any) {
+    problems.push(`Refreshing the access token failed: ${error?.response?.data?.error_description ?? error?.message}`)
+  }
+  if (!accessToken) {
+    if (problems.length === 0) problems.push('Not authorised yet, go through the OAuth process.')
+    return { id: drive.id, ok: false, accessTokenTtl: 0, problems }
+  }
+  const headers = { Authorization: `Bearer ${accessToken}` }
+
+  try {
+    const { data } = await axios.get(`${drive.driveApi}/root${encodePath('/', drive)}`, {
+      headers,
+      params: { select: 'id,folder' },
+    })
+    if (!data.folder) problems.push(`baseDirectory '${drive.baseDirectory}' is a file, not a folder.`)
+  } catch (error: any) {
+    const status = error?.response?.status
+    problems.push(
+      status === 404
+        ? `baseDirectory '${drive.baseDirectory}' does not exist in the drive.`
+        : status === 401 || status === 403
+        ? `The access token was refused (${status}), go through the OAuth process again.`
+        : `The drive cannot be reached: ${error?.response?.data?.error?.message ?? error?.message}`
+    )
+  }
+
+  // Tokens are only stored for the configured account, but it may have been changed since
+  if (/\/me\/drive$/.test(drive.driveApi)) {
+    const me = await axios
+      .get(`${getGraphApi(drive.driveApi)}/me`, { headers, params: { select: 'userPrincipalName' } })
+      .catch(() => null)
+    const userPrincipalName = me?.data?.userPrincipalName
+    if (userPrincipalName && userPrincipalName.toLowerCase() !== drive.userPrincipalName.toLowerCase()) {
+      problems.push(`Signed in as ${userPrincipalName}, but userPrincipalName is ${drive.userPrincipalName}.`)
+    }
+  }
+
+  const { accessTokenTtl } = await getOdAuthTokenStatus(drive.id)
+  return { id: drive.id, ok: problems.length === 0, accessTokenTtl, problems }
+}
+
+// Visitors other than admins get the result of the last checks for a minute, so that they cannot make the site write
+// to the KV store and call OneDrive on every request
+const HEALTH_CACHE_MAX_AGE = 60 * 1000
+let cachedHealth: { status: Promise<OdHealthStatus>; checkedAt: number } | null = null
+
+// Run every check, the drives need the KV store for their tokens
+async function checkHealth(): Promise<OdHealthStatus> {
+  const problems = [...validateConfig(siteConfig, apiConfig), ...checkEnvironment()]
+  const kv = await checkKVStore()
+  const drives: OdHealthStatus['drives'] = kv.ok
+    ? await Promise.all(getDrives().map(checkDrive))
+    : getDrives().map(d => ({ id: d.id, ok: false, problems: ['The KV store cannot be reached.'] }))
+
+  const status: OdHealthStatus = {
+    ok: false,
+    config: { ok: !problems.some(p => p.level === 'error'), problems },
+    kv,
+    drives,
+  }
+  status.ok = status.config.ok && kv.ok && drives.every(d => d.ok)
+  return status
+}
+
+function getCachedHealth(): Promise<OdHealthStatus> {
+  if (!cachedHealth || Date.now() - cachedHealth.checkedAt > HEALTH_CACHE_MAX_AGE) {
+    const checking = { status: checkHealth(), checkedAt: Date.now() }
+    checking.status.catch(() => cachedHealth === checking && (cachedHealth = null))
+    cachedHealth = checking
+  }
+  return cachedHealth.status
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Health of the deployment, for uptime monitors and for debugging a misconfigured site. Responds with 503 if any
+  // check fails. The problems found are only shown to admins, as they reveal how the site is set up.
+  res.setHeader('Cache-Control', 'no-cache')
+
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed.' })
+    return
+  }
+
+  const user = await getRequestUser(req).catch(() => null)
+  if (user?.roles.includes(ADMIN_ROLE)) {
+    const status = await checkHealth()
+    cachedHealth = { status: Promise.resolve(status), checkedAt: Date.now() }
+    res.status(status.ok ? 200 : 503).json(status)
+    return
+  }
+
+  const { ok, config, kv, drives } = await getCachedHealth()
+  res.status(ok ? 200 : 503).json({
+    ok,
+    config: { ok: config.ok },
+    kv: { ok: kv.ok },
+    drives: drives.map(({ id, ok }) => ({ id, ok })),
+  })
+}
@@ -1,25 +1,77 @@
 import { posix as pathPosix } from 'path'
 
 import type { NextApiRequest, NextApiResponse } from 'next'
+import type { OdAccessPolicy, OdFolderChildren, OdFolderObject, OdUserInfo } from '../../types'
 import axios from 'axios'
 
 import apiConfig from '../../../config/api.config'
 import siteConfig from '../../../config/site.config'
 import { revealObfuscatedToken } from '../../utils/oAuthHandler'
-import { compareHashedToken } from '../../utils/protectedRouteHandler'
-import { getOdAuthTokens, storeOdAuthTokens } from '../../utils/odAuthTokenStore'
+import { isTokenEncryptionEnabled, TOKEN_ENCRYPTION_KEY_MISSING } from '../../utils/tokenEncryption'
+import { comparePassword, hashDotPassword } from '../../utils/protectedRouteHandler'
+import {
+  getCachedDotPassword,
+  invalidateCachedDotPassword,
+  isDotPasswordFresh,
+  setCachedDotPassword,
+} from '../../utils/dotPasswordCache'
+import {
+  FolderProtection,
+  getAncestorFolders,
+  getCachedFolderProtection,
+  invalidateCachedFolderProtection,
+  isAccessPolicyGranted,
+  isProtectionFile,
+  parseAccessPolicy,
+  setCachedFolderProtection,
+} from '../../utils/folderProtection'
+import {
+  getCachedOdignore,
+  IgnoreLayer,
+  invalidateCachedOdignore,
+  isHiddenByLayers,
+  parseIgnorePatterns,
+  setCachedOdignore,
+} from '../../utils/hiddenItems'
+import { matchRoute, matchRouteOrExclusion } from '../../utils/routeMatcher'
+import {
+  formatSort,
+  matchesListingFilters,
+  parseSort,
+  parseTypeFilter,
+  sortFolderChildren,
+} from '../../utils/listingOptions'
+import { getDriveIndex, listIndexedFolder } from '../../utils/driveIndex'
+import { verifyRouteToken } from '../../utils/routeToken'
+import { getOdAuthTokens, getOdDriveApi, storeOdAuthTokens, storeOdDriveApi } from '../../utils/odAuthTokenStore'
+import { ADMIN_ROLE, evaluateUserAccess, getRequestUser, isUserAccountsEnabled } from '../../utils/userStore'
+import { findFileRequestFolder } from '../../utils/fileRequests'
+import { getSiteSettings } from '../../utils/siteSettings'
+import {
+  getDrive,
+  getDrives,
+  getGraphApi,
+  isMultiDrive,
+  isValidDriveApi,
+  OdDriveConfig,
+  resolveDrivePath,
+} from '../../utils/drives'
 import { runCorsMiddleware } from './raw'
 
-const basePath = pathPosix.resolve('/', siteConfig.baseDirectory)
 const clientSecret = revealObfuscatedToken(apiConfig.obfuscatedClientSecret)
 
+// Paging tokens of folders listed and searches made from the drive index, followed by the offset of the page
+export const INDEX_PAGE_PREFIX = 'index-'
+
 /**
  * Encode the path of the file relative to the base directory
  *
  * @param path Relative path of the file to the base directory
+ * @param drive Drive the path belongs to, the default drive if not specified
  * @returns Absolute path of the file inside OneDrive
  */
-export function encodePath(path: string): string {
+export function encodePath(path: string, drive: OdDriveConfig = getDrives()[0]): string {
+  const basePath = pathPosix.resolve('/', drive.baseDirectory)
   let encodedPath = pathPosix.join(basePath, path)
   if (encodedPath === '/' || encodedPath === '') {
     return ''
@@ -28,13 +80,39 @@ export function encodePath(path: string): string {
   return `:${encodeURIComponent(encodedPath)}`
 }
 
+/**
+ * Apply the drive API picked by the admin during OAuth (e.g. a SharePoint document library) to a drive
+ *
+ * @param drive Drive as configured in site.config.js
+ * @returns Drive with the drive API to use for requests
+ */
+export async function loadDrive(drive: OdDriveConfig): Promise<OdDriveConfig> {
+  const driveApi = await getOdDriveApi(drive.id)
+  return driveApi ? { ...drive, driveApi } : drive
+}
+
+/**
+ * Split a path into the drive it belongs to and the path inside that drive, see resolveDrivePath
+ *
+ * @param path Sanitised absolute path, not URL encoded
+ * @returns The loaded drive and the path inside it, or null if no drive matches
+ */
+export async function resolveDrive(path: string): Promise<{ drive: OdDriveConfig; path: string } | null> {
+  const resolved = resolveDrivePath(path)
+  if (!resolved) {
+    return null
+  }
+  return { drive: await loadDrive(resolved.drive), path: resolved.path }
+}
+
 /**
  * Fetch the access token from Redis storage and check if the token requires a renew
  *
+ * @param driveId Drive to get the access token of, the default drive if not specified
  * @returns Access token for OneDrive API
  */
-export async function getAccessToken(): Promise<string> {
-  const { accessToken, refreshToken } = await getOdAuthTokens()
+export async function getAccessToken(driveId: string = ''): Promise<string> {
+  const { accessToken, refreshToken } = await getOdAuthTokens(driveId)
 
   // Return in storage access token if it is still valid
   if (typeof accessToken === 'string') {
@@ -47,6 +125,11 @@ export async function getAccessToken(): Promise<string> {
     console.log('No refresh token, return empty access token.')
     return ''
   }
+  // The refreshed tokens could not be stored
+  if (!isTokenEncryptionEnabled()) {
+    console.error(TOKEN_ENCRYPTION_KEY_MISSING)
+    return ''
+  }
 
   // Fetch new access token with in storage refresh token
   const body = new URLSearchParams()
@@ -68,6 +151,7 @@ export async function getAccessToken(): Promise<string> {
       accessToken: access_token,
       accessTokenExpiry: parseInt(expires_in),
       refreshToken: refresh_token,
+      driveId,
     })
     console.log('Fetch new access token with stored refresh token.')
     return access_token
@@ -77,89 +161,408 @@ export async function getAccessToken(): Promise<string> {
 }
 
 /**
- * Match protected routes in site config to get path to required auth token
+ * Get a file inside a folder of a drive
+ *
+ * @param folder The drive of the folder and its path inside the drive, and the access token of the drive
+ * @param name Name of the file
+ * @param select Fields of the driveItem to return
+ * @returns The driveItem, or null if the file does not exist. Other errors are thrown.
+ */
+async function getFolderFile(
+  { drive, path, accessToken }: { drive: OdDriveConfig; path: string; accessToken: string },
+  name: string,
+  select: string
+): Promise<any | null> {
+  try {
+    const { data } = await axios.get(`${drive.driveApi}/root${encodePath(pathPosix.join(path, name), drive)}`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+      params: { select },
+    })
+    return data
+  } catch (error: any) {
+    if (error?.response?.status === 404) return null
+    throw error
+  }
+}
+
+// A protected route: the folder, lower cased with a trailing slash, whether it has a .password file, and its policy
+export type ProtectedRoute = { route: string; password: boolean; policy: OdAccessPolicy | null }
+
+/**
+ * Look for protection files (.password and .access.json) in a folder, cached in the KV store
+ *
+ * @param folder Folder path, lower cased with a trailing slash
+ * @returns Protection files found, none if the folder does not exist or its drive is not authorised
+ */
+async function getFolderProtection(folder: string): Promise<FolderProtection> {
+  const cached = await getCachedFolderProtection(folder)
+  if (cached) return cached
+
+  const resolved = await resolveDrive(folder.replace(/\/$/, ''))
+  const accessToken = resolved ? await getAccessToken(resolved.drive.id) : ''
+  if (!resolved || !accessToken) {
+    return { password: false, policy: null }
+  }
+
+  // Only a missing file means the folder is not protected, other errors are thrown so that requests fail closed
+  const [dotPassword, accessJson] = await Promise.all([
+    getFolderFile({ ...resolved, accessToken }, '.password', 'id'),
+    getFolderFile({ ...resolved, accessToken }, '.access.json', 'id,@microsoft.graph.downloadUrl'),
+  ])
+
+  let policy: OdAccessPolicy | null = null
+  if (accessJson) {
+    const { data } = await axios.get(accessJson['@microsoft.graph.downloadUrl'], { responseType: 'text' })
+    policy = parseAccessPolicy(data.toString())
+  }
+
+  const protection = { password: dotPassword !== null, policy }
+  await setCachedFolderProtection(folder, protection)
+  return protection
+}
+
+/**
+ * Find the protected route a path belongs to. Routes are listed in the protectedRoutes site setting, and unless
+ * siteConfig.discoverProtectedRoutes is turned off, also discovered from the .password and .access.json files in
+ * the path and the folders above it. The most specific (deepest) route wins. A folder excluded from the routes in site
+ * config stays public whatever the folders above it hold, only the folders inside it can be protected again.
+ *
+ * @param path Path cleaned in advance
+ * @returns The route (lower cased with a trailing slash), whether it has a .password file and its access policy, or
+ * null if the path is not protected
+ */
+export async function findProtectedRoute(path: string): Promise<ProtectedRoute | null> {
+  const { route: configRoute, excluded } = matchRouteOrExclusion(path, (await getSiteSettings()).protectedRoutes)
+  let found: ProtectedRoute | null = configRoute ? { route: configRoute, password: true, policy: null } : null
+
+  if (siteConfig.discoverProtectedRoutes ?? true) {
+    // Folders above the route from site config cannot override it, nor can the excluded folder and those above it
+    const folders = getAncestorFolders(path).filter(f =>
+      excluded ? f.length > excluded.length : f.length >= configRoute.length
+    )
+    const protections = await Promise.all(folders.map(getFolderProtection))
+    for (let i = folders.length - 1; i >= 0; i--) {
+      const { password, policy } = protections[i]
+      if (password || policy || folders[i] === configRoute) {
+        found = { route: folders[i], password: password || folders[i] === configRoute, policy }
+        break
+      }
+    }
+  }
+  return found
+}
+
+/**
+ * Find the .password file of the protected route a path belongs to
  * @param path Path cleaned in advance
  * @returns Path to required auth token. If not required, return empty string.
  */
-export function getAuthTokenPath(path: string) {
-  // Ensure trailing slashes to compare paths component by component. Same for protectedRoutes.
-  // Since OneDrive ignores case, lower case before comparing. Same for protectedRoutes.
-  path = path.toLowerCase() + '/'
-  const protectedRoutes = siteConfig.protectedRoutes as string[]
-  let authTokenPath = ''
-  for (let r of protectedRoutes) {
-    if (typeof r !== 'string') continue
-    r = r.toLowerCase().replace(/\/$/, '') + '/'
-    if (path.startsWith(r)) {
-      authTokenPath = `${r}.password`
-      break
+export async function getAuthTokenPath(path: string): Promise<string> {
+  const protectedRoute = await findProtectedRoute(path)
+  return protectedRoute?.password ? `${protectedRoute.route}.password` : ''
+}
+
+/**
+ * Check whether a route of the protectedRoutes site setting has its .password file, asking OneDrive rather than the cache
+ *
+ * @param route Route as listed in site config
+ * @returns Whether the file exists, or null if the route is a pattern (with wildcards or an exclusion), or its drive
+ * cannot be read
+ */
+export async function hasDotPasswordFile(route: string): Promise<boolean | null> {
+  if (route.startsWith('!') || /[*?]/.test(route)) return null
+
+  const resolved = await resolveDrive(pathPosix.resolve('/', route).replace(/\/$/, ''))
+  const accessToken = resolved ? await getAccessToken(resolved.drive.id) : ''
+  if (!resolved || !accessToken) return null
+
+  try {
+    return (await getFolderFile({ ...resolved, accessToken }, '.password', 'id')) !== null
+  } catch (error) {
+    return null
+  }
+}
+
+/**
+ * Drop the cached protection and .odignore files of a folder and the folders above it, after its configuration files
+ * were changed, added or moved, so that the change applies right away
+ *
+ * @param folder Sanitised absolute path of the folder, not URL encoded
+ */
+export async function invalidateConfigCaches(folder: string): Promise<void> {
+  const authTokenPath = await getAuthTokenPath(folder)
+  await Promise.all([
+    invalidateCachedFolderProtection(folder),
+    invalidateCachedOdignore(getAncestorFolders(folder)),
+    authTokenPath ? invalidateCachedDotPassword(authTokenPath) : Promise.resolve(),
+  ])
+}
+
+/**
+ * Read the .odignore file of a folder, cached in the KV store
+ *
+ * @param folder Folder path, lower cased with a trailing slash
+ * @returns Contents of the file, empty if the folder has none
+ */
+async function getOdignore(folder: string): Promise<string> {
+  const cached = await getCachedOdignore(folder)
+  if (cached !== null) return cached
+
+  const resolved = await resolveDrive(folder.replace(/\/$/, ''))
+  const accessToken = resolved ? await getAccessToken(resolved.drive.id) : ''
+  if (!resolved || !accessToken) return ''
+
+  const file = await getFolderFile({ ...resolved, accessToken }, '.odignore', 'id,@microsoft.graph.downloadUrl')
+  const content = file
+    ? (await axios.get(file['@microsoft.graph.downloadUrl'], { responseType: 'text' })).data.toString()
+    : ''
+  await setCachedOdignore(folder, content)
+  return content
+}
+
+/**
+ * Create a checker for hidden items, honouring siteConfig.hiddenPatterns and the .odignore files in the folders
+ * above an item. The .odignore files read are kept by the checker, so create one per request.
+ *
+ * @returns Function telling whether an item is hidden, from its sanitised path and whether it is a folder
+ */
+export function createHiddenItemFilter(): (path: string, isFolder: boolean) => Promise<boolean> {
+  const rootLayer: IgnoreLayer = { folder: '/', rules: parseIgnorePatterns(siteConfig.hiddenPatterns ?? []) }
+  const layers = new Map<string, Promise<IgnoreLayer>>()
+
+  const getLayer = (folder: string) => {
+    let layer = layers.get(folder)
+    if (!layer) {
+      layer = getOdignore(folder).then(content => ({ folder, rules: parseIgnorePatterns(content) }))
+      layers.set(folder, layer)
     }
+    return layer
+  }
+
+  return async (path, isFolder) => {
+    // The .odignore of a folder applies to what is inside, not to the folder itself
+    const folders = getAncestorFolders(path).slice(0, -1)
+    const odignoreLayers = await Promise.all(folders.map(getLayer))
+    return isHiddenByLayers([rootLayer, ...odignoreLayers], path, isFolder)
+  }
+}
+
+// Credentials of a request: the token of a protected route, and the user signed in with a session
+export type AuthContext = { odTokenHeader: string; user: OdUserInfo | null }
+
+/**
+ * Collect the credentials sent with a request
+ *
+ * @param req Next.js request object
+ * @param odpt Token of a protected route sent as query parameter, used by raw and thumbnail links
+ */
+export async function getAuthContext(req: NextApiRequest, odpt: string = ''): Promise<AuthContext> {
+  return {
+    odTokenHeader: (req.headers['od-protected-token'] as string) ?? odpt,
+    user: await getRequestUser(req),
   }
-  return authTokenPath
 }
 
 /**
  * Handles protected route authentication:
- * - Match the cleanPath against an array of user defined protected routes
- * - If a match is found:
- * - 1. Download the .password file stored inside the protected route and parse its contents
- * - 2. Check if the od-protected-token header is present in the request
- * - The request is continued only if these two contents are exactly the same
+ * - If a user is signed in, its access rules (and those of its roles) are checked first:
+ * - a matching deny rule rejects the request, a matching allow rule (or the admin role) accepts it
+ * - Routes protected with single sign-on (siteConfig.ssoRoutes) accept users signed in through OpenID Connect
+ * - Otherwise, find the protected route of the cleanPath, see findProtectedRoute
+ * - If the route has an access policy (.access.json), signed in users granted by the policy are accepted
+ * - If the route has a .password, check the token sent in the od-protected-token header (or the odpt query parameter).
+ * - Tokens are issued by /api/auth/login after checking the password against the .password file of the route,
+ * - see verifyRoutePassword. They are signed, expire, and only open the route they were issued for.
  *
  * @param cleanPath Sanitised directory path, used for matching whether route is protected
- * @param accessToken OneDrive API access token
- * @param req Next.js request object
- * @param res Next.js response object
+ * @param auth Credentials of the request, see getAuthContext
+ * @returns Status and message. When rejected by a protected route, also the route and whether it takes a password.
  */
 export async function checkAuthRoute(
   cleanPath: string,
-  accessToken: string,
-  odTokenHeader: string
-): Promise<{ code: 200 | 401 | 404 | 500; message: string }> {
-  // Handle authentication through .password
-  const authTokenPath = getAuthTokenPath(cleanPath)
+  { odTokenHeader, user }: AuthContext
+): Promise<{ code: 200 | 401 | 500; message: string; route?: string; password?: boolean }> {
+  // Drop boxes of file requests only take uploads, their contents are left to the user who opened the request and
+  // to admins
+  const fileRequest = await findFileRequestFolder(cleanPath)
+  if (fileRequest && user?.name !== fileRequest.createdBy && !user?.roles.includes(ADMIN_ROLE)) {
+    return { code: 401, message: 'Access denied.' }
+  }
 
-  // Fetch password from remote file content
-  if (authTokenPath === '') {
-    return { code: 200, message: '' }
+  // Handle authentication through user accounts
+  const access = user ? await evaluateUserAccess(user, cleanPath) : null
+  if (access === 'deny') {
+    return { code: 401, message: 'Access denied.' }
+  }
+
+  // Signed in users granted access do not need the password, but the response is still not cacheable
+  if (access === 'allow') {
+    return { code: 200, message: 'Authenticated.' }
+  }
+
+  // Routes protected with single sign-on are opened by any user signed in through the identity provider
+  if (matchRoute(cleanPath, siteConfig.ssoRoutes) !== '') {
+    return user?.sso ? { code: 200, message: 'Authenticated.' } : { code: 401, message: 'Single sign-on required.' }
   }
 
+  // Handle authentication through .password and .access.json
+  let protectedRoute: ProtectedRoute | null
   try {
-    const token = await axios.get(`${apiConfig.driveApi}/root${encodePath(authTokenPath)}`, {
-      headers: { Authorization: `Bearer ${accessToken}` },
-      params: {
-        select: '@microsoft.graph.downloadUrl,file',
-      },
-    })
+    protectedRoute = await findProtectedRoute(cleanPath)
+  } catch (error) {
+    return { code: 500, message: 'Failed to check whether the route is protected.' }
+  }
+  if (!protectedRoute) {
+    // Drop boxes opened by their creator or an admin must not be cached for other visitors
+    return { code: 200, message: fileRequest ? 'Authenticated.' : '' }
+  }
+  const { route, password, policy } = protectedRoute
 
-    // Handle request and check for header 'od-protected-token'
-    const odProtectedToken = await axios.get(token.data['@microsoft.graph.downloadUrl'])
-    // console.log(odTokenHeader, odProtectedToken.data.trim())
+  if (policy && user && isAccessPolicyGranted(policy, user)) {
+    return { code: 200, message: 'Authenticated.' }
+  }
 
-    if (
-      !compareHashedToken({
-        odTokenHeader: odTokenHeader,
-        dotPassword: odProtectedToken.data.toString(),
-      })
-    ) {
-      return { code: 401, message: 'Password required.' }
+  // The password is only checked when signing in, which issues a signed token scoped to the protected route
+  if (!password || !(await verifyRouteToken(odTokenHeader, route))) {
+    return {
+      code: 401,
+      message: !password || (await isUserAccountsEnabled()) ? 'Sign in required.' : 'Password required.',
+      route,
+      password,
+    }
+  }
+
+  return { code: 200, message: 'Authenticated.' }
+}
+
+/**
+ * Get the hash of the .password file of a protected route. The hash is cached in the KV store, and revalidated
+ * with the eTag of the file once the cache entry is stale, so that the file is only downloaded when it changed.
+ *
+ * @param authTokenPath Path to the .password file, as returned by getAuthTokenPath
+ * @param file The drive of the .password file and its path inside the drive, and the access token of the drive
+ * @returns Hash of the .password file, see hashDotPassword
+ */
+async function getDotPasswordHash(
+  authTokenPath: string,
+  { drive, path, accessToken }: { drive: OdDriveConfig; path: string; accessToken: string }
+): Promise<string> {
+  const cached = await getCachedDotPassword(authTokenPath)
+  if (cached && isDotPasswordFresh(cached)) {
+    return cached.hash
+  }
+
+  const { status, data } = await axios.get(`${drive.driveApi}/root${encodePath(path, drive)}`, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      ...(cached ? { 'If-None-Match': cached.eTag } : {}),
+    },
+    params: {
+      select: 'eTag,@microsoft.graph.downloadUrl,file',
+    },
+    // OneDrive answers 304 Not Modified when the eTag of the cached file still matches
+    validateStatus: code => (code >= 200 && code < 300) || code === 304,
+  })
+
+  if (cached && (status === 304 || data.eTag === cached.eTag)) {
+    await setCachedDotPassword(authTokenPath, { ...cached, checkedAt: Date.now() })
+    return cached.hash
+  }
+
+  const dotPassword = await axios.get(data['@microsoft.graph.downloadUrl'], { responseType: 'text' })
+  const hash = hashDotPassword(dotPassword.data.toString())
+  await setCachedDotPassword(authTokenPath, { hash, eTag: data.eTag, checkedAt: Date.now() })
+  return hash
+}
+
+/**
+ * Check the password of a protected route against the .password file stored inside it
+ *
+ * @param cleanPath Sanitised path inside the protected route
+ * @param password Password entered by the user
+ * @returns Status and message, and the protected route (lower cased with a trailing slash) if the password is correct
+ */
+export async function verifyRoutePassword(
+  cleanPath: string,
+  password: string
+): Promise<{ code: 200 | 400 | 401 | 403 | 404 | 500; message: string; route?: string }> {
+  let authTokenPath: string
+  try {
+    authTokenPath = await getAuthTokenPath(cleanPath)
+  } catch (error) {
+    return { code: 500, message: 'Internal server error.' }
+  }
+  if (authTokenPath === '') {
+    return { code: 400, message: 'Route is not protected.' }
+  }
+
+  // The .password file is read from the drive the protected route belongs to
+  const resolved = await resolveDrive(authTokenPath)
+  if (!resolved) {
+    return { code: 404, message: "You didn't set a password." }
+  }
+  const accessToken = await getAccessToken(resolved.drive.id)
+  if (!accessToken) {
+    return { code: 403, message: 'No access token.' }
+  }
+
+  try {
+    if (!comparePassword(password, await getDotPasswordHash(authTokenPath, { ...resolved, accessToken }))) {
+      return { code: 401, message: 'Wrong password.' }
     }
   } catch (error: any) {
     // Password file not found, fallback to 404
     if (error?.response?.status === 404) {
+      await invalidateCachedDotPassword(authTokenPath)
       return { code: 404, message: "You didn't set a password." }
     } else {
       return { code: 500, message: 'Internal server error.' }
     }
   }
 
-  return { code: 200, message: 'Authenticated.' }
+  return { code: 200, message: 'Authenticated.', route: authTokenPath.replace(/\.password$/, '') }
+}
+
+/**
+ * List the mounted drives as the children of the site root, each drive being a folder named after its id.
+ * Drives that cannot be queried (e.g. not authorised yet) are still listed, without size and date.
+ *
+ * @returns Folder object of the site root
+ */
+export async function listDrives(): Promise<OdFolderObject> {
+  const value = await Promise.all(
+    getDrives().map(async d => {
+      const drive = await loadDrive(d)
+      const placeholder = {
+        id: `drive:${drive.id}`,
+        name: drive.id,
+        size: 0,
+        lastModifiedDateTime: new Date(0).toISOString(),
+        folder: { childCount: 0, view: { sortBy: 'name', sortOrder: 'ascending', viewType: 'thumbnails' } },
+      } as OdFolderChildren
+
+      const accessToken = await getAccessToken(drive.id)
+      if (!accessToken) return placeholder
+
+      try {
+        const { data } = await axios.get(`${drive.driveApi}/root${encodePath('/', drive)}`, {
+          headers: { Authorization: `Bearer ${accessToken}` },
+          params: { select: 'size,lastModifiedDateTime,folder' },
+        })
+        return { ...placeholder, ...data, id: placeholder.id, name: placeholder.name }
+      } catch (error) {
+        return placeholder
+      }
+    })
+  )
+
+  return { '@odata.count': value.length, '@odata.context': '', value }
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   // If method is POST, then the API is called by the client to store acquired tokens
   if (req.method === 'POST') {
-    const { obfuscatedAccessToken, accessTokenExpiry, obfuscatedRefreshToken } = req.body
+    const { obfuscatedAccessToken, accessTokenExpiry, obfuscatedRefreshToken, drive = '', driveApi = '' } = req.body
     const accessToken = revealObfuscatedToken(obfuscatedAccessToken)
     const refreshToken = revealObfuscatedToken(obfuscatedRefreshToken)
 
@@ -167,14 +570,32 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       res.status(400).send('Invalid request body')
       return
     }
+    const driveConfig = typeof drive === 'string' ? getDrive(drive) : undefined
+    if (!driveConfig) {
+      res.status(400).send('Invalid drive')
+      return
+    }
+    // The admin may pick another drive or SharePoint document library on the same Graph API during OAuth
+    if (
+      typeof driveApi !== 'string' ||
+      (driveApi !== '' && !isValidDriveApi(driveApi, getGraphApi(driveConfig.driveApi)))
+    ) {
+      res.status(400).send('Invalid drive API')
+      return
+    }
 
-    await storeOdAuthTokens({ accessToken, accessTokenExpiry, refreshToken })
+    if (!isTokenEncryptionEnabled()) {
+      res.status(500).send(TOKEN_ENCRYPTION_KEY_MISSING)
+      return
+    }
+    await storeOdAuthTokens({ accessToken, accessTokenExpiry, refreshToken, driveId: driveConfig.id })
+    await storeOdDriveApi(driveApi === driveConfig.driveApi ? '' : driveApi, driveConfig.id)
     res.status(200).send('OK')
     return
   }
 
   // If method is GET, then the API is a normal request to the OneDrive API for files or folders
-  const { path = '/', raw = false, next = '', sort = '' } = req.query
+  const { path = '/', raw = false, next = '', sort = '', type = '', q = '' } = req.query
 
   // Set edge function caching for faster load times, check docs:
   // https://vercel.com/docs/concepts/functions/edge-caching
@@ -193,25 +614,56 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   // Besides normalizing and making absolute, trailing slashes are trimmed
   const cleanPath = pathPosix.resolve('/', pathPosix.normalize(path)).replace(/\/$/, '')
 
-  // Validate sort param
-  if (typeof sort !== 'string') {
+  // Validate sort param, which is forwarded to OneDrive as $orderby
+  if (typeof sort !== 'string' || (sort !== '' && !parseSort(sort))) {
     res.status(400).json({ error: 'Sort query invalid.' })
     return
   }
+  // Validate filter params
+  if (typeof type !== 'string' || (type !== '' && !parseTypeFilter(type))) {
+    res.status(400).json({ error: 'Type query invalid.' })
+    return
+  }
+  if (typeof q !== 'string') {
+    res.status(400).json({ error: 'Filter query invalid.' })
+    return
+  }
+  const filters = { type: parseTypeFilter(type), q: q.trim() }
+
+  // With multiple drives, the site root lists the mounted drives as folders
+  if (isMultiDrive() && cleanPath === '') {
+    const folder = await listDrives()
+    folder.value = sortFolderChildren(
+      folder.value.filter(c => matchesListingFilters(c, filters)),
+      parseSort(sort)
+    )
+    res.status(200).json({ folder })
+    return
+  }
 
-  const accessToken = await getAccessToken()
+  // Resolve the drive the path belongs to, and the path inside that drive
+  const resolved = await resolveDrive(cleanPath)
+  if (!resolved) {
+    res.status(404).json({ error: 'Drive not found.' })
+    return
+  }
+  const { drive } = resolved
+
+  const accessToken = await getAccessToken(drive.id)
 
   // Return error 403 if access_token is empty
   if (!accessToken) {
-    res.status(403).json({ error: 'No access token.' })
+    res.status(403).json({ error: 'No access token.', drive: drive.id })
     return
   }
 
   // Handle protected routes authentication
-  const { code, message } = await checkAuthRoute(cleanPath, accessToken, req.headers['od-protected-token'] as string)
+  const { code, message, route, password } = await checkAuthRoute(cleanPath, await getAuthContext(req))
   // Status code other than 200 means user has not authenticated yet
   if (code !== 200) {
-    res.status(code).json({ error: message })
+    res.setHeader('Cache-Control', 'no-cache')
+    // The protected route lets the client ask for the right password, and store its token
+    res.status(code).json({ error: message, ...(route ? { route, password } : {}) })
     return
   }
   // If message is empty, then the path is not protected.
@@ -220,18 +672,29 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     res.setHeader('Cache-Control', 'no-cache')
   }
 
-  const requestPath = encodePath(cleanPath)
+  const requestPath = encodePath(resolved.path, drive)
   // Handle response from OneDrive API
-  const requestUrl = `${apiConfig.driveApi}/root${requestPath}`
+  const requestUrl = `${drive.driveApi}/root${requestPath}`
   // Whether path is root, which requires some special treatment
   const isRoot = requestPath === ''
 
+  // Hidden items (siteConfig.hiddenPatterns and .odignore files) are neither listed nor served, and neither are the
+  // protection files, even to visitors let into their folder
+  const isHiddenItem = createHiddenItemFilter()
+  const isHidden = async (path: string, isFolder: boolean) =>
+    (!isFolder && isProtectionFile(path)) || (await isHiddenItem(path, isFolder))
+
   // Go for file raw download link, add CORS headers, and redirect to @microsoft.graph.downloadUrl
   // (kept here for backwards compatibility, and cache headers will be reverted to no-cache)
   if (raw) {
     await runCorsMiddleware(req, res)
     res.setHeader('Cache-Control', 'no-cache')
 
+    if (await isHidden(cleanPath, false)) {
+      res.status(404).json({ error: 'File not found.' })
+      return
+    }
+
     const { data } = await axios.get(requestUrl, {
       headers: { Authorization: `Bearer ${accessToken}` },
       params: {
@@ -248,6 +711,37 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return
   }
 
+  // Folders indexed are listed from the index of the drive, filtered and sorted before paging (see driveIndex.ts).
+  // Pages of the index have tokens of their own, other tokens come from OneDrive. A listing keeps paging with the
+  // source it started with, as the pages of one source do not line up with the other's.
+  const indexPage = typeof next === 'string' && next.startsWith(INDEX_PAGE_PREFIX)
+  const index = !next || indexPage ? await getDriveIndex(drive, accessToken).catch(() => null) : null
+  const indexedChildren = index && listIndexedFolder(index, drive, resolved.path)
+  if (indexPage && !indexedChildren) {
+    res.status(400).json({ error: 'Next query expired, list the folder again.' })
+    return
+  }
+  if (indexedChildren) {
+    if (await isHidden(cleanPath, true)) {
+      res.status(404).json({ error: 'File not found.' })
+      return
+    }
+    const hidden = await Promise.all(indexedChildren.map(c => isHidden(`${cleanPath}/${c.name}`, 'folder' in c)))
+    const children = sortFolderChildren(
+      indexedChildren.filter((c, i) => !hidden[i] && matchesListingFilters(c, filters)),
+      parseSort(sort)
+    )
+    const { maxItems } = await getSiteSettings()
+    const offset = indexPage ? Number(next.substring(INDEX_PAGE_PREFIX.length)) || 0 : 0
+    const folder = { value: children.slice(offset, offset + maxItems) }
+    if (offset + maxItems < children.length) {
+      res.status(200).json({ folder, next: `${INDEX_PAGE_PREFIX}${offset + maxItems}` })
+    } else {
+      res.status(200).json({ folder })
+    }
+    return
+  }
+
   // Querying current path identity (file or folder) and follow up query childrens in folder
   try {
     const { data: identityData } = await axios.get(requestUrl, {
@@ -257,19 +751,28 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       },
     })
 
+    if (await isHidden(cleanPath, 'folder' in identityData)) {
+      res.status(404).json({ error: 'File not found.' })
+      return
+    }
+
     if ('folder' in identityData) {
       const { data: folderData } = await axios.get(`${requestUrl}${isRoot ? '' : ':'}/children`, {
         headers: { Authorization: `Bearer ${accessToken}` },
         params: {
           ...{
             select: 'name,size,id,lastModifiedDateTime,folder,file,video,image',
-            $top: siteConfig.maxItems,
+            $top: (await getSiteSettings()).maxItems,
           },
           ...(next ? { $skipToken: next } : {}),
-          ...(sort ? { $orderby: sort } : {}),
+          ...(sort ? { $orderby: formatSort(parseSort(sort)!) } : {}),
         },
       })
 
+      const hidden = await Promise.all(folderData.value.map(c => isHidden(`${cleanPath}/${c.name}`, 'folder' in c)))
+      // Filters apply to each page, which may then hold fewer items than requested
+      folderData.value = folderData.value.filter((c, i) => !hidden[i] && matchesListingFilters(c, filters))
+
       // Extract next page token from full @odata.nextLink
       const nextPage = folderData['@odata.nextLink']
         ? folderData['@odata.nextLink'].match(/&\$skiptoken=(.+)/i)[1]
@@ -1,31 +1,66 @@
+import { posix as pathPosix } from 'path'
+
 import axios from 'axios'
 import type { NextApiRequest, NextApiResponse } from 'next'
 
-import { getAccessToken } from '.'
+import { checkAuthRoute, createHiddenItemFilter, getAccessToken, getAuthContext, loadDrive } from '.'
+import { mapAbsolutePath } from './search'
 import apiConfig from '../../../config/api.config'
+import { getDrive } from '../../utils/drives'
+import { isConfigFile } from '../../utils/folderProtection'
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  // Get access token from storage
-  const accessToken = await getAccessToken()
-
-  // Get item details (specifically, its path) by its unique ID in OneDrive
-  const { id = '' } = req.query
+  // Get item details (specifically, its path) by its unique ID in OneDrive, and the drive it belongs to
+  const { id = '', drive: driveId = '' } = req.query
 
   // Set edge function caching for faster load times, check docs:
   // https://vercel.com/docs/concepts/functions/edge-caching
   res.setHeader('Cache-Control', apiConfig.cacheControlHeader)
 
+  const driveConfig = typeof driveId === 'string' ? getDrive(driveId) : undefined
+  if (!driveConfig) {
+    res.status(404).json({ error: 'Drive not found.' })
+    return
+  }
+  const drive = await loadDrive(driveConfig)
+
+  // Get access token from storage
+  const accessToken = await getAccessToken(drive.id)
+
   if (typeof id === 'string') {
-    const itemApi = `${apiConfig.driveApi}/items/${id}`
+    const itemApi = `${drive.driveApi}/items/${id}`
 
     try {
       const { data } = await axios.get(itemApi, {
         headers: { Authorization: `Bearer ${accessToken}` },
         params: {
-          select: 'id,name,parentReference',
+          select: 'id,name,folder,parentReference',
         },
       })
-      res.status(200).json(data)
+      // Path of the item in onedrive-vercel-index, empty if it is outside the drive's base directory
+      const parentPath = mapAbsolutePath(data.parentReference.path, drive)
+      const path = parentPath !== null ? `${parentPath}/${encodeURIComponent(data.name)}` : ''
+      // Hidden items and the files configuring protection are not found, as in search results
+      if (
+        path &&
+        (isConfigFile(data.name) || (await createHiddenItemFilter()(decodeURIComponent(path), 'folder' in data)))
+      ) {
+        res.status(404).json({ error: 'Item not found.' })
+        return
+      }
+      // The path is only told to callers who may list the folder of the item
+      if (path) {
+        const folder = pathPosix.dirname(decodeURIComponent(path))
+        const { code, message } = await checkAuthRoute(folder, await getAuthContext(req))
+        if (code !== 200 || message !== '') {
+          res.setHeader('Cache-Control', 'no-cache')
+        }
+        if (code !== 200) {
+          res.status(code).json({ error: message })
+          return
+        }
+      }
+      res.status(200).json({ ...data, path })
     } catch (error: any) {
       res.status(error?.response?.status ?? 500).json({ error: error?.response?.data ?? 'Internal server error.' })
     }
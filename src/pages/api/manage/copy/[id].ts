@@ -0,0 +1,42 @@
+import axios from 'axios'
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+import { deleteCopyMonitor, getCopyMonitor } from '../../../../utils/fileManagement'
+import { ADMIN_ROLE, getRequestUser } from '../../../../utils/userStore'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Poll the progress of a copy started through /api/manage, by asking its monitor URL on OneDrive
+  res.setHeader('Cache-Control', 'no-cache')
+
+  const user = await getRequestUser(req)
+  if (!user?.roles.includes(ADMIN_ROLE)) {
+    res.status(user ? 403 : 401).json({ error: user ? 'Only admins can manage files.' : 'Sign in required.' })
+    return
+  }
+
+  const { id } = req.query
+  const monitor = typeof id === 'string' ? await getCopyMonitor(id) : null
+  if (!monitor) {
+    res.status(404).json({ error: 'Copy not found.' })
+    return
+  }
+
+  try {
+    // Monitor URLs are pre-authenticated, and redirect to the new item once the copy completed
+    const { status, data } = await axios.get(monitor.monitorUrl, {
+      maxRedirects: 0,
+      validateStatus: status => status < 400,
+    })
+    const completed = status === 303 || data?.status === 'completed'
+    const failed = data?.status === 'failed'
+    if (completed || failed) {
+      await deleteCopyMonitor(monitor.id)
+    }
+    res.status(200).json({
+      status: completed ? 'completed' : failed ? 'failed' : 'inProgress',
+      percentage: completed ? 100 : data?.percentageComplete ?? 0,
+    })
+  } catch (error: any) {
+    res.status(error?.response?.status ?? 500).json({ error: error?.response?.data ?? 'Internal server error.' })
+  }
+}
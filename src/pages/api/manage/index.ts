@@ -0,0 +1,212 @@
+import { posix as pathPosix } from 'path'
+
+import axios from 'axios'
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+import type { OdManageResult } from '../../../types'
+import { encodePath, getAccessToken, invalidateConfigCaches, resolveDrive } from '..'
+import { OdDriveConfig, resolveDrivePath } from '../../../utils/drives'
+import { invalidateDriveIndex } from '../../../utils/driveIndex'
+import { checkItemName, createCopyMonitor } from '../../../utils/fileManagement'
+import { isConfigFile } from '../../../utils/folderProtection'
+import { ADMIN_ROLE, getRequestUser } from '../../../utils/userStore'
+
+const ACTIONS = ['createFolder', 'rename', 'move', 'copy', 'delete']
+
+// Bulk operations handle at most this many items per request
+const MAX_ITEMS = 200
+
+// A driveItem addressed by its path, with the drive it is on and the access token of that drive
+type ManagedItem = {
+  drive: OdDriveConfig
+  headers: { Authorization: string }
+  item: { id: string; name: string; folder?: object; parentReference?: { driveId?: string } }
+  // The root of a drive (which may be a folder inside OneDrive) cannot be renamed, moved or deleted
+  isDriveRoot: boolean
+}
+
+const toCleanPath = (path: string) => pathPosix.resolve('/', pathPosix.normalize(path)).replace(/\/$/, '')
+
+async function getItem(cleanPath: string): Promise<ManagedItem> {
+  const resolved = await resolveDrive(cleanPath)
+  if (!resolved) throw new Error('Drive not found.')
+  const accessToken = await getAccessToken(resolved.drive.id)
+  if (!accessToken) throw new Error('No access token.')
+
+  const headers = { Authorization: `Bearer ${accessToken}` }
+  const { data } = await axios.get(`${resolved.drive.driveApi}/root${encodePath(resolved.path, resolved.drive)}`, {
+    headers,
+    params: { select: 'id,name,folder,parentReference' },
+  })
+  return { drive: resolved.drive, headers, item: data, isDriveRoot: pathPosix.resolve('/', resolved.path) === '/' }
+}
+
+// Configuration files changed, and folders which may contain them, apply right away
+async function invalidateChangedConfig(path: string, isFolder: boolean): Promise<void> {
+  if (isFolder) {
+    await invalidateConfigCaches(path)
+  } else if (isConfigFile(path)) {
+    await invalidateConfigCaches(pathPosix.dirname(path))
+  }
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Manage files and folders: create folders, and rename, move, copy or delete items. Only admins may change the
+  // drive. Bulk operations handle each item in turn, and report the outcome for each of them.
+  res.setHeader('Cache-Control', 'no-cache')
+
+  const user = await getRequestUser(req)
+  if (!user) {
+    res.status(401).json({ error: 'Sign in required.' })
+    return
+  }
+  if (!user.roles.includes(ADMIN_ROLE)) {
+    res.status(403).json({ error: 'Only admins can manage files.' })
+    return
+  }
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed.' })
+    return
+  }
+
+  const { action, path, paths, name, destination } = req.body ?? {}
+  if (!ACTIONS.includes(action)) {
+    res.status(400).json({ error: 'Action invalid.' })
+    return
+  }
+  const isSingle = action === 'createFolder' || action === 'rename'
+  if (isSingle ? typeof path !== 'string' : !Array.isArray(paths) || paths.some(p => typeof p !== 'string')) {
+    res.status(400).json({ error: 'Path invalid.' })
+    return
+  }
+  if (!isSingle && (paths.length === 0 || paths.length > MAX_ITEMS)) {
+    res.status(400).json({ error: `Select between 1 and ${MAX_ITEMS} items.` })
+    return
+  }
+  if (isSingle) {
+    const nameError = checkItemName(name)
+    if (nameError) {
+      res.status(400).json({ error: nameError })
+      return
+    }
+  }
+  if ((action === 'move' || action === 'copy') && typeof destination !== 'string') {
+    res.status(400).json({ error: 'Destination invalid.' })
+    return
+  }
+
+  // Run an operation on an item, turning failures into an error message for that item
+  const run = async (itemPath: string, operation: () => Promise<Partial<OdManageResult>>): Promise<OdManageResult> => {
+    try {
+      const result = { path: itemPath, ...(await operation()) }
+      // Listings served from the drive index wait for the change to be synced
+      await invalidateDriveIndex(resolveDrivePath(itemPath)?.drive.id ?? '')
+      return result
+    } catch (error: any) {
+      return { path: itemPath, error: error?.response?.data?.error?.message ?? error?.message ?? 'Request failed.' }
+    }
+  }
+
+  try {
+    switch (action) {
+      case 'createFolder': {
+        const parentPath = toCleanPath(path)
+        const result = await run(`${parentPath}/${name}`, async () => {
+          const { drive, headers, item } = await getItem(parentPath)
+          if (!item.folder) throw new Error('Folders can only be created inside folders.')
+          await axios.post(
+            `${drive.driveApi}/items/${item.id}/children`,
+            { name, folder: {}, '@microsoft.graph.conflictBehavior': 'fail' },
+            { headers }
+          )
+          return {}
+        })
+        res.status(result.error ? 400 : 200).json({ results: [result] })
+        return
+      }
+
+      case 'rename': {
+        const cleanPath = toCleanPath(path)
+        const result = await run(cleanPath, async () => {
+          const { drive, headers, item, isDriveRoot } = await getItem(cleanPath)
+          if (isDriveRoot) throw new Error('The root of a drive cannot be renamed.')
+          await axios.patch(`${drive.driveApi}/items/${item.id}`, { name }, { headers })
+          await invalidateChangedConfig(cleanPath, !!item.folder)
+          await invalidateChangedConfig(`${pathPosix.dirname(cleanPath)}/${name}`, !!item.folder)
+          return {}
+        })
+        res.status(result.error ? 400 : 200).json({ results: [result] })
+        return
+      }
+
+      case 'move':
+      case 'copy': {
+        const destinationPath = toCleanPath(destination)
+        const target = await getItem(destinationPath)
+        if (!target.item.folder) {
+          res.status(400).json({ error: 'Destination is not a folder.' })
+          return
+        }
+
+        const results: OdManageResult[] = []
+        for (const p of paths.map(toCleanPath)) {
+          results.push(
+            await run(p, async () => {
+              const { drive, headers, item, isDriveRoot } = await getItem(p)
+              if (isDriveRoot) throw new Error('The root of a drive cannot be moved or copied.')
+              // Items can only be moved inside a drive
+              if (drive.id !== target.drive.id) throw new Error('Items can only be moved inside a drive.')
+              const lowerPath = p.toLowerCase()
+              if (`${destinationPath.toLowerCase()}/`.startsWith(`${lowerPath}/`)) {
+                throw new Error('A folder cannot be moved or copied into itself.')
+              }
+
+              if (action === 'move') {
+                await axios.patch(
+                  `${drive.driveApi}/items/${item.id}`,
+                  { parentReference: { id: target.item.id } },
+                  { headers }
+                )
+                await invalidateChangedConfig(p, !!item.folder)
+                await invalidateChangedConfig(`${destinationPath}/${item.name}`, !!item.folder)
+                return {}
+              }
+
+              // Copies run in the background, and are renamed rather than replacing an item of the same name
+              const driveId = target.item.parentReference?.driveId
+              const { headers: responseHeaders } = await axios.post(
+                `${drive.driveApi}/items/${item.id}/copy`,
+                { parentReference: { ...(driveId ? { driveId } : {}), id: target.item.id } },
+                { headers, params: { '@microsoft.graph.conflictBehavior': 'rename' } }
+              )
+              await invalidateChangedConfig(`${destinationPath}/${item.name}`, !!item.folder)
+              const monitor = await createCopyMonitor(item.name, responseHeaders.location)
+              return { copy: monitor.id }
+            })
+          )
+        }
+        res.status(200).json({ results })
+        return
+      }
+
+      case 'delete': {
+        const results: OdManageResult[] = []
+        for (const p of paths.map(toCleanPath)) {
+          results.push(
+            await run(p, async () => {
+              const { drive, headers, item, isDriveRoot } = await getItem(p)
+              if (isDriveRoot) throw new Error('The root of a drive cannot be deleted.')
+              await axios.delete(`${drive.driveApi}/items/${item.id}`, { headers })
+              await invalidateChangedConfig(p, !!item.folder)
+              return {}
+            })
+          )
+        }
+        res.status(200).json({ results })
+        return
+      }
+    }
+  } catch (error: any) {
+    res.status(error?.response?.status ?? 500).json({ error: error?.response?.data ?? error?.message })
+  }
+}
@@ -1,6 +1,9 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { default as rawFileHandler } from '../raw'
 
+// Same as the raw API, whose proxied files this route streams too. Next.js only reads the config of the route itself.
+export const config = { api: { responseLimit: false } }
+
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   rawFileHandler(req, res)
 }
@@ -1,11 +1,17 @@
 import { posix as pathPosix } from 'path'
 
 import type { NextApiRequest, NextApiResponse } from 'next'
-import axios, { AxiosResponseHeaders } from 'axios'
+import axios from 'axios'
 import Cors from 'cors'
 
-import { driveApi, cacheControlHeader } from '../../../config/api.config'
-import { encodePath, getAccessToken, checkAuthRoute } from '.'
+import { cacheControlHeader, proxyMaxFileSize } from '../../../config/api.config'
+import { encodePath, getAccessToken, checkAuthRoute, createHiddenItemFilter, getAuthContext, resolveDrive } from '.'
+import type { OdDriveConfig } from '../../utils/drives'
+import { isProtectionFile } from '../../utils/folderProtection'
+import { getExtension } from '../../utils/getFileIcon'
+
+// Proxied files are streamed as they are, up to proxyMaxFileSize which may exceed the response size Next.js expects
+export const config = { api: { responseLimit: false } }
 
 // CORS middleware for raw links: https://nextjs.org/docs/api-routes/api-middlewares
 export function runCorsMiddleware(req: NextApiRequest, res: NextApiResponse) {
@@ -22,12 +28,6 @@ export function runCorsMiddleware(req: NextApiRequest, res: NextApiResponse) {
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const accessToken = await getAccessToken()
-  if (!accessToken) {
-    res.status(403).json({ error: 'No access token.' })
-    return
-  }
-
   const { path = '/', odpt = '', proxy = false } = req.query
 
   // Sometimes the path parameter is defaulted to '[...path]' which we need to handle
@@ -42,12 +42,25 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
   const cleanPath = pathPosix.resolve('/', pathPosix.normalize(path))
 
-  // Handle protected routes authentication
-  const odTokenHeader = (req.headers['od-protected-token'] as string) ?? odpt
+  // Resolve the drive the file belongs to
+  const resolved = await resolveDrive(cleanPath)
+  if (!resolved) {
+    res.status(404).json({ error: 'Drive not found.' })
+    return
+  }
+  const { drive } = resolved
 
-  const { code, message } = await checkAuthRoute(cleanPath, accessToken, odTokenHeader)
+  const accessToken = await getAccessToken(drive.id)
+  if (!accessToken) {
+    res.status(403).json({ error: 'No access token.' })
+    return
+  }
+
+  // Handle protected routes authentication
+  const { code, message } = await checkAuthRoute(cleanPath, await getAuthContext(req, odpt as string))
   // Status code other than 200 means user has not authenticated yet
   if (code !== 200) {
+    res.setHeader('Cache-Control', 'no-cache')
     res.status(code).json({ error: message })
     return
   }
@@ -57,28 +70,124 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     res.setHeader('Cache-Control', 'no-cache')
   }
 
+  // Hidden files and protection files are not served, even when linked to directly
+  if (isProtectionFile(cleanPath) || (await createHiddenItemFilter()(cleanPath, false))) {
+    res.status(404).json({ error: 'File not found.' })
+    return
+  }
+
+  await sendRawFile(req, res, { drive, path: resolved.path, accessToken, proxy: !!proxy })
+}
+
+// Request headers passed on to the download host, so that partial and conditional requests work through the proxy
+const PROXY_REQUEST_HEADERS = ['range', 'if-range', 'if-none-match', 'if-modified-since']
+// Response headers of the download host sent back to the client
+const PROXY_RESPONSE_HEADERS = [
+  'accept-ranges',
+  'content-length',
+  'content-range',
+  'content-type',
+  'etag',
+  'last-modified',
+]
+
+// Files the browser would run scripts of when opened, these are downloaded instead of shown on the site's origin
+const ACTIVE_EXTENSIONS = [
+  'html',
+  'htm',
+  'shtml',
+  'xhtml',
+  'xht',
+  'mht',
+  'mhtml',
+  'svg',
+  'svgz',
+  'xml',
+  'xsl',
+  'js',
+  'mjs',
+]
+
+/**
+ * Build a Content-Disposition header showing a file in the browser, or downloading it if it may hold scripts, with its
+ * name encoded as per RFC 6266 for clients that do not understand non-ASCII names
+ */
+function contentDisposition(name: string): string {
+  const type = ACTIVE_EXTENSIONS.includes(getExtension(name)) ? 'attachment' : 'inline'
+  const fallback = name.replace(/[^\x20-\x7e]|["\\]/g, '_')
+  const encoded = encodeURIComponent(name).replace(/['()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`
+}
+
+/**
+ * Stream a file from its download URL, passing on Range and conditional request headers, so the response may be a
+ * 206 Partial Content or 304 Not Modified as answered by the download host
+ */
+async function proxyRawFile(req: NextApiRequest, res: NextApiResponse, name: string, downloadUrl: string) {
+  const headers = Object.fromEntries(
+    PROXY_REQUEST_HEADERS.filter(h => typeof req.headers[h] === 'string').map(h => [h, req.headers[h] as string])
+  )
+  const upstream = await axios.request({
+    url: downloadUrl,
+    method: req.method === 'HEAD' ? 'HEAD' : 'GET',
+    // Byte ranges refer to the file as stored, so the content must not be compressed on the way
+    headers: { ...headers, 'Accept-Encoding': 'identity' },
+    responseType: 'stream',
+    validateStatus: () => true,
+  })
+  const { status, data: stream } = upstream
+
+  for (const h of PROXY_RESPONSE_HEADERS) {
+    if (upstream.headers[h] !== undefined) res.setHeader(h, upstream.headers[h] as string)
+  }
+  // Protected routes have already set no-cache
+  if (!res.hasHeader('Cache-Control')) res.setHeader('Cache-Control', cacheControlHeader)
+  res.setHeader('Content-Disposition', contentDisposition(name))
+  // Content is served from the site's origin, so it must neither be sniffed as another type nor run scripts
+  res.setHeader('X-Content-Type-Options', 'nosniff')
+  res.setHeader('Content-Security-Policy', 'sandbox')
+  res.status(status)
+
+  if (req.method === 'HEAD' || status === 304) {
+    stream.destroy()
+    res.end()
+    return
+  }
+  // Stop downloading when the client goes away, e.g. when seeking a video
+  res.on('close', () => stream.destroy())
+  stream.on('error', () => res.destroy())
+  stream.pipe(res)
+}
+
+/**
+ * Send the content of a file: redirect to its @microsoft.graph.downloadUrl, or stream it through this server
+ *
+ * @param req Next.js request object
+ * @param res Next.js response object
+ * @param file The drive of the file and its path inside the drive, the access token of the drive, and whether to
+ * proxy the content of files up to proxyMaxFileSize instead of redirecting
+ */
+export async function sendRawFile(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  { drive, path, accessToken, proxy }: { drive: OdDriveConfig; path: string; accessToken: string; proxy: boolean }
+) {
   await runCorsMiddleware(req, res)
   try {
     // Handle response from OneDrive API
-    const requestUrl = `${driveApi}/root${encodePath(cleanPath)}`
+    const requestUrl = `${drive.driveApi}/root${encodePath(path, drive)}`
     const { data } = await axios.get(requestUrl, {
       headers: { Authorization: `Bearer ${accessToken}` },
       params: {
         // OneDrive international version fails when only selecting the downloadUrl (what a stupid bug)
-        select: 'id,size,@microsoft.graph.downloadUrl',
+        select: 'id,name,size,@microsoft.graph.downloadUrl',
       },
     })
 
     if ('@microsoft.graph.downloadUrl' in data) {
-      // Only proxy raw file content response for files up to 4MB
-      if (proxy && 'size' in data && data['size'] < 4194304) {
-        const { headers, data: stream } = await axios.get(data['@microsoft.graph.downloadUrl'] as string, {
-          responseType: 'stream',
-        })
-        headers['Cache-Control'] = cacheControlHeader
-        // Send data stream as response
-        res.writeHead(200, headers as AxiosResponseHeaders)
-        stream.pipe(res)
+      // Only proxy files up to the configured size, a limit of 0 proxies any file
+      if (proxy && 'size' in data && (!proxyMaxFileSize || data['size'] <= proxyMaxFileSize)) {
+        await proxyRawFile(req, res, data['name'], data['@microsoft.graph.downloadUrl'])
       } else {
         res.redirect(data['@microsoft.graph.downloadUrl'])
       }
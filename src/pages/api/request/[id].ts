@@ -0,0 +1,117 @@
+import axios from 'axios'
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+import { createHiddenItemFilter, encodePath, getAccessToken, resolveDrive } from '..'
+import { getFileRequest, recordFileRequestUpload, verifyFileRequestPassword } from '../../../utils/fileRequests'
+import {
+  isRouteTokenSigningEnabled,
+  issueRouteToken,
+  ROUTE_TOKEN_SECRET_MISSING,
+  verifyRouteToken,
+} from '../../../utils/routeToken'
+import { checkUploadLimits, checkUploadName, createUploadSession } from '../../../utils/uploads'
+import { invalidateDriveIndex } from '../../../utils/driveIndex'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Start uploading a file through a file request, the chunks are then sent to /api/upload/{id}. Visitors can only
+  // add files, never see the contents of the folder. Password protected requests are unlocked with a POST request
+  // sending the password, returning a token to send in the od-protected-token header.
+  res.setHeader('Cache-Control', 'no-cache')
+
+  const { id } = req.query
+  const request = typeof id === 'string' ? await getFileRequest(id) : null
+  if (!request) {
+    res.status(404).json({ error: 'File request not found or expired.' })
+    return
+  }
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed.' })
+    return
+  }
+
+  const { password, name, size } = req.body ?? {}
+  if (password !== undefined) {
+    if (!isRouteTokenSigningEnabled()) {
+      res.status(500).json({ error: ROUTE_TOKEN_SECRET_MISSING })
+      return
+    }
+    if (typeof password !== 'string' || !(await verifyFileRequestPassword(request.id, password))) {
+      res.status(401).json({ error: 'Wrong password.' })
+      return
+    }
+    res.status(200).json({ token: issueRouteToken(`request:${request.id}`) })
+    return
+  }
+
+  const token = (req.headers['od-protected-token'] as string) ?? ''
+  if (request.hasPassword && !(await verifyRouteToken(token, `request:${request.id}`))) {
+    res.status(401).json({ error: 'Password required.' })
+    return
+  }
+
+  const nameError = checkUploadName(name)
+  if (nameError) {
+    res.status(400).json({ error: nameError })
+    return
+  }
+  if (!Number.isInteger(size) || size < 0) {
+    res.status(400).json({ error: 'File size invalid.' })
+    return
+  }
+  const limitError = checkUploadLimits({ maxSize: request.maxSize, extensions: null }, name, size)
+  if (limitError) {
+    res.status(400).json({ error: limitError })
+    return
+  }
+
+  const filePath = `${request.path}/${name}`
+  if (await createHiddenItemFilter()(filePath, false)) {
+    res.status(403).json({ error: 'Uploads are not allowed here.' })
+    return
+  }
+
+  const resolved = await resolveDrive(filePath)
+  if (!resolved) {
+    res.status(404).json({ error: 'Drive not found.' })
+    return
+  }
+  const accessToken = await getAccessToken(resolved.drive.id)
+  if (!accessToken) {
+    res.status(403).json({ error: 'No access token.' })
+    return
+  }
+
+  try {
+    const requestUrl = `${resolved.drive.driveApi}/root${encodePath(resolved.path, resolved.drive)}`
+    const headers = { Authorization: `Bearer ${accessToken}` }
+
+    // Visitors cannot see what is in the folder, so their files never replace existing ones
+    if (size === 0) {
+      await axios.put(`${requestUrl}:/content`, '', {
+        headers,
+        params: { '@microsoft.graph.conflictBehavior': 'rename' },
+      })
+      await invalidateDriveIndex(resolved.drive.id)
+      await recordFileRequestUpload(request.id)
+      res.status(200).json({ id: '', offset: 0, done: true })
+      return
+    }
+
+    const { data } = await axios.post(
+      `${requestUrl}:/createUploadSession`,
+      { item: { '@microsoft.graph.conflictBehavior': 'rename' } },
+      { headers }
+    )
+    const session = await createUploadSession({
+      path: filePath,
+      size,
+      createdBy: '',
+      requestId: request.id,
+      uploadUrl: data.uploadUrl,
+      expiresAt: new Date(data.expirationDateTime).getTime(),
+    })
+    res.status(200).json({ id: session.id, offset: 0, done: false })
+  } catch (error: any) {
+    res.status(error?.response?.status ?? 500).json({ error: error?.response?.data ?? 'Internal server error.' })
+  }
+}
@@ -0,0 +1,154 @@
+import { posix as pathPosix } from 'path'
+
+import axios from 'axios'
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+import { checkAuthRoute, encodePath, getAccessToken, getAuthContext, resolveDrive } from '..'
+import { invalidateDriveIndex } from '../../../utils/driveIndex'
+import { checkItemName } from '../../../utils/fileManagement'
+import {
+  createFileRequest,
+  FILE_REQUEST_MAX_AGE,
+  listFileRequests,
+  revokeFileRequest,
+} from '../../../utils/fileRequests'
+import { findUploadRoute } from '../../../utils/uploads'
+import { ADMIN_ROLE } from '../../../utils/userStore'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Create, list and close file requests. Admins turn any folder but the root of a drive into a drop box. Other
+  // signed in users create a new folder for the request, inside a folder they may upload into (see
+  // siteConfig.uploadRoutes), so that they cannot lock others out of a shared folder. Users manage their own
+  // requests, admins manage all requests. Expired requests keep their folder a drop box until they are closed.
+  res.setHeader('Cache-Control', 'no-cache')
+
+  const auth = await getAuthContext(req)
+  const { user } = auth
+  if (!user) {
+    res.status(401).json({ error: 'Sign in required.' })
+    return
+  }
+  const isAdmin = user.roles.includes(ADMIN_ROLE)
+
+  switch (req.method) {
+    case 'GET':
+      res.status(200).json({ requests: await listFileRequests(isAdmin ? undefined : user.name) })
+      return
+
+    case 'POST': {
+      const { path, folder, note = '', expiresIn, maxSize, password } = req.body ?? {}
+      if (typeof path !== 'string') {
+        res.status(400).json({ error: 'Path invalid.' })
+        return
+      }
+      const folderError = folder !== undefined && folder !== null ? checkItemName(folder) : null
+      if (folderError) {
+        res.status(400).json({ error: folderError })
+        return
+      }
+      if (!isAdmin && typeof folder !== 'string') {
+        res.status(403).json({ error: 'Only admins can turn existing folders into drop boxes.' })
+        return
+      }
+      if (typeof note !== 'string' || note.length > 1000) {
+        res.status(400).json({ error: 'Note invalid.' })
+        return
+      }
+      if (typeof expiresIn !== 'number' || expiresIn <= 0 || expiresIn > FILE_REQUEST_MAX_AGE) {
+        res.status(400).json({ error: 'Expiry invalid.' })
+        return
+      }
+      if (maxSize !== undefined && maxSize !== null && !(Number.isInteger(maxSize) && maxSize > 0)) {
+        res.status(400).json({ error: 'Size limit invalid.' })
+        return
+      }
+      if (password !== undefined && typeof password !== 'string') {
+        res.status(400).json({ error: 'Password invalid.' })
+        return
+      }
+
+      const cleanPath = pathPosix.resolve('/', pathPosix.normalize(path)).replace(/\/$/, '')
+      if (!isAdmin && !findUploadRoute(cleanPath, user)) {
+        res.status(403).json({ error: 'Uploads are not allowed here.' })
+        return
+      }
+      const resolved = await resolveDrive(cleanPath)
+      if (!resolved) {
+        res.status(404).json({ error: 'Drive not found.' })
+        return
+      }
+      const accessToken = await getAccessToken(resolved.drive.id)
+      if (!accessToken) {
+        res.status(403).json({ error: 'No access token.' })
+        return
+      }
+
+      // Users can only open folders they can access themselves
+      const { code, message } = await checkAuthRoute(cleanPath, auth)
+      if (code !== 200) {
+        res.status(code).json({ error: message })
+        return
+      }
+
+      try {
+        const { data } = await axios.get(
+          `${resolved.drive.driveApi}/root${encodePath(resolved.path, resolved.drive)}`,
+          {
+            headers: { Authorization: `Bearer ${accessToken}` },
+            params: { select: 'id,name,folder' },
+          }
+        )
+        if (!('folder' in data)) {
+          res.status(400).json({ error: 'File requests can only be created for folders.' })
+          return
+        }
+
+        let requestFolder = { path: cleanPath, name: data.name }
+        if (typeof folder === 'string') {
+          await axios.post(
+            `${resolved.drive.driveApi}/items/${data.id}/children`,
+            { name: folder, folder: {}, '@microsoft.graph.conflictBehavior': 'fail' },
+            { headers: { Authorization: `Bearer ${accessToken}` } }
+          )
+          await invalidateDriveIndex(resolved.drive.id)
+          requestFolder = { path: `${cleanPath}/${folder}`, name: folder }
+        } else if (pathPosix.resolve('/', resolved.path) === '/') {
+          res.status(400).json({ error: 'The root of a drive cannot be turned into a drop box.' })
+          return
+        }
+
+        const request = await createFileRequest(
+          { ...requestFolder, note: note.trim(), createdBy: user.name },
+          { expiresIn, maxSize: maxSize ?? undefined, password: password || undefined }
+        )
+        if (!request) {
+          res.status(409).json({ error: 'This folder already is a drop box.' })
+          return
+        }
+        res.status(200).json({ request })
+      } catch (error: any) {
+        res.status(error?.response?.status ?? 500).json({ error: error?.response?.data ?? 'Internal server error.' })
+      }
+      return
+    }
+
+    case 'DELETE': {
+      const { id } = req.query
+      if (typeof id !== 'string') {
+        res.status(400).json({ error: 'Invalid file request.' })
+        return
+      }
+      const requests = await listFileRequests(isAdmin ? undefined : user.name)
+      if (!requests.some(r => r.id === id)) {
+        res.status(404).json({ error: 'File request not found.' })
+        return
+      }
+      await revokeFileRequest(id)
+      res.status(200).json({ id })
+      return
+    }
+
+    default:
+      res.status(405).json({ error: 'Method not allowed.' })
+  }
+}
@@ -1,9 +1,32 @@
+import { posix as pathPosix } from 'path'
+
 import axios from 'axios'
 import type { NextApiRequest, NextApiResponse } from 'next'
 
-import { encodePath, getAccessToken } from '.'
+import type { OdSearchResult, OdUserInfo } from '../../types'
+import {
+  checkAuthRoute,
+  createHiddenItemFilter,
+  encodePath,
+  getAccessToken,
+  INDEX_PAGE_PREFIX,
+  loadDrive,
+  resolveDrive,
+} from '.'
 import apiConfig from '../../../config/api.config'
-import siteConfig from '../../../config/site.config'
+import { getDrives, isMultiDrive, OdDriveConfig } from '../../utils/drives'
+import { getSiteSettings } from '../../utils/siteSettings'
+import { findIndexedItem, getDriveIndex, searchDriveIndex } from '../../utils/driveIndex'
+import { getRequestUser, getUserAccessRules } from '../../utils/userStore'
+import { evaluateAccessRules } from '../../utils/accessControl'
+import { isConfigFile } from '../../utils/folderProtection'
+import { getRouteTokenRoute } from '../../utils/routeToken'
+import {
+  findInvalidSearchOption,
+  matchesSearchFilters,
+  parseSearchOptions,
+  SearchOptions,
+} from '../../utils/searchOptions'
 
 /**
  * Sanitize the search query
@@ -25,38 +48,303 @@ function sanitiseQuery(query: string): string {
   return encodeURIComponent(sanitisedQuery)
 }
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  // Get access token from storage
-  const accessToken = await getAccessToken()
+/**
+ * Extract the searched item's path in field 'parentReference' and convert it to the
+ * absolute path represented in onedrive-vercel-index
+ *
+ * @param path Path returned from the parentReference field of the driveItem
+ * @param drive Drive the driveItem belongs to
+ * @returns The absolute path of the driveItem's parent folder (URL encoded), which is an empty string for the
+ * baseDirectory of the single drive, or null if the path is not under the drive's baseDirectory
+ */
+export function mapAbsolutePath(path: string, drive: OdDriveConfig): string | null {
+  // path is in the format of '/drive/root:/path/to/file' (or '/drives/{drive-id}/root:/path/to/file'),
+  // we first split on 'root:' and then strip the user defined 'baseDirectory'
+  const rootIndex = path.indexOf('root:')
+  if (rootIndex === -1) return null
+  // path returned by the API may contain #, by doing a decodeURIComponent and then encodeURIComponent we can
+  // replace URL sensitive characters such as the # with %23
+  const absolutePath = path
+    .substring(rootIndex + 'root:'.length)
+    .split('/')
+    .map(p => decodeURIComponent(p))
+    .join('/')
+
+  const basePath = pathPosix.resolve('/', drive.baseDirectory).replace(/\/$/, '')
+  // solve https://github.com/spencerwooo/onedrive-vercel-index/issues/539
+  if (
+    absolutePath.toLowerCase() !== basePath.toLowerCase() &&
+    !absolutePath.toLowerCase().startsWith(`${basePath.toLowerCase()}/`)
+  ) {
+    return null
+  }
+
+  return `${drive.id ? `/${drive.id}` : ''}${absolutePath.substring(basePath.length)}`
+    .split('/')
+    .map(p => encodeURIComponent(p))
+    .join('/')
+}
+
+// Cursor of the next page of results: the paging token of each drive with more results, as base64url encoded JSON.
+// Searches of the drive index are paged by offset (see INDEX_PAGE_PREFIX), other tokens come from OneDrive.
+type SearchCursor = Record<string, string>
+
+const encodeCursor = (cursor: SearchCursor) => Buffer.from(JSON.stringify(cursor)).toString('base64url')
+
+function decodeCursor(next: string): SearchCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(next, 'base64url').toString())
+    return typeof cursor === 'object' && cursor !== null && Object.values(cursor).every(t => typeof t === 'string')
+      ? cursor
+      : null
+  } catch (error) {
+    return null
+  }
+}
+
+const toResultPath = (drive: OdDriveConfig, path: string) =>
+  `${drive.id ? `/${drive.id}` : ''}${path}`
+    .split('/')
+    .map(p => encodeURIComponent(p))
+    .join('/')
+
+/**
+ * Search a folder of one drive
+ *
+ * @param drive Drive to search in
+ * @param folder Folder to search in, relative to the base directory of the drive
+ * @param options Words and filters of the search, see searchOptions.ts
+ * @param pageToken Paging token of the drive from the cursor, null for the first page
+ * @returns Search results with their paths in onedrive-vercel-index, and the paging token of the next page if any.
+ * Files configuring protection and hidden items are never found, whatever the caller may open.
+ */
+async function searchDrive(
+  drive: OdDriveConfig,
+  folder: string,
+  options: SearchOptions,
+  pageToken: string | null
+): Promise<{ results: OdSearchResult; next: string | null }> {
+  const accessToken = await getAccessToken(drive.id)
+  const { maxItems } = await getSiteSettings()
+
+  // Search the index of the drive when it has been indexed (see driveIndex.ts), which knows the path of every item
+  // and filters before paging. Searches started on OneDrive keep paging there.
+  const index = await getDriveIndex(drive, accessToken).catch(() => null)
+  if (pageToken?.startsWith(INDEX_PAGE_PREFIX) || (index && !pageToken)) {
+    if (!index) return { results: [], next: null }
+    const offset = parseInt(pageToken?.substring(INDEX_PAGE_PREFIX.length) ?? '0') || 0
+    const { found, more } = searchDriveIndex(index, drive, options.q, {
+      folder,
+      offset,
+      limit: maxItems,
+      filter: item => !isConfigFile(item.name) && matchesSearchFilters(item, options),
+    })
+    return {
+      results: found.map(({ item, path }) => ({
+        ...item,
+        path: toResultPath(drive, path),
+        ...(drive.id ? { drive: drive.id } : {}),
+      })) as unknown as OdSearchResult,
+      next: more ? `${INDEX_PAGE_PREFIX}${offset + maxItems}` : null,
+    }
+  }
+
+  // Construct Microsoft Graph Search API URL, and perform search only under the folder
+  const searchRootPath = encodePath(folder, drive)
+  const encodedPath = searchRootPath === '' ? searchRootPath : searchRootPath + ':'
+
+  const searchApi = `${drive.driveApi}/root${encodedPath}/search(q='${sanitiseQuery(options.q)}')`
+
+  const { data } = await axios.get(searchApi, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+    params: {
+      select: 'id,name,size,lastModifiedDateTime,file,folder,image,video,parentReference',
+      top: maxItems,
+      ...(pageToken ? { $skipToken: pageToken } : {}),
+    },
+  })
+
+  const results = await Promise.all(
+    data.value
+      .filter(item => !isConfigFile(item.name) && matchesSearchFilters(item, options))
+      .map(async item => {
+        // OneDrive International have the path returned in the parentReference field, OneDrive for
+        // Business/Education does not, so the item is asked for its path
+        const { path } =
+          'path' in item.parentReference
+            ? item.parentReference
+            : (
+                await axios.get(`${drive.driveApi}/items/${item.id}`, {
+                  headers: { Authorization: `Bearer ${accessToken}` },
+                  params: { select: 'id,parentReference' },
+                })
+              ).data.parentReference
+        const parentPath = mapAbsolutePath(path, drive)
+        return {
+          ...item,
+          path: parentPath !== null ? `${parentPath}/${encodeURIComponent(item.name)}` : '',
+          ...(drive.id ? { drive: drive.id } : {}),
+        }
+      })
+  )
+
+  // Extract next page token from full @odata.nextLink
+  const nextLink: string | undefined = data['@odata.nextLink']
+  return {
+    // Results outside of the base directory have no path, and are dropped
+    results: results.filter(r => r.path !== ''),
+    next: nextLink?.match(/[?&]\$skiptoken=([^&]+)/i)?.[1] ?? null,
+  }
+}
 
-  // Query parameter from request
-  const { q: searchQuery = '' } = req.query
+/**
+ * Find the folder to search in from the page searched from, which is the folder of a file when previewing one
+ *
+ * @param path Path of the page inside the drive
+ * @returns Folder relative to the base directory of the drive
+ */
+async function resolveSearchFolder(drive: OdDriveConfig, path: string): Promise<string> {
+  if (pathPosix.resolve('/', path) === '/') return '/'
+
+  const accessToken = await getAccessToken(drive.id)
+  const index = await getDriveIndex(drive, accessToken).catch(() => null)
+  const indexed = index && findIndexedItem(index, pathPosix.join(pathPosix.resolve('/', drive.baseDirectory), path))
+  const isFolder = indexed
+    ? !!indexed.folder
+    : 'folder' in
+      (
+        await axios.get(`${drive.driveApi}/root${encodePath(path, drive)}`, {
+          headers: { Authorization: `Bearer ${accessToken}` },
+          params: { select: 'id,folder' },
+        })
+      ).data
+  return isFolder ? path : pathPosix.dirname(path)
+}
+
+/**
+ * Create a checker for whether the caller may see the items of a folder, following the protected routes as listings
+ * do. Besides the user signed in, the od-protected-token header may hold the tokens of all protected routes unlocked
+ * by the client, comma separated, since results may come from several routes. Checks are kept by folder, so create
+ * one per request.
+ *
+ * @returns Function checking a sanitised folder path, see checkAuthRoute
+ */
+function createFolderAccessCheck(
+  req: NextApiRequest,
+  user: OdUserInfo | null
+): (folder: string) => ReturnType<typeof checkAuthRoute> {
+  const header = req.headers['od-protected-token']
+  const routeTokens = (typeof header === 'string' ? header.split(',') : []).flatMap(token => {
+    const route = getRouteTokenRoute(token.trim())
+    return route ? [{ route, token: token.trim() }] : []
+  })
+  const checks = new Map<string, ReturnType<typeof checkAuthRoute>>()
+
+  return folder => {
+    let check = checks.get(folder)
+    if (!check) {
+      // The token of the deepest route covering the folder, as the client picks it for listings
+      const key = `${folder.toLowerCase().replace(/\/$/, '')}/`
+      const { token } = routeTokens
+        .filter(r => key.startsWith(r.route))
+        .reduce((deepest, r) => (r.route.length > deepest.route.length ? r : deepest), { route: '', token: '' })
+      check = checkAuthRoute(folder, { odTokenHeader: token, user })
+      checks.set(folder, check)
+    }
+    return check
+  }
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Words, folder and filters of the search, see searchOptions.ts, and the cursor of the page
+  const { next = '' } = req.query
 
   // Set edge function caching for faster load times, check docs:
   // https://vercel.com/docs/concepts/functions/edge-caching
   res.setHeader('Cache-Control', apiConfig.cacheControlHeader)
 
-  if (typeof searchQuery === 'string') {
-    // Construct Microsoft Graph Search API URL, and perform search only under the base directory
-    const searchRootPath = encodePath('/')
-    const encodedPath = searchRootPath === '' ? searchRootPath : searchRootPath + ':'
+  const invalid = findInvalidSearchOption(req.query)
+  if (invalid) {
+    const name = invalid === 'type' ? 'Type' : invalid === 'from' || invalid === 'to' ? 'Date' : 'Size'
+    res.status(400).json({ error: `${name} query invalid.` })
+    return
+  }
+  const cursor = typeof next === 'string' && next !== '' ? decodeCursor(next) : null
+  if (typeof next !== 'string' || (next !== '' && !cursor)) {
+    res.status(400).json({ error: 'Next query invalid.' })
+    return
+  }
+
+  const options = parseSearchOptions(req.query)
+  if (options.q === '') {
+    res.status(200).json({ value: [] })
+    return
+  }
 
-    const searchApi = `${apiConfig.driveApi}/root${encodedPath}/search(q='${sanitiseQuery(searchQuery)}')`
+  // Search the drive of the folder, or every drive that has been authorised when searching from the site root
+  const cleanPath = pathPosix.resolve('/', pathPosix.normalize(options.path)).replace(/\/$/, '')
+  const resolved = isMultiDrive() && cleanPath === '' ? null : await resolveDrive(cleanPath)
+  if (!resolved && !(isMultiDrive() && cleanPath === '')) {
+    res.status(404).json({ error: 'Drive not found.' })
+    return
+  }
+  const drives = resolved ? [resolved.drive] : await Promise.all(getDrives().map(loadDrive))
+
+  // Results depend on the caller once it is signed in or sends the tokens of protected routes
+  const user = await getRequestUser(req)
+  if (user || req.headers['od-protected-token']) {
+    res.setHeader('Cache-Control', 'no-cache')
+  }
+  const checkAccess = createFolderAccessCheck(req, user)
+  const isHidden = createHiddenItemFilter()
 
-    try {
-      const { data } = await axios.get(searchApi, {
-        headers: { Authorization: `Bearer ${accessToken}` },
-        params: {
-          select: 'id,name,file,folder,parentReference',
-          top: siteConfig.maxItems,
-        },
+  // The folder searched has to be open to the caller, as when listing it
+  if (cleanPath !== '') {
+    const { code, message, route, password } = await checkAccess(cleanPath)
+    if (code !== 200) {
+      res.setHeader('Cache-Control', 'no-cache')
+      res.status(code).json({ error: message, ...(route ? { route, password } : {}) })
+      return
+    }
+    if (await isHidden(cleanPath, true)) {
+      res.status(404).json({ error: 'Folder not found.' })
+      return
+    }
+  }
+
+  try {
+    const folder = resolved ? await resolveSearchFolder(resolved.drive, resolved.path) : '/'
+    const searched = await Promise.all(
+      drives.map(async drive => {
+        // Drives absent from the cursor of a later page have no more results
+        if (cursor && !(drive.id in cursor)) return { drive, results: [] as OdSearchResult, next: null }
+        if (drives.length > 1 && !(await getAccessToken(drive.id))) return { drive, results: [], next: null }
+        return { drive, ...(await searchDrive(drive, folder, options, cursor?.[drive.id] ?? null)) }
       })
-      res.status(200).json(data.value)
-    } catch (error: any) {
-      res.status(error?.response?.status ?? 500).json({ error: error?.response?.data ?? 'Internal server error.' })
+    )
+    const found = ([] as OdSearchResult).concat(...searched.map(s => s.results))
+
+    // Drop hidden items, and items of protected routes the caller has not opened. Items are seen from their folder,
+    // as in listings.
+    const visible = await Promise.all(
+      found.map(async r => {
+        const path = decodeURIComponent(r.path)
+        return !(await isHidden(path, !!r.folder)) && (await checkAccess(pathPosix.dirname(path))).code === 200
+      })
+    )
+    let results = found.filter((_, i) => visible[i])
+
+    // Drop results signed in users are denied access to
+    const rules = user ? await getUserAccessRules(user) : null
+    if (rules) {
+      results = results.filter(r => evaluateAccessRules(rules, decodeURIComponent(r.path)) !== 'deny')
     }
-  } else {
-    res.status(200).json([])
+
+    const nextCursor: SearchCursor = Object.fromEntries(searched.flatMap(s => (s.next ? [[s.drive.id, s.next]] : [])))
+    res
+      .status(200)
+      .json({ value: results, ...(Object.keys(nextCursor).length > 0 ? { next: encodeCursor(nextCursor) } : {}) })
+  } catch (error: any) {
+    res.status(error?.response?.status ?? 500).json({ error: error?.response?.data ?? 'Internal server error.' })
   }
-  return
 }
@@ -0,0 +1,41 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+import { getSiteSettings, saveSiteSettings, validateSiteSettings } from '../../utils/siteSettings'
+import { ADMIN_ROLE, getRequestUser } from '../../utils/userStore'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Site settings that can be changed without a redeploy, read by every page. Admins may save new settings (PUT),
+  // or go back to the defaults of site.config.js (DELETE).
+  res.setHeader('Cache-Control', 'no-cache')
+
+  if (req.method === 'GET') {
+    res.status(200).json(await getSiteSettings())
+    return
+  }
+  if (req.method !== 'PUT' && req.method !== 'DELETE') {
+    res.status(405).json({ error: 'Method not allowed.' })
+    return
+  }
+
+  const user = await getRequestUser(req)
+  if (!user) {
+    res.status(401).json({ error: 'Sign in required.' })
+    return
+  }
+  if (!user.roles.includes(ADMIN_ROLE)) {
+    res.status(403).json({ error: 'Admins only.' })
+    return
+  }
+
+  if (req.method === 'DELETE') {
+    await saveSiteSettings(null)
+  } else {
+    const result = validateSiteSettings(req.body)
+    if ('error' in result) {
+      res.status(400).json({ error: result.error })
+      return
+    }
+    await saveSiteSettings(result.settings)
+  }
+  res.status(200).json(await getSiteSettings())
+}
@@ -0,0 +1,180 @@
+import { posix as pathPosix } from 'path'
+
+import axios from 'axios'
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+import type { OdShareLink } from '../../../types'
+import siteConfig from '../../../../config/site.config'
+import {
+  checkAuthRoute,
+  createHiddenItemFilter,
+  findProtectedRoute,
+  getAccessToken,
+  encodePath,
+  resolveDrive,
+} from '..'
+import { sendRawFile } from '../raw'
+import { findFileRequestFolder } from '../../../utils/fileRequests'
+import { isProtectionFile } from '../../../utils/folderProtection'
+import { matchRoute } from '../../../utils/routeMatcher'
+import {
+  isRouteRevokedSince,
+  isRouteTokenSigningEnabled,
+  issueRouteToken,
+  ROUTE_TOKEN_SECRET_MISSING,
+  verifyRouteToken,
+} from '../../../utils/routeToken'
+import {
+  getShareLink,
+  getShareLinkCreator,
+  recordShareLinkDownload,
+  verifyShareLinkPassword,
+} from '../../../utils/shareLinks'
+import { getSiteSettings } from '../../../utils/siteSettings'
+import { resolveUser } from '../../../utils/userStore'
+
+/**
+ * Check that a path of a share link may still be served. Links do not grant more than their creator has: the access
+ * of the creator to the path is checked again on every request, so that links stop working once it is lost. Inside
+ * shared folders, paths protected more strictly than the shared folder (by another protected route, single sign-on
+ * or the drop box of a file request) are refused, even when the creator could open them.
+ *
+ * @param link The share link
+ * @param cleanPath Sanitised path requested inside the link
+ * @returns Whether the path may be served
+ */
+async function checkShareLinkAccess(link: OdShareLink, cleanPath: string): Promise<boolean> {
+  const creator = await getShareLinkCreator(link.id)
+  const user = creator ? await resolveUser(creator.name, creator.sso) : null
+  if (!creator || !user) return false
+
+  if (cleanPath !== link.path) {
+    const [rootRoute, pathRoute, rootRequest, pathRequest] = await Promise.all([
+      findProtectedRoute(link.path),
+      findProtectedRoute(cleanPath),
+      findFileRequestFolder(link.path),
+      findFileRequestFolder(cleanPath),
+    ])
+    if (
+      rootRoute?.route !== pathRoute?.route ||
+      rootRequest?.id !== pathRequest?.id ||
+      matchRoute(link.path, siteConfig.ssoRoutes) !== matchRoute(cleanPath, siteConfig.ssoRoutes)
+    ) {
+      return false
+    }
+  }
+
+  const { code, route, password } = await checkAuthRoute(cleanPath, { odTokenHeader: '', user })
+  if (code === 200) return true
+  return (
+    code === 401 &&
+    !!password &&
+    !!route &&
+    route === creator.unlockedRoute &&
+    !(await isRouteRevokedSince(route, link.createdAt))
+  )
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Serve a share link: download the shared file (or a file inside the shared folder), or list the shared folder.
+  // Password protected links are unlocked with a POST request, returning a token to send as odpt.
+  res.setHeader('Cache-Control', 'no-cache')
+
+  const { id, path = '', odpt = '', list = false, next = '' } = req.query
+  if (typeof id !== 'string' || typeof path !== 'string' || typeof odpt !== 'string' || typeof next !== 'string') {
+    res.status(400).json({ error: 'Query invalid.' })
+    return
+  }
+
+  const link = await getShareLink(id)
+  if (!link) {
+    res.status(404).json({ error: 'Share link not found or expired.' })
+    return
+  }
+
+  if (req.method === 'POST') {
+    if (!isRouteTokenSigningEnabled()) {
+      res.status(500).json({ error: ROUTE_TOKEN_SECRET_MISSING })
+      return
+    }
+    const { password } = req.body ?? {}
+    if (typeof password !== 'string' || !(await verifyShareLinkPassword(id, password))) {
+      res.status(401).json({ error: 'Wrong password.' })
+      return
+    }
+    res.status(200).json({ token: issueRouteToken(`share:${id}`) })
+    return
+  }
+
+  const token = (req.headers['od-protected-token'] as string) ?? odpt
+  if (link.hasPassword && !(await verifyRouteToken(token, `share:${id}`))) {
+    res.status(401).json({ error: 'Password required.' })
+    return
+  }
+
+  // Inside shared folders, paths are relative to the folder and cannot leave it
+  const relativePath = link.isFolder ? pathPosix.resolve('/', pathPosix.normalize(path)).replace(/\/$/, '') : ''
+  const cleanPath = `${link.path}${relativePath}`
+  try {
+    if (!(await checkShareLinkAccess(link, cleanPath))) {
+      res.status(403).json({ error: 'Access denied.' })
+      return
+    }
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to check whether the route is protected.' })
+    return
+  }
+
+  const isHidden = createHiddenItemFilter()
+  if (isProtectionFile(cleanPath) || (await isHidden(cleanPath, !!list))) {
+    res.status(404).json({ error: 'File not found.' })
+    return
+  }
+
+  const resolved = await resolveDrive(cleanPath)
+  if (!resolved) {
+    res.status(404).json({ error: 'Drive not found.' })
+    return
+  }
+  const { drive } = resolved
+  const accessToken = await getAccessToken(drive.id)
+  if (!accessToken) {
+    res.status(403).json({ error: 'No access token.' })
+    return
+  }
+
+  if (list) {
+    if (!link.isFolder) {
+      res.status(400).json({ error: 'Share link is not a folder.' })
+      return
+    }
+    const requestPath = encodePath(resolved.path, drive)
+    try {
+      const { data: folderData } = await axios.get(
+        `${drive.driveApi}/root${requestPath}${requestPath === '' ? '' : ':'}/children`,
+        {
+          headers: { Authorization: `Bearer ${accessToken}` },
+          params: {
+            select: 'name,size,id,lastModifiedDateTime,folder,file',
+            $top: (await getSiteSettings()).maxItems,
+            ...(next ? { $skipToken: next } : {}),
+          },
+        }
+      )
+      const nextPage = folderData['@odata.nextLink']?.match(/&\$skiptoken=(.+)/i)?.[1] ?? null
+      const hidden = await Promise.all(folderData.value.map(c => isHidden(`${cleanPath}/${c.name}`, 'folder' in c)))
+      folderData.value = folderData.value.filter((c, i) => !isProtectionFile(c.name) && !hidden[i])
+      res.status(200).json({ folder: folderData, ...(nextPage ? { next: nextPage } : {}) })
+    } catch (error: any) {
+      res.status(error?.response?.status ?? 500).json({ error: error?.response?.data ?? 'Internal server error.' })
+    }
+    return
+  }
+
+  // Every file sent counts as a download
+  if (!(await recordShareLinkDownload(id))) {
+    res.status(410).json({ error: 'Download limit reached.' })
+    return
+  }
+  await sendRawFile(req, res, { drive, path: resolved.path, accessToken, proxy: false })
+}
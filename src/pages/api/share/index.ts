@@ -0,0 +1,112 @@
+import { posix as pathPosix } from 'path'
+
+import axios from 'axios'
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+import { checkAuthRoute, encodePath, getAccessToken, getAuthContext, resolveDrive } from '..'
+import { createShareLink, listShareLinks, revokeShareLink, SHARE_LINK_MAX_AGE } from '../../../utils/shareLinks'
+import { ADMIN_ROLE, getRequestUser } from '../../../utils/userStore'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Create, list and revoke share links. Signed in users manage their own links, admins manage all links.
+  res.setHeader('Cache-Control', 'no-cache')
+
+  const user = await getRequestUser(req)
+  if (!user) {
+    res.status(401).json({ error: 'Sign in required.' })
+    return
+  }
+  const isAdmin = user.roles.includes(ADMIN_ROLE)
+
+  switch (req.method) {
+    case 'GET':
+      res.status(200).json({ links: await listShareLinks(isAdmin ? undefined : user.name) })
+      return
+
+    case 'POST': {
+      const { path, expiresIn, maxDownloads, password } = req.body ?? {}
+      if (typeof path !== 'string') {
+        res.status(400).json({ error: 'Path invalid.' })
+        return
+      }
+      if (typeof expiresIn !== 'number' || expiresIn <= 0 || expiresIn > SHARE_LINK_MAX_AGE) {
+        res.status(400).json({ error: 'Expiry invalid.' })
+        return
+      }
+      if (
+        maxDownloads !== undefined &&
+        maxDownloads !== null &&
+        !(Number.isInteger(maxDownloads) && maxDownloads > 0)
+      ) {
+        res.status(400).json({ error: 'Download limit invalid.' })
+        return
+      }
+      if (password !== undefined && typeof password !== 'string') {
+        res.status(400).json({ error: 'Password invalid.' })
+        return
+      }
+
+      const cleanPath = pathPosix.resolve('/', pathPosix.normalize(path)).replace(/\/$/, '')
+      const resolved = await resolveDrive(cleanPath)
+      if (!resolved) {
+        res.status(404).json({ error: 'Drive not found.' })
+        return
+      }
+      const accessToken = await getAccessToken(resolved.drive.id)
+      if (!accessToken) {
+        res.status(403).json({ error: 'No access token.' })
+        return
+      }
+
+      // Users can only share what they can access themselves
+      const auth = await getAuthContext(req)
+      const { code, message } = await checkAuthRoute(cleanPath, auth)
+      if (code !== 200) {
+        res.status(code).json({ error: message })
+        return
+      }
+      // Remember the route the user opened with its password rather than with their account, the link keeps it open
+      // until the tokens of the route are revoked
+      const withAccount = auth.odTokenHeader ? await checkAuthRoute(cleanPath, { ...auth, odTokenHeader: '' }) : null
+      const unlockedRoute = withAccount?.code === 401 && withAccount.password ? withAccount.route ?? null : null
+
+      try {
+        const { data } = await axios.get(
+          `${resolved.drive.driveApi}/root${encodePath(resolved.path, resolved.drive)}`,
+          {
+            headers: { Authorization: `Bearer ${accessToken}` },
+            params: { select: 'name,folder,file' },
+          }
+        )
+        const link = await createShareLink(
+          { path: cleanPath, name: data.name, isFolder: 'folder' in data },
+          { name: user.name, sso: !!user.sso, unlockedRoute },
+          { expiresIn, maxDownloads: maxDownloads ?? undefined, password: password || undefined }
+        )
+        res.status(200).json({ link })
+      } catch (error: any) {
+        res.status(error?.response?.status ?? 500).json({ error: error?.response?.data ?? 'Internal server error.' })
+      }
+      return
+    }
+
+    case 'DELETE': {
+      const { id } = req.query
+      if (typeof id !== 'string') {
+        res.status(400).json({ error: 'Invalid share link.' })
+        return
+      }
+      const links = await listShareLinks(isAdmin ? undefined : user.name)
+      if (!links.some(l => l.id === id)) {
+        res.status(404).json({ error: 'Share link not found.' })
+        return
+      }
+      await revokeShareLink(id)
+      res.status(200).json({ id })
+      return
+    }
+
+    default:
+      res.status(405).json({ error: 'Method not allowed.' })
+  }
+}
@@ -5,16 +5,10 @@ import { posix as pathPosix } from 'path'
 import axios from 'axios'
 import type { NextApiRequest, NextApiResponse } from 'next'
 
-import { checkAuthRoute, encodePath, getAccessToken } from '.'
+import { checkAuthRoute, encodePath, getAccessToken, createHiddenItemFilter, getAuthContext, resolveDrive } from '.'
 import apiConfig from '../../../config/api.config'
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const accessToken = await getAccessToken()
-  if (!accessToken) {
-    res.status(403).json({ error: 'No access token.' })
-    return
-  }
-
   // Get item thumbnails by its path since we will later check if it is protected
   const { path = '', size = 'medium', odpt = '' } = req.query
 
@@ -39,9 +33,24 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
   const cleanPath = pathPosix.resolve('/', pathPosix.normalize(path))
 
-  const { code, message } = await checkAuthRoute(cleanPath, accessToken, odpt as string)
+  // Resolve the drive the item belongs to
+  const resolved = await resolveDrive(cleanPath)
+  if (!resolved) {
+    res.status(404).json({ error: 'Drive not found.' })
+    return
+  }
+  const { drive } = resolved
+
+  const accessToken = await getAccessToken(drive.id)
+  if (!accessToken) {
+    res.status(403).json({ error: 'No access token.' })
+    return
+  }
+
+  const { code, message } = await checkAuthRoute(cleanPath, await getAuthContext(req, odpt as string))
   // Status code other than 200 means user has not authenticated yet
   if (code !== 200) {
+    res.setHeader('Cache-Control', 'no-cache')
     res.status(code).json({ error: message })
     return
   }
@@ -51,9 +60,15 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     res.setHeader('Cache-Control', 'no-cache')
   }
 
-  const requestPath = encodePath(cleanPath)
+  // Hidden files are not served, even when linked to directly
+  if (await createHiddenItemFilter()(cleanPath, false)) {
+    res.status(404).json({ error: 'File not found.' })
+    return
+  }
+
+  const requestPath = encodePath(resolved.path, drive)
   // Handle response from OneDrive API
-  const requestUrl = `${apiConfig.driveApi}/root${requestPath}`
+  const requestUrl = `${drive.driveApi}/root${requestPath}`
   // Whether path is root, which requires some special treatment
   const isRoot = requestPath === ''
 
@@ -0,0 +1,118 @@
+import axios from 'axios'
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+import { getFileRequest, recordFileRequestUpload } from '../../../utils/fileRequests'
+import { getRequestUser } from '../../../utils/userStore'
+import { resolveDrivePath } from '../../../utils/drives'
+import { invalidateDriveIndex } from '../../../utils/driveIndex'
+import {
+  deleteUploadSession,
+  getNextExpectedOffset,
+  getUploadSession,
+  UPLOAD_CHUNK_MAX_SIZE,
+} from '../../../utils/uploads'
+
+// Chunks are read as they are
+export const config = { api: { bodyParser: false } }
+
+/**
+ * Read the body of a chunk, giving up on bodies larger than the chunk size
+ *
+ * @returns The chunk, or null if it is too large
+ */
+async function readChunk(req: NextApiRequest): Promise<Buffer | null> {
+  const chunks: Buffer[] = []
+  let length = 0
+  for await (const chunk of req) {
+    length += chunk.length
+    if (length > UPLOAD_CHUNK_MAX_SIZE) return null
+    chunks.push(chunk)
+  }
+  return Buffer.concat(chunks)
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Send the chunks of a file, check how far an interrupted upload got, or cancel it. Only the user who started the
+  // upload can continue it, or anyone knowing the upload id for uploads through a file request that is still open.
+  res.setHeader('Cache-Control', 'no-cache')
+
+  const { id } = req.query
+  const session = typeof id === 'string' ? await getUploadSession(id) : null
+  if (session?.requestId) {
+    if (!(await getFileRequest(session.requestId))) {
+      await deleteUploadSession(session.id)
+      res.status(404).json({ error: 'File request not found or expired.' })
+      return
+    }
+  } else {
+    const user = await getRequestUser(req)
+    if (!user) {
+      res.status(401).json({ error: 'Sign in required.' })
+      return
+    }
+    if (!session || session.createdBy !== user.name) {
+      res.status(404).json({ error: 'Upload not found.' })
+      return
+    }
+  }
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        // Upload URLs are pre-authenticated, they must not be sent the access token
+        const { data } = await axios.get(session.uploadUrl)
+        res.status(200).json({ id: session.id, offset: getNextExpectedOffset(data.nextExpectedRanges), done: false })
+        return
+      }
+
+      case 'PUT': {
+        // Chunks are sent with a Content-Range header, e.g. 'bytes 0-3932159/10000000'
+        const range = req.headers['content-range']?.match(/^bytes (\d+)-(\d+)\/(\d+)$/)
+        const [start, end, total] = range ? range.slice(1).map(Number) : []
+        if (!range || total !== session.size || start > end || end >= total) {
+          res.status(400).json({ error: 'Content range invalid.' })
+          return
+        }
+        const chunk = await readChunk(req)
+        if (chunk === null || chunk.length !== end - start + 1) {
+          res.status(400).json({ error: 'Chunk size invalid.' })
+          return
+        }
+
+        const { status, data } = await axios.put(session.uploadUrl, chunk, {
+          headers: {
+            'Content-Length': chunk.length,
+            'Content-Range': `bytes ${start}-${end}/${total}`,
+          },
+        })
+        // The upload session answers 202 until the last chunk, which creates the file
+        if (status === 200 || status === 201) {
+          await deleteUploadSession(session.id)
+          await invalidateDriveIndex(resolveDrivePath(session.path)?.drive.id ?? '')
+          if (session.requestId) await recordFileRequestUpload(session.requestId)
+          res.status(200).json({ id: session.id, offset: total, done: true })
+          return
+        }
+        res.status(200).json({ id: session.id, offset: getNextExpectedOffset(data.nextExpectedRanges), done: false })
+        return
+      }
+
+      case 'DELETE':
+        await deleteUploadSession(session.id)
+        await axios.delete(session.uploadUrl).catch(() => undefined)
+        res.status(200).json({ id: session.id })
+        return
+
+      default:
+        res.status(405).json({ error: 'Method not allowed.' })
+    }
+  } catch (error: any) {
+    // Expired upload sessions cannot be resumed
+    if (error?.response?.status === 404) {
+      await deleteUploadSession(session.id)
+      res.status(404).json({ error: 'Upload not found.' })
+      return
+    }
+    res.status(error?.response?.status ?? 500).json({ error: error?.response?.data ?? 'Internal server error.' })
+  }
+}
@@ -0,0 +1,124 @@
+import { posix as pathPosix } from 'path'
+
+import axios from 'axios'
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+import { checkAuthRoute, createHiddenItemFilter, encodePath, getAccessToken, getAuthContext, resolveDrive } from '..'
+import {
+  checkUploadLimits,
+  checkUploadName,
+  createUploadSession,
+  findUploadRoute,
+  getUploadLimits,
+} from '../../../utils/uploads'
+import { invalidateDriveIndex } from '../../../utils/driveIndex'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Get the upload limits of a folder, or start uploading a file into it. Uploads are open to signed in users
+  // according to siteConfig.uploadRoutes, in folders they can access.
+  res.setHeader('Cache-Control', 'no-cache')
+
+  const auth = await getAuthContext(req)
+  const { user } = auth
+  if (!user) {
+    res.status(401).json({ error: 'Sign in required.' })
+    return
+  }
+
+  const { path } = req.method === 'GET' ? req.query : req.body ?? {}
+  if (typeof path !== 'string') {
+    res.status(400).json({ error: 'Path invalid.' })
+    return
+  }
+  const cleanPath = pathPosix.resolve('/', pathPosix.normalize(path)).replace(/\/$/, '')
+
+  const uploadRoute = findUploadRoute(cleanPath, user)
+  if (!uploadRoute) {
+    res.status(403).json({ error: 'Uploads are not allowed here.' })
+    return
+  }
+  const { code, message } = await checkAuthRoute(cleanPath, auth)
+  if (code !== 200) {
+    res.status(code).json({ error: message })
+    return
+  }
+  const limits = getUploadLimits(uploadRoute)
+
+  switch (req.method) {
+    case 'GET':
+      res.status(200).json(limits)
+      return
+
+    case 'POST': {
+      const { name, size } = req.body ?? {}
+      const nameError = checkUploadName(name)
+      if (nameError) {
+        res.status(400).json({ error: nameError })
+        return
+      }
+      if (!Number.isInteger(size) || size < 0) {
+        res.status(400).json({ error: 'File size invalid.' })
+        return
+      }
+      const limitError = checkUploadLimits(limits, name, size)
+      if (limitError) {
+        res.status(400).json({ error: limitError })
+        return
+      }
+
+      const filePath = `${cleanPath}/${name}`
+      if (await createHiddenItemFilter()(filePath, false)) {
+        res.status(403).json({ error: 'Uploads are not allowed here.' })
+        return
+      }
+
+      const resolved = await resolveDrive(filePath)
+      if (!resolved) {
+        res.status(404).json({ error: 'Drive not found.' })
+        return
+      }
+      const accessToken = await getAccessToken(resolved.drive.id)
+      if (!accessToken) {
+        res.status(403).json({ error: 'No access token.' })
+        return
+      }
+
+      try {
+        const requestUrl = `${resolved.drive.driveApi}/root${encodePath(resolved.path, resolved.drive)}`
+        const headers = { Authorization: `Bearer ${accessToken}` }
+
+        // Files with the name of an existing item are renamed rather than replacing it. Upload sessions cannot take
+        // empty files, which are created right away.
+        if (size === 0) {
+          await axios.put(`${requestUrl}:/content`, '', {
+            headers,
+            params: { '@microsoft.graph.conflictBehavior': 'rename' },
+          })
+          await invalidateDriveIndex(resolved.drive.id)
+          res.status(200).json({ id: '', offset: 0, done: true })
+          return
+        }
+
+        const { data } = await axios.post(
+          `${requestUrl}:/createUploadSession`,
+          { item: { '@microsoft.graph.conflictBehavior': 'rename' } },
+          { headers }
+        )
+        const session = await createUploadSession({
+          path: filePath,
+          size,
+          createdBy: user.name,
+          uploadUrl: data.uploadUrl,
+          expiresAt: new Date(data.expirationDateTime).getTime(),
+        })
+        res.status(200).json({ id: session.id, offset: 0, done: false })
+      } catch (error: any) {
+        res.status(error?.response?.status ?? 500).json({ error: error?.response?.data ?? 'Internal server error.' })
+      }
+      return
+    }
+
+    default:
+      res.status(405).json({ error: 'Method not allowed.' })
+  }
+}
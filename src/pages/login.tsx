@@ -0,0 +1,62 @@
+import Head from 'next/head'
+import Image from 'next/image'
+import { useRouter } from 'next/router'
+import { serverSideTranslations } from 'next-i18next/serverSideTranslations'
+import { useTranslation } from 'next-i18next'
+
+import Navbar from '../components/Navbar'
+import Footer from '../components/Footer'
+import LoginForm, { SsoLoginButton } from '../components/LoginForm'
+import { getRedirectPath } from '../utils/getRedirectPath'
+import useSession from '../utils/useSession'
+import useSiteSettings from '../utils/useSiteSettings'
+
+export default function Login() {
+  const router = useRouter()
+  const { t } = useTranslation()
+  const { settings } = useSiteSettings()
+  const { accountsEnabled, ssoEnabled } = useSession()
+
+  // Only redirect back to paths on this site after signing in
+  const redirectPath = getRedirectPath(router.query.redirect)
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-white dark:bg-gray-900">
+      <Head>
+        <title>{t('Sign in - {{title}}', { title: settings.title })}</title>
+      </Head>
+
+      <main className="flex w-full flex-1 flex-col bg-gray-50 dark:bg-gray-800">
+        <Navbar />
+        <div className="mx-auto w-full max-w-5xl py-4 sm:p-4">
+          <div className="rounded bg-white p-3 dark:bg-gray-900 dark:text-gray-100">
+            <div className="mx-auto flex max-w-sm flex-col space-y-4 md:my-10">
+              <div className="mx-auto w-3/4 md:w-5/6">
+                <Image
+                  src={'/images/fabulous-wapmire-weekdays.png'}
+                  alt="authenticate"
+                  width={912}
+                  height={912}
+                  priority
+                />
+              </div>
+              <div className="text-lg font-bold text-gray-900 dark:text-gray-100">{t('Sign in')}</div>
+              {ssoEnabled && <SsoLoginButton redirect={redirectPath} />}
+              {accountsEnabled && <LoginForm onLogin={() => (window.location.href = redirectPath)} />}
+            </div>
+          </div>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  )
+}
+
+export async function getServerSideProps({ locale }) {
+  return {
+    props: {
+      ...(await serverSideTranslations(locale, ['common'])),
+    },
+  }
+}
@@ -1,24 +1,32 @@
 import Head from 'next/head'
 import Image from 'next/image'
 import { useRouter } from 'next/router'
+import { useState } from 'react'
 import { useTranslation, Trans } from 'next-i18next'
 import { serverSideTranslations } from 'next-i18next/serverSideTranslations'
 
-import siteConfig from '../../../config/site.config'
 import apiConfig from '../../../config/api.config'
 import Navbar from '../../components/Navbar'
 import Footer from '../../components/Footer'
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { getDrive, getDrives, isMultiDrive } from '../../utils/drives'
+import useSiteSettings from '../../utils/useSiteSettings'
 
 export default function OAuthStep1() {
   const router = useRouter()
 
+  // With multiple drives, each drive is authorised separately
+  const drives = getDrives()
+  const [driveId, setDriveId] = useState(typeof router.query.drive === 'string' ? router.query.drive : drives[0].id)
+  const drive = getDrive(driveId) ?? drives[0]
+
   const { t } = useTranslation()
+  const { settings } = useSiteSettings()
 
   return (
     <div className="flex min-h-screen flex-col items-center justify-center bg-white dark:bg-gray-900">
       <Head>
-        <title>{t('OAuth Step 1 - {{title}}', { title: siteConfig.title })}</title>
+        <title>{t('OAuth Step 1 - {{title}}', { title: settings.title })}</title>
       </Head>
 
       <main className="flex w-full flex-1 flex-col bg-gray-50 dark:bg-gray-800">
@@ -68,6 +76,26 @@ export default function OAuthStep1() {
             <div className="my-4 overflow-hidden">
               <table className="min-w-full table-auto">
                 <tbody>
+                  {isMultiDrive() && (
+                    <tr className="border-y bg-white dark:border-gray-700 dark:bg-gray-900">
+                      <td className="bg-gray-50 py-1 px-3 text-left text-xs font-medium uppercase tracking-wider text-gray-700 dark:bg-gray-800 dark:text-gray-400">
+                        Drive
+                      </td>
+                      <td className="whitespace-nowrap py-1 px-3 text-gray-500 dark:text-gray-400">
+                        <select
+                          className="rounded border border-gray-600/10 bg-white font-mono text-sm focus:outline-none focus:ring focus:ring-blue-300 dark:bg-gray-600 dark:text-white"
+                          value={drive.id}
+                          onChange={e => setDriveId(e.target.value)}
+                        >
+                          {drives.map(d => (
+                            <option key={d.id} value={d.id}>
+                              {d.id}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  )}
                   <tr className="border-y bg-white dark:border-gray-700 dark:bg-gray-900">
                     <td className="bg-gray-50 py-1 px-3 text-left text-xs font-medium uppercase tracking-wider text-gray-700 dark:bg-gray-800 dark:text-gray-400">
                       CLIENT_ID
@@ -105,7 +133,7 @@ export default function OAuthStep1() {
                       Drive API URL
                     </td>
                     <td className="whitespace-nowrap py-1 px-3 text-gray-500 dark:text-gray-400">
-                      <code className="font-mono text-sm">{apiConfig.driveApi}</code>
+                      <code className="font-mono text-sm">{drive.driveApi}</code>
                     </td>
                   </tr>
                   <tr className="border-y bg-white dark:border-gray-700 dark:bg-gray-900">
@@ -132,7 +160,10 @@ export default function OAuthStep1() {
               <button
                 className="rounded-lg bg-gradient-to-r from-cyan-500 to-blue-500 px-4 py-2.5 text-center text-sm font-medium text-white hover:bg-gradient-to-bl focus:ring-4 focus:ring-cyan-300 dark:focus:ring-cyan-800"
                 onClick={() => {
-                  router.push('/onedrive-vercel-index-oauth/step-2')
+                  router.push({
+                    pathname: '/onedrive-vercel-index-oauth/step-2',
+                    query: isMultiDrive() ? { drive: drive.id } : {},
+                  })
                 }}
               >
                 <span>{t('Proceed to OAuth')}</span> <FontAwesomeIcon icon="arrow-right" />
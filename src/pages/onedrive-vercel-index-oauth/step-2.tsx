@@ -6,11 +6,11 @@ import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
 import { useTranslation, Trans } from 'next-i18next'
 import { serverSideTranslations } from 'next-i18next/serverSideTranslations'
 
-import siteConfig from '../../../config/site.config'
 import Navbar from '../../components/Navbar'
 import Footer from '../../components/Footer'
 import { LoadingIcon } from '../../components/Loading'
 import { extractAuthCodeFromRedirected, generateAuthorisationUrl } from '../../utils/oAuthHandler'
+import useSiteSettings from '../../utils/useSiteSettings'
 
 export default function OAuthStep2() {
   const router = useRouter()
@@ -20,13 +20,14 @@ export default function OAuthStep2() {
   const [buttonLoading, setButtonLoading] = useState(false)
 
   const { t } = useTranslation()
+  const { settings } = useSiteSettings()
 
   const oAuthUrl = generateAuthorisationUrl()
 
   return (
     <div className="flex min-h-screen flex-col items-center justify-center bg-white dark:bg-gray-900">
       <Head>
-        <title>{t('OAuth Step 2 - {{title}}', { title: siteConfig.title })}</title>
+        <title>{t('OAuth Step 2 - {{title}}', { title: settings.title })}</title>
       </Head>
 
       <main className="flex w-full flex-1 flex-col bg-gray-50 dark:bg-gray-800">
@@ -118,7 +119,12 @@ export default function OAuthStep2() {
                 disabled={authCode === ''}
                 onClick={() => {
                   setButtonLoading(true)
-                  router.push({ pathname: '/onedrive-vercel-index-oauth/step-3', query: { authCode } })
+                  // Keep the drive picked in step 1, so that tokens are stored for that drive
+                  const { drive } = router.query
+                  router.push({
+                    pathname: '/onedrive-vercel-index-oauth/step-3',
+                    query: typeof drive === 'string' ? { authCode, drive } : { authCode },
+                  })
                 }}
               >
                 {buttonLoading ? (
@@ -6,18 +6,23 @@ import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
 import { useTranslation, Trans } from 'next-i18next'
 import { serverSideTranslations } from 'next-i18next/serverSideTranslations'
 
-import siteConfig from '../../../config/site.config'
 import Navbar from '../../components/Navbar'
 import Footer from '../../components/Footer'
 
 import { getAuthPersonInfo, requestTokenWithAuthCode, sendTokenToServer } from '../../utils/oAuthHandler'
+import { getDrive } from '../../utils/drives'
+import useSiteSettings from '../../utils/useSiteSettings'
 import { LoadingIcon } from '../../components/Loading'
+import DrivePicker from '../../components/DrivePicker'
 
-export default function OAuthStep3({ accessToken, expiryTime, refreshToken, error, description, errorUri }) {
+export default function OAuthStep3({ accessToken, expiryTime, refreshToken, drive, error, description, errorUri }) {
   const router = useRouter()
   const [expiryTimeLeft, setExpiryTimeLeft] = useState(expiryTime)
+  // The drive to serve can be switched to another drive or SharePoint document library the account has access to
+  const [driveApi, setDriveApi] = useState(getDrive(drive)?.driveApi ?? '')
 
   const { t } = useTranslation()
+  const { settings } = useSiteSettings()
 
   useEffect(() => {
     if (!expiryTimeLeft) return
@@ -44,8 +49,9 @@ export default function OAuthStep3({ accessToken, expiryTime, refreshToken, erro
       </div>
     )
 
-    // verify identity of the authenticated user with the Microsoft Graph API
-    const { data, status } = await getAuthPersonInfo(accessToken)
+    // verify identity of the authenticated user with the Microsoft Graph API, against the owner of the drive
+    const driveConfig = getDrive(drive)!
+    const { data, status } = await getAuthPersonInfo(accessToken, driveConfig.driveApi)
     if (status !== 200) {
       setButtonError(true)
       setButtonContent(
@@ -55,7 +61,7 @@ export default function OAuthStep3({ accessToken, expiryTime, refreshToken, erro
       )
       return
     }
-    if (data.userPrincipalName !== siteConfig.userPrincipalName) {
+    if (data.userPrincipalName !== driveConfig.userPrincipalName) {
       setButtonError(true)
       setButtonContent(
         <div>
@@ -65,7 +71,7 @@ export default function OAuthStep3({ accessToken, expiryTime, refreshToken, erro
       return
     }
 
-    await sendTokenToServer(accessToken, refreshToken, expiryTime)
+    await sendTokenToServer(accessToken, refreshToken, expiryTime, drive, driveApi)
       .then(() => {
         setButtonError(false)
         setButtonContent(
@@ -74,7 +80,7 @@ export default function OAuthStep3({ accessToken, expiryTime, refreshToken, erro
           </div>
         )
         setTimeout(() => {
-          router.push('/')
+          router.push(drive ? `/${encodeURIComponent(drive)}` : '/')
         }, 2000)
       })
       .catch(_ => {
@@ -90,7 +96,7 @@ export default function OAuthStep3({ accessToken, expiryTime, refreshToken, erro
   return (
     <div className="flex min-h-screen flex-col items-center justify-center bg-white dark:bg-gray-900">
       <Head>
-        <title>{t('OAuth Step 3 - {{title}}', { title: siteConfig.title })}</title>
+        <title>{t('OAuth Step 3 - {{title}}', { title: settings.title })}</title>
       </Head>
 
       <main className="flex w-full flex-1 flex-col bg-gray-50 dark:bg-gray-800">
@@ -181,6 +187,17 @@ export default function OAuthStep3({ accessToken, expiryTime, refreshToken, erro
                   )}
                 </ol>
 
+                <p className="py-1">
+                  {t('Pick the drive to serve, or keep the configured one. ') +
+                    t('SharePoint sites are only listed if the Sites.Read.All scope is granted.')}
+                </p>
+                <DrivePicker
+                  accessToken={accessToken}
+                  defaultDriveApi={getDrive(drive)?.driveApi ?? ''}
+                  driveApi={driveApi}
+                  setDriveApi={setDriveApi}
+                />
+
                 <p className="py-1 text-sm font-medium text-teal-500">
                   <FontAwesomeIcon icon="exclamation-circle" className="mr-1" />{' '}
                   {t('These tokens may take a few seconds to populate after you click the button below. ') +
@@ -226,6 +243,18 @@ export default function OAuthStep3({ accessToken, expiryTime, refreshToken, erro
 export async function getServerSideProps({ query, locale }) {
   const { authCode } = query
 
+  // Drive to store the tokens for, the default drive if there is only one
+  const drive = typeof query.drive === 'string' ? query.drive : ''
+  if (!getDrive(drive)) {
+    return {
+      props: {
+        error: 'Unknown drive',
+        description: `There is no drive named '${drive}' in the site config.`,
+        ...(await serverSideTranslations(locale, ['common'])),
+      },
+    }
+  }
+
   // Return if no auth code is present
   if (!authCode) {
     return {
@@ -259,6 +288,7 @@ export async function getServerSideProps({ query, locale }) {
       expiryTime,
       accessToken,
       refreshToken,
+      drive,
       ...(await serverSideTranslations(locale, ['common'])),
     },
   }
@@ -0,0 +1,267 @@
+import type { OdFileRequest, OdUploadProgress } from '../../types'
+
+import axios from 'axios'
+import Head from 'next/head'
+import { DragEvent, useRef, useState } from 'react'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { serverSideTranslations } from 'next-i18next/serverSideTranslations'
+import { useTranslation } from 'next-i18next'
+
+import Navbar from '../../components/Navbar'
+import Footer from '../../components/Footer'
+import FourOhFour from '../../components/FourOhFour'
+import { formatModifiedDateTime, humanFileSize } from '../../utils/fileDetails'
+import { getFileRequest } from '../../utils/fileRequests'
+import { uploadFile } from '../../utils/uploadFile'
+import useLocalStorage from '../../utils/useLocalStorage'
+import useSiteSettings from '../../utils/useSiteSettings'
+
+// The part of a file request shown to visitors, the folder and creator stay private
+type PublicFileRequest = Pick<OdFileRequest, 'id' | 'name' | 'note' | 'expiresAt' | 'maxSize' | 'hasPassword'>
+
+// A file dropped by the visitor, and how far its upload got
+type UploadItem = { key: number; name: string; size: number; uploaded: number; error: string | null }
+
+const RequestPassword = ({ id, setToken }: { id: string; setToken: (token: string) => void }) => {
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState('')
+  const { t } = useTranslation()
+
+  const unlock = async () => {
+    setError('')
+    try {
+      const { data } = await axios.post(`/api/request/${id}/`, { password })
+      setToken(data.token)
+    } catch (err: any) {
+      setError(err?.response?.status === 401 ? t('Wrong password.') : t('Failed to check the password.'))
+    }
+  }
+
+  return (
+    <div className="mx-auto flex max-w-sm flex-col space-y-4 py-6">
+      <p className="text-sm font-medium text-gray-500">{t('This file request is password protected.')}</p>
+      <div className="flex items-center space-x-2">
+        <input
+          className="flex-1 rounded border border-gray-600/10 p-2 font-mono focus:outline-none focus:ring focus:ring-blue-300 dark:bg-gray-600 dark:text-white dark:focus:ring-blue-700"
+          autoFocus
+          type="password"
+          placeholder="************"
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          onKeyPress={e => {
+            if (e.key === 'Enter' || e.key === 'NumpadEnter') unlock()
+          }}
+        />
+        <button
+          className="rounded bg-blue-600 px-4 py-2 text-white hover:bg-blue-500 focus:outline-none focus:ring focus:ring-blue-400"
+          onClick={unlock}
+        >
+          <FontAwesomeIcon icon="arrow-right" />
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  )
+}
+
+const RequestUploader = ({
+  request,
+  token,
+  resetToken,
+}: {
+  request: PublicFileRequest
+  token: string
+  resetToken: () => void
+}) => {
+  const { t } = useTranslation()
+  const [items, setItems] = useState<UploadItem[]>([])
+  const [dragging, setDragging] = useState(false)
+  const inputRef = useRef<HTMLInputElement>(null)
+  // Drag events fire for every element inside the drop area, so count them to know when the drag leaves it
+  const dragDepth = useRef(0)
+  const nextKey = useRef(0)
+
+  const updateItem = (key: number, update: Partial<UploadItem>) =>
+    setItems(items => items.map(i => (i.key === key ? { ...i, ...update } : i)))
+
+  const uploadFiles = async (files: File[]) => {
+    const added = files.map(file => ({
+      file,
+      item: { key: nextKey.current++, name: file.name, size: file.size, uploaded: 0, error: null },
+    }))
+    setItems(items => [...items, ...added.map(a => a.item)])
+
+    for (const { file, item } of added) {
+      if (request.maxSize !== null && file.size > request.maxSize) {
+        updateItem(item.key, { error: t('File too large.') })
+        continue
+      }
+      const startUpload = async () => {
+        const { data } = await axios.post(
+          `/api/request/${request.id}/`,
+          { name: file.name, size: file.size },
+          { headers: token ? { 'od-protected-token': token } : {} }
+        )
+        return data as OdUploadProgress
+      }
+      try {
+        await uploadFile(file, `request:${request.id}/${file.name}`, startUpload, uploaded =>
+          updateItem(item.key, { uploaded })
+        )
+      } catch (error: any) {
+        if (error?.response?.status === 401) {
+          resetToken()
+          return
+        }
+        const message = error?.response?.data?.error
+        updateItem(item.key, { error: typeof message === 'string' ? message : t('Network error.') })
+      }
+    }
+  }
+
+  const hasFiles = (e: DragEvent) => e.dataTransfer.types.includes('Files')
+
+  return (
+    <div className="space-y-3 p-3">
+      <div
+        className={`flex cursor-pointer flex-col items-center justify-center space-y-2 rounded border-2 border-dashed py-10 ${
+          dragging
+            ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+            : 'border-gray-300 text-gray-500 hover:border-blue-400 dark:border-gray-600'
+        }`}
+        onClick={() => inputRef.current?.click()}
+        onDragEnter={e => {
+          if (!hasFiles(e)) return
+          e.preventDefault()
+          dragDepth.current += 1
+          setDragging(true)
+        }}
+        onDragOver={e => {
+          if (!hasFiles(e)) return
+          e.preventDefault()
+          e.dataTransfer.dropEffect = 'copy'
+        }}
+        onDragLeave={() => {
+          dragDepth.current = Math.max(dragDepth.current - 1, 0)
+          if (dragDepth.current === 0) setDragging(false)
+        }}
+        onDrop={e => {
+          if (!hasFiles(e)) return
+          e.preventDefault()
+          dragDepth.current = 0
+          setDragging(false)
+          // Folders cannot be uploaded, only the files dropped
+          const files = Array.from(e.dataTransfer.items)
+            .filter(i => i.kind === 'file' && !i.webkitGetAsEntry()?.isDirectory)
+            .map(i => i.getAsFile())
+            .filter((f): f is File => f !== null)
+          uploadFiles(files)
+        }}
+      >
+        <FontAwesomeIcon icon="cloud-upload-alt" size="2x" />
+        <span className="font-medium">{t('Drop files here or click to choose files')}</span>
+        {request.maxSize !== null && (
+          <span className="text-sm">{t('Up to {{size}}', { size: humanFileSize(request.maxSize) })}</span>
+        )}
+        <input
+          ref={inputRef}
+          className="hidden"
+          type="file"
+          multiple
+          onChange={e => {
+            uploadFiles(Array.from(e.target.files ?? []))
+            e.target.value = ''
+          }}
+        />
+      </div>
+
+      {items.length > 0 && (
+        <div className="divide-y divide-gray-900/10 dark:divide-gray-500/30">
+          {items.map(item => (
+            <div key={item.key} className="flex items-center space-x-4 py-2 text-sm">
+              <span className="flex-1 truncate" title={item.name}>
+                {item.name}
+              </span>
+              {item.error ? (
+                <span className="text-red-500">{item.error}</span>
+              ) : item.uploaded === item.size ? (
+                <span className="text-green-600 dark:text-green-400">
+                  <FontAwesomeIcon icon="check" /> {t('Uploaded')}
+                </span>
+              ) : (
+                <span className="font-mono text-gray-500">
+                  {item.size ? Math.floor((item.uploaded / item.size) * 100) : 0}%
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function FileRequestPage({ request }: { request: PublicFileRequest | null }) {
+  const { t } = useTranslation()
+  const { settings } = useSiteSettings()
+  const [token, setToken] = useLocalStorage(`request:${request?.id}`, '')
+
+  const locked = request?.hasPassword && !token
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-white dark:bg-gray-900">
+      <Head>
+        <title>{request ? `${request.name} - ${settings.title}` : settings.title}</title>
+      </Head>
+
+      <main className="flex w-full flex-1 flex-col bg-gray-50 dark:bg-gray-800">
+        <Navbar />
+        <div className="mx-auto w-full max-w-5xl py-4 sm:p-4">
+          {request ? (
+            <div className="rounded bg-white shadow-sm dark:bg-gray-900 dark:text-gray-100">
+              <div className="border-b border-gray-900/10 px-3 py-2 dark:border-gray-500/30">
+                <div className="font-bold">{t('Upload files to {{name}}', { name: request.name })}</div>
+                <div className="text-xs text-gray-500">
+                  {t('Open until {{date}}', {
+                    date: formatModifiedDateTime(new Date(request.expiresAt).toISOString()),
+                  })}
+                </div>
+                {request.note && <p className="whitespace-pre-line py-2 text-sm">{request.note}</p>}
+              </div>
+
+              {locked ? (
+                <RequestPassword id={request.id} setToken={setToken} />
+              ) : (
+                <RequestUploader request={request} token={token} resetToken={() => setToken('')} />
+              )}
+            </div>
+          ) : (
+            <FourOhFour errorMsg={t('File request not found or expired.')} />
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  )
+}
+
+export async function getServerSideProps({ params, locale }) {
+  const request = await getFileRequest(params.id)
+
+  return {
+    props: {
+      request: request
+        ? {
+            id: request.id,
+            name: request.name,
+            note: request.note,
+            expiresAt: request.expiresAt,
+            maxSize: request.maxSize,
+            hasPassword: request.hasPassword,
+          }
+        : null,
+      ...(await serverSideTranslations(locale, ['common'])),
+    },
+  }
+}
@@ -0,0 +1,130 @@
+import type { OdFileRequest } from '../types'
+
+import axios from 'axios'
+import useSWR from 'swr'
+import Head from 'next/head'
+import Link from 'next/link'
+import toast, { Toaster } from 'react-hot-toast'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { serverSideTranslations } from 'next-i18next/serverSideTranslations'
+import { useTranslation } from 'next-i18next'
+
+import Navbar from '../components/Navbar'
+import Footer from '../components/Footer'
+import Loading from '../components/Loading'
+import { fetcher } from '../utils/fetchWithSWR'
+import { formatModifiedDateTime, humanFileSize } from '../utils/fileDetails'
+import { getBaseUrl } from '../utils/getBaseUrl'
+import useSession from '../utils/useSession'
+import useSiteSettings from '../utils/useSiteSettings'
+
+const FileRequestList = () => {
+  const { t } = useTranslation()
+  const { data, error, mutate } = useSWR<{ requests: OdFileRequest[] }>(['/api/request/'], fetcher)
+
+  const revoke = async (id: string) => {
+    try {
+      await axios.delete(`/api/request/?id=${encodeURIComponent(id)}`)
+      await mutate()
+      toast.success(t('File request closed.'))
+    } catch (err: any) {
+      toast.error(t('Failed to close the file request.'))
+    }
+  }
+
+  if (error) {
+    return <p className="p-3 text-sm text-red-500">{JSON.stringify(error.message)}</p>
+  }
+  if (!data) {
+    return <Loading loadingText={t('Loading ...')} />
+  }
+  if (data.requests.length === 0) {
+    return <p className="p-3 text-sm text-gray-500">{t('No file requests yet.')}</p>
+  }
+
+  return (
+    <div className="divide-y divide-gray-900/10 dark:divide-gray-500/30">
+      {data.requests.map(request => (
+        <div key={request.id} className="flex items-center space-x-4 px-3 py-2.5">
+          <div className="w-5 flex-shrink-0 text-center">
+            <FontAwesomeIcon icon="inbox" />
+          </div>
+          <div className="flex-1 truncate">
+            <a
+              href={`/request/${request.id}`}
+              className="block truncate font-medium hover:underline"
+              title={`${getBaseUrl()}/request/${request.id}`}
+            >
+              {request.path}
+            </a>
+            <div className="truncate text-xs text-gray-500">
+              {request.expiresAt > Date.now()
+                ? t('Expires {{date}}', { date: formatModifiedDateTime(new Date(request.expiresAt).toISOString()) })
+                : t('Expired, files stay private until closed')}
+              {' · '}
+              {t('{{uploads}} uploads', { uploads: request.uploads })}
+              {request.maxSize !== null && ` · ${t('Up to {{size}}', { size: humanFileSize(request.maxSize) })}`}
+              {request.hasPassword && ` · ${t('Password protected')}`}
+              {` · ${request.createdBy}`}
+            </div>
+          </div>
+          <button
+            className="rounded-lg px-2 py-1 text-sm text-red-500 hover:bg-red-500/10"
+            title={t('Close')}
+            onClick={() => revoke(request.id)}
+          >
+            <FontAwesomeIcon icon={['far', 'trash-alt']} />
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default function Requests() {
+  const { t } = useTranslation()
+  const { settings } = useSiteSettings()
+  const { user, loaded } = useSession()
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-white dark:bg-gray-900">
+      <Head>
+        <title>{t('File requests - {{title}}', { title: settings.title })}</title>
+      </Head>
+
+      <main className="flex w-full flex-1 flex-col bg-gray-50 dark:bg-gray-800">
+        <Toaster />
+        <Navbar />
+        <div className="mx-auto w-full max-w-5xl py-4 sm:p-4">
+          <div className="rounded bg-white shadow-sm dark:bg-gray-900 dark:text-gray-100">
+            <div className="border-b border-gray-900/10 px-3 py-2 font-bold dark:border-gray-500/30">
+              {t('File requests')}
+            </div>
+            {!loaded ? (
+              <Loading loadingText={t('Loading ...')} />
+            ) : user ? (
+              <FileRequestList />
+            ) : (
+              <p className="p-3 text-sm text-gray-500">
+                <Link href={{ pathname: '/login', query: { redirect: '/requests' } }} className="underline">
+                  {t('Sign in')}
+                </Link>{' '}
+                {t('to manage your file requests.')}
+              </p>
+            )}
+          </div>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  )
+}
+
+export async function getServerSideProps({ locale }) {
+  return {
+    props: {
+      ...(await serverSideTranslations(locale, ['common'])),
+    },
+  }
+}
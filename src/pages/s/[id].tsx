@@ -0,0 +1,206 @@
+import type { OdFolderChildren, OdShareLink } from '../../types'
+
+import axios from 'axios'
+import useSWR from 'swr'
+import Head from 'next/head'
+import Link from 'next/link'
+import { useRouter } from 'next/router'
+import { useState } from 'react'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { serverSideTranslations } from 'next-i18next/serverSideTranslations'
+import { useTranslation } from 'next-i18next'
+
+import Navbar from '../../components/Navbar'
+import Footer from '../../components/Footer'
+import FourOhFour from '../../components/FourOhFour'
+import Loading from '../../components/Loading'
+import { ChildIcon, ChildName } from '../../components/FileListing'
+import { fetcher } from '../../utils/fetchWithSWR'
+import { formatModifiedDateTime, humanFileSize } from '../../utils/fileDetails'
+import useLocalStorage from '../../utils/useLocalStorage'
+import { getShareLink } from '../../utils/shareLinks'
+import useSiteSettings from '../../utils/useSiteSettings'
+
+// The part of a share link shown to visitors, the shared path and creator stay private
+type PublicShareLink = Pick<OdShareLink, 'id' | 'name' | 'isFolder' | 'expiresAt' | 'hasPassword'>
+
+const SharePassword = ({ id, setToken }: { id: string; setToken: (token: string) => void }) => {
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState('')
+  const { t } = useTranslation()
+
+  const unlock = async () => {
+    setError('')
+    try {
+      const { data } = await axios.post(`/api/share/${id}`, { password })
+      setToken(data.token)
+    } catch (err: any) {
+      setError(err?.response?.status === 401 ? t('Wrong password.') : t('Failed to check the password.'))
+    }
+  }
+
+  return (
+    <div className="mx-auto flex max-w-sm flex-col space-y-4 py-6">
+      <p className="text-sm font-medium text-gray-500">{t('This share link is password protected.')}</p>
+      <div className="flex items-center space-x-2">
+        <input
+          className="flex-1 rounded border border-gray-600/10 p-2 font-mono focus:outline-none focus:ring focus:ring-blue-300 dark:bg-gray-600 dark:text-white dark:focus:ring-blue-700"
+          autoFocus
+          type="password"
+          placeholder="************"
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          onKeyPress={e => {
+            if (e.key === 'Enter' || e.key === 'NumpadEnter') unlock()
+          }}
+        />
+        <button
+          className="rounded bg-blue-600 px-4 py-2 text-white hover:bg-blue-500 focus:outline-none focus:ring focus:ring-blue-400"
+          onClick={unlock}
+        >
+          <FontAwesomeIcon icon="arrow-right" />
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  )
+}
+
+const SharedFolder = ({ id, token, resetToken }: { id: string; token: string; resetToken: () => void }) => {
+  const { query } = useRouter()
+  const { t } = useTranslation()
+
+  // Path inside the shared folder
+  const path = typeof query.path === 'string' ? query.path.replace(/\/$/, '') : ''
+  const { data, error } = useSWR([`/api/share/${id}/?list=1&path=${encodeURIComponent(path)}`, token], fetcher)
+
+  if (error) {
+    if (error.status === 401) {
+      resetToken()
+      return null
+    }
+    return <FourOhFour errorMsg={JSON.stringify(error.message)} />
+  }
+  if (!data) {
+    return <Loading loadingText={t('Loading ...')} />
+  }
+
+  const itemPath = (name: string) => `${path}/${name}`
+  return (
+    <div>
+      {path !== '' && (
+        <Link
+          href={{ pathname: `/s/${id}`, query: { path: path.substring(0, path.lastIndexOf('/')) } }}
+          className="flex items-center space-x-2 border-b border-gray-900/10 px-3 py-2.5 hover:bg-gray-100 dark:border-gray-500/30 dark:hover:bg-gray-850"
+        >
+          <FontAwesomeIcon icon="arrow-left" />
+          <span className="truncate font-mono text-sm">{path}</span>
+        </Link>
+      )}
+      {data.folder.value.map((c: OdFolderChildren) => {
+        const className =
+          'grid grid-cols-10 items-center space-x-2 px-3 py-2.5 hover:bg-gray-100 dark:hover:bg-gray-850'
+        const content = (
+          <>
+            <div className="col-span-10 flex items-center space-x-2 truncate md:col-span-6" title={c.name}>
+              <div className="w-5 flex-shrink-0 text-center">
+                <ChildIcon child={c} />
+              </div>
+              <ChildName name={c.name} folder={Boolean(c.folder)} />
+            </div>
+            <div className="col-span-3 hidden flex-shrink-0 font-mono text-sm text-gray-700 dark:text-gray-500 md:block">
+              {formatModifiedDateTime(c.lastModifiedDateTime)}
+            </div>
+            <div className="col-span-1 hidden flex-shrink-0 truncate font-mono text-sm text-gray-700 dark:text-gray-500 md:block">
+              {humanFileSize(c.size)}
+            </div>
+          </>
+        )
+        return c.folder ? (
+          <Link key={c.id} href={{ pathname: `/s/${id}`, query: { path: itemPath(c.name) } }} className={className}>
+            {content}
+          </Link>
+        ) : (
+          <a
+            key={c.id}
+            href={`/api/share/${id}/?path=${encodeURIComponent(itemPath(c.name))}${token ? `&odpt=${token}` : ''}`}
+            className={className}
+          >
+            {content}
+          </a>
+        )
+      })}
+    </div>
+  )
+}
+
+export default function SharePage({ link }: { link: PublicShareLink | null }) {
+  const { t } = useTranslation()
+  const { settings } = useSiteSettings()
+  const [token, setToken] = useLocalStorage(`share:${link?.id}`, '')
+
+  const locked = link?.hasPassword && !token
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-white dark:bg-gray-900">
+      <Head>
+        <title>{link ? `${link.name} - ${settings.title}` : settings.title}</title>
+      </Head>
+
+      <main className="flex w-full flex-1 flex-col bg-gray-50 dark:bg-gray-800">
+        <Navbar />
+        <div className="mx-auto w-full max-w-5xl py-4 sm:p-4">
+          {link ? (
+            <div className="rounded bg-white shadow-sm dark:bg-gray-900 dark:text-gray-100">
+              <div className="border-b border-gray-900/10 px-3 py-2 dark:border-gray-500/30">
+                <div className="font-bold">{link.name}</div>
+                <div className="text-xs text-gray-500">
+                  {t('Shared until {{date}}', { date: formatModifiedDateTime(new Date(link.expiresAt).toISOString()) })}
+                </div>
+              </div>
+
+              {locked ? (
+                <SharePassword id={link.id} setToken={setToken} />
+              ) : link.isFolder ? (
+                <SharedFolder id={link.id} token={token} resetToken={() => setToken('')} />
+              ) : (
+                <div className="flex justify-center py-6">
+                  <a
+                    href={`/api/share/${link.id}/${token ? `?odpt=${token}` : ''}`}
+                    className="flex items-center space-x-2 rounded-lg border border-blue-300 px-4 py-2 text-sm font-medium hover:text-blue-600 dark:border-blue-700"
+                  >
+                    <FontAwesomeIcon icon="file-download" />
+                    <span>{t('Download')}</span>
+                  </a>
+                </div>
+              )}
+            </div>
+          ) : (
+            <FourOhFour errorMsg={t('Share link not found or expired.')} />
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  )
+}
+
+export async function getServerSideProps({ params, locale }) {
+  const link = await getShareLink(params.id)
+
+  return {
+    props: {
+      link: link
+        ? {
+            id: link.id,
+            name: link.name,
+            isFolder: link.isFolder,
+            expiresAt: link.expiresAt,
+            hasPassword: link.hasPassword,
+          }
+        : null,
+      ...(await serverSideTranslations(locale, ['common'])),
+    },
+  }
+}
@@ -0,0 +1,228 @@
+import { FormEvent, useEffect, useMemo, useState } from 'react'
+import Head from 'next/head'
+import { useRouter } from 'next/router'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { serverSideTranslations } from 'next-i18next/serverSideTranslations'
+import { useTranslation } from 'next-i18next'
+
+import Navbar from '../components/Navbar'
+import Footer from '../components/Footer'
+import Loading from '../components/Loading'
+import SearchResultItem from '../components/SearchResultItem'
+import { useSearchSWRInfinite } from '../utils/fetchWithSWR'
+import { TYPE_FILTERS, parseTypeFilter } from '../utils/listingOptions'
+import { parseSearchOptions, SearchOptions, toSearchQuery } from '../utils/searchOptions'
+import useSiteSettings from '../utils/useSiteSettings'
+
+const inputClassName =
+  'w-full rounded border border-gray-600/10 p-2 text-sm focus:outline-none focus:ring focus:ring-blue-300 dark:bg-gray-600 dark:text-white dark:focus:ring-blue-700'
+const labelClassName = 'block pb-1 text-xs font-medium uppercase tracking-wider'
+
+/**
+ * Words, folder and filters of a search, edited as text and applied when the form is sent
+ */
+const SearchForm = ({ options, onSearch }: { options: SearchOptions; onSearch: (options: SearchOptions) => void }) => {
+  const { t } = useTranslation()
+  const [form, setForm] = useState({ ...options, ext: options.ext.join(', ') })
+
+  // Follow the address bar, e.g. when going back to an earlier search
+  useEffect(() => {
+    setForm({ ...options, ext: options.ext.join(', ') })
+  }, [options])
+
+  const update = (changes: Partial<typeof form>) => setForm(f => ({ ...f, ...changes }))
+  const submit = (e: FormEvent) => {
+    e.preventDefault()
+    // Parsed as a query string, so that values the server would reject are dropped here already
+    onSearch(parseSearchOptions({ ...form, type: form.type ?? '' }))
+  }
+
+  return (
+    <form className="p-3" onSubmit={submit}>
+      <div className="mb-3 flex items-center space-x-2">
+        <input
+          className={inputClassName}
+          type="search"
+          placeholder={t('Search ...')}
+          value={form.q}
+          onChange={e => update({ q: e.target.value })}
+        />
+        <button
+          type="submit"
+          className="flex-shrink-0 rounded-lg bg-blue-500 px-3 py-2 text-sm font-medium text-white hover:bg-blue-600"
+        >
+          <FontAwesomeIcon icon="search" className="mr-1" /> {t('Search')}
+        </button>
+      </div>
+
+      <div className="mb-3 flex items-center space-x-2 text-sm">
+        <FontAwesomeIcon icon={['far', 'folder']} />
+        <span className="truncate font-mono">{form.path}</span>
+        {form.path !== '/' && (
+          <button type="button" className="text-blue-500 hover:underline" onClick={() => update({ path: '/' })}>
+            {t('Search everywhere')}
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-3">
+        <div>
+          <label className={labelClassName}>{t('File type')}</label>
+          <select
+            className={inputClassName}
+            value={form.type ?? ''}
+            onChange={e => update({ type: parseTypeFilter(e.target.value) })}
+          >
+            <option value="">{t('All files')}</option>
+            {TYPE_FILTERS.map(type => (
+              <option key={type} value={type}>
+                {
+                  // t('Images')
+                  // t('Videos')
+                  // t('Documents')
+                  t(type.charAt(0).toUpperCase() + type.slice(1))
+                }
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClassName}>{t('Extensions')}</label>
+          <input
+            className={inputClassName}
+            placeholder="pdf, docx"
+            value={form.ext}
+            onChange={e => update({ ext: e.target.value })}
+          />
+        </div>
+        <div className="col-span-2 grid grid-cols-2 gap-3 md:col-span-1">
+          <div>
+            <label className={labelClassName}>{t('Min size')}</label>
+            <input
+              className={inputClassName}
+              placeholder="1MB"
+              value={form.minSize}
+              onChange={e => update({ minSize: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className={labelClassName}>{t('Max size')}</label>
+            <input
+              className={inputClassName}
+              placeholder="1GB"
+              value={form.maxSize}
+              onChange={e => update({ maxSize: e.target.value })}
+            />
+          </div>
+        </div>
+        <div>
+          <label className={labelClassName}>{t('Modified from')}</label>
+          <input
+            className={inputClassName}
+            type="date"
+            value={form.from}
+            onChange={e => update({ from: e.target.value })}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>{t('Modified until')}</label>
+          <input
+            className={inputClassName}
+            type="date"
+            value={form.to}
+            onChange={e => update({ to: e.target.value })}
+          />
+        </div>
+      </div>
+    </form>
+  )
+}
+
+/**
+ * Pages of results of a search, loaded one after the other
+ */
+const SearchResults = ({ options }: { options: SearchOptions }) => {
+  const { t } = useTranslation()
+  const { data, error, size, setSize } = useSearchSWRInfinite(
+    options.q ? new URLSearchParams(toSearchQuery(options)).toString() : ''
+  )
+
+  if (!options.q) {
+    return <p className="p-3 text-sm text-gray-500">{t('Enter words to search for.')}</p>
+  }
+  if (error) {
+    return (
+      <p className="p-3 text-sm text-red-500">
+        {typeof error.message?.error === 'string' ? error.message.error : JSON.stringify(error.message)}
+      </p>
+    )
+  }
+  if (!data) {
+    return <Loading loadingText={t('Loading ...')} />
+  }
+
+  const results = data.flatMap(page => page.value)
+  const isLoadingMore = typeof data[size - 1] === 'undefined'
+  const isReachingEnd = !data[data.length - 1]?.next
+
+  return (
+    <>
+      {results.length === 0 && isReachingEnd ? (
+        <p className="p-3 text-sm text-gray-500">{t('Nothing here.')}</p>
+      ) : (
+        results.map(result => <SearchResultItem key={result.id} result={result} q={options.q} />)
+      )}
+      {!isReachingEnd && (
+        <button
+          className="block w-full px-4 py-3 text-center text-sm font-medium hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50 dark:hover:bg-gray-850"
+          disabled={isLoadingMore}
+          onClick={() => setSize(size + 1)}
+        >
+          {isLoadingMore ? t('Loading ...') : t('Load more')}
+        </button>
+      )}
+    </>
+  )
+}
+
+export default function Search() {
+  const { t } = useTranslation()
+  const { settings } = useSiteSettings()
+  const router = useRouter()
+  const options = useMemo(() => parseSearchOptions(router.query), [router.query])
+
+  const search = (options: SearchOptions) => {
+    router.push({ pathname: '/search', query: toSearchQuery(options) })
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-white dark:bg-gray-900">
+      <Head>
+        <title>{t('Search - {{title}}', { title: settings.title })}</title>
+      </Head>
+
+      <main className="flex w-full flex-1 flex-col bg-gray-50 dark:bg-gray-800">
+        <Navbar />
+        <div className="mx-auto w-full max-w-5xl py-4 sm:p-4">
+          <div className="mb-4 rounded bg-white shadow-sm dark:bg-gray-900 dark:text-gray-100">
+            <div className="border-b border-gray-900/10 px-3 py-2 font-bold dark:border-gray-500/30">{t('Search')}</div>
+            <SearchForm options={options} onSearch={search} />
+          </div>
+          <div className="rounded bg-white shadow-sm dark:bg-gray-900 dark:text-gray-100">
+            <SearchResults options={options} />
+          </div>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  )
+}
+
+export async function getServerSideProps({ locale }) {
+  return {
+    props: {
+      ...(await serverSideTranslations(locale, ['common'])),
+    },
+  }
+}
@@ -0,0 +1,129 @@
+import type { OdShareLink } from '../types'
+
+import axios from 'axios'
+import useSWR from 'swr'
+import Head from 'next/head'
+import Link from 'next/link'
+import toast, { Toaster } from 'react-hot-toast'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { serverSideTranslations } from 'next-i18next/serverSideTranslations'
+import { useTranslation } from 'next-i18next'
+
+import Navbar from '../components/Navbar'
+import Footer from '../components/Footer'
+import Loading from '../components/Loading'
+import { fetcher } from '../utils/fetchWithSWR'
+import { formatModifiedDateTime } from '../utils/fileDetails'
+import { getBaseUrl } from '../utils/getBaseUrl'
+import useSession from '../utils/useSession'
+import useSiteSettings from '../utils/useSiteSettings'
+
+const ShareLinkList = () => {
+  const { t } = useTranslation()
+  const { data, error, mutate } = useSWR<{ links: OdShareLink[] }>(['/api/share/'], fetcher)
+
+  const revoke = async (id: string) => {
+    try {
+      await axios.delete(`/api/share/?id=${encodeURIComponent(id)}`)
+      await mutate()
+      toast.success(t('Share link revoked.'))
+    } catch (err: any) {
+      toast.error(t('Failed to revoke the share link.'))
+    }
+  }
+
+  if (error) {
+    return <p className="p-3 text-sm text-red-500">{JSON.stringify(error.message)}</p>
+  }
+  if (!data) {
+    return <Loading loadingText={t('Loading ...')} />
+  }
+  if (data.links.length === 0) {
+    return <p className="p-3 text-sm text-gray-500">{t('No share links yet.')}</p>
+  }
+
+  return (
+    <div className="divide-y divide-gray-900/10 dark:divide-gray-500/30">
+      {data.links.map(link => (
+        <div key={link.id} className="flex items-center space-x-4 px-3 py-2.5">
+          <div className="w-5 flex-shrink-0 text-center">
+            <FontAwesomeIcon icon={link.isFolder ? ['far', 'folder'] : ['far', 'file']} />
+          </div>
+          <div className="flex-1 truncate">
+            <a
+              href={`/s/${link.id}`}
+              className="block truncate font-medium hover:underline"
+              title={`${getBaseUrl()}/s/${link.id}`}
+            >
+              {link.path}
+            </a>
+            <div className="truncate text-xs text-gray-500">
+              {t('Expires {{date}}', { date: formatModifiedDateTime(new Date(link.expiresAt).toISOString()) })}
+              {' · '}
+              {link.maxDownloads !== null
+                ? t('{{downloads}} of {{max}} downloads', { downloads: link.downloads, max: link.maxDownloads })
+                : t('{{downloads}} downloads', { downloads: link.downloads })}
+              {link.hasPassword && ` · ${t('Password protected')}`}
+              {` · ${link.createdBy}`}
+            </div>
+          </div>
+          <button
+            className="rounded-lg px-2 py-1 text-sm text-red-500 hover:bg-red-500/10"
+            title={t('Revoke')}
+            onClick={() => revoke(link.id)}
+          >
+            <FontAwesomeIcon icon={['far', 'trash-alt']} />
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default function Shares() {
+  const { t } = useTranslation()
+  const { settings } = useSiteSettings()
+  const { user, loaded } = useSession()
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-white dark:bg-gray-900">
+      <Head>
+        <title>{t('Share links - {{title}}', { title: settings.title })}</title>
+      </Head>
+
+      <main className="flex w-full flex-1 flex-col bg-gray-50 dark:bg-gray-800">
+        <Toaster />
+        <Navbar />
+        <div className="mx-auto w-full max-w-5xl py-4 sm:p-4">
+          <div className="rounded bg-white shadow-sm dark:bg-gray-900 dark:text-gray-100">
+            <div className="border-b border-gray-900/10 px-3 py-2 font-bold dark:border-gray-500/30">
+              {t('Share links')}
+            </div>
+            {!loaded ? (
+              <Loading loadingText={t('Loading ...')} />
+            ) : user ? (
+              <ShareLinkList />
+            ) : (
+              <p className="p-3 text-sm text-gray-500">
+                <Link href={{ pathname: '/login', query: { redirect: '/shares' } }} className="underline">
+                  {t('Sign in')}
+                </Link>{' '}
+                {t('to manage your share links.')}
+              </p>
+            )}
+          </div>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  )
+}
+
+export async function getServerSideProps({ locale }) {
+  return {
+    props: {
+      ...(await serverSideTranslations(locale, ['common'])),
+    },
+  }
+}
@@ -57,11 +57,19 @@ export type OdThumbnail = {
 export type OdSearchResult = Array<{
   id: string
   name: string
+  size: number
+  lastModifiedDateTime: string
   file?: OdFileObject
   folder?: OdFolderObject
+  image?: OdImageFile
+  video?: OdVideoFile
   path: string
+  // Id of the drive the item belongs to, only present when multiple drives are mounted
+  drive?: string
   parentReference: { id: string; name: string; path: string }
 }>
+// A page of search results, the next page is fetched with &next=<next> until it is missing
+export type OdSearchResponse = { value: OdSearchResult; next?: string }
 // API response object for /api/item/?id={id}. This is primarily used for determining the path of the driveItem by ID.
 export type OdDriveItem = {
   '@odata.context': string
@@ -69,4 +77,103 @@ export type OdDriveItem = {
   id: string
   name: string
   parentReference: { driveId: string; driveType: string; id: string; path: string }
+  // Absolute path of the item in onedrive-vercel-index, empty if it is outside of the base directory
+  path: string
+}
+// A per-path access rule of a user account or role. The rule applies to the path and everything below it.
+export type OdAccessRule = { path: string; access: 'allow' | 'deny' }
+// API response object for /api/auth/me/ and /api/auth/users/, the public part of a user account.
+// Users signed in with single sign-on are marked with sso, they are named after their email address. Accounts named
+// after an email address are only used by single sign-on with that address if linkSso is set.
+export type OdUserInfo = {
+  name: string
+  roles: string[]
+  rules: OdAccessRule[]
+  disabled?: boolean
+  sso?: boolean
+  linkSso?: boolean
+}
+// A role shared by user accounts, granting its access rules to all of them.
+export type OdRole = { name: string; rules: OdAccessRule[] }
+// Access policy of a folder, read from its .access.json file. The folder is opened for the listed users, users with
+// one of the listed roles, and users signed in with single sign-on if sso is set.
+export type OdAccessPolicy = { users?: string[]; roles?: string[]; sso?: boolean }
+// API response object for /api/share/, a link sharing a file or folder until it expires.
+export type OdShareLink = {
+  id: string
+  // Sanitised absolute path of the shared item, not URL encoded
+  path: string
+  name: string
+  isFolder: boolean
+  createdBy: string
+  createdAt: number
+  expiresAt: number
+  maxDownloads: number | null
+  downloads: number
+  hasPassword: boolean
+}
+// Folders opened for uploads, configured in siteConfig.uploadRoutes: a route pattern, who may upload (like the access
+// policy of a folder), and optional limits of the size (in bytes) and the extensions of uploaded files.
+export type OdUploadRoute = OdAccessPolicy & { route: string; maxSize?: number; extensions?: string[] }
+// API response object for /api/upload/, the limits of uploads into a folder.
+export type OdUploadLimits = { maxSize: number | null; extensions: string[] | null }
+// API response object for /api/upload/[id]/, the progress of an upload session. The next chunk starts at offset,
+// and done is set once the file is complete.
+export type OdUploadProgress = { id: string; offset: number; done: boolean }
+// API response object for /api/request/, a folder turned into a drop box: visitors of the request page can upload
+// files into it until it expires, without seeing what it contains.
+export type OdFileRequest = {
+  id: string
+  // Sanitised absolute path of the folder, not URL encoded
+  path: string
+  name: string
+  // Shown to the visitors uploading files
+  note: string
+  createdBy: string
+  createdAt: number
+  expiresAt: number
+  maxSize: number | null
+  uploads: number
+  hasPassword: boolean
+}
+// API response object for /api/manage/, the outcome for each item of a file management operation. Copies run in the
+// background and carry the id of their monitor, polled through /api/manage/copy/[id]/.
+export type OdManageResult = { path: string; error?: string; copy?: string }
+// API response object for /api/manage/copy/[id]/
+export type OdCopyProgress = { status: 'inProgress' | 'completed' | 'failed'; percentage: number }
+// API response object for /api/admin/. The account and tokens of each drive (account is null when the drive is not
+// authorised or OneDrive cannot be reached), the protected routes of site config with whether their .password file
+// exists (null for patterns with wildcards and exclusions), and the number of entries in each cache.
+export type OdAdminStatus = {
+  drives: {
+    id: string
+    account: { displayName: string; email: string; driveType: string; quota: { used: number; total: number } } | null
+    accessTokenTtl: number
+    hasRefreshToken: boolean
+    tokensStoredAt: number | null
+    // Index of the drive, null when indexing is disabled or the drive has not been indexed yet
+    index: { items: number; syncedAt: number } | null
+  }[]
+  protectedRoutes: { route: string; dotPassword: boolean | null }[]
+  // Store of the drive indexes, null when indexing is disabled
+  caches: { kvStore: string; cacheControlHeader: string; entries: Record<string, number>; driveIndex: string | null }
+}
+// Settings of site.config.js that admins can change at runtime, stored in the KV store with site.config.js as
+// defaults. API response object for /api/settings/.
+export type OdSiteSettings = {
+  title: string
+  footer: string
+  email: string
+  links: { name: string; link: string }[]
+  protectedRoutes: string[]
+  maxItems: number
+}
+// API response object for /api/health/. Anyone can see whether each check passed, as of the last minute, admins also
+// get the problems found, checked right away: configuration mistakes (see config/config.schema.js), whether the KV
+// store answers, and whether each drive can be reached with its tokens.
+export type OdHealthStatus = {
+  ok: boolean
+  config: { ok: boolean; problems?: { path: string; message: string; level: 'error' | 'warning' }[] }
+  kv: { ok: boolean; latency?: number; error?: string }
+  drives: { id: string; ok: boolean; accessTokenTtl?: number; problems?: string[] }[]
 }
@@ -0,0 +1,57 @@
+import type { OdAccessRule } from '../types'
+
+/**
+ * Whether a rule path covers the given path, comparing component by component. Since OneDrive ignores case,
+ * paths are lower cased before comparing.
+ *
+ * @param rulePath Path of the rule, e.g. '/Clients/Acme'
+ * @param path Sanitised absolute path, not URL encoded
+ */
+function rulePathCovers(rulePath: string, path: string): boolean {
+  const r = rulePath.toLowerCase().replace(/\/$/, '') + '/'
+  return (path.toLowerCase() + '/').startsWith(r)
+}
+
+/**
+ * Evaluate per-path allow/deny rules for a path. The most specific matching rule (the one with the longest path)
+ * wins, and deny wins over allow for rules on the same path.
+ *
+ * @param rules Rules of a user and the roles it has
+ * @param path Sanitised absolute path, not URL encoded
+ * @returns 'allow' or 'deny', or null if no rule matches the path
+ */
+export function evaluateAccessRules(rules: OdAccessRule[], path: string): 'allow' | 'deny' | null {
+  let match: OdAccessRule | null = null
+  let matchLength = -1
+
+  for (const rule of rules) {
+    if (typeof rule.path !== 'string' || !rulePathCovers(rule.path, path)) continue
+
+    const length = rule.path.replace(/\/$/, '').length
+    if (length > matchLength || (length === matchLength && rule.access === 'deny')) {
+      match = rule
+      matchLength = length
+    }
+  }
+  return match ? match.access : null
+}
+
+/**
+ * Validate access rules sent by a client
+ *
+ * @param rules Anything parsed from a request body
+ * @returns Whether rules is an array of valid rules
+ */
+export function isValidAccessRules(rules: unknown): rules is OdAccessRule[] {
+  return (
+    Array.isArray(rules) &&
+    rules.every(
+      r =>
+        typeof r === 'object' &&
+        r !== null &&
+        typeof r.path === 'string' &&
+        r.path.startsWith('/') &&
+        (r.access === 'allow' || r.access === 'deny')
+    )
+  )
+}
@@ -0,0 +1,45 @@
+import siteConfig from '../../config/site.config'
+import { getKVStore } from './kvStore'
+
+/**
+ * A .password file as cached in the KV store: its SHA256 hash (the password itself is never stored), the eTag of
+ * the file used to revalidate the entry with OneDrive, and when it was last checked against OneDrive.
+ */
+export type CachedDotPassword = { hash: string; eTag: string; checkedAt: number }
+
+// Cached .password files are used without asking OneDrive for 5 minutes, then revalidated with their eTag
+export const DOT_PASSWORD_FRESH_AGE = 5 * 60
+
+// Entries of routes nobody signs in to are dropped from the KV store after a day
+const DOT_PASSWORD_CACHE_MAX_AGE = 24 * 60 * 60
+
+const dotPasswordKey = (authTokenPath: string) => `${siteConfig.kvPrefix}dot_password:${authTokenPath}`
+
+/**
+ * Read the cached .password file of a protected route
+ *
+ * @param authTokenPath Path to the .password file, as returned by getAuthTokenPath
+ * @returns The cache entry, or null if the route is not cached
+ */
+export async function getCachedDotPassword(authTokenPath: string): Promise<CachedDotPassword | null> {
+  const value = await getKVStore().get(dotPasswordKey(authTokenPath))
+  return value ? JSON.parse(value) : null
+}
+
+export async function setCachedDotPassword(authTokenPath: string, entry: CachedDotPassword): Promise<void> {
+  await getKVStore().set(dotPasswordKey(authTokenPath), JSON.stringify(entry), DOT_PASSWORD_CACHE_MAX_AGE)
+}
+
+/**
+ * Drop the cached .password file of a protected route, so that the next sign in reads it from OneDrive again
+ */
+export async function invalidateCachedDotPassword(authTokenPath: string): Promise<void> {
+  await getKVStore().del(dotPasswordKey(authTokenPath))
+}
+
+/**
+ * Whether a cache entry can be used without revalidating it with OneDrive
+ */
+export function isDotPasswordFresh({ checkedAt }: CachedDotPassword): boolean {
+  return checkedAt + DOT_PASSWORD_FRESH_AGE * 1000 > Date.now()
+}
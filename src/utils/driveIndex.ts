@@ -0,0 +1,420 @@
+import { promises as fs } from 'fs'
+import { join as joinPath, posix as pathPosix, resolve as resolvePath } from 'path'
+
+import axios from 'axios'
+
+import type { OdFolderChildren } from '../types'
+import siteConfig from '../../config/site.config'
+import type { OdDriveConfig } from './drives'
+import { getKVStore, KVStore } from './kvStore'
+
+/**
+ * An index of the files in a drive, kept up to date with delta queries of the OneDrive API, which report what changed
+ * since the last query. Folder listings and search are served from the index when siteConfig.driveIndex is enabled,
+ * with the OneDrive API as fallback for drives and folders not indexed yet.
+ *
+ * https://learn.microsoft.com/en-us/graph/api/driveitem-delta
+ */
+
+// An item of the drive as kept in the index
+export type IndexedItem = {
+  id: string
+  name: string
+  // Null for the root folder of the drive
+  parentId: string | null
+  size: number
+  lastModifiedDateTime: string
+  folder?: true
+  file?: OdFolderChildren['file']
+  image?: OdFolderChildren['image']
+  video?: OdFolderChildren['video']
+}
+
+// The index of a drive as stored: its items, and the delta link to ask for the changes made after it
+export type DriveIndexSnapshot = { rootId: string; items: IndexedItem[]; deltaLink: string; syncedAt: number }
+
+// The index of a drive in memory, with its items by id and the children of each folder
+export type DriveIndex = DriveIndexSnapshot & { byId: Map<string, IndexedItem>; children: Map<string, IndexedItem[]> }
+
+/**
+ * Storage for the index of each drive, which is loaded and saved as a whole
+ */
+export interface DriveIndexStore {
+  load(driveId: string): Promise<DriveIndexSnapshot | null>
+  save(driveId: string, snapshot: DriveIndexSnapshot): Promise<void>
+  clear(driveId: string): Promise<void>
+}
+
+/**
+ * Keep the index in the KV store, as one entry per drive
+ *
+ * @param kv KV store of the deployment
+ */
+export function createKVIndexStore(kv: KVStore): DriveIndexStore {
+  const key = (driveId: string) => `${siteConfig.kvPrefix}drive_index:${driveId}`
+
+  return {
+    load: async driveId => {
+      const value = await kv.get(key(driveId))
+      return value ? JSON.parse(value) : null
+    },
+    save: (driveId, snapshot) => kv.set(key(driveId), JSON.stringify(snapshot)),
+    clear: driveId => kv.del(key(driveId)),
+  }
+}
+
+/**
+ * Keep the index in a local folder, as one JSON file per drive rewritten atomically after each sync
+ *
+ * @param dir Folder of the files, created on first save
+ */
+export function createFileIndexStore(dir: string): DriveIndexStore {
+  // The default drive of single-drive deployments has an empty id
+  const filePath = (driveId: string) => joinPath(resolvePath(dir), `${driveId || '_default'}.json`)
+
+  return {
+    load: async driveId => {
+      try {
+        return JSON.parse(await fs.readFile(filePath(driveId), 'utf8'))
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return null
+        throw error
+      }
+    },
+    save: async (driveId, snapshot) => {
+      await fs.mkdir(resolvePath(dir), { recursive: true })
+      const tmpPath = `${filePath(driveId)}.${process.pid}.tmp`
+      await fs.writeFile(tmpPath, JSON.stringify(snapshot))
+      await fs.rename(tmpPath, filePath(driveId))
+    },
+    clear: async driveId => {
+      await fs.rm(filePath(driveId), { force: true })
+    },
+  }
+}
+
+let indexStore: DriveIndexStore | null = null
+
+/**
+ * Get the index store configured with siteConfig.driveIndex.store
+ */
+export function getDriveIndexStore(): DriveIndexStore {
+  if (!indexStore) {
+    indexStore =
+      siteConfig.driveIndex?.store === 'file'
+        ? createFileIndexStore(process.env.DRIVE_INDEX_DIR || '.drive-index')
+        : createKVIndexStore(getKVStore())
+  }
+  return indexStore
+}
+
+export function isDriveIndexEnabled(): boolean {
+  return Boolean(siteConfig.driveIndex?.enabled)
+}
+
+// Time after which an index is synced again, in milliseconds
+const getMaxAge = () => (siteConfig.driveIndex?.maxAge ?? 300) * 1000
+
+// Changes made through this site are recorded in the KV store, so that every server instance syncs before serving
+const changedAtKey = (driveId: string) => `${siteConfig.kvPrefix}drive_index_changed:${driveId}`
+
+// The indexes loaded and the syncs in progress of this server instance. Kept on globalThis, as each API route is
+// bundled with its own copy of this module.
+type IndexState = {
+  loading: Promise<DriveIndex | null> | null
+  index: DriveIndex | null
+  syncing: Promise<DriveIndex> | null
+}
+declare global {
+  var __odDriveIndexes: Map<string, IndexState> | undefined
+}
+const getStates = () => (globalThis.__odDriveIndexes ??= new Map())
+const getState = (driveId: string): IndexState => {
+  const states = getStates()
+  let state = states.get(driveId)
+  if (!state) {
+    state = { loading: null, index: null, syncing: null }
+    states.set(driveId, state)
+  }
+  return state
+}
+
+function buildIndex(snapshot: DriveIndexSnapshot): DriveIndex {
+  const byId = new Map(snapshot.items.map(item => [item.id, item]))
+  const children = new Map<string, IndexedItem[]>()
+  for (const item of snapshot.items) {
+    if (item.parentId === null) continue
+    const siblings = children.get(item.parentId)
+    if (siblings) siblings.push(item)
+    else children.set(item.parentId, [item])
+  }
+  return { ...snapshot, byId, children }
+}
+
+async function loadIndex(driveId: string): Promise<DriveIndex | null> {
+  const state = getState(driveId)
+  if (!state.loading) {
+    state.loading = getDriveIndexStore()
+      .load(driveId)
+      .then(snapshot => (state.index = snapshot ? buildIndex(snapshot) : null))
+    state.loading.catch(() => (state.loading = null))
+  }
+  await state.loading
+  return state.index
+}
+
+// Fields of the items asked for in delta queries
+const DELTA_SELECT = 'id,name,size,lastModifiedDateTime,folder,file,image,video,parentReference,root,deleted'
+
+function toIndexedItem(item: any): IndexedItem {
+  return {
+    id: item.id,
+    name: item.name,
+    parentId: item.root ? null : item.parentReference?.id ?? null,
+    size: item.size ?? 0,
+    lastModifiedDateTime: item.lastModifiedDateTime,
+    ...(item.folder ? { folder: true } : {}),
+    ...(item.file ? { file: { mimeType: item.file.mimeType, hashes: item.file.hashes ?? {} } } : {}),
+    ...(item.image ? { image: item.image } : {}),
+    ...(item.video ? { video: item.video } : {}),
+  }
+}
+
+/**
+ * Fetch the changes of a drive, following the pages of the delta query to its end
+ *
+ * @param deltaLink Delta link of the last sync, or an empty string to list the whole drive
+ * @returns The changed items, and the delta link for the next sync
+ */
+async function fetchDelta(
+  drive: OdDriveConfig,
+  accessToken: string,
+  deltaLink: string
+): Promise<{ changes: any[]; deltaLink: string }> {
+  const changes: any[] = []
+  let url = deltaLink || `${drive.driveApi}/root/delta`
+  let params: Record<string, string> = deltaLink ? {} : { select: DELTA_SELECT }
+
+  for (;;) {
+    const { data } = await axios.get(url, { headers: { Authorization: `Bearer ${accessToken}` }, params })
+    changes.push(...data.value)
+    if (data['@odata.deltaLink']) return { changes, deltaLink: data['@odata.deltaLink'] }
+    url = data['@odata.nextLink']
+    params = {}
+  }
+}
+
+/**
+ * Sync the index of a drive with its changes since the last sync, or index the whole drive the first time. Syncs of a
+ * drive are not run side by side, callers share the one in progress.
+ *
+ * @param drive Loaded drive, see loadDrive
+ * @param accessToken Access token of the drive
+ * @param rebuild Index the whole drive again, rather than applying the changes since the last sync
+ * @returns The synced index
+ */
+export async function syncDriveIndex(drive: OdDriveConfig, accessToken: string, rebuild = false): Promise<DriveIndex> {
+  const state = getState(drive.id)
+  if (state.syncing) return state.syncing
+
+  state.syncing = (async () => {
+    const current = rebuild ? null : await loadIndex(drive.id)
+    // Changes made while syncing are picked up by the next sync
+    const syncedAt = Date.now()
+
+    let items = new Map(current?.byId)
+    let rootId = current?.rootId ?? ''
+    let delta: { changes: any[]; deltaLink: string }
+    try {
+      delta = await fetchDelta(drive, accessToken, current?.deltaLink ?? '')
+    } catch (error: any) {
+      // The delta link expired, OneDrive then asks for the whole drive to be listed again
+      if (error?.response?.status !== 410 || !current) throw error
+      items = new Map()
+      rootId = ''
+      delta = await fetchDelta(drive, accessToken, '')
+    }
+
+    for (const change of delta.changes) {
+      if (change.deleted) {
+        items.delete(change.id)
+        continue
+      }
+      if (change.root) rootId = change.id
+      items.set(change.id, toIndexedItem(change))
+    }
+
+    // Items inside deleted folders are not always reported, only the ones still reachable from the root are kept
+    const reachable = buildIndex({ rootId, items: Array.from(items.values()), deltaLink: '', syncedAt })
+    const kept: IndexedItem[] = []
+    const queue = rootId && reachable.byId.has(rootId) ? [reachable.byId.get(rootId)!] : []
+    while (queue.length > 0) {
+      const item = queue.pop()!
+      kept.push(item)
+      queue.push(...(reachable.children.get(item.id) ?? []))
+    }
+
+    const snapshot = { rootId, items: kept, deltaLink: delta.deltaLink, syncedAt }
+    await getDriveIndexStore().save(drive.id, snapshot)
+    state.index = buildIndex(snapshot)
+    state.loading = Promise.resolve(state.index)
+    return state.index
+  })()
+
+  try {
+    return await state.syncing
+  } finally {
+    state.syncing = null
+  }
+}
+
+/**
+ * Get the index of a drive to serve listings and search from. An index older than siteConfig.driveIndex.maxAge, or
+ * older than the last change made through this site, is synced before it is served: syncs only ask for the changes
+ * since the last one, and are not left running after the response, when serverless functions may be frozen. The
+ * first request to a drive waits for it to be indexed in full.
+ *
+ * @param drive Loaded drive, see loadDrive
+ * @param accessToken Access token of the drive
+ * @returns The index, or null if indexing is disabled or the drive could not be indexed
+ */
+export async function getDriveIndex(drive: OdDriveConfig, accessToken: string): Promise<DriveIndex | null> {
+  if (!isDriveIndexEnabled()) return null
+
+  const [index, changedAt] = await Promise.all([
+    loadIndex(drive.id),
+    getKVStore()
+      .get(changedAtKey(drive.id))
+      .then(value => Number(value ?? 0)),
+  ])
+  if (index && changedAt < index.syncedAt && Date.now() - index.syncedAt <= getMaxAge()) return index
+
+  // Serve the index as it is if OneDrive cannot be reached
+  return syncDriveIndex(drive, accessToken).catch(error => {
+    console.error(`Failed to sync the index of the drive: ${error}`)
+    return index
+  })
+}
+
+/**
+ * Record that a drive was changed through this site, so that its index is synced before it is used again
+ */
+export async function invalidateDriveIndex(driveId: string): Promise<void> {
+  if (!isDriveIndexEnabled()) return
+  await getKVStore().set(changedAtKey(driveId), String(Date.now()), getMaxAge() / 1000)
+}
+
+/**
+ * Drop the index of a drive, e.g. when its tokens are cleared and it may be authorised with another account
+ */
+export async function clearDriveIndex(driveId: string): Promise<void> {
+  const state = getState(driveId)
+  state.index = null
+  state.loading = null
+  await getDriveIndexStore().clear(driveId)
+}
+
+/**
+ * Number of items in the index of a drive and when it was last synced, for the admin dashboard
+ */
+export async function getDriveIndexStatus(driveId: string): Promise<{ items: number; syncedAt: number } | null> {
+  if (!isDriveIndexEnabled()) return null
+  const index = await loadIndex(driveId)
+  return index ? { items: index.items.length, syncedAt: index.syncedAt } : null
+}
+
+/**
+ * Find an item of the drive by its path, matching names regardless of case as OneDrive does
+ *
+ * @param path Absolute path inside the drive, not URL encoded
+ */
+export function findIndexedItem(index: DriveIndex, path: string): IndexedItem | null {
+  let item = index.byId.get(index.rootId)
+  for (const segment of path.split('/').filter(Boolean)) {
+    const name = segment.toLowerCase()
+    item = index.children.get(item?.id ?? '')?.find(c => c.name.toLowerCase() === name)
+    if (!item) return null
+  }
+  return item ?? null
+}
+
+/**
+ * Absolute path of an item inside the drive
+ */
+export function getIndexedPath(index: DriveIndex, item: IndexedItem): string {
+  const names: string[] = []
+  for (let i: IndexedItem | undefined = item; i && i.parentId !== null; i = index.byId.get(i.parentId)) {
+    names.unshift(i.name)
+  }
+  return `/${names.join('/')}`
+}
+
+/**
+ * An indexed item in the form of the items of folder listings
+ */
+export function toFolderChild(index: DriveIndex, item: IndexedItem): OdFolderChildren {
+  const { parentId, folder, ...fields } = item
+  return {
+    ...fields,
+    ...(folder
+      ? {
+          folder: {
+            childCount: index.children.get(item.id)?.length ?? 0,
+            view: { sortBy: 'name', sortOrder: 'ascending', viewType: 'thumbnails' },
+          },
+        }
+      : {}),
+  } as OdFolderChildren
+}
+
+/**
+ * List a folder of the drive from its index
+ *
+ * @param path Path relative to the base directory of the drive, not URL encoded
+ * @returns Items of the folder, or null if the path is not an indexed folder
+ */
+export function listIndexedFolder(index: DriveIndex, drive: OdDriveConfig, path: string): OdFolderChildren[] | null {
+  const folder = findIndexedItem(index, pathPosix.join(pathPosix.resolve('/', drive.baseDirectory), path))
+  if (!folder?.folder) return null
+  return (index.children.get(folder.id) ?? []).map(c => toFolderChild(index, c))
+}
+
+/**
+ * Search the names of the items in a folder of the drive, every word of the query has to be found
+ *
+ * @param options Folder to search in (relative to the base directory), items to skip and return at most, and a filter
+ * the items found have to pass
+ * @returns Items found with their paths relative to the base directory (not URL encoded), and whether more follow
+ */
+export function searchDriveIndex(
+  index: DriveIndex,
+  drive: OdDriveConfig,
+  query: string,
+  {
+    folder = '/',
+    offset = 0,
+    limit,
+    filter = () => true,
+  }: { folder?: string; offset?: number; limit: number; filter?: (item: OdFolderChildren) => boolean }
+): { found: { item: OdFolderChildren; path: string }[]; more: boolean } {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+  const basePath = pathPosix.resolve('/', drive.baseDirectory).replace(/\/$/, '').toLowerCase()
+  const folderPath = `${basePath}${pathPosix.resolve('/', folder).replace(/\/$/, '').toLowerCase()}/`
+  if (words.length === 0) return { found: [], more: false }
+
+  const found: { item: OdFolderChildren; path: string }[] = []
+  let skipped = 0
+  for (const item of index.items) {
+    const name = item.name.toLowerCase()
+    if (item.parentId === null || !words.every(w => name.includes(w))) continue
+
+    const path = getIndexedPath(index, item)
+    if (!path.toLowerCase().startsWith(folderPath)) continue
+    const child = toFolderChild(index, item)
+    if (!filter(child)) continue
+    if (skipped++ < offset) continue
+    if (found.length === limit) return { found, more: true }
+    found.push({ item: child, path: path.substring(basePath.length) })
+  }
+  return { found, more: false }
+}
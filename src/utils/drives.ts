@@ -0,0 +1,95 @@
+import apiConfig from '../../config/api.config'
+import siteConfig from '../../config/site.config'
+
+// A drive served by this deployment: a OneDrive account or a SharePoint document library
+export type OdDriveConfig = {
+  // Name of the top-level folder the drive is mounted at, empty when only a single drive is served
+  id: string
+  driveApi: string
+  baseDirectory: string
+  userPrincipalName: string
+}
+
+/**
+ * Whether several drives are mounted as top-level folders, configured with siteConfig.drives
+ */
+export function isMultiDrive(): boolean {
+  return Array.isArray(siteConfig.drives) && siteConfig.drives.length > 0
+}
+
+/**
+ * List the drives served by this deployment. Settings missing in siteConfig.drives fall back to the
+ * single-drive settings in site.config.js and api.config.js.
+ *
+ * @returns Configured drives, or the one default drive with an empty id
+ */
+export function getDrives(): OdDriveConfig[] {
+  const defaultDrive = {
+    id: '',
+    driveApi: apiConfig.driveApi,
+    baseDirectory: siteConfig.baseDirectory,
+    userPrincipalName: siteConfig.userPrincipalName,
+  }
+  if (!isMultiDrive()) {
+    return [defaultDrive]
+  }
+  return siteConfig.drives.map((d: Partial<OdDriveConfig> & { id: string }) => ({ ...defaultDrive, ...d }))
+}
+
+/**
+ * Find a drive by its id
+ *
+ * @param id Drive id, empty for the default drive in single-drive mode
+ * @returns The drive, or undefined if there is no such drive
+ */
+export function getDrive(id: string = ''): OdDriveConfig | undefined {
+  return getDrives().find(d => d.id === id)
+}
+
+/**
+ * Split a site path into the drive it belongs to and the path inside that drive. In multi-drive mode the
+ * first path segment is the drive id, otherwise the whole path belongs to the default drive.
+ *
+ * @param path Sanitised absolute path, not URL encoded
+ * @returns The drive and the absolute path relative to its baseDirectory, or null if no drive matches
+ */
+export function resolveDrivePath(path: string): { drive: OdDriveConfig; path: string } | null {
+  if (!isMultiDrive()) {
+    return { drive: getDrives()[0], path }
+  }
+
+  const [, id, ...rest] = path.split('/')
+  const drive = getDrive(id)
+  if (!drive) {
+    return null
+  }
+  return { drive, path: `/${rest.join('/')}` }
+}
+
+/**
+ * Get the root of the Microsoft Graph API a drive API belongs to, e.g. https://graph.microsoft.com/v1.0
+ *
+ * @param driveApi Drive API URL, such as https://graph.microsoft.com/v1.0/sites/{site-id}/drives/{drive-id}
+ * @returns Graph API root URL without trailing slash
+ */
+export function getGraphApi(driveApi: string): string {
+  const match = driveApi.match(/^(https?:\/\/[^/]+\/[^/]+)\/(me|drives|sites|users|groups)(\/|$)/)
+  return match ? match[1] : driveApi.replace(/\/me\/drive$/, '')
+}
+
+/**
+ * Check whether a drive API URL uses one of the supported addressing forms under the given Graph API:
+ * /me/drive, /drives/{drive-id}, /sites/{site-id}/drive or /sites/{site-id}/drives/{drive-id}
+ *
+ * @param driveApi Drive API URL to check
+ * @param graphApi Graph API root the drive API has to belong to
+ * @returns Whether the drive API URL is valid
+ */
+export function isValidDriveApi(driveApi: string, graphApi: string): boolean {
+  if (!driveApi.startsWith(`${graphApi}/`)) {
+    return false
+  }
+  return /^\/(me\/drive|drives\/[^/?#]+|sites\/[^/?#]+\/drive|sites\/[^/?#]+\/drives\/[^/?#]+)$/.test(
+    driveApi.substring(graphApi.length)
+  )
+}
@@ -1,9 +1,10 @@
 import axios from 'axios'
+import type { Cache } from 'swr'
 import useSWRInfinite from 'swr/infinite'
 
-import type { OdAPIResponse } from '../types'
+import type { OdAPIResponse, OdSearchResponse } from '../types'
 
-import { getStoredToken } from './protectedRouteHandler'
+import { getStoredToken, getStoredTokens } from './protectedRouteHandler'
 
 // Common axios fetch function for use with useSWR
 export async function fetcher([url, token]: [url: string, token?: string]): Promise<any> {
@@ -23,9 +24,10 @@ export async function fetcher([url, token]: [url: string, token?: string]): Prom
 /**
  * Paging with useSWRInfinite + protected token support
  * @param path Current query directory path
+ * @param query Sort order and filters of the listing, from toApiQuery, kept on every page
  * @returns useSWRInfinite API
  */
-export function useProtectedSWRInfinite(path: string = '') {
+export function useProtectedSWRInfinite(path: string = '', query: string = '') {
   const hashedToken = getStoredToken(path)
 
   /**
@@ -40,10 +42,10 @@ export function useProtectedSWRInfinite(path: string = '') {
     if (previousPageData && !previousPageData.folder) return null
 
     // First page with no prevPageData
-    if (pageIndex === 0) return [`/api/?path=${path}`, hashedToken]
+    if (pageIndex === 0) return [`/api/?path=${path}${query}`, hashedToken]
 
     // Add nextPage token to API endpoint
-    return [`/api/?path=${path}&next=${previousPageData.next}`, hashedToken]
+    return [`/api/?path=${path}${query}&next=${previousPageData.next}`, hashedToken]
   }
 
   // Disable auto-revalidate, these options are equivalent to useSWRImmutable
@@ -55,3 +57,46 @@ export function useProtectedSWRInfinite(path: string = '') {
   }
   return useSWRInfinite(getNextKey, fetcher, revalidationOptions)
 }
+
+/**
+ * Paging through search results with useSWRInfinite, sending the tokens of every protected route opened so that
+ * their items are found too
+ * @param query Query string of the search, from toSearchQuery, or empty to not search
+ * @returns useSWRInfinite API
+ */
+export function useSearchSWRInfinite(query: string) {
+  const tokens = getStoredTokens().join(',')
+
+  function getNextKey(pageIndex: number, previousPageData: OdSearchResponse): (string | null)[] | null {
+    if (query === '' || (previousPageData && !previousPageData.next)) return null
+    if (pageIndex === 0) return [`/api/search/?${query}`, tokens || null]
+    return [`/api/search/?${query}&next=${previousPageData.next}`, tokens || null]
+  }
+
+  // Results are not revalidated while browsing them, as for listings
+  return useSWRInfinite<OdSearchResponse>(getNextKey, fetcher, {
+    revalidateIfStale: false,
+    revalidateOnFocus: false,
+    revalidateOnReconnect: true,
+  })
+}
+
+/**
+ * Drop the cached listings of folders changed by file management operations, so that they are fetched again when
+ * opened. The global mutate of SWR skips the keys of useSWRInfinite, so the entries are removed from the cache
+ * directly.
+ *
+ * @param cache SWR cache, from useSWRConfig
+ * @param folders URL encoded paths of the folders whose contents changed, as used by useProtectedSWRInfinite
+ * @param trees URL encoded paths of folders renamed, moved or deleted, dropped along with all folders inside them
+ */
+export function invalidateFolderCaches(cache: Cache, folders: string[], trees: string[] = []) {
+  // Keys are serialised from [url, token] with the url quoted, e.g. '$inf$@"/api/?path=/a",null,'
+  const urls = [...folders, ...trees].map(p => `"/api/?path=${p}`)
+  const treeUrls = trees.map(p => `"/api/?path=${p}/`)
+  for (const key of Array.from(cache.keys())) {
+    if (urls.some(u => key.includes(`${u}"`) || key.includes(`${u}&`)) || treeUrls.some(u => key.includes(u))) {
+      cache.delete(key)
+    }
+  }
+}
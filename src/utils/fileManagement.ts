@@ -0,0 +1,49 @@
+import { randomBytes } from 'crypto'
+
+import siteConfig from '../../config/site.config'
+import { getKVStore } from './kvStore'
+
+// A copy in progress: the monitor URL OneDrive returned for it, which is never sent to clients, and the copied item
+export type CopyMonitor = { id: string; name: string; monitorUrl: string }
+
+// Copies run in the background on OneDrive, their monitors are kept for an hour
+const COPY_MONITOR_MAX_AGE = 60 * 60
+
+const copyMonitorKey = (id: string) => `${siteConfig.kvPrefix}copy_monitor:${id}`
+
+/**
+ * Check a new name for a file or folder against the rules of OneDrive
+ *
+ * @returns Error message, or null if the name can be used
+ */
+export function checkItemName(name: unknown): string | null {
+  if (typeof name !== 'string' || name.trim() === '' || name === '.' || name === '..' || name.length > 255) {
+    return 'Name invalid.'
+  }
+  if (/["*:<>?/\\|]/.test(name) || /[. ]$/.test(name) || name !== name.trimStart()) {
+    return 'Name contains characters not allowed by OneDrive.'
+  }
+  return null
+}
+
+/**
+ * Store the monitor URL of a copy, so that clients can poll its progress through /api/manage/copy/{id}
+ *
+ * @param name Name of the copied item
+ * @param monitorUrl URL in the Location header of the copy request
+ * @returns The stored monitor, identified by a random id
+ */
+export async function createCopyMonitor(name: string, monitorUrl: string): Promise<CopyMonitor> {
+  const monitor = { id: randomBytes(16).toString('base64url'), name, monitorUrl }
+  await getKVStore().set(copyMonitorKey(monitor.id), JSON.stringify(monitor), COPY_MONITOR_MAX_AGE)
+  return monitor
+}
+
+export async function getCopyMonitor(id: string): Promise<CopyMonitor | null> {
+  const value = await getKVStore().get(copyMonitorKey(id))
+  return value ? JSON.parse(value) : null
+}
+
+export async function deleteCopyMonitor(id: string): Promise<void> {
+  await getKVStore().del(copyMonitorKey(id))
+}
@@ -0,0 +1,138 @@
+import { randomBytes } from 'crypto'
+
+import type { OdFileRequest } from '../types'
+import siteConfig from '../../config/site.config'
+import { getAncestorFolders } from './folderProtection'
+import { getKVStore } from './kvStore'
+import { hashPassword, verifyPassword } from './userStore'
+
+// A file request as stored in the KV store
+type StoredFileRequest = Omit<OdFileRequest, 'hasPassword'> & { passwordHash?: string }
+
+// File requests may be open for at most 90 days
+export const FILE_REQUEST_MAX_AGE = 90 * 24 * 60 * 60
+
+// Each request is stored under its own key, and its folder points to it, so that drop boxes are found without reading
+// every request and concurrent changes cannot lose one. Neither key expires: once a request expires, its folder stays
+// a drop box, its uploaded files only visible to the creator and admins, until the request is closed.
+const requestKey = (id: string) => `${siteConfig.kvPrefix}file_request:${id}`
+const requestFolderKey = (folder: string) => `${siteConfig.kvPrefix}file_request_folder:${folder}`
+
+// Strip the password hash, so the request can be sent to clients
+function toFileRequest({ passwordHash, ...request }: StoredFileRequest): OdFileRequest {
+  return { ...request, hasPassword: !!passwordHash }
+}
+
+async function getStoredFileRequest(id: string): Promise<StoredFileRequest | null> {
+  const value = await getKVStore().get(requestKey(id))
+  return value === null ? null : JSON.parse(value)
+}
+
+/**
+ * Create a file request for a folder
+ *
+ * @param request Path of the folder (sanitised, not URL encoded), its name, the note shown to uploaders, and the
+ * creator
+ * @param options Lifetime in seconds, optional size limit of uploaded files in bytes and optional password
+ * @returns The created request, or null if the folder already is a drop box
+ */
+export async function createFileRequest(
+  { path, name, note, createdBy }: Pick<OdFileRequest, 'path' | 'name' | 'note' | 'createdBy'>,
+  { expiresIn, maxSize, password }: { expiresIn: number; maxSize?: number; password?: string }
+): Promise<OdFileRequest | null> {
+  const now = Date.now()
+  const request: StoredFileRequest = {
+    id: randomBytes(16).toString('base64url'),
+    path,
+    name,
+    note,
+    createdBy,
+    createdAt: now,
+    expiresAt: now + expiresIn * 1000,
+    maxSize: maxSize ?? null,
+    uploads: 0,
+    ...(password ? { passwordHash: await hashPassword(password) } : {}),
+  }
+
+  // Claim the folder first, so only one of concurrent requests for the same folder is created
+  const folderKey = requestFolderKey(getAncestorFolders(path).pop()!)
+  if (!(await getKVStore().setIfAbsent(folderKey, request.id))) return null
+
+  await getKVStore().set(requestKey(request.id), JSON.stringify(request))
+  return toFileRequest(request)
+}
+
+/**
+ * Find an open file request
+ *
+ * @returns The request, or null if it does not exist, expired or was closed
+ */
+export async function getFileRequest(id: string): Promise<OdFileRequest | null> {
+  const request = await getStoredFileRequest(id)
+  return request && request.expiresAt > Date.now() ? toFileRequest(request) : null
+}
+
+/**
+ * List file requests, open or expired, until they are closed
+ *
+ * @param createdBy Only list the requests created by this user, all requests if not specified
+ */
+export async function listFileRequests(createdBy?: string): Promise<OdFileRequest[]> {
+  const prefix = requestKey('')
+  const ids = (await getKVStore().keys(prefix)).map(key => key.slice(prefix.length))
+  const requests = await Promise.all(ids.map(getStoredFileRequest))
+
+  return requests
+    .filter((r): r is StoredFileRequest => r !== null && (createdBy === undefined || r.createdBy === createdBy))
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map(toFileRequest)
+}
+
+/**
+ * Close a file request, releasing its folder: the files uploaded into it become visible to whoever can access it
+ */
+export async function revokeFileRequest(id: string): Promise<void> {
+  const request = await getStoredFileRequest(id)
+  await getKVStore().del(requestKey(id))
+  if (!request) return
+
+  const folderKey = requestFolderKey(getAncestorFolders(request.path).pop()!)
+  if ((await getKVStore().get(folderKey)) === id) {
+    await getKVStore().del(folderKey)
+  }
+}
+
+/**
+ * Find the file request of the drop box a path is in, open or expired. OneDrive ignores case, so paths are compared in
+ * lower case.
+ *
+ * @param path Sanitised absolute path, not URL encoded
+ * @returns The request of the deepest drop box containing the path (or being the path), or null
+ */
+export async function findFileRequestFolder(path: string): Promise<OdFileRequest | null> {
+  // The root cannot be a drop box, it would lock everyone else out of the whole site
+  const folders = getAncestorFolders(path).filter(f => f !== '/')
+  const ids = await Promise.all(folders.map(f => getKVStore().get(requestFolderKey(f))))
+  for (let i = folders.length - 1; i >= 0; i--) {
+    const request = ids[i] !== null ? await getStoredFileRequest(ids[i]!) : null
+    if (request) return toFileRequest(request)
+  }
+  return null
+}
+
+/**
+ * Check the password of a file request
+ */
+export async function verifyFileRequestPassword(id: string, password: string): Promise<boolean> {
+  const request = await getStoredFileRequest(id)
+  return !!request?.passwordHash && (await verifyPassword(password, request.passwordHash))
+}
+
+/**
+ * Count a file uploaded through a file request
+ */
+export async function recordFileRequestUpload(id: string): Promise<void> {
+  const request = await getStoredFileRequest(id)
+  if (!request) return
+  await getKVStore().set(requestKey(id), JSON.stringify({ ...request, uploads: request.uploads + 1 }))
+}
@@ -0,0 +1,97 @@
+import type { OdAccessPolicy, OdUserInfo } from '../types'
+import siteConfig from '../../config/site.config'
+import { getKVStore } from './kvStore'
+
+/**
+ * Protection files found in a folder: whether it contains a .password file, and the policy of its .access.json file
+ * (null if it has none)
+ */
+export type FolderProtection = { password: boolean; policy: OdAccessPolicy | null }
+
+// Names of the protection files, which are never served to visitors
+export const PROTECTION_FILES = ['.password', '.access.json']
+
+/**
+ * Whether a file is a protection file, which is neither listed nor served. OneDrive ignores case, so names are compared
+ * in lower case.
+ *
+ * @param path Path or name of the file
+ */
+export function isProtectionFile(path: string): boolean {
+  return PROTECTION_FILES.includes((path.split('/').pop() ?? '').toLowerCase())
+}
+
+// Files configuring protection and hidden items, which only admins may change
+export const CONFIG_FILES = [...PROTECTION_FILES, '.odignore']
+
+/**
+ * Whether a file is a configuration file, compared in lower case like protection files
+ *
+ * @param path Path or name of the file
+ */
+export function isConfigFile(path: string): boolean {
+  return CONFIG_FILES.includes((path.split('/').pop() ?? '').toLowerCase())
+}
+
+// Folders are checked for protection files again after 5 minutes, so new .password files apply without a redeploy
+export const FOLDER_PROTECTION_MAX_AGE = 5 * 60
+
+const folderProtectionKey = (folder: string) => `${siteConfig.kvPrefix}folder_protection:${folder}`
+
+/**
+ * List a path and all the folders above it, from the root down, lower cased with a trailing slash
+ *
+ * @param path Sanitised absolute path, not URL encoded
+ * @returns Folders, e.g. ['/', '/a/', '/a/b/'] for '/A/b'
+ */
+export function getAncestorFolders(path: string): string[] {
+  const segments = path.toLowerCase().split('/').filter(Boolean)
+  return Array.from({ length: segments.length + 1 }, (_, i) =>
+    `/${segments.slice(0, i).join('/')}/`.replace(/^\/\/$/, '/')
+  )
+}
+
+export async function getCachedFolderProtection(folder: string): Promise<FolderProtection | null> {
+  const value = await getKVStore().get(folderProtectionKey(folder))
+  return value ? JSON.parse(value) : null
+}
+
+export async function setCachedFolderProtection(folder: string, protection: FolderProtection): Promise<void> {
+  await getKVStore().set(folderProtectionKey(folder), JSON.stringify(protection), FOLDER_PROTECTION_MAX_AGE)
+}
+
+/**
+ * Forget the protection files found in a path and the folders above it, e.g. after adding a .password file
+ */
+export async function invalidateCachedFolderProtection(path: string): Promise<void> {
+  await Promise.all(getAncestorFolders(path).map(f => getKVStore().del(folderProtectionKey(f))))
+}
+
+/**
+ * Parse the contents of a .access.json file. An invalid file yields a policy granting access to nobody, so that
+ * a typo does not expose the folder.
+ */
+export function parseAccessPolicy(content: string): OdAccessPolicy {
+  try {
+    const { users, roles, sso } = JSON.parse(content)
+    const isStringArray = (a: unknown): a is string[] => Array.isArray(a) && a.every(v => typeof v === 'string')
+    return {
+      ...(isStringArray(users) ? { users } : {}),
+      ...(isStringArray(roles) ? { roles } : {}),
+      ...(sso === true ? { sso } : {}),
+    }
+  } catch (error) {
+    return {}
+  }
+}
+
+/**
+ * Whether the access policy of a folder opens it for a signed in user
+ */
+export function isAccessPolicyGranted({ users, roles, sso }: OdAccessPolicy, user: OdUserInfo): boolean {
+  return (
+    (users ?? []).some(u => u.toLowerCase() === user.name.toLowerCase()) ||
+    (roles ?? []).some(r => user.roles.some(ur => ur.toLowerCase() === r.toLowerCase())) ||
+    (!!sso && !!user.sso)
+  )
+}
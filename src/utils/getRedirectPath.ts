@@ -0,0 +1,19 @@
+/**
+ * Read the path to go back to after signing in, which must stay on this site. The target is resolved like browsers
+ * do, so that '//evil.com' or '/\evil.com' are not taken for paths, and must not become one once normalised, as
+ * '/.//evil.com' does.
+ *
+ * @param redirect Value of the redirect query parameter
+ * @returns The path with its query and hash, or '/' if the target is missing or on another site
+ */
+export function getRedirectPath(redirect: unknown): string {
+  if (typeof redirect !== 'string' || !redirect.startsWith('/')) return '/'
+  // Any origin works as the base, only whether the target keeps it matters
+  const base = 'http://localhost'
+  try {
+    const url = new URL(redirect, base)
+    return url.origin === base && !url.pathname.startsWith('//') ? `${url.pathname}${url.search}${url.hash}` : '/'
+  } catch (error) {
+    return '/'
+  }
+}
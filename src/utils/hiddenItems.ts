@@ -0,0 +1,133 @@
+import siteConfig from '../../config/site.config'
+import { getKVStore } from './kvStore'
+
+// A compiled line of an ignore file: the path it matches, relative to the folder of the file, whether it re-includes
+// matching items ('!pattern'), and whether it only matches folders ('pattern/')
+type IgnoreRule = { regex: RegExp; negate: boolean; folderOnly: boolean }
+
+// Ignore patterns that apply below a folder: the global hiddenPatterns at the root, or the .odignore of a folder
+export type IgnoreLayer = { folder: string; rules: IgnoreRule[] }
+
+// Folders are checked for .odignore files again after 5 minutes
+export const ODIGNORE_MAX_AGE = 5 * 60
+
+const odignoreKey = (folder: string) => `${siteConfig.kvPrefix}odignore:${folder}`
+
+/**
+ * Convert a gitignore-style pattern into a regular expression matching relative paths (without leading slash).
+ * Patterns without a slash match names at any depth, others are anchored to the folder of the ignore file.
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.includes('/')
+  pattern = pattern.replace(/^\//, '')
+
+  let source = ''
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i]
+    if (c === '*' && pattern[i + 1] === '*') {
+      // '**/' matches any number of folders, a trailing '/**' everything inside a folder
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?'
+        i += 2
+      } else {
+        source += '.*'
+        i += 1
+      }
+    } else if (c === '*') {
+      source += '[^/]*'
+    } else if (c === '?') {
+      source += '[^/]'
+    } else if (c === '[') {
+      const end = pattern.indexOf(']', i + 1)
+      if (end === -1) {
+        source += '\\['
+      } else {
+        const set = pattern
+          .slice(i + 1, end)
+          .replace(/^!/, '^')
+          .replace(/\\/g, '\\\\')
+        source += `[${set}]`
+        i = end
+      }
+    } else if (c === '\\' && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+    } else {
+      source += c.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}$`, 'i')
+}
+
+/**
+ * Parse ignore patterns, in the format of .gitignore: one pattern per line, '#' starts a comment, a leading '!'
+ * re-includes items hidden by an earlier pattern, and a trailing '/' only matches folders
+ *
+ * @param patterns Contents of an ignore file, or a list of patterns
+ */
+export function parseIgnorePatterns(patterns: string | string[]): IgnoreRule[] {
+  const lines = typeof patterns === 'string' ? patterns.split(/\r?\n/) : patterns
+  return lines
+    .map(l => l.replace(/(?<!\\)\s+$/, ''))
+    .filter(l => l !== '' && !l.startsWith('#'))
+    .map(l => {
+      const negate = l.startsWith('!')
+      const pattern = negate ? l.slice(1) : l.replace(/^\\([#!])/, '$1')
+      return { pattern: pattern.replace(/\/+$/, ''), negate, folderOnly: pattern.endsWith('/') }
+    })
+    .filter(({ pattern }) => pattern !== '')
+    .map(({ pattern, negate, folderOnly }) => ({ regex: patternToRegExp(pattern), negate, folderOnly }))
+}
+
+/**
+ * Decide whether a path is hidden by layers of ignore patterns. Like git, an item inside a hidden folder is hidden
+ * too, and patterns of deeper folders (and later patterns in a file) override earlier ones.
+ *
+ * @param layers Ignore patterns of the root and of the folders above the path, from the root down
+ * @param path Sanitised absolute path, not URL encoded
+ * @param isFolder Whether the path is a folder
+ */
+export function isHiddenByLayers(layers: IgnoreLayer[], path: string, isFolder: boolean): boolean {
+  const segments = path.toLowerCase().split('/').filter(Boolean)
+
+  for (let depth = 1; depth <= segments.length; depth++) {
+    const itemPath = `/${segments.slice(0, depth).join('/')}`
+    const itemIsFolder = depth < segments.length || isFolder
+
+    let hidden = false
+    for (const { folder, rules } of layers) {
+      if (!itemPath.startsWith(folder) || itemPath === folder.replace(/\/$/, '')) continue
+
+      const relativePath = itemPath.slice(folder.length)
+      for (const { regex, negate, folderOnly } of rules) {
+        if ((!folderOnly || itemIsFolder) && regex.test(relativePath)) {
+          hidden = !negate
+        }
+      }
+    }
+    if (hidden) return true
+  }
+  return false
+}
+
+/**
+ * Read the cached .odignore file of a folder
+ *
+ * @param folder Folder path, lower cased with a trailing slash
+ * @returns Contents of the file, empty if the folder has none, or null if the folder is not cached
+ */
+export async function getCachedOdignore(folder: string): Promise<string | null> {
+  return getKVStore().get(odignoreKey(folder))
+}
+
+export async function setCachedOdignore(folder: string, content: string): Promise<void> {
+  await getKVStore().set(odignoreKey(folder), content, ODIGNORE_MAX_AGE)
+}
+
+/**
+ * Forget the .odignore files found in a path and the folders above it
+ *
+ * @param folders Folders as returned by getAncestorFolders
+ */
+export async function invalidateCachedOdignore(folders: string[]): Promise<void> {
+  await Promise.all(folders.map(f => getKVStore().del(odignoreKey(f))))
+}
@@ -0,0 +1,287 @@
+import { promises as fs } from 'fs'
+import { resolve as resolvePath } from 'path'
+
+import axios from 'axios'
+import Redis from 'ioredis'
+
+import siteConfig from '../../config/site.config'
+
+/**
+ * Minimal key-value storage interface used for persisting OneDrive tokens. Every backend only needs to
+ * be able to store strings, with an optional expiry time in seconds.
+ *
+ * ttl() follows Redis semantics: seconds left before expiry, -1 for keys without expiry and -2 for missing keys.
+ * keys() lists the keys starting with a prefix, it walks the whole store and is only meant for admin tasks.
+ * incr() and setIfAbsent() are atomic, for counters and claims shared by concurrent requests: incr() adds one to a
+ * number stored as a string, starting from 0 for missing keys and keeping the expiry, and returns the new number.
+ * setIfAbsent() only stores the value if the key is missing and returns whether it did.
+ */
+export interface KVStore {
+  get(key: string): Promise<string | null>
+  set(key: string, value: string, expiry?: number): Promise<void>
+  del(key: string): Promise<void>
+  ttl(key: string): Promise<number>
+  keys(prefix: string): Promise<string[]>
+  incr(key: string): Promise<number>
+  setIfAbsent(key: string, value: string, expiry?: number): Promise<boolean>
+}
+
+// Redis matches keys with glob patterns, so the prefix is escaped
+const toMatchPattern = (prefix: string) => `${prefix.replace(/[*?[\]\\]/g, '\\$&')}*`
+
+/**
+ * Redis backend, this is the default one, hosted on Upstash
+ * https://vercel.com/integrations/upstash
+ *
+ * @param url Redis connection string, taken from REDIS_URL by default
+ */
+export function createRedisStore(url: string): KVStore {
+  const kv = new Redis(url)
+
+  return {
+    get: key => kv.get(key),
+    set: async (key, value, expiry) => {
+      if (expiry) {
+        await kv.set(key, value, 'EX', expiry)
+      } else {
+        await kv.set(key, value)
+      }
+    },
+    del: async key => {
+      await kv.del(key)
+    },
+    ttl: key => kv.ttl(key),
+    keys: prefix =>
+      new Promise((resolve, reject) => {
+        const keys: string[] = []
+        kv.scanStream({ match: toMatchPattern(prefix), count: 100 })
+          .on('data', (batch: string[]) => keys.push(...batch))
+          .on('end', () => resolve(keys))
+          .on('error', reject)
+      }),
+    incr: key => kv.incr(key),
+    setIfAbsent: async (key, value, expiry) =>
+      (expiry ? await kv.set(key, value, 'EX', expiry, 'NX') : await kv.set(key, value, 'NX')) === 'OK',
+  }
+}
+
+/**
+ * HTTP backend speaking the Upstash Redis REST protocol, which is also what Vercel KV exposes
+ * https://docs.upstash.com/redis/features/restapi
+ *
+ * @param url REST endpoint of the database
+ * @param token Bearer token for the REST endpoint
+ */
+export function createHttpStore(url: string, token: string): KVStore {
+  // Every command is sent as a JSON array to the root of the REST endpoint, e.g. ["SET", "key", "value"]
+  const command = async (args: (string | number)[]) => {
+    const { data } = await axios.post(url, args, {
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    })
+    return data.result
+  }
+
+  return {
+    get: async key => {
+      const result = await command(['GET', key])
+      return typeof result === 'string' ? result : null
+    },
+    set: async (key, value, expiry) => {
+      await command(expiry ? ['SET', key, value, 'EX', expiry] : ['SET', key, value])
+    },
+    del: async key => {
+      await command(['DEL', key])
+    },
+    ttl: async key => Number(await command(['TTL', key])),
+    keys: async prefix => {
+      const keys: string[] = []
+      let cursor = '0'
+      do {
+        const [next, batch] = await command(['SCAN', cursor, 'MATCH', toMatchPattern(prefix), 'COUNT', 100])
+        keys.push(...batch)
+        cursor = String(next)
+      } while (cursor !== '0')
+      return keys
+    },
+    incr: async key => Number(await command(['INCR', key])),
+    setIfAbsent: async (key, value, expiry) =>
+      (await command(expiry ? ['SET', key, value, 'EX', expiry, 'NX'] : ['SET', key, value, 'NX'])) === 'OK',
+  }
+}
+
+type StoredEntry = { value: string; expiresAt?: number }
+
+// Drop the entry if it has an expiry time in the past
+function liveValue(entry?: StoredEntry): string | null {
+  if (!entry) return null
+  if (entry.expiresAt && entry.expiresAt <= Date.now()) return null
+  return entry.value
+}
+
+// Seconds left before the entry expires, in the same form as the Redis TTL command
+function entryTtl(entry?: StoredEntry): number {
+  if (liveValue(entry) === null) return -2
+  return entry?.expiresAt ? Math.ceil((entry.expiresAt - Date.now()) / 1000) : -1
+}
+
+// Entry after incr(), a missing or expired entry counts as 0 and is stored without expiry
+function incrementedEntry(entry?: StoredEntry): StoredEntry {
+  const value = liveValue(entry)
+  return { value: String(Number(value ?? 0) + 1), expiresAt: value === null ? undefined : entry?.expiresAt }
+}
+
+const newEntry = (value: string, expiry?: number): StoredEntry => ({
+  value,
+  expiresAt: expiry ? Date.now() + expiry * 1000 : undefined,
+})
+
+/**
+ * In-memory backend. Nothing survives a restart (or a new serverless instance), so this is only meant for
+ * local development and tests.
+ */
+export function createMemoryStore(): KVStore {
+  const entries = new Map<string, StoredEntry>()
+
+  return {
+    get: async key => {
+      const value = liveValue(entries.get(key))
+      if (value === null) entries.delete(key)
+      return value
+    },
+    set: async (key, value, expiry) => {
+      entries.set(key, newEntry(value, expiry))
+    },
+    del: async key => {
+      entries.delete(key)
+    },
+    ttl: async key => entryTtl(entries.get(key)),
+    keys: async prefix =>
+      Array.from(entries.entries())
+        .filter(([key, entry]) => key.startsWith(prefix) && liveValue(entry) !== null)
+        .map(([key]) => key),
+    incr: async key => {
+      const entry = incrementedEntry(entries.get(key))
+      entries.set(key, entry)
+      return Number(entry.value)
+    },
+    setIfAbsent: async (key, value, expiry) => {
+      if (liveValue(entries.get(key)) !== null) return false
+      entries.set(key, newEntry(value, expiry))
+      return true
+    },
+  }
+}
+
+/**
+ * Local JSON file backend, for self-hosted deployments on a plain server with a persistent disk.
+ * The whole file is read on every access and rewritten atomically on every change.
+ *
+ * @param filePath Path to the JSON file, created on first write
+ */
+export function createFileStore(filePath: string): KVStore {
+  const path = resolvePath(filePath)
+
+  const readEntries = async (): Promise<{ [key: string]: StoredEntry }> => {
+    try {
+      return JSON.parse(await fs.readFile(path, 'utf8'))
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return {}
+      throw error
+    }
+  }
+
+  const writeEntries = async (entries: { [key: string]: StoredEntry }) => {
+    // Drop expired entries on every write so the file does not grow forever
+    const live = Object.fromEntries(Object.entries(entries).filter(([_, entry]) => liveValue(entry) !== null))
+    const tmpPath = `${path}.${process.pid}.tmp`
+    await fs.writeFile(tmpPath, JSON.stringify(live, null, 2))
+    await fs.rename(tmpPath, path)
+  }
+
+  // Serialise writes inside this process, so concurrent token refreshes do not clobber each other
+  let queue: Promise<unknown> = Promise.resolve()
+  const update = (fn: (entries: { [key: string]: StoredEntry }) => void) => {
+    const task = queue.then(async () => {
+      const entries = await readEntries()
+      fn(entries)
+      await writeEntries(entries)
+    })
+    queue = task.catch(() => {})
+    return task
+  }
+
+  return {
+    get: async key => liveValue((await readEntries())[key]),
+    set: async (key, value, expiry) => {
+      await update(entries => {
+        entries[key] = newEntry(value, expiry)
+      })
+    },
+    del: async key => {
+      await update(entries => {
+        delete entries[key]
+      })
+    },
+    ttl: async key => entryTtl((await readEntries())[key]),
+    keys: async prefix =>
+      Object.entries(await readEntries())
+        .filter(([key, entry]) => key.startsWith(prefix) && liveValue(entry) !== null)
+        .map(([key]) => key),
+    incr: async key => {
+      let value = 0
+      await update(entries => {
+        entries[key] = incrementedEntry(entries[key])
+        value = Number(entries[key].value)
+      })
+      return value
+    },
+    setIfAbsent: async (key, value, expiry) => {
+      let stored = false
+      await update(entries => {
+        if (liveValue(entries[key]) !== null) return
+        entries[key] = newEntry(value, expiry)
+        stored = true
+      })
+      return stored
+    },
+  }
+}
+
+/**
+ * Create the storage backend specified by siteConfig.kvStore, reading its connection details from the environment
+ *
+ * @param type One of 'redis', 'http', 'file' or 'memory'
+ * @returns Key-value store of the given type
+ */
+export function createKVStore(type: string): KVStore {
+  switch (type) {
+    case 'redis':
+      return createRedisStore(process.env.REDIS_URL || '')
+    case 'http':
+      return createHttpStore(
+        process.env.KV_REST_API_URL || process.env.UPSTASH_REDIS_REST_URL || '',
+        process.env.KV_REST_API_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN || ''
+      )
+    case 'file':
+      return createFileStore(process.env.KV_FILE_PATH || '.kv-store.json')
+    case 'memory':
+      return createMemoryStore()
+    default:
+      throw new Error(`Unknown kvStore '${type}', expected one of 'redis', 'http', 'file' or 'memory'.`)
+  }
+}
+
+let kvStore: KVStore | null = null
+
+/**
+ * Get the key-value store configured for this deployment. The store is only created on first use, so a
+ * deployment without Redis does not try to connect to one.
+ *
+ * @returns Shared key-value store instance
+ */
+export function getKVStore(): KVStore {
+  if (!kvStore) {
+    kvStore = createKVStore(siteConfig.kvStore)
+  }
+  return kvStore
+}
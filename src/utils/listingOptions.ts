@@ -0,0 +1,126 @@
+// How folder listings are sorted and filtered. This module is shared by the server and the browser: the sort order
+// and filters are sent to /api as query parameters, and appear in the address bar so that views can be shared.
+//
+// - sort: a field and a direction, e.g. 'size desc', forwarded to OneDrive as $orderby
+// - type: only list files of one kind, folders are kept so that they can still be opened
+// - q: only list items whose name contains the text, ignoring case
+// - folders: 'first' lists folders before files, which is done by the browser over the pages loaded
+//
+// Filters are applied by /api to each page returned by OneDrive, so a page may hold fewer items than maxItems, or
+// none, while more pages follow. Folders served from the drive index (see driveIndex.ts) are filtered before paging.
+import type { ParsedUrlQuery } from 'querystring'
+
+import type { OdFolderChildren } from '../types'
+import { getExtension } from './getFileIcon'
+import { getPreviewType, preview } from './getPreviewType'
+
+export const SORT_FIELDS = ['name', 'lastModifiedDateTime', 'size'] as const
+export type SortField = (typeof SORT_FIELDS)[number]
+export type Sort = { field: SortField; order: 'asc' | 'desc' }
+
+export const TYPE_FILTERS = ['images', 'videos', 'documents'] as const
+export type TypeFilter = (typeof TYPE_FILTERS)[number]
+
+export type ListingOptions = { sort: Sort | null; foldersFirst: boolean; type: TypeFilter | null; q: string }
+
+// Preview types of each file type filter
+const typeFilterPreviews: Record<TypeFilter, string[]> = {
+  images: [preview.image],
+  videos: [preview.video],
+  documents: [preview.pdf, preview.office, preview.text, preview.markdown, preview.epub],
+}
+
+/**
+ * Parse the sort query parameter, e.g. 'name asc'
+ *
+ * @returns The sort order, or null if the parameter is missing or invalid
+ */
+export function parseSort(value: unknown): Sort | null {
+  if (typeof value !== 'string') return null
+  const [field, order = 'asc'] = value.trim().split(/\s+/)
+  if (!(SORT_FIELDS as readonly string[]).includes(field) || (order !== 'asc' && order !== 'desc')) return null
+  return { field: field as SortField, order }
+}
+
+export const formatSort = ({ field, order }: Sort) => `${field} ${order}`
+
+export function parseTypeFilter(value: unknown): TypeFilter | null {
+  return (TYPE_FILTERS as readonly unknown[]).includes(value) ? (value as TypeFilter) : null
+}
+
+/**
+ * Read the listing options from a query string, falling back to the preferences of the visitor for the ones missing
+ */
+export function parseListingOptions(query: ParsedUrlQuery, preferred: Omit<ListingOptions, 'q'>): ListingOptions {
+  return {
+    sort: 'sort' in query ? parseSort(query.sort) : preferred.sort,
+    foldersFirst: 'folders' in query ? query.folders === 'first' : preferred.foldersFirst,
+    type: 'type' in query ? parseTypeFilter(query.type) : preferred.type,
+    q: typeof query.q === 'string' ? query.q : '',
+  }
+}
+
+/**
+ * Query parameters for the listing options, to put in the address bar. Options left at their default are omitted.
+ */
+export function toListingQuery(options: ListingOptions): Record<string, string> {
+  return {
+    ...(options.sort ? { sort: formatSort(options.sort) } : {}),
+    ...(options.foldersFirst ? { folders: 'first' } : {}),
+    ...(options.type ? { type: options.type } : {}),
+    ...(options.q ? { q: options.q } : {}),
+  }
+}
+
+/**
+ * Query string of the listing options handled by /api, appended to its URL
+ */
+export function toApiQuery({ sort, type, q }: ListingOptions): string {
+  return [
+    sort ? `&sort=${encodeURIComponent(formatSort(sort))}` : '',
+    type ? `&type=${type}` : '',
+    q ? `&q=${encodeURIComponent(q)}` : '',
+  ].join('')
+}
+
+/**
+ * Whether an item of a folder passes the type and name filters
+ */
+export function matchesListingFilters(
+  item: Pick<OdFolderChildren, 'name' | 'folder' | 'video' | 'image'>,
+  { type, q }: Pick<ListingOptions, 'type' | 'q'>
+): boolean {
+  if (q && !item.name.toLowerCase().includes(q.toLowerCase())) return false
+  if (!type || item.folder) return true
+
+  // OneDrive tells images and videos apart by their facets, other files by their extension
+  if (type === 'images' && item.image) return true
+  if (type === 'videos' && item.video) return true
+  const previewType = getPreviewType(getExtension(item.name), { video: Boolean(item.video) })
+  return !!previewType && typeFilterPreviews[type].includes(previewType)
+}
+
+/**
+ * List folders before files, keeping the order of each
+ */
+export function groupFoldersFirst<T extends Pick<OdFolderChildren, 'folder'>>(items: T[]): T[] {
+  return [...items.filter(c => c.folder), ...items.filter(c => !c.folder)]
+}
+
+/**
+ * Sort the items of a folder as OneDrive does with $orderby, for folders not listed by OneDrive. Names are compared
+ * regardless of case and with their numbers in order, and items are sorted by name when no order is given.
+ */
+export function sortFolderChildren<T extends Pick<OdFolderChildren, 'name' | 'size' | 'lastModifiedDateTime'>>(
+  items: T[],
+  sort: Sort | null
+): T[] {
+  const { field, order } = sort ?? { field: 'name', order: 'asc' }
+  const compare = (a: T, b: T) =>
+    field === 'size'
+      ? a.size - b.size
+      : field === 'lastModifiedDateTime'
+      ? Date.parse(a.lastModifiedDateTime) - Date.parse(b.lastModifiedDateTime)
+      : a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' })
+  return [...items].sort((a, b) => (order === 'desc' ? compare(b, a) : compare(a, b)))
+}
@@ -2,9 +2,12 @@ import axios from 'axios'
 import CryptoJS from 'crypto-js'
 
 import apiConfig from '../../config/api.config'
+import { getGraphApi } from './drives'
 
 // Just a disguise to obfuscate required tokens (including but not limited to client secret,
-// access tokens, and refresh tokens), used along with the following two functions
+// access tokens, and refresh tokens), used along with the following two functions.
+// This key ships with the client bundle so it only hides tokens in transit from the OAuth pages, tokens
+// are encrypted at rest with the server secret TOKEN_ENCRYPTION_KEY instead, see tokenEncryption.ts
 const AES_SECRET_KEY = 'onedrive-vercel-index'
 export function obfuscateToken(token: string): string {
   // Encrypt token with AES
@@ -85,8 +88,9 @@ export async function requestTokenWithAuthCode(
 
 // Verify the identity of the user with the access token and compare it with the userPrincipalName
 // in the Microsoft Graph API. If the userPrincipalName matches, proceed with token storing.
-export async function getAuthPersonInfo(accessToken: string) {
-  const profileApi = apiConfig.driveApi.replace('/drive', '')
+export async function getAuthPersonInfo(accessToken: string, driveApi: string = apiConfig.driveApi) {
+  // The profile is always read from /me, as the drive may belong to a SharePoint site instead of the user
+  const profileApi = `${getGraphApi(driveApi)}/me`
   return axios.get(profileApi, {
     headers: {
       Authorization: `Bearer ${accessToken}`,
@@ -94,13 +98,21 @@ export async function getAuthPersonInfo(accessToken: string) {
   })
 }
 
-export async function sendTokenToServer(accessToken: string, refreshToken: string, expiryTime: string) {
+export async function sendTokenToServer(
+  accessToken: string,
+  refreshToken: string,
+  expiryTime: string,
+  drive: string = '',
+  driveApi: string = ''
+) {
   return await axios.post(
     '/api',
     {
       obfuscatedAccessToken: obfuscateToken(accessToken),
       accessTokenExpiry: parseInt(expiryTime),
       obfuscatedRefreshToken: obfuscateToken(refreshToken),
+      drive,
+      driveApi,
     },
     {
       headers: {
@@ -1,13 +1,42 @@
-import Redis from 'ioredis'
 import siteConfig from '../../config/site.config'
+import { getKVStore } from './kvStore'
+import { decryptToken, encryptToken } from './tokenEncryption'
 
-// Persistent key-value store is provided by Redis, hosted on Upstash
-// https://vercel.com/integrations/upstash
-const kv = new Redis(process.env.REDIS_URL || '')
+// Each drive keeps its own tokens, the default drive of a single-drive deployment uses the unprefixed keys
+const accessTokenKey = (driveId: string) => `${siteConfig.kvPrefix}${driveId ? `${driveId}:` : ''}access_token`
+const refreshTokenKey = (driveId: string) => `${siteConfig.kvPrefix}${driveId ? `${driveId}:` : ''}refresh_token`
+const driveApiKey = (driveId: string) => `${siteConfig.kvPrefix}${driveId ? `${driveId}:` : ''}drive_api`
+const storedAtKey = (driveId: string) => `${siteConfig.kvPrefix}${driveId ? `${driveId}:` : ''}tokens_stored_at`
 
-export async function getOdAuthTokens(): Promise<{ accessToken: unknown; refreshToken: unknown }> {
-  const accessToken = await kv.get(`${siteConfig.kvPrefix}access_token`)
-  const refreshToken = await kv.get(`${siteConfig.kvPrefix}refresh_token`)
+/**
+ * Read and decrypt a token from the KV store. Tokens stored in plaintext or with a rotated-out key are
+ * re-encrypted with the current key in place, keeping their remaining lifetime.
+ *
+ * @param key KV key of the token
+ * @returns Plaintext token, or null if it is missing or cannot be decrypted
+ */
+async function readToken(key: string): Promise<string | null> {
+  const kv = getKVStore()
+  const stored = await kv.get(key)
+  if (stored === null) return null
+
+  const { token, stale } = decryptToken(stored)
+  if (token !== null && stale) {
+    const ttl = await kv.ttl(key)
+    // The key may have expired in between, in which case there is nothing left to migrate
+    if (ttl !== -2) {
+      await kv.set(key, encryptToken(token), ttl > 0 ? ttl : undefined)
+      console.log(`Re-encrypted stored token ${key} with the current key.`)
+    }
+  }
+  return token
+}
+
+// Persistent key-value store is picked with siteConfig.kvStore, Redis hosted on Upstash by default
+// https://vercel.com/integrations/upstash
+export async function getOdAuthTokens(driveId: string = ''): Promise<{ accessToken: unknown; refreshToken: unknown }> {
+  const accessToken = await readToken(accessTokenKey(driveId))
+  const refreshToken = await readToken(refreshTokenKey(driveId))
 
   return {
     accessToken,
@@ -19,11 +48,74 @@ export async function storeOdAuthTokens({
   accessToken,
   accessTokenExpiry,
   refreshToken,
+  driveId = '',
 }: {
   accessToken: string
   accessTokenExpiry: number
   refreshToken: string
+  driveId?: string
 }): Promise<void> {
-  await kv.set(`${siteConfig.kvPrefix}access_token`, accessToken, 'EX', accessTokenExpiry)
-  await kv.set(`${siteConfig.kvPrefix}refresh_token`, refreshToken)
+  const kv = getKVStore()
+  // Tokens are encrypted at rest with TOKEN_ENCRYPTION_KEY, so a leaked KV snapshot is useless on its own
+  await kv.set(accessTokenKey(driveId), encryptToken(accessToken), accessTokenExpiry)
+  await kv.set(refreshTokenKey(driveId), encryptToken(refreshToken))
+  // Tokens are stored after OAuth and after every refresh, which the admin dashboard reports
+  await kv.set(storedAtKey(driveId), String(Date.now()))
+}
+
+/**
+ * Get the state of the stored tokens of a drive, without decrypting them
+ *
+ * @param driveId Drive to check, the default drive if not specified
+ * @returns Seconds left before the access token expires (0 if it is missing), whether a refresh token is stored, and
+ * when the tokens were last stored (null if unknown)
+ */
+export async function getOdAuthTokenStatus(
+  driveId: string = ''
+): Promise<{ accessTokenTtl: number; hasRefreshToken: boolean; storedAt: number | null }> {
+  const kv = getKVStore()
+  const [ttl, refreshToken, storedAt] = await Promise.all([
+    kv.ttl(accessTokenKey(driveId)),
+    kv.get(refreshTokenKey(driveId)),
+    kv.get(storedAtKey(driveId)),
+  ])
+  return {
+    accessTokenTtl: Math.max(ttl, 0),
+    hasRefreshToken: refreshToken !== null,
+    storedAt: storedAt ? Number(storedAt) : null,
+  }
+}
+
+/**
+ * Forget the tokens of a drive, which then has to go through OAuth again
+ *
+ * @param driveId Drive to clear the tokens of, the default drive if not specified
+ */
+export async function clearOdAuthTokens(driveId: string = ''): Promise<void> {
+  const kv = getKVStore()
+  await Promise.all([kv.del(accessTokenKey(driveId)), kv.del(refreshTokenKey(driveId)), kv.del(storedAtKey(driveId))])
+}
+
+/**
+ * Get the drive API picked by the admin during OAuth, which overrides the configured driveApi
+ *
+ * @param driveId Drive to get the picked drive API of, the default drive if not specified
+ * @returns The picked drive API URL, or null if the configured one is used
+ */
+export async function getOdDriveApi(driveId: string = ''): Promise<string | null> {
+  return getKVStore().get(driveApiKey(driveId))
+}
+
+/**
+ * Store the drive API picked by the admin during OAuth
+ *
+ * @param driveApi Picked drive API URL, an empty string goes back to the configured driveApi
+ * @param driveId Drive the drive API is picked for, the default drive if not specified
+ */
+export async function storeOdDriveApi(driveApi: string, driveId: string = ''): Promise<void> {
+  if (driveApi) {
+    await getKVStore().set(driveApiKey(driveId), driveApi)
+  } else {
+    await getKVStore().del(driveApiKey(driveId))
+  }
 }
@@ -0,0 +1,220 @@
+import { createHash, createPublicKey, randomBytes, verify } from 'crypto'
+
+import axios from 'axios'
+import type { NextApiRequest } from 'next'
+
+import siteConfig from '../../config/site.config'
+import { getKVStore } from './kvStore'
+
+// Provider metadata from /.well-known/openid-configuration
+type OidcDiscovery = {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  jwks_uri: string
+}
+
+// Identity of a user signed in through the identity provider
+export type OidcIdentity = { email: string; groups: string[] }
+
+// Login attempts expire after 10 minutes
+const STATE_MAX_AGE = 10 * 60
+
+// Clock skew tolerated when checking the expiry of ID tokens, in seconds
+const CLOCK_SKEW = 60
+
+const stateKey = (state: string) => `${siteConfig.kvPrefix}oidc_state:${state}`
+
+const discoveryCache = new Map<string, OidcDiscovery>()
+
+/**
+ * Whether single sign-on is configured, see siteConfig.oidc
+ */
+export function isOidcEnabled(): boolean {
+  return !!(siteConfig.oidc?.issuer && siteConfig.oidc?.clientId)
+}
+
+/**
+ * Fetch the metadata of the identity provider, cached for the lifetime of the server
+ */
+async function discover(): Promise<OidcDiscovery> {
+  const issuer = siteConfig.oidc.issuer.replace(/\/$/, '')
+  const cached = discoveryCache.get(issuer)
+  if (cached) return cached
+
+  const { data } = await axios.get(`${issuer}/.well-known/openid-configuration`)
+  discoveryCache.set(issuer, data)
+  return data
+}
+
+/**
+ * The callback URL registered with the identity provider, 'OIDC_REDIRECT_URI' or derived from the request host
+ */
+function getRedirectUri(req: NextApiRequest): string {
+  if (process.env.OIDC_REDIRECT_URI) return process.env.OIDC_REDIRECT_URI
+
+  const proto = (req.headers['x-forwarded-proto'] as string)?.split(',')[0] ?? 'http'
+  return `${proto}://${req.headers.host}/api/auth/oidc/callback/`
+}
+
+const base64UrlSha256 = (value: string) => createHash('sha256').update(value).digest('base64url')
+
+/**
+ * Start signing in: remember the login attempt, and build the URL of the identity provider to redirect to.
+ * The authorization code flow with PKCE and a nonce is used.
+ *
+ * @param req Next.js request object
+ * @param redirect Path on this site to return to after signing in
+ * @returns Authorization URL of the identity provider
+ */
+export async function getAuthorizationUrl(req: NextApiRequest, redirect: string): Promise<string> {
+  const { authorization_endpoint } = await discover()
+
+  const state = randomBytes(16).toString('base64url')
+  const nonce = randomBytes(16).toString('base64url')
+  const codeVerifier = randomBytes(32).toString('base64url')
+  await getKVStore().set(stateKey(state), JSON.stringify({ nonce, codeVerifier, redirect }), STATE_MAX_AGE)
+
+  const url = new URL(authorization_endpoint)
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: siteConfig.oidc.clientId,
+    redirect_uri: getRedirectUri(req),
+    scope: 'openid email profile',
+    state,
+    nonce,
+    code_challenge: base64UrlSha256(codeVerifier),
+    code_challenge_method: 'S256',
+  }).toString()
+  return url.toString()
+}
+
+/**
+ * Verify the signature and claims of an ID token with the keys published by the identity provider
+ *
+ * @returns Claims of the token, or null if the token is invalid
+ */
+async function verifyIdToken(idToken: string, discovery: OidcDiscovery, nonce: string): Promise<any | null> {
+  const [encodedHeader, encodedPayload, signature] = idToken.split('.')
+  if (!encodedHeader || !encodedPayload || !signature) return null
+
+  const header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString())
+  if (header.alg !== 'RS256' && header.alg !== 'ES256') return null
+
+  const { data: jwks } = await axios.get(discovery.jwks_uri)
+  const jwk = jwks.keys.find(k => k.kid === header.kid) ?? (jwks.keys.length === 1 ? jwks.keys[0] : undefined)
+  if (!jwk) return null
+
+  const key = createPublicKey({ key: jwk, format: 'jwk' })
+  const valid = verify(
+    'sha256',
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    header.alg === 'ES256' ? { key, dsaEncoding: 'ieee-p1363' } : key,
+    Buffer.from(signature, 'base64url')
+  )
+  if (!valid) return null
+
+  const claims = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString())
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+  if (
+    claims.iss !== discovery.issuer ||
+    !audience.includes(siteConfig.oidc.clientId) ||
+    typeof claims.exp !== 'number' ||
+    claims.exp + CLOCK_SKEW < Date.now() / 1000 ||
+    claims.nonce !== nonce
+  ) {
+    return null
+  }
+  return claims
+}
+
+/**
+ * Find the email address users are named after, which the identity provider must have verified. Other claims, such
+ * as preferred_username, can often be chosen by the users themselves, except in the Entra ID tenants listed in
+ * siteConfig.oidc.trustedTenants where only admins set them.
+ *
+ * @returns The email address, or null if the ID token has no verified one
+ */
+function getVerifiedEmail(claims: any): string | null {
+  const trustedTenants: string[] = siteConfig.oidc.trustedTenants ?? []
+  if (typeof claims.tid === 'string' && trustedTenants.includes(claims.tid)) {
+    const email = [claims.email, claims.preferred_username].find(c => typeof c === 'string' && c.includes('@'))
+    return email ?? null
+  }
+
+  // xms_edov is the optional claim of Entra ID telling the domain owner of the address was verified
+  const verified = claims.email_verified === true || claims.xms_edov === true
+  return typeof claims.email === 'string' && verified ? claims.email : null
+}
+
+/**
+ * Whether an identity may sign in, according to siteConfig.oidc.allowedDomains and allowedGroups
+ */
+function isIdentityAllowed({ email, groups }: OidcIdentity): boolean {
+  const allowedDomains: string[] = siteConfig.oidc.allowedDomains ?? []
+  const allowedGroups: string[] = siteConfig.oidc.allowedGroups ?? []
+
+  const domain = email.split('@').pop()?.toLowerCase()
+  if (allowedDomains.length > 0 && !allowedDomains.some(d => d.toLowerCase() === domain)) {
+    return false
+  }
+  if (allowedGroups.length > 0 && !groups.some(g => allowedGroups.includes(g))) {
+    return false
+  }
+  return true
+}
+
+/**
+ * Finish signing in: redeem the authorization code sent back by the identity provider and check the identity
+ *
+ * @param req Next.js request object of the callback
+ * @param code Authorization code
+ * @param state State of the login attempt, see getAuthorizationUrl
+ * @returns The identity and the path to return to if successful, otherwise an error status and message
+ */
+export async function handleCallback(
+  req: NextApiRequest,
+  code: string,
+  state: string
+): Promise<{ code: 200; identity: OidcIdentity; redirect: string } | { code: 400 | 401 | 403 | 500; message: string }> {
+  const stored = await getKVStore().get(stateKey(state))
+  if (!stored) {
+    return { code: 400, message: 'Login attempt expired, please try again.' }
+  }
+  // Each login attempt can only be used once
+  await getKVStore().del(stateKey(state))
+  const { nonce, codeVerifier, redirect } = JSON.parse(stored)
+
+  try {
+    const discovery = await discover()
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: getRedirectUri(req),
+      client_id: siteConfig.oidc.clientId,
+      client_secret: process.env.OIDC_CLIENT_SECRET ?? '',
+      code_verifier: codeVerifier,
+    })
+    const { data } = await axios.post(discovery.token_endpoint, body, {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    })
+
+    const claims = typeof data.id_token === 'string' ? await verifyIdToken(data.id_token, discovery, nonce) : null
+    if (!claims) {
+      return { code: 401, message: 'Invalid ID token.' }
+    }
+
+    const email = getVerifiedEmail(claims)
+    if (!email) {
+      return { code: 401, message: 'No verified email address in ID token.' }
+    }
+    const identity = { email: email.toLowerCase(), groups: Array.isArray(claims.groups) ? claims.groups : [] }
+    if (!isIdentityAllowed(identity)) {
+      return { code: 403, message: 'This account is not allowed to sign in.' }
+    }
+    return { code: 200, identity, redirect }
+  } catch (error: any) {
+    console.error('OIDC sign in failed:', error?.response?.data ?? error)
+    return { code: 500, message: 'Failed to sign in with the identity provider.' }
+  }
+}
@@ -1,58 +1,78 @@
 import sha256 from 'crypto-js/sha256'
-import siteConfig from '../../config/site.config'
+import { matchRoute } from './routeMatcher'
 
-// Hash password token with SHA256
-function encryptToken(token: string): string {
-  return sha256(token).toString()
+// Fetch the token of the protected route a path belongs to from localStorage. Tokens are issued by
+// /api/auth/login after entering the password of the route, the password itself is never stored.
+// Since routes are also discovered by the server from .password files, the token of the deepest stored route
+// covering the path is used, rather than matching the routes in site config.
+export function getStoredToken(path: string): string | null {
+  const folder = decodeRoutePath(path).toLowerCase().replace(/\/?$/, '/')
+  const route = getStoredTokenRoutes()
+    .filter(r => folder.startsWith(r))
+    .reduce((deepest, r) => (r.length > deepest.length ? r : deepest), '')
+  const storedToken = route ? JSON.parse(localStorage.getItem(route) as string) : ''
+  return storedToken ? storedToken : null
 }
 
-// Fetch stored token from localStorage and encrypt with SHA256
-export function getStoredToken(path: string): string | null {
-  const storedToken =
-    typeof window !== 'undefined' ? JSON.parse(localStorage.getItem(matchProtectedRoute(path)) as string) : ''
-  return storedToken ? encryptToken(storedToken) : null
+/**
+ * Hash a password, or the contents of a .password file, with SHA256 after trimming surrounding whitespace
+ * @param password password entered by the user, or non-hashed .password file
+ * @returns hex encoded hash
+ */
+export function hashDotPassword(password: string): string {
+  return sha256(password.trim()).toString()
 }
 
 /**
- * Compares the hash of .password and od-protected-token header
- * @param odTokenHeader od-protected-token header (sha256 hashed token)
- * @param dotPassword non-hashed .password file
- * @returns whether the two hashes are the same
+ * Compares a password entered by the user with the contents of .password, by their SHA256 hashes
+ * @param password password entered by the user
+ * @param dotPasswordHash hash of the .password file, see hashDotPassword
+ * @returns whether the two passwords are the same
  */
-export function compareHashedToken({
-  odTokenHeader,
-  dotPassword,
-}: {
-  odTokenHeader: string
-  dotPassword: string
-}): boolean {
-  return encryptToken(dotPassword.trim()) === odTokenHeader
+export function comparePassword(password: string, dotPasswordHash: string): boolean {
+  return hashDotPassword(password) === dotPasswordHash
 }
 /**
- * Match the specified route against a list of predefined routes
- * @param route directory path
- * @returns whether the directory is protected
+ * Match the specified route against the protected routes of the site settings, the same way the server does
+ * @param route directory path, URL encoded as in the address bar
+ * @param protectedRoutes protected routes of the site settings, see useSiteSettings
+ * @returns the protected route the directory belongs to (lower cased with a trailing slash), which is also the key of
+ * its token in localStorage, or empty string if the directory is not protected
  */
+export function matchProtectedRoute(route: string, protectedRoutes: string[]): string {
+  return matchRoute(decodeRoutePath(route), protectedRoutes)
+}
 
-export function matchProtectedRoute(route: string): string {
-  const protectedRoutes: string[] = siteConfig.protectedRoutes
-  let authTokenPath = ''
-
-  for (const r of protectedRoutes) {
-    // protected route array could be empty
-    if (r) {
-      if (
-        route.startsWith(
-          r
-            .split('/')
-            .map(p => encodeURIComponent(p))
-            .join('/')
-        )
-      ) {
-        authTokenPath = r
-        break
+// Decode a path as found in the address bar, dropping the query string and hash
+function decodeRoutePath(route: string): string {
+  return route
+    .split(/[?#]/)[0]
+    .split('/')
+    .map(p => {
+      try {
+        return decodeURIComponent(p)
+      } catch (error) {
+        return p
       }
-    }
-  }
-  return authTokenPath
+    })
+    .join('/')
+}
+
+/**
+ * List the protected routes a token is stored for in localStorage. Tokens are stored under the route they open,
+ * which always starts with a slash.
+ * @returns keys of the stored tokens
+ */
+export function getStoredTokenRoutes(): string[] {
+  return typeof window !== 'undefined' ? Object.keys(localStorage).filter(k => k.startsWith('/')) : []
+}
+
+/**
+ * Collect the tokens of every protected route opened, for requests reaching into several routes such as searches
+ * @returns tokens stored in localStorage, see getStoredTokenRoutes
+ */
+export function getStoredTokens(): string[] {
+  return getStoredTokenRoutes()
+    .map(route => JSON.parse(localStorage.getItem(route) as string))
+    .filter(Boolean)
 }
@@ -0,0 +1,115 @@
+// Route patterns, as used by siteConfig.protectedRoutes and siteConfig.ssoRoutes. This module is shared by the
+// server and the browser, so that both agree on the route a path belongs to.
+//
+// A pattern is a path whose components may contain wildcards:
+// - '*' matches any characters inside one component, e.g. '/Clients/*/Invoices' or '/Photos/20*'
+// - '?' matches a single character inside one component
+// - '**' matches any number of components (including none), e.g. '**/private' matches a 'private' folder anywhere
+// - a leading '!' makes the pattern an exclusion: matching paths are not part of any route
+//
+// A pattern covers the folder it matches and everything inside it. When several patterns cover a path, the most
+// specific one wins: the one matching the deepest folder, then the one with the most literal components. An
+// exclusion wins over a route of the same specificity.
+
+// A parsed pattern: its components, lower cased since OneDrive ignores case, and whether it is an exclusion
+type RoutePattern = { segments: string[]; exclude: boolean }
+
+// How a pattern matched a path: the number of path components it consumed, and how many were literal matches
+type PatternMatch = { depth: number; literals: number }
+
+const parsePattern = (pattern: string): RoutePattern => {
+  const exclude = pattern.startsWith('!')
+  const segments = (exclude ? pattern.slice(1) : pattern).toLowerCase().split('/').filter(Boolean)
+  return { segments, exclude }
+}
+
+const isLiteral = (segment: string) => !/[*?]/.test(segment)
+
+const segmentRegExps = new Map<string, RegExp>()
+
+/**
+ * Whether a path component matches a pattern component, which may contain '*' and '?'
+ */
+function matchSegment(patternSegment: string, segment: string): boolean {
+  if (isLiteral(patternSegment)) return patternSegment === segment
+
+  let re = segmentRegExps.get(patternSegment)
+  if (!re) {
+    const source = patternSegment
+      .split('')
+      .map(c => (c === '*' ? '.*' : c === '?' ? '.' : c.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+      .join('')
+    re = new RegExp(`^${source}$`)
+    segmentRegExps.set(patternSegment, re)
+  }
+  return re.test(segment)
+}
+
+/**
+ * Match a pattern against the leading components of a path. '**' consumes as few components as possible, so that
+ * the route ends at the first folder matching the rest of the pattern.
+ *
+ * @returns How the pattern matched, or null if it does not cover the path
+ */
+function matchPattern(pattern: string[], path: string[], p = 0, s = 0): PatternMatch | null {
+  if (p === pattern.length) return { depth: s, literals: 0 }
+
+  if (pattern[p] === '**') {
+    for (let skip = s; skip <= path.length; skip++) {
+      const match = matchPattern(pattern, path, p + 1, skip)
+      if (match) return match
+    }
+    return null
+  }
+
+  if (s === path.length || !matchSegment(pattern[p], path[s])) return null
+  const match = matchPattern(pattern, path, p + 1, s + 1)
+  return match && { ...match, literals: match.literals + (isLiteral(pattern[p]) ? 1 : 0) }
+}
+
+/**
+ * Find the route a path belongs to, or the folder excluded from routes it is in
+ *
+ * @param path Absolute path, not URL encoded
+ * @param patterns Route patterns from site config
+ * @returns The folder matched by the most specific pattern, lower cased with a trailing slash (e.g. '/clients/acme/'
+ * for the pattern '/Clients/*'), as the route if it is a route or as excluded if an exclusion wins. Both are empty
+ * strings if no pattern matches.
+ */
+export function matchRouteOrExclusion(path: string, patterns: string[]): { route: string; excluded: string } {
+  const segments = path.toLowerCase().split('/').filter(Boolean)
+
+  let best: (PatternMatch & { exclude: boolean }) | null = null
+  for (const p of patterns ?? []) {
+    if (typeof p !== 'string' || p === '' || p === '!') continue
+
+    const { segments: pattern, exclude } = parsePattern(p)
+    const match = matchPattern(pattern, segments)
+    if (!match) continue
+
+    if (
+      !best ||
+      match.depth > best.depth ||
+      (match.depth === best.depth &&
+        (match.literals > best.literals || (match.literals === best.literals && exclude && !best.exclude)))
+    ) {
+      best = { ...match, exclude }
+    }
+  }
+
+  if (!best) return { route: '', excluded: '' }
+  const folder = `/${segments.slice(0, best.depth).join('/')}/`.replace(/^\/\/$/, '/')
+  return best.exclude ? { route: '', excluded: folder } : { route: folder, excluded: '' }
+}
+
+/**
+ * Find the route a path belongs to
+ *
+ * @param path Absolute path, not URL encoded
+ * @param patterns Route patterns from site config
+ * @returns The folder matched by the most specific pattern, see matchRouteOrExclusion. If no pattern matches, or an
+ * exclusion wins, return empty string.
+ */
+export function matchRoute(path: string, patterns: string[]): string {
+  return matchRouteOrExclusion(path, patterns).route
+}
@@ -0,0 +1,145 @@
+import { createHmac, hkdfSync, randomBytes, timingSafeEqual } from 'crypto'
+
+import siteConfig from '../../config/site.config'
+import { getKVStore } from './kvStore'
+
+// Tokens of protected routes expire after a week, the password has to be entered again afterwards
+export const ROUTE_TOKEN_MAX_AGE = 7 * 24 * 60 * 60
+
+// Claims of a route token: the protected route it opens, its expiry in seconds and a unique id for revocation
+type RouteTokenPayload = { route: string; exp: number; iat: number; jti: string }
+
+const revokedKey = (jti: string) => `${siteConfig.kvPrefix}revoked_token:${jti}`
+const routeRevokedBeforeKey = (route: string) => `${siteConfig.kvPrefix}route_revoked_before:${route}`
+
+// Error returned where tokens are issued while no secret is set to sign them
+export const ROUTE_TOKEN_SECRET_MISSING =
+  'Tokens cannot be signed: set the env variable AUTH_SECRET to a long random string (e.g. openssl rand -hex 32).'
+
+/**
+ * Read the secret signing route tokens from 'AUTH_SECRET', which is only known to the server. Neither the client
+ * secret, which can be revealed from api.config.js by anyone, nor TOKEN_ENCRYPTION_KEY is used, so that each secret
+ * can be rotated on its own.
+ */
+function getSigningSecret(): string {
+  return process.env.AUTH_SECRET ?? ''
+}
+
+/**
+ * Whether a secret is set to sign route tokens. Without one, no token is issued and none is accepted.
+ */
+export function isRouteTokenSigningEnabled(): boolean {
+  return getSigningSecret() !== ''
+}
+
+function getSigningKey(): Buffer {
+  const secret = getSigningSecret()
+  if (!secret) throw new Error(ROUTE_TOKEN_SECRET_MISSING)
+  return Buffer.from(hkdfSync('sha256', secret, '', 'onedrive-vercel-index route token', 32))
+}
+
+const signPayload = (encodedPayload: string) =>
+  createHmac('sha256', getSigningKey()).update(encodedPayload).digest('base64url')
+
+/**
+ * Issue a token opening a protected route, once its password has been verified
+ *
+ * @param route Protected route, lower cased with a trailing slash as returned by getAuthTokenPath without '.password'
+ * @returns Token in the form '<payload>.<signature>', both base64url encoded
+ */
+export function issueRouteToken(route: string): string {
+  const iat = Math.floor(Date.now() / 1000)
+  const payload: RouteTokenPayload = {
+    route,
+    iat,
+    exp: iat + ROUTE_TOKEN_MAX_AGE,
+    jti: randomBytes(12).toString('base64url'),
+  }
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return `${encodedPayload}.${signPayload(encodedPayload)}`
+}
+
+/**
+ * Check the signature and expiry of a route token, without checking for revocation
+ *
+ * @param token Token sent by the client
+ * @returns Claims of the token, or null if it is malformed, forged or expired
+ */
+function decodeRouteToken(token: string): RouteTokenPayload | null {
+  const [encodedPayload, signature] = (token ?? '').split('.')
+  if (!encodedPayload || !signature || !isRouteTokenSigningEnabled()) return null
+
+  const expected = Buffer.from(signPayload(encodedPayload))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+
+  try {
+    const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString())
+    return typeof payload.exp === 'number' && payload.exp > Date.now() / 1000 ? payload : null
+  } catch (error) {
+    return null
+  }
+}
+
+/**
+ * Read the protected route a token was issued for, to pick the token of a path among several
+ *
+ * @returns The route, or null if the token is malformed, forged or expired
+ */
+export function getRouteTokenRoute(token: string): string | null {
+  return decodeRouteToken(token)?.route ?? null
+}
+
+/**
+ * Validate a route token for a protected route. The .password file is not downloaded, only the revocation
+ * markers are read from the KV store.
+ *
+ * @param token Token sent by the client in the od-protected-token header or the odpt query parameter
+ * @param route Protected route of the requested path
+ * @returns Whether the token opens the route
+ */
+export async function verifyRouteToken(token: string, route: string): Promise<boolean> {
+  const payload = decodeRouteToken(token)
+  if (!payload || payload.route !== route) return false
+
+  const [revoked, revokedBefore] = await Promise.all([
+    getKVStore().get(revokedKey(payload.jti)),
+    getKVStore().get(routeRevokedBeforeKey(route)),
+  ])
+  return revoked === null && (revokedBefore === null || payload.iat > parseInt(revokedBefore))
+}
+
+/**
+ * Revoke a single route token, e.g. when signing out. Invalid tokens are ignored.
+ */
+export async function revokeRouteToken(token: string): Promise<void> {
+  const payload = decodeRouteToken(token)
+  if (!payload) return
+
+  // The marker is only needed until the token expires anyway
+  const ttl = Math.max(1, Math.ceil(payload.exp - Date.now() / 1000))
+  await getKVStore().set(revokedKey(payload.jti), '1', ttl)
+}
+
+/**
+ * Revoke all tokens issued for a protected route so far, e.g. after changing its password
+ *
+ * @param route Protected route, lower cased with a trailing slash
+ */
+export async function revokeAllRouteTokens(route: string): Promise<void> {
+  // Kept without expiry, as share links created with a token of the route are checked against it for as long as
+  // they last, see isRouteRevokedSince
+  await getKVStore().set(routeRevokedBeforeKey(route), `${Math.floor(Date.now() / 1000)}`)
+}
+
+/**
+ * Whether all tokens of a protected route were revoked since a time, e.g. since a share link of the route was created
+ * by a user who had opened it with its password
+ *
+ * @param route Protected route, lower cased with a trailing slash
+ * @param since Milliseconds since the epoch
+ */
+export async function isRouteRevokedSince(route: string, since: number): Promise<boolean> {
+  const revokedBefore = await getKVStore().get(routeRevokedBeforeKey(route))
+  return revokedBefore !== null && parseInt(revokedBefore) * 1000 >= since
+}
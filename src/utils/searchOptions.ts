@@ -0,0 +1,162 @@
+// What a search looks for and where. This module is shared by the server and the browser: the options are sent to
+// /api/search as query parameters, and appear in the address bar of the search page so that searches can be shared.
+//
+// - q: words to search for, OneDrive also matches the contents of files while the drive index only matches names
+// - path: folder to search in, '/' searches every drive
+// - type, ext: only find files of one kind (see listingOptions.ts) or with one of the extensions, e.g. 'pdf,docx'
+// - minSize, maxSize: bounds of the size, in bytes or with a unit, e.g. '10MB'
+// - from, to: first and last day the item was modified on, e.g. '2023-01-31'
+//
+// Like listings, filters are applied by /api/search to each page of results, so a page may hold fewer items than
+// maxItems while more pages follow.
+import type { ParsedUrlQuery } from 'querystring'
+
+import type { OdFolderChildren } from '../types'
+import { getExtension } from './getFileIcon'
+import { matchesListingFilters, parseTypeFilter, TypeFilter } from './listingOptions'
+
+export type SearchOptions = {
+  q: string
+  path: string
+  type: TypeFilter | null
+  ext: string[]
+  minSize: string
+  maxSize: string
+  from: string
+  to: string
+}
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  q: '',
+  path: '/',
+  type: null,
+  ext: [],
+  minSize: '',
+  maxSize: '',
+  from: '',
+  to: '',
+}
+
+const SIZE_UNITS: Record<string, number> = { '': 1, b: 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3, t: 1024 ** 4 }
+
+/**
+ * Parse a size, either in bytes or with a unit, e.g. '512', '1.5 GB' or '200k'
+ *
+ * @returns The size in bytes, or null if it cannot be read
+ */
+export function parseSize(value: string): number | null {
+  const match = value
+    .trim()
+    .toLowerCase()
+    .match(/^(\d+(?:\.\d+)?)\s*([bkmgt]?)i?b?$/)
+  return match ? Math.round(parseFloat(match[1]) * SIZE_UNITS[match[2]]) : null
+}
+
+/**
+ * Parse a day, e.g. '2023-01-31'
+ *
+ * @param end Whether to return the end of the day rather than its start
+ * @returns Milliseconds since the epoch in UTC, or null if it is not a valid day
+ */
+export function parseDay(value: string, end: boolean = false): number | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null
+  const time = Date.parse(`${value}T00:00:00Z`)
+  return isNaN(time) ? null : end ? time + 24 * 60 * 60 * 1000 - 1 : time
+}
+
+const parseExtensions = (value: unknown) =>
+  typeof value === 'string'
+    ? value
+        .split(/[\s,]+/)
+        .map(e => e.replace(/^\./, '').toLowerCase())
+        .filter(Boolean)
+    : []
+
+/**
+ * Read the search options from a query string, leaving out invalid ones
+ */
+export function parseSearchOptions(query: ParsedUrlQuery): SearchOptions {
+  const text = (key: string) => (typeof query[key] === 'string' ? (query[key] as string).trim() : '')
+  return {
+    q: text('q'),
+    path: text('path') || '/',
+    type: parseTypeFilter(query.type),
+    ext: parseExtensions(query.ext),
+    minSize: parseSize(text('minSize')) !== null ? text('minSize') : '',
+    maxSize: parseSize(text('maxSize')) !== null ? text('maxSize') : '',
+    from: parseDay(text('from')) !== null ? text('from') : '',
+    to: parseDay(text('to')) !== null ? text('to') : '',
+  }
+}
+
+/**
+ * Find the first option of a query string that is given but invalid, to reject the request with
+ *
+ * @returns Name of the query parameter, or null if they are all valid
+ */
+export function findInvalidSearchOption(query: ParsedUrlQuery): keyof SearchOptions | null {
+  const options = parseSearchOptions(query)
+  const given = (key: keyof SearchOptions) => typeof query[key] === 'string' && (query[key] as string).trim() !== ''
+  if (given('type') && !options.type) return 'type'
+  for (const key of ['minSize', 'maxSize', 'from', 'to'] as const) {
+    if (given(key) && !options[key]) return key
+  }
+  return null
+}
+
+/**
+ * Query parameters for the search options, to put in the address bar or send to /api/search. Options left at their
+ * default are omitted.
+ */
+export function toSearchQuery(options: SearchOptions): Record<string, string> {
+  return {
+    ...(options.q ? { q: options.q } : {}),
+    ...(options.path !== '/' ? { path: options.path } : {}),
+    ...(options.type ? { type: options.type } : {}),
+    ...(options.ext.length > 0 ? { ext: options.ext.join(',') } : {}),
+    ...(options.minSize ? { minSize: options.minSize } : {}),
+    ...(options.maxSize ? { maxSize: options.maxSize } : {}),
+    ...(options.from ? { from: options.from } : {}),
+    ...(options.to ? { to: options.to } : {}),
+  }
+}
+
+/**
+ * Whether a search result passes the filters. Folders are left out when looking for a type or extension of file.
+ */
+export function matchesSearchFilters(
+  item: Pick<OdFolderChildren, 'name' | 'folder' | 'video' | 'image' | 'size' | 'lastModifiedDateTime'>,
+  { type, ext, minSize, maxSize, from, to }: SearchOptions
+): boolean {
+  if ((type || ext.length > 0) && item.folder) return false
+  if (type && !matchesListingFilters(item, { type, q: '' })) return false
+  if (ext.length > 0 && !ext.includes(getExtension(item.name))) return false
+
+  const min = minSize ? parseSize(minSize) : null
+  const max = maxSize ? parseSize(maxSize) : null
+  if ((min !== null && item.size < min) || (max !== null && item.size > max)) return false
+
+  const modified = Date.parse(item.lastModifiedDateTime)
+  const start = from ? parseDay(from) : null
+  const end = to ? parseDay(to, true) : null
+  return (start === null || modified >= start) && (end === null || modified <= end)
+}
+
+/**
+ * Split a name around the words of a search, to highlight where they were found
+ *
+ * @returns Parts of the name in order, with whether each one matches a word
+ */
+export function splitSearchMatches(name: string, q: string): { text: string; match: boolean }[] {
+  const words = q
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  if (words.length === 0) return [{ text: name, match: false }]
+
+  // Splitting with a capturing group puts the matches at odd indices
+  return name
+    .split(new RegExp(`(${words.join('|')})`, 'gi'))
+    .map((text, i) => ({ text, match: i % 2 === 1 }))
+    .filter(p => p.text !== '')
+}
@@ -0,0 +1,157 @@
+import { randomBytes } from 'crypto'
+
+import type { OdShareLink } from '../types'
+import siteConfig from '../../config/site.config'
+import { getKVStore } from './kvStore'
+import { hashPassword, verifyPassword } from './userStore'
+
+// A share link as stored in the KV store
+type StoredShareLink = Omit<OdShareLink, 'hasPassword'> & {
+  passwordHash?: string
+  createdBySso?: boolean
+  unlockedRoute?: string
+}
+
+// How the creator of a link accessed the shared item: whether they signed in with single sign-on, and the protected
+// route they opened with its password rather than with their account, if any. Links are only served as long as the
+// creator keeps this access, see /api/share/[id].
+export type ShareLinkCreator = { name: string; sso: boolean; unlockedRoute: string | null }
+
+// Share links may be valid for at most 90 days
+export const SHARE_LINK_MAX_AGE = 90 * 24 * 60 * 60
+
+const shareKey = (id: string) => `${siteConfig.kvPrefix}share:${id}`
+// Downloads are counted in their own key, incremented atomically by concurrent downloads
+const downloadsKey = (id: string) => `${siteConfig.kvPrefix}share_downloads:${id}`
+const sharesIndexKey = `${siteConfig.kvPrefix}shares`
+
+// Strip the password hash, so the link can be sent to clients
+function toShareLink({ passwordHash, createdBySso, unlockedRoute, ...link }: StoredShareLink): OdShareLink {
+  return { ...link, hasPassword: !!passwordHash }
+}
+
+async function getStoredShareLink(id: string): Promise<StoredShareLink | null> {
+  const value = await getKVStore().get(shareKey(id))
+  if (value === null) return null
+
+  const link: StoredShareLink = JSON.parse(value)
+  // The KV entry expires with the link, this only guards against stores rounding the expiry
+  if (link.expiresAt <= Date.now()) return null
+
+  // Refused downloads are counted as well, so the count is capped to the limit
+  const downloads = Number((await getKVStore().get(downloadsKey(id))) ?? link.downloads)
+  return { ...link, downloads: link.maxDownloads !== null ? Math.min(downloads, link.maxDownloads) : downloads }
+}
+
+async function readIndex(): Promise<string[]> {
+  const value = await getKVStore().get(sharesIndexKey)
+  return value ? JSON.parse(value) : []
+}
+
+/**
+ * Create a share link for a file or folder
+ *
+ * @param link Path of the shared item (sanitised, not URL encoded), its name and type
+ * @param creator The user creating the link and how they accessed the item
+ * @param options Lifetime in seconds, optional limit of downloads and optional password of the link
+ * @returns The created link
+ */
+export async function createShareLink(
+  { path, name, isFolder }: Pick<OdShareLink, 'path' | 'name' | 'isFolder'>,
+  creator: ShareLinkCreator,
+  { expiresIn, maxDownloads, password }: { expiresIn: number; maxDownloads?: number; password?: string }
+): Promise<OdShareLink> {
+  const now = Date.now()
+  const link: StoredShareLink = {
+    id: randomBytes(16).toString('base64url'),
+    path,
+    name,
+    isFolder,
+    createdBy: creator.name,
+    createdAt: now,
+    expiresAt: now + expiresIn * 1000,
+    maxDownloads: maxDownloads ?? null,
+    downloads: 0,
+    ...(password ? { passwordHash: await hashPassword(password) } : {}),
+    ...(creator.sso ? { createdBySso: true } : {}),
+    ...(creator.unlockedRoute ? { unlockedRoute: creator.unlockedRoute } : {}),
+  }
+  await getKVStore().set(shareKey(link.id), JSON.stringify(link), expiresIn)
+  await getKVStore().set(downloadsKey(link.id), '0', expiresIn)
+  await getKVStore().set(sharesIndexKey, JSON.stringify([...(await readIndex()), link.id]))
+  return toShareLink(link)
+}
+
+/**
+ * Find an active share link
+ *
+ * @returns The link, or null if it does not exist, expired or was revoked
+ */
+export async function getShareLink(id: string): Promise<OdShareLink | null> {
+  const link = await getStoredShareLink(id)
+  return link ? toShareLink(link) : null
+}
+
+/**
+ * Find how the creator of an active share link accessed the shared item
+ *
+ * @returns The creator, or null if the link does not exist, expired or was revoked
+ */
+export async function getShareLinkCreator(id: string): Promise<ShareLinkCreator | null> {
+  const link = await getStoredShareLink(id)
+  return link ? { name: link.createdBy, sso: !!link.createdBySso, unlockedRoute: link.unlockedRoute ?? null } : null
+}
+
+/**
+ * List active share links, dropping expired links from the index along the way
+ *
+ * @param createdBy Only list the links created by this user, all links if not specified
+ */
+export async function listShareLinks(createdBy?: string): Promise<OdShareLink[]> {
+  const ids = await readIndex()
+  const links = await Promise.all(ids.map(getStoredShareLink))
+
+  const activeIds = ids.filter((_, i) => links[i] !== null)
+  if (activeIds.length !== ids.length) {
+    await getKVStore().set(sharesIndexKey, JSON.stringify(activeIds))
+  }
+
+  return links
+    .filter((l): l is StoredShareLink => l !== null && (createdBy === undefined || l.createdBy === createdBy))
+    .map(toShareLink)
+}
+
+export async function revokeShareLink(id: string): Promise<void> {
+  await getKVStore().del(shareKey(id))
+  await getKVStore().del(downloadsKey(id))
+  await getKVStore().set(sharesIndexKey, JSON.stringify((await readIndex()).filter(i => i !== id)))
+}
+
+/**
+ * Check the password of a share link
+ */
+export async function verifyShareLinkPassword(id: string, password: string): Promise<boolean> {
+  const link = await getStoredShareLink(id)
+  return !!link?.passwordHash && (await verifyPassword(password, link.passwordHash))
+}
+
+/**
+ * Count a download of a share link, if it has downloads left
+ *
+ * @returns Whether the download is allowed
+ */
+export async function recordShareLinkDownload(id: string): Promise<boolean> {
+  const link = await getStoredShareLink(id)
+  if (!link || (link.maxDownloads !== null && link.downloads >= link.maxDownloads)) {
+    return false
+  }
+
+  // Links created before downloads had their own key start from the count stored in the link, with its lifetime
+  const ttl = await getKVStore().ttl(shareKey(id))
+  const expiry = ttl > 0 ? ttl : Math.ceil((link.expiresAt - Date.now()) / 1000)
+  await getKVStore().setIfAbsent(downloadsKey(id), String(link.downloads), expiry)
+
+  // Compare the count returned by the increment, as concurrent downloads may have happened since the link was read
+  const downloads = await getKVStore().incr(downloadsKey(id))
+  return link.maxDownloads === null || downloads <= link.maxDownloads
+}
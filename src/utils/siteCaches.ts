@@ -0,0 +1,36 @@
+import siteConfig from '../../config/site.config'
+import { getKVStore } from './kvStore'
+
+// Caches of configuration files read from OneDrive, by the prefix of their KV store keys. Purging them makes changes
+// to these files apply right away, rather than once the entries expire.
+const SITE_CACHES = {
+  dotPassword: 'dot_password:',
+  folderProtection: 'folder_protection:',
+  odignore: 'odignore:',
+}
+
+export type SiteCacheName = keyof typeof SITE_CACHES
+
+/**
+ * Count the entries of the configuration file caches. This walks the whole KV store, so it is only for admins.
+ */
+export async function getCacheStatus(): Promise<Record<SiteCacheName, number>> {
+  const kv = getKVStore()
+  const names = Object.keys(SITE_CACHES) as SiteCacheName[]
+  const counts = await Promise.all(names.map(name => kv.keys(`${siteConfig.kvPrefix}${SITE_CACHES[name]}`)))
+  return Object.fromEntries(names.map((name, i) => [name, counts[i].length])) as Record<SiteCacheName, number>
+}
+
+/**
+ * Drop every entry of the configuration file caches
+ *
+ * @returns Number of entries dropped
+ */
+export async function purgeCaches(): Promise<number> {
+  const kv = getKVStore()
+  const keys = (
+    await Promise.all(Object.values(SITE_CACHES).map(prefix => kv.keys(`${siteConfig.kvPrefix}${prefix}`)))
+  ).flat()
+  await Promise.all(keys.map(key => kv.del(key)))
+  return keys.length
+}
@@ -0,0 +1,107 @@
+import type { OdSiteSettings } from '../types'
+import siteConfig from '../../config/site.config'
+import { getKVStore } from './kvStore'
+
+const siteSettingsKey = `${siteConfig.kvPrefix}site_settings`
+
+// Settings are read on most requests, so each server instance keeps them for a few seconds. Changes made through
+// another instance apply once this runs out.
+const SITE_SETTINGS_CACHE_AGE = 10 * 1000
+
+// The upstream OneDrive API lists at most 200 items per page
+const MAX_ITEMS_LIMIT = 200
+
+let cached: { settings: OdSiteSettings; expiresAt: number } | null = null
+
+/**
+ * The settings as configured in site.config.js, which apply until an admin saves other ones
+ */
+export function getDefaultSiteSettings(): OdSiteSettings {
+  return {
+    title: siteConfig.title,
+    footer: siteConfig.footer,
+    email: siteConfig.email,
+    links: siteConfig.links,
+    protectedRoutes: siteConfig.protectedRoutes,
+    maxItems: siteConfig.maxItems,
+  }
+}
+
+/**
+ * Get the current site settings: the ones saved by an admin, over the defaults of site.config.js
+ */
+export async function getSiteSettings(): Promise<OdSiteSettings> {
+  if (cached && cached.expiresAt > Date.now()) return cached.settings
+
+  const value = await getKVStore().get(siteSettingsKey)
+  // Settings added to site.config.js after the last save keep their default
+  const settings = { ...getDefaultSiteSettings(), ...(value ? JSON.parse(value) : {}) }
+  cached = { settings, expiresAt: Date.now() + SITE_SETTINGS_CACHE_AGE }
+  return settings
+}
+
+/**
+ * Save the site settings, or go back to the defaults of site.config.js
+ *
+ * @param settings Settings checked with validateSiteSettings, null to reset them
+ */
+export async function saveSiteSettings(settings: OdSiteSettings | null): Promise<void> {
+  if (settings) {
+    await getKVStore().set(siteSettingsKey, JSON.stringify(settings))
+  } else {
+    await getKVStore().del(siteSettingsKey)
+  }
+  cached = null
+}
+
+const isString = (value: unknown, maxLength: number): value is string =>
+  typeof value === 'string' && value.length <= maxLength
+const isLink = (value: string) => /^(https?:\/\/|mailto:)\S+$/.test(value)
+
+/**
+ * Check site settings sent by an admin
+ *
+ * @param input Request body
+ * @returns The settings, trimmed, or an error message
+ */
+export function validateSiteSettings(input: any): { settings: OdSiteSettings } | { error: string } {
+  const { title, footer, email, links, protectedRoutes, maxItems } = input ?? {}
+
+  if (!isString(title, 100) || title.trim() === '') {
+    return { error: 'Title invalid.' }
+  }
+  if (!isString(footer, 5000)) {
+    return { error: 'Footer invalid.' }
+  }
+  if (!isString(email, 200) || (email.trim() !== '' && !isLink(email.trim()))) {
+    return { error: 'Email invalid, use a mailto: or http(s) link.' }
+  }
+  if (
+    !Array.isArray(links) ||
+    links.length > 20 ||
+    !links.every(l => isString(l?.name, 50) && l.name.trim() !== '' && isString(l?.link, 500) && isLink(l.link.trim()))
+  ) {
+    return { error: 'Links invalid, each needs a name and a mailto: or http(s) link.' }
+  }
+  if (
+    !Array.isArray(protectedRoutes) ||
+    protectedRoutes.length > 100 ||
+    !protectedRoutes.every(r => isString(r, 500) && /^!?(\/|\*\*)/.test(r.trim()))
+  ) {
+    return { error: 'Protected routes invalid, each must start with a slash or **.' }
+  }
+  if (!Number.isInteger(maxItems) || maxItems < 1 || maxItems > MAX_ITEMS_LIMIT) {
+    return { error: `Max items invalid, use a number from 1 to ${MAX_ITEMS_LIMIT}.` }
+  }
+
+  return {
+    settings: {
+      title: title.trim(),
+      footer,
+      email: email.trim(),
+      links: links.map(l => ({ name: l.name.trim(), link: l.link.trim() })),
+      protectedRoutes: protectedRoutes.map(r => r.trim()),
+      maxItems,
+    },
+  }
+}
@@ -0,0 +1,91 @@
+import { createCipheriv, createDecipheriv, createHash, hkdfSync, randomBytes } from 'crypto'
+
+// Encrypted values are stored as 'enc:v1:<key id>:<iv>:<auth tag>:<ciphertext>', with each part base64url encoded
+const ENCRYPTED_PREFIX = 'enc:v1:'
+
+type EncryptionKey = { id: string; key: Buffer }
+
+/**
+ * Read the encryption secrets of this deployment from TOKEN_ENCRYPTION_KEY. Multiple secrets can be given
+ * separated by commas for key rotation: the first one encrypts new values, the others are only used to
+ * decrypt values stored before the rotation.
+ *
+ * @returns Derived AES-256 keys, the current key first
+ */
+function getEncryptionKeys(): EncryptionKey[] {
+  return (process.env.TOKEN_ENCRYPTION_KEY ?? '')
+    .split(',')
+    .map(secret => secret.trim())
+    .filter(secret => secret !== '')
+    .map(secret => ({
+      // Key id only identifies which secret was used, it does not reveal anything about the secret itself
+      id: createHash('sha256').update(secret).digest('base64url').substring(0, 8),
+      key: Buffer.from(hkdfSync('sha256', secret, '', 'onedrive-vercel-index token encryption', 32)),
+    }))
+}
+
+// Error returned where tokens would be stored while no secret is set to encrypt them
+export const TOKEN_ENCRYPTION_KEY_MISSING =
+  'Tokens cannot be stored: set the env variable TOKEN_ENCRYPTION_KEY to a long random string (openssl rand -hex 32).'
+
+/**
+ * Whether a server secret is configured. Without TOKEN_ENCRYPTION_KEY, no token is stored.
+ */
+export function isTokenEncryptionEnabled(): boolean {
+  return getEncryptionKeys().length > 0
+}
+
+/**
+ * Encrypt a token with AES-256-GCM using the current key in TOKEN_ENCRYPTION_KEY
+ *
+ * @param token Plaintext token
+ * @returns Encrypted token
+ * @throws If no key is configured, as tokens are never stored in plaintext
+ */
+export function encryptToken(token: string): string {
+  const [currentKey] = getEncryptionKeys()
+  if (!currentKey) throw new Error(TOKEN_ENCRYPTION_KEY_MISSING)
+
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', currentKey.key, iv)
+  const ciphertext = Buffer.concat([cipher.update(token, 'utf8'), cipher.final()])
+  const authTag = cipher.getAuthTag()
+
+  return (
+    ENCRYPTED_PREFIX +
+    [currentKey.id, iv.toString('base64url'), authTag.toString('base64url'), ciphertext.toString('base64url')].join(':')
+  )
+}
+
+/**
+ * Decrypt a stored token, whether it was encrypted with the current key, a previous key, or not at all
+ *
+ * @param stored Value read from the KV store
+ * @returns The plaintext token (null if it cannot be decrypted with any configured key), and whether the
+ * value should be written back encrypted with the current key
+ */
+export function decryptToken(stored: string): { token: string | null; stale: boolean } {
+  const keys = getEncryptionKeys()
+
+  // Plaintext value stored before a secret was configured
+  if (!stored.startsWith(ENCRYPTED_PREFIX)) {
+    return { token: stored, stale: keys.length > 0 }
+  }
+
+  const [keyId, iv, authTag, ciphertext] = stored.substring(ENCRYPTED_PREFIX.length).split(':')
+  const keyIndex = keys.findIndex(k => k.id === keyId)
+  if (keyIndex === -1) {
+    console.error(`Token was encrypted with an unknown key (${keyId}), check TOKEN_ENCRYPTION_KEY.`)
+    return { token: null, stale: false }
+  }
+
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', keys[keyIndex].key, Buffer.from(iv, 'base64url'))
+    decipher.setAuthTag(Buffer.from(authTag, 'base64url'))
+    const token = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()])
+    return { token: token.toString('utf8'), stale: keyIndex !== 0 }
+  } catch (error) {
+    console.error('Failed to decrypt stored token, it may have been tampered with.')
+    return { token: null, stale: false }
+  }
+}
@@ -0,0 +1,69 @@
+import axios from 'axios'
+
+import type { OdUploadProgress } from '../types'
+
+// Chunks are multiples of 320 KiB as required by OneDrive, small enough for the request body limit of Vercel
+const CHUNK_SIZE = 10 * 320 * 1024
+
+// Attempts at sending a chunk before giving up, waiting twice as long after each failure
+const MAX_RETRIES = 5
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Upload a file in chunks through /api/upload. After a network error, the upload resumes from the last chunk the
+ * upload session received. Uploads that did not finish, e.g. after closing the page, are resumed when the same file
+ * is uploaded to the same place again.
+ *
+ * @param file File to upload
+ * @param resumeKey Local storage key of the upload, identifying the file and where it is uploaded to
+ * @param startUpload Start the upload, e.g. by posting to /api/upload, returning the id of the upload session
+ * @param onProgress Called with the number of bytes uploaded so far
+ */
+export async function uploadFile(
+  file: File,
+  resumeKey: string,
+  startUpload: () => Promise<OdUploadProgress>,
+  onProgress: (uploaded: number) => void
+): Promise<void> {
+  const key = `upload:${resumeKey}:${file.size}:${file.lastModified}`
+  const getProgress = async (id: string): Promise<OdUploadProgress | null> =>
+    axios
+      .get(`/api/upload/${id}/`)
+      .then(r => r.data)
+      .catch(() => null)
+
+  const savedId = localStorage.getItem(key)
+  let progress: OdUploadProgress | null = savedId ? await getProgress(savedId) : null
+  if (!progress) {
+    progress = await startUpload()
+    localStorage.setItem(key, progress.id)
+  }
+
+  let retries = 0
+  while (!progress.done) {
+    onProgress(progress.offset)
+    const { id, offset } = progress
+    const end = Math.min(offset + CHUNK_SIZE, file.size)
+    try {
+      const { data } = await axios.put(`/api/upload/${id}/`, file.slice(offset, end), {
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Content-Range': `bytes ${offset}-${end - 1}/${file.size}`,
+        },
+      })
+      progress = data as OdUploadProgress
+      retries = 0
+    } catch (error: any) {
+      // Upload sessions expire, and an upload that failed too often is left to be resumed later
+      if (error?.response?.status === 404) localStorage.removeItem(key)
+      if (error?.response?.status === 404 || ++retries > MAX_RETRIES) throw error
+
+      // The chunk may have been received before the connection dropped, so ask where to continue
+      await sleep(1000 * 2 ** retries)
+      progress = (await getProgress(id)) ?? progress
+    }
+  }
+  localStorage.removeItem(key)
+  onProgress(file.size)
+}
@@ -0,0 +1,112 @@
+import { randomBytes } from 'crypto'
+
+import type { OdUploadLimits, OdUploadRoute, OdUserInfo } from '../types'
+import siteConfig from '../../config/site.config'
+import { isAccessPolicyGranted, isConfigFile } from './folderProtection'
+import { getKVStore } from './kvStore'
+import { matchRoute } from './routeMatcher'
+import { ADMIN_ROLE } from './userStore'
+
+// An upload in progress: the file being uploaded, the user uploading it, and the upload URL of the Graph upload
+// session, which is never sent to clients so that chunks go through /api/upload and are checked there
+export type UploadSession = {
+  id: string
+  // Sanitised absolute path of the file, not URL encoded
+  path: string
+  size: number
+  createdBy: string
+  // File request the file is uploaded through, by an anonymous visitor
+  requestId?: string
+  uploadUrl: string
+  expiresAt: number
+}
+
+// Chunks are sent through serverless functions, whose request bodies Vercel limits to 4.5MB. Graph requires chunks to
+// be multiples of 320 KiB, except for the last one.
+export const UPLOAD_CHUNK_MAX_SIZE = 12 * 320 * 1024
+
+const uploadKey = (id: string) => `${siteConfig.kvPrefix}upload:${id}`
+
+/**
+ * Find the upload route of a folder: the entry of siteConfig.uploadRoutes whose pattern matches the deepest folder
+ * above it. A more specific entry overrides the less specific ones, even if it does not grant the user.
+ *
+ * @param path Sanitised absolute path of the folder, not URL encoded
+ * @param user Signed in user
+ * @returns The upload route if the user may upload into the folder, otherwise null
+ */
+export function findUploadRoute(path: string, user: OdUserInfo): OdUploadRoute | null {
+  let best: { route: OdUploadRoute; folder: string } | null = null
+  for (const route of (siteConfig.uploadRoutes ?? []) as OdUploadRoute[]) {
+    const folder = matchRoute(path, [route.route])
+    if (folder !== '' && (!best || folder.length > best.folder.length)) {
+      best = { route, folder }
+    }
+  }
+  if (!best) return null
+  return user.roles.includes(ADMIN_ROLE) || isAccessPolicyGranted(best.route, user) ? best.route : null
+}
+
+export function getUploadLimits({ maxSize, extensions }: OdUploadRoute): OdUploadLimits {
+  return {
+    maxSize: maxSize ?? null,
+    extensions: extensions ? extensions.map(e => e.toLowerCase().replace(/^\./, '')) : null,
+  }
+}
+
+/**
+ * Check the name of an uploaded file, which must be a plain file name and cannot be a configuration file
+ *
+ * @returns Error message, or null if the name can be used
+ */
+export function checkUploadName(name: unknown): string | null {
+  if (typeof name !== 'string' || name === '' || name === '.' || name === '..' || /[/\\]/.test(name)) {
+    return 'File name invalid.'
+  }
+  return isConfigFile(name) ? 'File name not allowed.' : null
+}
+
+/**
+ * Check a file against the limits of an upload route
+ *
+ * @returns Error message, or null if the file can be uploaded
+ */
+export function checkUploadLimits({ maxSize, extensions }: OdUploadLimits, name: string, size: number): string | null {
+  if (maxSize !== null && size > maxSize) {
+    return 'File too large.'
+  }
+  const extension = name.includes('.') ? name.split('.').pop()!.toLowerCase() : ''
+  if (extensions !== null && !extensions.includes(extension)) {
+    return 'File type not allowed.'
+  }
+  return null
+}
+
+/**
+ * Store a Graph upload session, until it expires
+ *
+ * @param session The file, its uploader, and the upload URL and expiry of the Graph upload session
+ * @returns The stored session, identified by a random id
+ */
+export async function createUploadSession(session: Omit<UploadSession, 'id'>): Promise<UploadSession> {
+  const stored = { id: randomBytes(16).toString('base64url'), ...session }
+  const expiresIn = Math.max(Math.ceil((session.expiresAt - Date.now()) / 1000), 1)
+  await getKVStore().set(uploadKey(stored.id), JSON.stringify(stored), expiresIn)
+  return stored
+}
+
+export async function getUploadSession(id: string): Promise<UploadSession | null> {
+  const value = await getKVStore().get(uploadKey(id))
+  return value ? JSON.parse(value) : null
+}
+
+export async function deleteUploadSession(id: string): Promise<void> {
+  await getKVStore().del(uploadKey(id))
+}
+
+/**
+ * Read the offset the next chunk starts at from the nextExpectedRanges of a Graph upload session, e.g. ['26-']
+ */
+export function getNextExpectedOffset(nextExpectedRanges: string[] | undefined): number {
+  return parseInt(nextExpectedRanges?.[0]?.split('-')[0] ?? '0', 10) || 0
+}
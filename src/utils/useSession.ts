@@ -0,0 +1,27 @@
+import axios from 'axios'
+import useSWR from 'swr'
+
+import type { OdUserInfo } from '../types'
+
+/**
+ * Signed in user of the current session, fetched from /api/auth/me
+ * @returns The user (null for anonymous visitors), whether the user is an admin, whether user accounts and single
+ * sign-on are enabled, and a callback to refresh
+ */
+export default function useSession() {
+  const { data, mutate } = useSWR<{ user: OdUserInfo | null; accountsEnabled: boolean; ssoEnabled: boolean }>(
+    '/api/auth/me',
+    async (url: string) => (await axios.get(url)).data,
+    { revalidateOnFocus: false }
+  )
+
+  return {
+    user: data?.user ?? null,
+    // Same as ADMIN_ROLE, which is kept out of the client bundle with the rest of userStore
+    isAdmin: !!data?.user?.roles.includes('admin'),
+    accountsEnabled: data?.accountsEnabled ?? false,
+    ssoEnabled: data?.ssoEnabled ?? false,
+    loaded: !!data,
+    mutate,
+  }
+}
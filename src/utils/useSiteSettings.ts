@@ -0,0 +1,29 @@
+import axios from 'axios'
+import useSWR from 'swr'
+
+import type { OdSiteSettings } from '../types'
+import siteConfig from '../../config/site.config'
+
+// Same as getDefaultSiteSettings, which is kept out of the client bundle with the rest of siteSettings
+const defaultSettings: OdSiteSettings = {
+  title: siteConfig.title,
+  footer: siteConfig.footer,
+  email: siteConfig.email,
+  links: siteConfig.links,
+  protectedRoutes: siteConfig.protectedRoutes,
+  maxItems: siteConfig.maxItems,
+}
+
+/**
+ * Site settings changed by admins without a redeploy, fetched from /api/settings
+ * @returns The settings, site.config.js until they are loaded, and a callback to refresh
+ */
+export default function useSiteSettings() {
+  const { data, mutate } = useSWR<OdSiteSettings>(
+    '/api/settings/',
+    async (url: string) => (await axios.get(url)).data,
+    { revalidateOnFocus: false }
+  )
+
+  return { settings: data ?? defaultSettings, loaded: !!data, mutate }
+}
@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+/**
+ * Render only the rows of a long list that are on screen, for folders with thousands of items. The list scrolls with
+ * the page, and its rows are assumed to be of the same height, measured from the first row rendered.
+ *
+ * @param rowCount Number of rows in the list
+ * @param estimatedHeight Height of a row in pixels, until one is measured
+ * @param overscan Rows rendered above and below the screen, so that scrolling does not show blank space
+ * @returns Refs for the list and its first row, the rows to render and the space to leave for the others
+ */
+function useVirtualRows(rowCount: number, estimatedHeight: number, overscan: number = 10) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [rowHeight, setRowHeight] = useState(estimatedHeight)
+  const [range, setRange] = useState({ start: 0, end: Math.min(rowCount, overscan * 3) })
+
+  const measureRef = useCallback((el: HTMLElement | null) => {
+    if (el && el.offsetHeight > 0) setRowHeight(el.offsetHeight)
+  }, [])
+
+  useEffect(() => {
+    const update = () => {
+      if (!containerRef.current) return
+      // The top of the list is above the screen once scrolled past
+      const first = Math.max(0, Math.floor(-containerRef.current.getBoundingClientRect().top / rowHeight))
+      const start = Math.min(rowCount, Math.max(0, first - overscan))
+      const end = Math.min(rowCount, first + Math.ceil(window.innerHeight / rowHeight) + overscan)
+      setRange(r => (r.start === start && r.end === end ? r : { start, end }))
+    }
+
+    update()
+    window.addEventListener('scroll', update, { passive: true })
+    window.addEventListener('resize', update)
+    return () => {
+      window.removeEventListener('scroll', update)
+      window.removeEventListener('resize', update)
+    }
+  }, [rowCount, rowHeight, overscan])
+
+  const { start, end } = range
+  return {
+    containerRef,
+    measureRef,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: Math.max(0, rowCount - end) * rowHeight,
+  }
+}
+
+export default useVirtualRows
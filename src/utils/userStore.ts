@@ -0,0 +1,304 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto'
+
+import type { NextApiRequest } from 'next'
+import type { OdAccessRule, OdRole, OdUserInfo } from '../types'
+import siteConfig from '../../config/site.config'
+import { getKVStore } from './kvStore'
+import { evaluateAccessRules } from './accessControl'
+
+// A user account as stored in the KV store
+export type OdUser = OdUserInfo & { passwordHash: string }
+
+// Role granting access to everything, including user management
+export const ADMIN_ROLE = 'admin'
+
+// Sessions expire after a week, signing in again is required afterwards
+export const SESSION_MAX_AGE = 7 * 24 * 60 * 60
+
+// Name of the HttpOnly cookie holding the session id
+export const SESSION_COOKIE = 'odvi-session'
+
+const userKey = (name: string) => `${siteConfig.kvPrefix}user:${name.toLowerCase()}`
+const usersIndexKey = `${siteConfig.kvPrefix}users`
+const roleKey = (name: string) => `${siteConfig.kvPrefix}role:${name.toLowerCase()}`
+const rolesIndexKey = `${siteConfig.kvPrefix}roles`
+const sessionKey = (id: string) => `${siteConfig.kvPrefix}session:${id}`
+
+function scryptAsync(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, 32, (err, key) => (err ? reject(err) : resolve(key)))
+  })
+}
+
+/**
+ * Hash a password with scrypt and a random salt
+ *
+ * @param password Plaintext password
+ * @returns Hash in the form 'scrypt$<salt>$<hash>'
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16)
+  const hash = await scryptAsync(password, salt)
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`
+}
+
+/**
+ * Check a password against a hash created with hashPassword, in constant time
+ */
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, salt, hash] = passwordHash.split('$')
+  if (scheme !== 'scrypt' || !salt || !hash) return false
+
+  const expected = Buffer.from(hash, 'base64')
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'))
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+/**
+ * The built-in admin account, enabled by setting the env variable 'ADMIN_PASSWORD'. It is used to create the
+ * other accounts, and cannot be changed from the user management API.
+ */
+function getBuiltinAdmin(): (OdUserInfo & { password: string }) | null {
+  const password = process.env.ADMIN_PASSWORD
+  if (!password) return null
+  return { name: process.env.ADMIN_USERNAME || 'admin', roles: [ADMIN_ROLE], rules: [], password }
+}
+
+export function isBuiltinAdmin(name: string): boolean {
+  return getBuiltinAdmin()?.name.toLowerCase() === name.toLowerCase()
+}
+
+async function readJson<T>(key: string, fallback: T): Promise<T> {
+  const value = await getKVStore().get(key)
+  if (value === null) return fallback
+  try {
+    return JSON.parse(value)
+  } catch (error) {
+    console.error(`Invalid JSON stored at ${key}.`)
+    return fallback
+  }
+}
+
+// Strip the password hash, so the account can be sent to clients
+export function toUserInfo({ name, roles, rules, disabled, sso, linkSso }: OdUserInfo): OdUserInfo {
+  return {
+    name,
+    roles,
+    rules,
+    ...(disabled ? { disabled } : {}),
+    ...(sso ? { sso } : {}),
+    ...(linkSso ? { linkSso } : {}),
+  }
+}
+
+export async function getUser(name: string): Promise<OdUser | null> {
+  return readJson<OdUser | null>(userKey(name), null)
+}
+
+export async function listUsers(): Promise<OdUserInfo[]> {
+  const names = await readJson<string[]>(usersIndexKey, [])
+  const users = await Promise.all(names.map(getUser))
+  return users.filter((u): u is OdUser => u !== null).map(toUserInfo)
+}
+
+/**
+ * Create or update a user account. The password is only changed if one is given.
+ *
+ * @returns The stored account, or null if a new account is created without a password
+ */
+export async function saveUser({
+  name,
+  password,
+  roles,
+  rules,
+  disabled,
+  linkSso,
+}: OdUserInfo & { password?: string }): Promise<OdUserInfo | null> {
+  const existing = await getUser(name)
+  const passwordHash = password ? await hashPassword(password) : existing?.passwordHash
+  if (!passwordHash) return null
+
+  const user: OdUser = {
+    name,
+    roles,
+    rules,
+    ...(disabled ? { disabled } : {}),
+    ...(linkSso ? { linkSso } : {}),
+    passwordHash,
+  }
+  await getKVStore().set(userKey(name), JSON.stringify(user))
+
+  const names = await readJson<string[]>(usersIndexKey, [])
+  if (!names.some(n => n.toLowerCase() === name.toLowerCase())) {
+    await getKVStore().set(usersIndexKey, JSON.stringify([...names, name]))
+  }
+  return toUserInfo(user)
+}
+
+/**
+ * Delete a user account. Its sessions are resolved against the account on every request, so they stop
+ * working right away.
+ */
+export async function deleteUser(name: string): Promise<void> {
+  await getKVStore().del(userKey(name))
+  const names = await readJson<string[]>(usersIndexKey, [])
+  await getKVStore().set(usersIndexKey, JSON.stringify(names.filter(n => n.toLowerCase() !== name.toLowerCase())))
+}
+
+export async function getRole(name: string): Promise<OdRole | null> {
+  return readJson<OdRole | null>(roleKey(name), null)
+}
+
+export async function listRoles(): Promise<OdRole[]> {
+  const names = await readJson<string[]>(rolesIndexKey, [])
+  const roles = await Promise.all(names.map(getRole))
+  return roles.filter((r): r is OdRole => r !== null)
+}
+
+export async function saveRole(role: OdRole): Promise<void> {
+  await getKVStore().set(roleKey(role.name), JSON.stringify(role))
+
+  const names = await readJson<string[]>(rolesIndexKey, [])
+  if (!names.some(n => n.toLowerCase() === role.name.toLowerCase())) {
+    await getKVStore().set(rolesIndexKey, JSON.stringify([...names, role.name]))
+  }
+}
+
+export async function deleteRole(name: string): Promise<void> {
+  await getKVStore().del(roleKey(name))
+  const names = await readJson<string[]>(rolesIndexKey, [])
+  await getKVStore().set(rolesIndexKey, JSON.stringify(names.filter(n => n.toLowerCase() !== name.toLowerCase())))
+}
+
+/**
+ * Whether any user account can sign in, used to hide the sign in button on sites that do not use accounts
+ */
+export async function isUserAccountsEnabled(): Promise<boolean> {
+  return getBuiltinAdmin() !== null || (await readJson<string[]>(usersIndexKey, [])).length > 0
+}
+
+/**
+ * Check the credentials of a user account
+ *
+ * @returns The account if the credentials are valid and the account is not disabled, otherwise null
+ */
+export async function authenticateUser(name: string, password: string): Promise<OdUserInfo | null> {
+  const admin = getBuiltinAdmin()
+  if (admin && admin.name.toLowerCase() === name.toLowerCase()) {
+    const expected = Buffer.from(admin.password)
+    const actual = Buffer.from(password)
+    return expected.length === actual.length && timingSafeEqual(expected, actual) ? toUserInfo(admin) : null
+  }
+
+  const user = await getUser(name)
+  if (!user || user.disabled || !(await verifyPassword(password, user.passwordHash))) {
+    return null
+  }
+  return toUserInfo(user)
+}
+
+/**
+ * Create a session for a signed in user
+ *
+ * @param name Name of the account, or email address for users signed in with single sign-on
+ * @param sso Whether the user signed in through the OpenID Connect identity provider
+ * @returns Random session id, to be stored in the session cookie
+ */
+export async function createSession(name: string, sso: boolean = false): Promise<string> {
+  const id = randomBytes(32).toString('base64url')
+  await getKVStore().set(
+    sessionKey(id),
+    JSON.stringify({ user: name, ...(sso ? { sso } : {}), createdAt: Date.now() }),
+    SESSION_MAX_AGE
+  )
+  return id
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await getKVStore().del(sessionKey(id))
+}
+
+/**
+ * Build the Set-Cookie header value for the session cookie
+ *
+ * @param id Session id, empty to clear the cookie
+ */
+export function serializeSessionCookie(id: string): string {
+  const maxAge = id ? SESSION_MAX_AGE : 0
+  const secure = process.env.NODE_ENV === 'production' ? '; Secure' : ''
+  return `${SESSION_COOKIE}=${id}; Path=/; Max-Age=${maxAge}; HttpOnly; SameSite=Lax${secure}`
+}
+
+/**
+ * Resolve a session to the account it belongs to
+ *
+ * @param id Session id from the session cookie
+ * @returns The account, or null if the session expired, or the account was deleted or disabled since
+ */
+export async function getSessionUser(id: string): Promise<OdUserInfo | null> {
+  const session = await readJson<{ user: string; sso?: boolean } | null>(sessionKey(id), null)
+  return session ? resolveUser(session.user, !!session.sso) : null
+}
+
+/**
+ * Resolve a user by name, as they would be signed in now, e.g. to check the access of the creator of a share link
+ *
+ * @param name Name of the account, or email address for users signed in with single sign-on
+ * @param sso Whether the user signs in through the OpenID Connect identity provider
+ * @returns The account, or null if it was deleted or disabled
+ */
+export async function resolveUser(name: string, sso: boolean): Promise<OdUserInfo | null> {
+  // Users signed in with single sign-on are named after their email address. They only get the roles and rules of the
+  // account of that name if an admin linked it to single sign-on, and cannot sign in while an account not linked
+  // holds the name, so that an identity provider cannot take over local accounts.
+  if (sso) {
+    if (isBuiltinAdmin(name)) return null
+    const account = await getUser(name)
+    if (account && (!account.linkSso || account.disabled)) return null
+    return { name, roles: account?.roles ?? [], rules: account?.rules ?? [], sso: true }
+  }
+
+  const admin = getBuiltinAdmin()
+  if (admin && admin.name.toLowerCase() === name.toLowerCase()) {
+    return toUserInfo(admin)
+  }
+
+  const user = await getUser(name)
+  return user && !user.disabled ? toUserInfo(user) : null
+}
+
+/**
+ * Collect the access rules of a user and of the roles it has
+ *
+ * @param user Signed in user
+ * @returns Rules of the user, or null for admins who may access everything
+ */
+export async function getUserAccessRules(user: OdUserInfo): Promise<OdAccessRule[] | null> {
+  if (user.roles.includes(ADMIN_ROLE)) return null
+
+  const roles = await Promise.all(user.roles.map(getRole))
+  return user.rules.concat(...roles.map(r => r?.rules ?? []))
+}
+
+/**
+ * Decide whether a user may access a path, based on its own rules and the rules of its roles
+ *
+ * @param user Signed in user
+ * @param path Sanitised absolute path, not URL encoded
+ * @returns 'allow' or 'deny', or null if no rule matches the path
+ */
+export async function evaluateUserAccess(user: OdUserInfo, path: string): Promise<'allow' | 'deny' | null> {
+  const rules = await getUserAccessRules(user)
+  return rules ? evaluateAccessRules(rules, path) : 'allow'
+}
+
+/**
+ * Get the user signed in with the session cookie of a request
+ *
+ * @param req Next.js request object
+ * @returns The signed in account, or null for anonymous visitors
+ */
+export async function getRequestUser(req: NextApiRequest): Promise<OdUserInfo | null> {
+  const id = req.cookies[SESSION_COOKIE]
+  return id ? getSessionUser(id) : null
+}
@@ -0,0 +1,84 @@
+import type { OdFolderChildren } from '../types'
+
+// WebDAV is served at /dav/, rewritten to /api/dav/ in next.config.js
+export const DAV_PREFIX = '/dav'
+
+// A driveItem as needed to describe a resource in PROPFIND responses, which only tell folders from files
+export type DavItem = Pick<OdFolderChildren, 'name' | 'size' | 'lastModifiedDateTime' | 'file'> & {
+  folder?: object
+  createdDateTime?: string
+  eTag?: string
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[c] ?? c))
+
+/**
+ * Build the href of a resource, matching the URLs Next.js does not redirect with trailingSlash enabled: a trailing
+ * slash is added unless the last component looks like a file name with an extension
+ *
+ * @param path Sanitised absolute path, not URL encoded
+ */
+export function toDavHref(path: string): string {
+  const encoded = path
+    .split('/')
+    .filter(Boolean)
+    .map(p => encodeURIComponent(p))
+    .join('/')
+  if (encoded === '') return `${DAV_PREFIX}/`
+  return /\.\w+$/.test(encoded) ? `${DAV_PREFIX}/${encoded}` : `${DAV_PREFIX}/${encoded}/`
+}
+
+/**
+ * Turn the Destination header of MOVE requests into a path on the site
+ *
+ * @returns Sanitised absolute path without trailing slash, or null if the destination is not on this WebDAV server
+ */
+export function parseDavDestination(destination: string | undefined): string | null {
+  if (!destination) return null
+  try {
+    const { pathname } = new URL(destination, 'http://localhost')
+    if (pathname !== DAV_PREFIX && !pathname.startsWith(`${DAV_PREFIX}/`)) return null
+    const segments = pathname.slice(DAV_PREFIX.length).split('/').filter(Boolean).map(decodeURIComponent)
+    return segments.some(s => s === '.' || s === '..') ? null : segments.map(s => `/${s}`).join('')
+  } catch (error) {
+    return null
+  }
+}
+
+/**
+ * Read the username and password of HTTP Basic authentication
+ */
+export function parseBasicAuth(authorization: string | undefined): { username: string; password: string } | null {
+  const match = authorization?.match(/^Basic\s+(.+)$/i)
+  if (!match) return null
+
+  const decoded = Buffer.from(match[1], 'base64').toString()
+  const separator = decoded.indexOf(':')
+  return separator === -1 ? null : { username: decoded.slice(0, separator), password: decoded.slice(separator + 1) }
+}
+
+/**
+ * Build a 207 Multi-Status body describing resources, as the response to PROPFIND. All live properties are
+ * returned whatever was asked for, which clients accept.
+ *
+ * @param resources Paths of the resources (sanitised, not URL encoded) and their driveItems
+ */
+export function buildMultistatus(resources: { path: string; item: DavItem }[]): string {
+  const responses = resources.map(({ path, item }) => {
+    const props = [
+      `<D:displayname>${escapeXml(item.name)}</D:displayname>`,
+      item.folder ? '<D:resourcetype><D:collection/></D:resourcetype>' : '<D:resourcetype/>',
+      `<D:getlastmodified>${new Date(item.lastModifiedDateTime).toUTCString()}</D:getlastmodified>`,
+      item.createdDateTime ? `<D:creationdate>${new Date(item.createdDateTime).toISOString()}</D:creationdate>` : '',
+      item.folder ? '' : `<D:getcontentlength>${item.size ?? 0}</D:getcontentlength>`,
+      item.file?.mimeType ? `<D:getcontenttype>${escapeXml(item.file.mimeType)}</D:getcontenttype>` : '',
+      item.eTag ? `<D:getetag>${escapeXml(item.eTag)}</D:getetag>` : '',
+    ].join('')
+    return (
+      `<D:response><D:href>${escapeXml(toDavHref(path))}</D:href>` +
+      `<D:propstat><D:prop>${props}</D:prop><D:status>HTTP/1.1 200 OK</D:status></D:propstat></D:response>`
+    )
+  })
+  return `<?xml version="1.0" encoding="utf-8"?>\n<D:multistatus xmlns:D="DAV:">${responses.join('')}</D:multistatus>`
+}
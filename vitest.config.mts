@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Tests keep accounts, roles and sessions in memory, and must not pick up the keys of a local deployment
+    env: {
+      KV_STORE: 'memory',
+      ADMIN_PASSWORD: 'admin-password',
+      AUTH_SECRET: 'test-secret',
+      TOKEN_ENCRYPTION_KEY: 'test-key',
+    },
+  },
+})